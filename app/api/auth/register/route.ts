@@ -5,6 +5,7 @@ import { z } from "zod";
 import { sendEmail, getVerificationEmailHtml } from "@/lib/email";
 import { verifyOTP } from "@/lib/otp";
 import crypto from "crypto";
+import { DEFAULT_CURRENCY } from "@/lib/utils";
 
 const registerSchema = z.object({
   firstName: z.string().min(1, "First name is required"),
@@ -72,7 +73,7 @@ export async function POST(request: NextRequest) {
     await prisma.userSettings.create({
       data: {
         userId: user.id,
-        currency: "SLL",
+        currency: DEFAULT_CURRENCY,
         timezone: "Africa/Freetown",
         dateFormat: "DD/MM/YYYY",
       },
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { commissionRuleUpdateSchema } from "@/lib/services/commissions/commission.schema";
+import {
+  CommissionError,
+  deleteCommissionRule,
+  updateCommissionRule,
+} from "@/lib/services/commissions/commission.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAdmin();
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = commissionRuleUpdateSchema.parse(body);
+
+    const rule = await updateCommissionRule(id, user.id, validatedData);
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: "Commission rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: rule,
+      message: "Commission rule updated successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof CommissionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error updating commission rule:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update commission rule" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAdmin();
+    const { id } = await Promise.resolve(params);
+
+    const deleted = await deleteCommissionRule(id, user.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Commission rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Commission rule deleted successfully",
+    });
+  } catch (error: any) {
+    console.error("Error deleting commission rule:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to delete commission rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { commissionRuleSchema } from "@/lib/services/commissions/commission.schema";
+import {
+  CommissionError,
+  createCommissionRule,
+  listCommissionRules,
+} from "@/lib/services/commissions/commission.service";
+
+export async function GET() {
+  try {
+    // Only admins can see and set what staff earn
+    const user = await requireAdmin();
+
+    const rules = await listCommissionRules(user.id);
+
+    return NextResponse.json({ success: true, data: rules });
+  } catch (error: any) {
+    console.error("Error fetching commission rules:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch commission rules" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAdmin();
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = commissionRuleSchema.parse(body);
+
+    const rule = await createCommissionRule(user.id, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: rule,
+      message: "Commission rule created successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof CommissionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error creating commission rule:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to create commission rule" },
+      { status: 500 }
+    );
+  }
+}
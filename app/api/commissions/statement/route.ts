@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth-helpers";
+import { UserRole } from "@prisma/client";
+import { startOfDay, endOfDay, startOfMonth } from "date-fns";
+import { getCommissionStatement } from "@/lib/services/commissions/commission.service";
+
+// Sales and commission per staff member for a period, this month by
+// default
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireRole([UserRole.ADMIN, UserRole.MANAGER]);
+    const searchParams = request.nextUrl.searchParams;
+    const startDate = searchParams.get("startDate");
+    const endDate = searchParams.get("endDate");
+    const staffId = searchParams.get("staffId");
+
+    const from = startDate
+      ? startOfDay(new Date(startDate))
+      : startOfMonth(new Date());
+    const to = endDate ? endOfDay(new Date(endDate)) : endOfDay(new Date());
+
+    const statement = await getCommissionStatement(user.id, from, to, staffId);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...statement, from, to },
+    });
+  } catch (error: any) {
+    console.error("Error fetching commission statement:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch commission statement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runOverdueDetectionForAll } from "@/lib/services/analytics/overdue-detection.service";
+
+// Called once a day by the scheduler with "Authorization: Bearer <CRON_SECRET>"
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    const authHeader = request.headers.get("authorization");
+
+    if (!secret || authHeader !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await runOverdueDetectionForAll();
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error: any) {
+    console.error("Error running overdue detection:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to run overdue detection" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { customerUpdateSchema } from "@/lib/services/customers/customer.schema";
+import {
+  archiveCustomer,
+  CustomerError,
+  getCustomer,
+  updateCustomer,
+} from "@/lib/services/customers/customer.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    const customer = await getCustomer(id, user.id);
+
+    if (!customer) {
+      return NextResponse.json(
+        { error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: customer });
+  } catch (error: any) {
+    console.error("Error fetching customer:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch customer" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = customerUpdateSchema.parse(body);
+
+    const customer = await updateCustomer(id, user.id, validatedData);
+
+    if (!customer) {
+      return NextResponse.json(
+        { error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: customer,
+      message: "Customer updated successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof CustomerError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error updating customer:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update customer" },
+      { status: 500 }
+    );
+  }
+}
+
+// Customers are archived rather than deleted, so their sales keep them
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    const archived = await archiveCustomer(id, user.id);
+
+    if (!archived) {
+      return NextResponse.json(
+        { error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Customer archived successfully",
+    });
+  } catch (error: any) {
+    console.error("Error archiving customer:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to archive customer" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth-helpers";
+import { withIdempotency } from "@/lib/idempotency";
 import { prisma } from "@/lib/db";
+import {
+  CustomerError,
+  resolveCustomerLocation,
+} from "@/lib/services/customers/customer.service";
 import { CustomerType } from "@prisma/client";
 import { z } from "zod";
 
@@ -40,12 +45,15 @@ export async function GET(request: NextRequest) {
     const tag = searchParams.get("tag") || null;
     const city = searchParams.get("city") || null;
     const regionId = searchParams.get("regionId") || null;
+    const archived = searchParams.get("archived") === "true";
     const sortBy = searchParams.get("sortBy") || "createdAt";
     const sortOrder = searchParams.get("sortOrder") || "desc";
 
     // Build where clause
     const where: any = {
       ownerId: user.id,
+      // Archived customers are only listed when asked for
+      archivedAt: archived ? { not: null } : null,
     };
 
     // Search filter
@@ -131,7 +139,7 @@ export async function GET(request: NextRequest) {
 
     // Calculate stats
     const stats = await prisma.customer.aggregate({
-      where: { ownerId: user.id },
+      where: { ownerId: user.id, archivedAt: null },
       _sum: {
         totalSpent: true,
       },
@@ -172,54 +180,63 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const user = await requireAuth();
-    const body = await request.json();
 
-    // Validate input
-    const validatedData = customerSchema.parse(body);
+    // A retried request with the same key gets the first response back
+    return await withIdempotency(request, user.id, async () => {
+      const body = await request.json();
 
-    // Combine first and last name
-    const fullName = `${validatedData.firstName} ${validatedData.lastName}`.trim();
+      // Validate input
+      const validatedData = customerSchema.parse(body);
 
-    // Check if phone already exists for this owner
-    const existingCustomer = await prisma.customer.findFirst({
-      where: {
-        ownerId: user.id,
-        phone: validatedData.phone,
-      },
-    });
+      // Combine first and last name
+      const fullName = `${validatedData.firstName} ${validatedData.lastName}`.trim();
 
-    if (existingCustomer) {
-      return NextResponse.json(
-        { error: "A customer with this phone number already exists" },
-        { status: 400 }
-      );
-    }
+      // Check if phone already exists for this owner
+      const existingCustomer = await prisma.customer.findFirst({
+        where: {
+          ownerId: user.id,
+          phone: validatedData.phone,
+          archivedAt: null,
+        },
+      });
+
+      if (existingCustomer) {
+        return NextResponse.json(
+          { error: "A customer with this phone number already exists" },
+          { status: 400 }
+        );
+      }
 
-    // Create customer
-    const customer = await prisma.customer.create({
-      data: {
-        name: fullName,
-        phone: validatedData.phone,
-        alternatePhone: validatedData.alternatePhone || null,
-        email: validatedData.email || null,
-        address: validatedData.address || null,
-        city: validatedData.city,
+      const location = await resolveCustomerLocation(prisma, {
         countryId: validatedData.countryId || null,
         regionId: validatedData.regionId || null,
         districtId: validatedData.districtId || null,
         chiefdomId: validatedData.chiefdomId || null,
         locationId: validatedData.locationId || null,
-        type: validatedData.type,
-        tags: validatedData.tags,
-        notes: validatedData.notes || null,
-        ownerId: user.id,
-      },
-    });
+      });
 
-    return NextResponse.json({
-      success: true,
-      data: customer,
-      message: "Customer created successfully",
+      // Create customer
+      const customer = await prisma.customer.create({
+        data: {
+          name: fullName,
+          phone: validatedData.phone,
+          alternatePhone: validatedData.alternatePhone || null,
+          email: validatedData.email || null,
+          address: validatedData.address || null,
+          city: validatedData.city,
+          ...location,
+          type: validatedData.type,
+          tags: validatedData.tags,
+          notes: validatedData.notes || null,
+          ownerId: user.id,
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: customer,
+        message: "Customer created successfully",
+      });
     });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
@@ -229,6 +246,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof CustomerError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error("Error creating customer:", error);
     return NextResponse.json(
       { error: error.message || "Failed to create customer" },
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth-helpers";
+import { deleteExchangeRate } from "@/lib/services/sales/exchange-rate.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+// Recorded sales and payments keep the rate they were made at
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAdmin();
+    const { id } = await Promise.resolve(params);
+
+    const deleted = await deleteExchangeRate(id, user.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Exchange rate not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Exchange rate deleted successfully",
+    });
+  } catch (error: any) {
+    console.error("Error deleting exchange rate:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to delete exchange rate" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, requireAdmin } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { exchangeRateSchema } from "@/lib/services/sales/exchange-rate.schema";
+import {
+  CurrencyError,
+  getBaseCurrency,
+  listExchangeRates,
+  setExchangeRate,
+} from "@/lib/services/sales/exchange-rate.service";
+
+export async function GET() {
+  try {
+    const user = await requireAuth();
+
+    const [baseCurrency, exchangeRates] = await Promise.all([
+      getBaseCurrency(user.id),
+      listExchangeRates(user.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: exchangeRates,
+      baseCurrency,
+    });
+  } catch (error: any) {
+    console.error("Error fetching exchange rates:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch exchange rates" },
+      { status: 500 }
+    );
+  }
+}
+
+// Set the rate for a currency, adding it if it's new
+export async function POST(request: NextRequest) {
+  try {
+    // Only admins can change business settings
+    const user = await requireAdmin();
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = exchangeRateSchema.parse(body);
+
+    const exchangeRate = await setExchangeRate(user.id, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: exchangeRate,
+      message: "Exchange rate saved successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof CurrencyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error saving exchange rate:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to save exchange rate" },
+      { status: 500 }
+    );
+  }
+}
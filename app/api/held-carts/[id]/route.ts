@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { heldCartSchema } from "@/lib/services/sales/held-cart.schema";
+import {
+  discardHeldCart,
+  getHeldCart,
+  HeldCartError,
+  updateHeldCart,
+} from "@/lib/services/sales/held-cart.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    const cart = await getHeldCart(id, user.id, user.id);
+
+    if (!cart) {
+      return NextResponse.json(
+        { error: "Held cart not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: cart });
+  } catch (error: any) {
+    console.error("Error fetching held cart:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch held cart" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = heldCartSchema.parse(body);
+
+    const cart = await updateHeldCart(id, user.id, user.id, validatedData);
+
+    if (!cart) {
+      return NextResponse.json(
+        { error: "Held cart not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: cart,
+      message: "Cart held",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof HeldCartError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error updating held cart:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update held cart" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    const discarded = await discardHeldCart(id, user.id, user.id);
+
+    if (!discarded) {
+      return NextResponse.json(
+        { error: "Held cart not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Held cart discarded",
+    });
+  } catch (error: any) {
+    console.error("Error discarding held cart:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to discard held cart" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { heldCartSchema } from "@/lib/services/sales/held-cart.schema";
+import {
+  HeldCartError,
+  holdCart,
+  listHeldCarts,
+} from "@/lib/services/sales/held-cart.service";
+
+// Carts are private to the cashier who parked them
+export async function GET() {
+  try {
+    const user = await requireAuth();
+    const carts = await listHeldCarts(user.id, user.id);
+
+    return NextResponse.json({ success: true, data: carts });
+  } catch (error: any) {
+    console.error("Error fetching held carts:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch held carts" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = heldCartSchema.parse(body);
+
+    const cart = await holdCart(user.id, user.id, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: cart,
+      message: "Cart held",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof HeldCartError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error holding cart:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to hold cart" },
+      { status: 500 }
+    );
+  }
+}
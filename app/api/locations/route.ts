@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { listLocations } from "@/lib/services/customers/customer.service";
+
+export async function GET() {
+  try {
+    await requireAuth();
+
+    const countries = await listLocations();
+
+    return NextResponse.json({ success: true, data: countries });
+  } catch (error: any) {
+    console.error("Error fetching locations:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch locations" },
+      { status: 500 }
+    );
+  }
+}
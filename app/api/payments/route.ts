@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/db";
+import { z } from "zod";
+import { paymentSchema } from "@/lib/services/sales/payment.schema";
+import {
+  PaymentAllocationError,
+  recordPayment,
+} from "@/lib/services/sales/payment.service";
+import { CurrencyError } from "@/lib/services/sales/exchange-rate.service";
+import { REVERSED_SALE_STATUSES } from "@/lib/services/sales/sale-lifecycle.service";
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = paymentSchema.parse(body);
+
+    // Apply the payment to each invoice and write the ledger entries
+    const payments = await recordPayment(user.id, user.id, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: payments,
+      message: "Payment recorded successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PaymentAllocationError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          details: error.saleId
+            ? [{ saleId: error.saleId, message: error.message }]
+            : [],
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof CurrencyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error recording payment:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to record payment" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const searchParams = request.nextUrl.searchParams;
+
+    // Pagination
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "20");
+    const skip = (page - 1) * limit;
+
+    // Filters
+    const saleId = searchParams.get("saleId");
+    const customerId = searchParams.get("customerId");
+
+    const where = {
+      ownerId: user.id,
+      ...(saleId && { saleId }),
+      ...(customerId && { customerId }),
+    };
+
+    const [payments, total, openInvoices] = await Promise.all([
+      prisma.payment.findMany({
+        where,
+        include: {
+          sale: {
+            select: {
+              id: true,
+              invoiceNumber: true,
+              currency: true,
+              totalAmount: true,
+              balanceDue: true,
+              paymentStatus: true,
+            },
+          },
+          receivedBy: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+        orderBy: { paidAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.payment.count({ where }),
+      // Open invoices for the customer, so a payment can be allocated
+      customerId
+        ? prisma.sale.findMany({
+            where: {
+              ownerId: user.id,
+              customerId,
+              balanceDue: { gt: 0 },
+              status: { notIn: REVERSED_SALE_STATUSES },
+            },
+            select: {
+              id: true,
+              invoiceNumber: true,
+              saleDate: true,
+              dueDate: true,
+              currency: true,
+              totalAmount: true,
+              balanceDue: true,
+              paymentStatus: true,
+            },
+            orderBy: { saleDate: "asc" },
+          })
+        : Promise.resolve([]),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        payments,
+        openInvoices,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching payments:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch payments" },
+      { status: 500 }
+    );
+  }
+}
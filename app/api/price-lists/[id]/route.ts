@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, requireAdmin } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { priceListUpdateSchema } from "@/lib/services/sales/price-list.schema";
+import {
+  deletePriceList,
+  getPriceList,
+  PriceListError,
+  updatePriceList,
+} from "@/lib/services/sales/price-list.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    const priceList = await getPriceList(id, user.id);
+
+    if (!priceList) {
+      return NextResponse.json(
+        { error: "Price list not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: priceList });
+  } catch (error: any) {
+    console.error("Error fetching price list:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch price list" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAdmin();
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = priceListUpdateSchema.parse(body);
+
+    const priceList = await updatePriceList(id, user.id, validatedData);
+
+    if (!priceList) {
+      return NextResponse.json(
+        { error: "Price list not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: priceList,
+      message: "Price list updated successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PriceListError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A price list with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error updating price list:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update price list" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAdmin();
+    const { id } = await Promise.resolve(params);
+
+    const deleted = await deletePriceList(id, user.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Price list not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Price list deleted successfully",
+    });
+  } catch (error: any) {
+    console.error("Error deleting price list:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to delete price list" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { resolveCustomerPriceList } from "@/lib/services/sales/price-list.service";
+
+// The price list and quantity tiers that apply to a customer, so the sale
+// form can show their prices before the cart is priced on the server
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const customerId = request.nextUrl.searchParams.get("customerId");
+
+    if (!customerId) {
+      return NextResponse.json(
+        { error: "Customer is required" },
+        { status: 400 }
+      );
+    }
+
+    const priceList = await resolveCustomerPriceList(user.id, customerId);
+
+    return NextResponse.json({ success: true, data: priceList });
+  } catch (error: any) {
+    console.error("Error resolving price list:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to resolve price list" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, requireAdmin } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { priceListSchema } from "@/lib/services/sales/price-list.schema";
+import {
+  createPriceList,
+  listPriceLists,
+  PriceListError,
+} from "@/lib/services/sales/price-list.service";
+
+export async function GET() {
+  try {
+    const user = await requireAuth();
+
+    const priceLists = await listPriceLists(user.id);
+
+    return NextResponse.json({ success: true, data: priceLists });
+  } catch (error: any) {
+    console.error("Error fetching price lists:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch price lists" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Only admins can change business settings
+    const user = await requireAdmin();
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = priceListSchema.parse(body);
+
+    const priceList = await createPriceList(user.id, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: priceList,
+      message: "Price list created successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PriceListError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A price list with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error creating price list:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to create price list" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { productUnitsSchema } from "@/lib/services/products/product-unit.schema";
+import {
+  listProductUnits,
+  ProductUnitError,
+  replaceProductUnits,
+} from "@/lib/services/products/product-unit.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+// The units a product sells in besides its base unit
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    const product = await listProductUnits(id, user.id);
+
+    if (!product) {
+      return NextResponse.json(
+        { error: "Product not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: product });
+  } catch (error: any) {
+    console.error("Error fetching product units:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch product units" },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace the product's units with the ones given
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    // Validate input
+    const { units } = productUnitsSchema.parse(body);
+
+    const saved = await replaceProductUnits(id, user.id, units);
+
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Product not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: saved,
+      message: "Units updated successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ProductUnitError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error updating product units:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update product units" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/db";
+
+/**
+ * Find a product by its exact barcode or SKU, e.g. from a scanner. A
+ * barcode printed on one of the product's units (a sack, a carton) also
+ * matches, and `unitId` says which unit was scanned.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const code = request.nextUrl.searchParams.get("code")?.trim();
+
+    if (!code) {
+      return NextResponse.json(
+        { error: "A barcode or SKU is required" },
+        { status: 400 }
+      );
+    }
+
+    const include = { units: { orderBy: { factor: "asc" as const } } };
+
+    // A barcode match wins over a SKU that happens to look the same
+    let unitId: string | null = null;
+    let product = await prisma.product.findFirst({
+      where: { ownerId: user.id, barcode: code },
+      include,
+    });
+
+    if (!product) {
+      const unit = await prisma.productUnit.findFirst({
+        where: { barcode: code, product: { ownerId: user.id } },
+        include: { product: { include } },
+      });
+      unitId = unit?.id || null;
+      product = unit?.product || null;
+    }
+
+    product ||= await prisma.product.findFirst({
+      where: {
+        ownerId: user.id,
+        sku: { equals: code, mode: "insensitive" },
+      },
+      include,
+    });
+
+    if (!product) {
+      return NextResponse.json(
+        { error: "No product matches this barcode or SKU" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: { ...product, unitId } });
+  } catch (error: any) {
+    console.error("Error looking up product:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to look up product" },
+      { status: 500 }
+    );
+  }
+}
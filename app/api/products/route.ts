@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth-helpers";
+import { withIdempotency } from "@/lib/idempotency";
 import { prisma } from "@/lib/db";
-import { ProductStatus } from "@prisma/client";
+import { Prisma, ProductStatus } from "@prisma/client";
 import { z } from "zod";
+import { productUnitSchema } from "@/lib/services/products/product-unit.schema";
+import {
+  checkProductUnits,
+  ProductUnitError,
+  toUnitData,
+} from "@/lib/services/products/product-unit.service";
 
 const productSchema = z.object({
   sku: z.string().min(1, "SKU is required"),
@@ -11,46 +18,77 @@ const productSchema = z.object({
   description: z.string().optional(),
   costPrice: z.number().min(0, "Cost price must be positive"),
   sellingPrice: z.number().min(0, "Selling price must be positive"),
-  currentStock: z.number().int().min(0, "Stock must be non-negative"),
-  lowStockAlert: z.number().int().min(0, "Low stock alert must be non-negative"),
+  // In the base unit; fractions allowed for goods sold by weight or volume
+  currentStock: z.number().min(0, "Stock must be non-negative"),
+  lowStockAlert: z.number().min(0, "Low stock alert must be non-negative"),
   unit: z.string().default("piece"),
+  units: z.array(productUnitSchema).max(20).default([]), // Other units it sells in
   status: z.nativeEnum(ProductStatus).default(ProductStatus.ACTIVE),
   barcode: z.string().optional(),
   supplier: z.string().optional(),
+  taxRateId: z.string().optional().nullable(), // null uses the default rate
 });
 
+// Decimal columns (stock, prices) sort by value rather than as text
+function sortValue(value: unknown) {
+  return value instanceof Prisma.Decimal ? value.toNumber() : (value as any);
+}
+
 export async function POST(request: NextRequest) {
   try {
     const user = await requireAuth();
-    const body = await request.json();
 
-    // Validate input
-    const validatedData = productSchema.parse(body);
+    // A retried request with the same key gets the first response back
+    return await withIdempotency(request, user.id, async () => {
+      const body = await request.json();
 
-    // Check if SKU already exists
-    const existingProduct = await prisma.product.findUnique({
-      where: { sku: validatedData.sku },
-    });
+      // Validate input
+      const validatedData = productSchema.parse(body);
 
-    if (existingProduct) {
-      return NextResponse.json(
-        { error: "Product with this SKU already exists" },
-        { status: 400 }
-      );
-    }
+      // Check if SKU already exists
+      const existingProduct = await prisma.product.findUnique({
+        where: { sku: validatedData.sku },
+      });
 
-    // Create product
-    const product = await prisma.product.create({
-      data: {
-        ...validatedData,
-        ownerId: user.id,
-      },
-    });
+      if (existingProduct) {
+        return NextResponse.json(
+          { error: "Product with this SKU already exists" },
+          { status: 400 }
+        );
+      }
 
-    return NextResponse.json({
-      success: true,
-      data: product,
-      message: "Product created successfully",
+      // The tax rate must belong to this business
+      if (validatedData.taxRateId) {
+        const taxRate = await prisma.taxRate.findFirst({
+          where: { id: validatedData.taxRateId, ownerId: user.id },
+        });
+
+        if (!taxRate) {
+          return NextResponse.json(
+            { error: "Tax rate not found" },
+            { status: 400 }
+          );
+        }
+      }
+
+      const { units, ...productData } = validatedData;
+      checkProductUnits(productData.unit, units);
+
+      // Create product
+      const product = await prisma.product.create({
+        data: {
+          ...productData,
+          ownerId: user.id,
+          units: { createMany: { data: units.map(toUnitData) } },
+        },
+        include: { units: true },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: product,
+        message: "Product created successfully",
+      });
     });
   } catch (error: any) {
     if (error instanceof z.ZodError) {
@@ -60,6 +98,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof ProductUnitError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error("Error creating product:", error);
     return NextResponse.json(
       { error: error.message || "Failed to create product" },
@@ -141,6 +183,7 @@ export async function GET(request: NextRequest) {
       const allProducts = await prisma.product.findMany({
         where,
         include: {
+          units: { orderBy: { factor: "asc" } },
           _count: {
             select: {
               saleItems: true,
@@ -150,12 +193,14 @@ export async function GET(request: NextRequest) {
       });
 
       const lowStockProducts = allProducts.filter(
-        (p) => p.currentStock > 0 && p.currentStock <= p.lowStockAlert
+        (p) =>
+          Number(p.currentStock) > 0 &&
+          Number(p.currentStock) <= Number(p.lowStockAlert)
       );
 
       lowStockProducts.sort((a, b) => {
-        const aVal = a[sortBy as keyof typeof a];
-        const bVal = b[sortBy as keyof typeof b];
+        const aVal = sortValue(a[sortBy as keyof typeof a]);
+        const bVal = sortValue(b[sortBy as keyof typeof b]);
         if (sortOrder === "asc") {
           return aVal > bVal ? 1 : -1;
         }
@@ -172,6 +217,7 @@ export async function GET(request: NextRequest) {
           take: limit,
           orderBy,
           include: {
+            units: { orderBy: { factor: "asc" } },
             _count: {
               select: {
                 saleItems: true,
@@ -206,7 +252,9 @@ export async function GET(request: NextRequest) {
     });
 
     const lowStockCount = allProductsForStats.filter(
-      (p) => p.currentStock > 0 && p.currentStock <= p.lowStockAlert
+      (p) =>
+        Number(p.currentStock) > 0 &&
+        Number(p.currentStock) <= Number(p.lowStockAlert)
     ).length;
 
     const outOfStockCount = await prisma.product.count({
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { quoteConversionSchema } from "@/lib/services/sales/quote.schema";
+import {
+  convertQuoteToSale,
+  QuoteError,
+} from "@/lib/services/sales/quote.service";
+import { InsufficientStockError } from "@/lib/services/sales/sale-creation.service";
+import { PricingError } from "@/lib/services/sales/pricing.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+// Accept a quote: creates the sale (stock, customer stats, payments) and
+// marks the quote accepted in one transaction
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = quoteConversionSchema.parse(body);
+
+    const result = await convertQuoteToSale(id, user.id, user.id, validatedData);
+
+    if (!result) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Quote converted to sale ${result.sale.invoiceNumber}`,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof QuoteError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof PricingError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          details:
+            error.index !== undefined
+              ? [{ index: error.index, message: error.message }]
+              : [],
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof InsufficientStockError) {
+      return NextResponse.json(
+        {
+          error: "Insufficient stock",
+          details: error.shortages.map((s) => ({
+            ...s,
+            message: `Only ${s.available} ${s.unit} of ${s.productName} in stock`,
+          })),
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error converting quote:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to convert quote" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/db";
+import { z } from "zod";
+import { quoteUpdateSchema } from "@/lib/services/sales/quote.schema";
+import {
+  deleteQuote,
+  expireQuotes,
+  QuoteError,
+  updateQuote,
+} from "@/lib/services/sales/quote.service";
+import {
+  PricingError,
+  saleTaxBreakdown,
+} from "@/lib/services/sales/pricing.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    await expireQuotes(user.id);
+
+    const quote = await prisma.quote.findFirst({
+      where: { id, ownerId: user.id },
+      include: {
+        customer: {
+          select: { id: true, name: true, phone: true, email: true, type: true },
+        },
+        items: {
+          include: {
+            product: {
+              select: { id: true, sku: true, unit: true, currentStock: true },
+            },
+          },
+        },
+        sale: {
+          select: { id: true, invoiceNumber: true },
+        },
+        createdBy: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    if (!quote) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...quote,
+        taxBreakdown: saleTaxBreakdown(quote.items, quote.discount),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching quote:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch quote" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = quoteUpdateSchema.parse(body);
+
+    const quote = await updateQuote(id, user.id, validatedData);
+
+    if (!quote) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: quote,
+      message: "Quote updated successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PricingError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          details:
+            error.index !== undefined
+              ? [{ index: error.index, message: error.message }]
+              : [],
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof QuoteError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error updating quote:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update quote" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    const deleted = await deleteQuote(id, user.id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Quote not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Quote deleted successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof QuoteError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error deleting quote:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to delete quote" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/db";
+import { Prisma, QuoteStatus } from "@prisma/client";
+import { z } from "zod";
+import { quoteSchema } from "@/lib/services/sales/quote.schema";
+import {
+  createQuote,
+  expireQuotes,
+  QuoteError,
+} from "@/lib/services/sales/quote.service";
+import { PricingError } from "@/lib/services/sales/pricing.service";
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = quoteSchema.parse(body);
+
+    const quote = await createQuote(user.id, user.id, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: quote,
+      message: "Quote created successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PricingError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          details:
+            error.index !== undefined
+              ? [{ index: error.index, message: error.message }]
+              : [],
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof QuoteError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error creating quote:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to create quote" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const searchParams = request.nextUrl.searchParams;
+
+    // Pagination
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "20");
+    const skip = (page - 1) * limit;
+
+    // Filters
+    const search = searchParams.get("search") || "";
+    const status = searchParams.get("status") as QuoteStatus | null;
+    const customerId = searchParams.get("customerId");
+
+    // Quotes past their validity date show as expired
+    await expireQuotes(user.id);
+
+    const where: Prisma.QuoteWhereInput = {
+      ownerId: user.id,
+      ...(status && { status }),
+      ...(customerId && { customerId }),
+      ...(search && {
+        OR: [
+          { quoteNumber: { contains: search, mode: "insensitive" } },
+          { customer: { name: { contains: search, mode: "insensitive" } } },
+          { customer: { phone: { contains: search, mode: "insensitive" } } },
+        ],
+      }),
+    };
+
+    const [quotes, total, statusCounts] = await Promise.all([
+      prisma.quote.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { quoteDate: "desc" },
+        include: {
+          customer: {
+            select: { id: true, name: true, phone: true, type: true },
+          },
+          sale: {
+            select: { id: true, invoiceNumber: true },
+          },
+          _count: {
+            select: { items: true },
+          },
+        },
+      }),
+      prisma.quote.count({ where }),
+      prisma.quote.groupBy({
+        by: ["status"],
+        where: { ownerId: user.id },
+        _count: { _all: true },
+        _sum: { totalAmount: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        quotes,
+        stats: statusCounts.map((s) => ({
+          status: s.status,
+          count: s._count._all,
+          totalAmount: Number(s._sum.totalAmount || 0),
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching quotes:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch quotes" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth-helpers";
 import { prisma } from "@/lib/db";
+import { Prisma } from "@prisma/client";
 import { startOfDay, endOfDay, subDays, subMonths, subYears } from "date-fns";
 import { getSalesTrends } from "@/lib/services/analytics/sales-analytics.service";
 import { segmentCustomers } from "@/lib/services/analytics/customer-segmentation.service";
 import { getBestSellingProducts } from "@/lib/services/analytics/sales-analytics.service";
 import { getPaymentMethodAnalysis } from "@/lib/services/analytics/sales-analytics.service";
 import { getRegionalSales } from "@/lib/services/analytics/sales-analytics.service";
+import { saleTaxBreakdown } from "@/lib/services/sales/pricing.service";
+import { toBaseAmount } from "@/lib/services/sales/exchange-rate.service";
 
 export type ReportType =
   | "sales_summary"
@@ -124,6 +127,48 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// Refunds given in the period, in the base currency. They count against
+// revenue on the day they are given, so the sales they came from keep
+// their original totals.
+async function getRefundsInPeriod(
+  ownerId: string,
+  startDate: Date,
+  endDate: Date
+) {
+  const refunds = await prisma.refund.findMany({
+    where: {
+      ownerId,
+      refundedAt: { gte: startDate, lte: endDate },
+    },
+    select: {
+      amount: true,
+      credited: true,
+      method: true,
+      refundedAt: true,
+      sale: { select: { exchangeRate: true } },
+    },
+  });
+
+  return refunds.map((refund) => ({
+    method: refund.method,
+    refundedAt: refund.refundedAt,
+    amount: toBaseAmount(refund.amount, refund.sale.exchangeRate),
+    // What was given back; the rest was taken off a balance due
+    paidOut: toBaseAmount(
+      Number(refund.amount) - Number(refund.credited),
+      refund.sale.exchangeRate
+    ),
+  }));
+}
+
+// A sale amount in the base currency, so sales in other currencies add up
+function base(
+  sale: { exchangeRate: Prisma.Decimal },
+  amount: Prisma.Decimal | number
+): number {
+  return toBaseAmount(amount, sale.exchangeRate);
+}
+
 // Sales Summary Report
 async function generateSalesSummaryReport(
   ownerId: string,
@@ -142,45 +187,64 @@ async function generateSalesSummaryReport(
       },
     },
   });
+  const refunds = await getRefundsInPeriod(ownerId, startDate, endDate);
 
-  const totalRevenue = sales.reduce(
-    (sum, s) => sum + Number(s.totalAmount),
+  const grossRevenue = sales.reduce(
+    (sum, s) => sum + base(s, s.totalAmount),
     0
   );
+  const totalRefunds = refunds.reduce((sum, r) => sum + Number(r.amount), 0);
+  const totalRevenue = grossRevenue - totalRefunds;
   const totalSales = sales.length;
-  const averageOrderValue = totalSales > 0 ? totalRevenue / totalSales : 0;
+  const averageOrderValue = totalSales > 0 ? grossRevenue / totalSales : 0;
   const totalDiscounts = sales.reduce(
-    (sum, s) => sum + Number(s.discount),
+    (sum, s) => sum + base(s, s.discount),
     0
   );
-  const totalTax = sales.reduce((sum, s) => sum + Number(s.tax), 0);
-
-  // Daily breakdown
-  const dailyBreakdown: Record<string, { revenue: number; count: number }> =
-    {};
-  sales.forEach((sale) => {
-    const date = sale.saleDate.toISOString().split("T")[0];
+  const totalTax = sales.reduce((sum, s) => sum + base(s, s.tax), 0);
+
+  // Daily breakdown, with refunds as negative revenue on the day given
+  const dailyBreakdown: Record<
+    string,
+    { revenue: number; count: number; refunds: number }
+  > = {};
+  const day = (date: string) => {
     if (!dailyBreakdown[date]) {
-      dailyBreakdown[date] = { revenue: 0, count: 0 };
+      dailyBreakdown[date] = { revenue: 0, count: 0, refunds: 0 };
     }
-    dailyBreakdown[date].revenue += Number(sale.totalAmount);
-    dailyBreakdown[date].count += 1;
+    return dailyBreakdown[date];
+  };
+  sales.forEach((sale) => {
+    const entry = day(sale.saleDate.toISOString().split("T")[0]);
+    entry.revenue += base(sale, sale.totalAmount);
+    entry.count += 1;
+  });
+  refunds.forEach((refund) => {
+    const entry = day(refund.refundedAt.toISOString().split("T")[0]);
+    entry.revenue -= Number(refund.amount);
+    entry.refunds -= Number(refund.amount);
   });
 
   return {
     summary: {
       totalRevenue,
+      grossRevenue,
+      totalRefunds: -totalRefunds,
+      refundCount: refunds.length,
       totalSales,
       averageOrderValue,
       totalDiscounts,
       totalTax,
       period: { start: startDate, end: endDate },
     },
-    dailyBreakdown: Object.entries(dailyBreakdown).map(([date, data]) => ({
-      date,
-      revenue: data.revenue,
-      count: data.count,
-    })),
+    dailyBreakdown: Object.entries(dailyBreakdown)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, data]) => ({
+        date,
+        revenue: data.revenue,
+        count: data.count,
+        refunds: data.refunds,
+      })),
   };
 }
 
@@ -209,6 +273,9 @@ async function generateSalesDetailedReport(
       saleRegion: {
         select: { name: true },
       },
+      payments: {
+        select: { method: true, amount: true, reference: true },
+      },
     },
     orderBy: { saleDate: "desc" },
   });
@@ -223,15 +290,22 @@ async function generateSalesDetailedReport(
       items: sale.items.map((item) => ({
         product: item.productName,
         sku: item.product?.sku,
-        quantity: item.quantity,
+        quantity: Number(item.quantity),
+        unit: item.unitName,
         unitPrice: Number(item.unitPrice),
         totalPrice: Number(item.totalPrice),
       })),
+      currency: sale.currency, // Amounts below are in the sale's currency
       subtotal: Number(sale.subtotal),
       discount: Number(sale.discount),
       tax: Number(sale.tax),
       totalAmount: Number(sale.totalAmount),
       paymentMethod: sale.paymentMethod,
+      tenders: sale.payments.map((payment) => ({
+        method: payment.method,
+        amount: Number(payment.amount),
+        reference: payment.reference,
+      })),
       paymentStatus: sale.paymentStatus,
       status: sale.status,
     })),
@@ -260,7 +334,7 @@ async function generateCustomerAnalysisReport(
   const customerStats = customers.map((customer) => {
     const periodSales = customer.sales;
     const periodRevenue = periodSales.reduce(
-      (sum, s) => sum + Number(s.totalAmount),
+      (sum, s) => sum + base(s, s.totalAmount),
       0
     );
     const segment = segments.find((s) =>
@@ -329,7 +403,7 @@ async function generateProductPerformanceReport(
     return {
       ...product,
       category: productDetails?.category,
-      currentStock: productDetails?.currentStock || 0,
+      currentStock: Number(productDetails?.currentStock || 0),
       profitMargin,
     };
   });
@@ -362,22 +436,93 @@ async function generateFinancialSummaryReport(
       saleDate: { gte: startDate, lte: endDate },
       status: "COMPLETED",
     },
+    include: {
+      items: {
+        select: {
+          totalPrice: true,
+          discountAmount: true,
+          taxRateId: true,
+          taxRateName: true,
+          taxRateType: true,
+          taxPercent: true,
+          taxAmount: true,
+        },
+      },
+    },
   });
+  const refunds = await getRefundsInPeriod(ownerId, startDate, endDate);
 
-  const totalRevenue = sales.reduce(
-    (sum, s) => sum + Number(s.totalAmount),
+  const grossRevenue = sales.reduce(
+    (sum, s) => sum + base(s, s.totalAmount),
     0
   );
-  const totalPaid = sales.reduce((sum, s) => sum + Number(s.amountPaid), 0);
+  const totalRefunds = refunds.reduce((sum, r) => sum + Number(r.amount), 0);
+  const totalRevenue = grossRevenue - totalRefunds;
+  const totalPaid = sales.reduce((sum, s) => sum + base(s, s.amountPaid), 0);
   const totalPending = sales.reduce(
-    (sum, s) => sum + Number(s.balanceDue),
+    (sum, s) => sum + base(s, s.balanceDue),
     0
   );
   const totalDiscounts = sales.reduce(
-    (sum, s) => sum + Number(s.discount),
+    (sum, s) => sum + base(s, s.discount),
     0
   );
-  const totalTax = sales.reduce((sum, s) => sum + Number(s.tax), 0);
+  const totalTax = sales.reduce((sum, s) => sum + base(s, s.tax), 0);
+  const totalLineDiscounts = sales.reduce(
+    (sum, s) =>
+      sum +
+      s.items.reduce((acc, item) => acc + base(s, item.discountAmount), 0),
+    0
+  );
+
+  // Tax by rate. Sales recorded before tax rates existed have no per-line
+  // tax, so their tax is reported as unassigned.
+  const taxBreakdown = new Map<
+    string,
+    {
+      name: string;
+      type: string | null;
+      rate: number | null;
+      taxableAmount: number;
+      taxAmount: number;
+    }
+  >();
+  for (const sale of sales) {
+    for (const entry of saleTaxBreakdown(sale.items, sale.discount)) {
+      const key = `${entry.name}|${entry.rate}`;
+      const current = taxBreakdown.get(key) || {
+        name: entry.name,
+        type: entry.type,
+        rate: entry.rate,
+        taxableAmount: 0,
+        taxAmount: 0,
+      };
+      current.taxableAmount += base(sale, entry.taxableAmount);
+      current.taxAmount += base(sale, entry.taxAmount);
+      taxBreakdown.set(key, current);
+    }
+
+    const lineTax = sale.items.reduce(
+      (sum, item) => sum + Number(item.taxAmount),
+      0
+    );
+    const unassignedTax = Number(sale.tax) - lineTax;
+    if (unassignedTax > 0.005) {
+      const current = taxBreakdown.get("unassigned") || {
+        name: "Unassigned",
+        type: null,
+        rate: null,
+        taxableAmount: 0,
+        taxAmount: 0,
+      };
+      current.taxableAmount += base(
+        sale,
+        Number(sale.subtotal) - Number(sale.discount)
+      );
+      current.taxAmount += base(sale, unassignedTax);
+      taxBreakdown.set("unassigned", current);
+    }
+  }
 
   // Payment status breakdown
   const paymentStatusBreakdown = sales.reduce(
@@ -387,7 +532,20 @@ async function generateFinancialSummaryReport(
         acc[status] = { count: 0, amount: 0 };
       }
       acc[status].count += 1;
-      acc[status].amount += Number(sale.totalAmount);
+      acc[status].amount += base(sale, sale.totalAmount);
+      return acc;
+    },
+    {} as Record<string, { count: number; amount: number }>
+  );
+
+  // Refunds by the method the money went back through
+  const refundsByMethod = refunds.reduce(
+    (acc, refund) => {
+      if (!acc[refund.method]) {
+        acc[refund.method] = { count: 0, amount: 0 };
+      }
+      acc[refund.method].count += 1;
+      acc[refund.method].amount -= refund.paidOut;
       return acc;
     },
     {} as Record<string, { count: number; amount: number }>
@@ -396,12 +554,21 @@ async function generateFinancialSummaryReport(
   return {
     summary: {
       totalRevenue,
+      grossRevenue,
+      totalRefunds: -totalRefunds,
       totalPaid,
       totalPending,
       totalDiscounts,
+      totalLineDiscounts,
       totalTax,
       netRevenue: totalRevenue - totalDiscounts,
     },
+    taxBreakdown: Array.from(taxBreakdown.values()),
+    refundBreakdown: Object.entries(refundsByMethod).map(([method, data]) => ({
+      method,
+      count: data.count,
+      amount: data.amount,
+    })),
     paymentStatusBreakdown: Object.entries(paymentStatusBreakdown).map(
       ([status, data]) => ({
         status,
@@ -440,7 +607,7 @@ async function generatePaymentAnalysisReport(
         acc[status] = { count: 0, amount: 0, average: 0 };
       }
       acc[status].count += 1;
-      acc[status].amount += Number(sale.totalAmount);
+      acc[status].amount += base(sale, sale.totalAmount);
       return acc;
     },
     {} as Record<
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import {
+  generateSaleDocument,
+  saveSaleDocument,
+  type SaleDocumentLayout,
+} from "@/lib/services/sales/sale-pdf.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+function parseLayout(request: NextRequest): SaleDocumentLayout {
+  return request.nextUrl.searchParams.get("layout") === "receipt"
+    ? "receipt"
+    : "invoice";
+}
+
+// Download the invoice (A4) or receipt (?layout=receipt) as a PDF
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    const document = await generateSaleDocument(
+      id,
+      user.id,
+      parseLayout(request)
+    );
+
+    if (!document) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    const disposition =
+      request.nextUrl.searchParams.get("download") === "false"
+        ? "inline"
+        : "attachment";
+
+    return new NextResponse(document.bytes as BodyInit, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `${disposition}; filename="${document.fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: any) {
+    console.error("Error generating sale document:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to generate document" },
+      { status: 500 }
+    );
+  }
+}
+
+// Generate the document and keep it in the sale's files
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    const result = await saveSaleDocument(id, user.id, parseLayout(request));
+
+    if (!result) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || "Failed to save document" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { file: result.fileRecord, signedUrl: result.signedUrl },
+      message: "Document saved successfully",
+    });
+  } catch (error: any) {
+    console.error("Error saving sale document:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to save document" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/db";
+import {
+  generateEscPosReceipt,
+  type ReceiptPaperWidth,
+} from "@/lib/services/sales/sale-escpos.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+// Raw ESC/POS bytes for a thermal printer. A local print helper can pipe
+// the response straight to the printer; ?format=base64 returns JSON for
+// browser-based (Bluetooth/USB) printing.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+    const searchParams = request.nextUrl.searchParams;
+
+    const settings = await prisma.userSettings.findUnique({
+      where: { userId: user.id },
+      select: { receiptPaperWidth: true },
+    });
+
+    const requestedWidth = parseInt(
+      searchParams.get("width") || String(settings?.receiptPaperWidth || 80)
+    );
+    const paperWidth: ReceiptPaperWidth = requestedWidth === 58 ? 58 : 80;
+
+    const receipt = await generateEscPosReceipt(id, user.id, {
+      paperWidth,
+      includeQr: searchParams.get("qr") === "true",
+      cut: searchParams.get("cut") !== "false",
+    });
+
+    if (!receipt) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    if (searchParams.get("format") === "base64") {
+      return NextResponse.json({
+        success: true,
+        data: {
+          fileName: receipt.fileName,
+          paperWidth,
+          bytes: Buffer.from(receipt.bytes).toString("base64"),
+        },
+      });
+    }
+
+    return new NextResponse(receipt.bytes as BodyInit, {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Disposition": `attachment; filename="${receipt.fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: any) {
+    console.error("Error generating thermal receipt:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to generate receipt" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { withIdempotency } from "@/lib/idempotency";
+import { z } from "zod";
+import { refundSchema } from "@/lib/services/sales/refund.schema";
+import {
+  createRefund,
+  listRefunds,
+  RefundError,
+} from "@/lib/services/sales/refund.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    const refunds = await listRefunds(id, user.id);
+
+    if (!refunds) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: refunds });
+  } catch (error: any) {
+    console.error("Error fetching refunds:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch refunds" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    // A retried request with the same key gets the first response back
+    return await withIdempotency(request, user.id, async () => {
+      const body = await request.json();
+
+      // Validate input
+      const validatedData = refundSchema.parse(body);
+
+      const refund = await createRefund(id, user.id, user.id, validatedData);
+
+      if (!refund) {
+        return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: refund,
+        message: "Refund recorded successfully",
+      });
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof RefundError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error recording refund:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to record refund" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,329 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/db";
+import { SaleStatus } from "@prisma/client";
+import { z } from "zod";
+import {
+  canTransitionSaleStatus,
+  changeSaleStatus,
+  claimSaleReversal,
+  hasRefunds,
+  isReversedStatus,
+  reassignSaleCustomer,
+  reverseSaleEffects,
+  REFUNDED_SALE_REVERSAL_ERROR,
+  SaleStatusError,
+} from "@/lib/services/sales/sale-lifecycle.service";
+import { saleTaxBreakdown } from "@/lib/services/sales/pricing.service";
+import { getBaseCurrency } from "@/lib/services/sales/exchange-rate.service";
+import { refreshSalesDays } from "@/lib/services/sales/sales-stats.service";
+
+const updateSaleSchema = z.object({
+  customerId: z.string().optional().nullable(),
+  status: z.nativeEnum(SaleStatus).optional(),
+  saleDate: z.string().optional(),
+  dueDate: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+  saleRegionId: z.string().optional().nullable(),
+  saleDistrictId: z.string().optional().nullable(),
+});
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    const sale = await prisma.sale.findFirst({
+      where: {
+        id,
+        ownerId: user.id,
+      },
+      include: {
+        customer: {
+          select: {
+            id: true,
+            name: true,
+            phone: true,
+            email: true,
+          },
+        },
+        items: {
+          include: {
+            product: {
+              select: {
+                id: true,
+                name: true,
+                sku: true,
+                unit: true,
+              },
+            },
+          },
+        },
+        saleRegion: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        saleDistrict: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        soldBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        payments: {
+          include: {
+            receivedBy: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+          orderBy: { paidAt: "desc" },
+        },
+        files: true,
+      },
+    });
+
+    if (!sale) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...sale,
+        taxBreakdown: saleTaxBreakdown(sale.items, sale.discount),
+        baseCurrency: await getBaseCurrency(user.id),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching sale:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch sale" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = updateSaleSchema.parse(body);
+
+    const sale = await prisma.sale.findFirst({
+      where: {
+        id,
+        ownerId: user.id,
+      },
+      include: { items: true },
+    });
+
+    if (!sale) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    if (
+      validatedData.status &&
+      !canTransitionSaleStatus(sale.status, validatedData.status)
+    ) {
+      return NextResponse.json(
+        {
+          error: `Cannot change the status of a ${sale.status.toLowerCase()} sale`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      validatedData.status &&
+      isReversedStatus(validatedData.status) &&
+      !isReversedStatus(sale.status) &&
+      hasRefunds(sale)
+    ) {
+      return NextResponse.json(
+        { error: REFUNDED_SALE_REVERSAL_ERROR },
+        { status: 400 }
+      );
+    }
+
+    const customerChanged =
+      validatedData.customerId !== undefined &&
+      (validatedData.customerId || null) !== sale.customerId;
+
+    if (customerChanged && validatedData.customerId) {
+      const customer = await prisma.customer.findFirst({
+        where: {
+          id: validatedData.customerId,
+          ownerId: user.id,
+          archivedAt: null,
+        },
+      });
+
+      if (!customer) {
+        return NextResponse.json(
+          { error: "Customer not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const updatedSale = await prisma.$transaction(async (tx) => {
+      const wasReversed = isReversedStatus(sale.status);
+      const reversing =
+        !!validatedData.status &&
+        isReversedStatus(validatedData.status) &&
+        !wasReversed;
+
+      if (reversing) {
+        await claimSaleReversal(tx, sale.id, user.id, validatedData.status!);
+      }
+
+      // Customer stats only follow sales that still count
+      if (customerChanged && !wasReversed) {
+        await reassignSaleCustomer(tx, sale, validatedData.customerId || null);
+      }
+
+      if (reversing) {
+        await reverseSaleEffects(tx, {
+          ...sale,
+          customerId: customerChanged
+            ? validatedData.customerId || null
+            : sale.customerId,
+        });
+      }
+
+      const updated = await tx.sale.update({
+        where: { id: sale.id },
+        data: {
+          ...(validatedData.customerId !== undefined && {
+            customerId: validatedData.customerId || null,
+          }),
+          ...(validatedData.status && { status: validatedData.status }),
+          ...(validatedData.saleDate && {
+            saleDate: new Date(validatedData.saleDate),
+          }),
+          ...(validatedData.dueDate !== undefined && {
+            dueDate: validatedData.dueDate
+              ? new Date(validatedData.dueDate)
+              : null,
+          }),
+          ...(validatedData.notes !== undefined && {
+            notes: validatedData.notes,
+          }),
+          ...(validatedData.saleRegionId !== undefined && {
+            saleRegionId: validatedData.saleRegionId || null,
+          }),
+          ...(validatedData.saleDistrictId !== undefined && {
+            saleDistrictId: validatedData.saleDistrictId || null,
+          }),
+        },
+        include: {
+          items: true,
+          customer: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      });
+
+      // A new sale date moves the sale from one day's figures to another's
+      await refreshSalesDays(tx, user.id, [sale.saleDate, updated.saleDate]);
+
+      return updated;
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: updatedSale,
+      message: "Sale updated successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SaleStatusError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error("Error updating sale:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update sale" },
+      { status: 500 }
+    );
+  }
+}
+
+// Voids the sale. The record is kept for the audit trail and marked CANCELLED.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    const sale = await prisma.sale.findFirst({
+      where: {
+        id,
+        ownerId: user.id,
+      },
+    });
+
+    if (!sale) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    if (isReversedStatus(sale.status)) {
+      return NextResponse.json(
+        { error: `Sale is already ${sale.status.toLowerCase()}` },
+        { status: 400 }
+      );
+    }
+
+    if (hasRefunds(sale)) {
+      return NextResponse.json(
+        { error: REFUNDED_SALE_REVERSAL_ERROR },
+        { status: 400 }
+      );
+    }
+
+    const voidedSale = await changeSaleStatus(
+      sale.id,
+      user.id,
+      SaleStatus.CANCELLED
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: voidedSale,
+      message: "Sale voided successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof SaleStatusError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error("Error voiding sale:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to void sale" },
+      { status: 500 }
+    );
+  }
+}
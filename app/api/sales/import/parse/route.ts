@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth-helpers";
+import { readSpreadsheet, SpreadsheetError } from "@/lib/spreadsheet";
+import { MAX_IMPORT_ROWS } from "@/lib/services/sales/sale-import.schema";
+
+// Reads an uploaded CSV or Excel file so its columns can be mapped. Nothing
+// is saved.
+export async function POST(request: NextRequest) {
+  try {
+    // Only admins can import sales
+    await requireAdmin();
+
+    const formData = await request.formData();
+    const file = formData.get("file") as File;
+
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    // Validate file size (max 5MB)
+    const maxSize = 5 * 1024 * 1024; // 5MB
+    if (file.size > maxSize) {
+      return NextResponse.json(
+        { error: "File size exceeds 5MB limit" },
+        { status: 400 }
+      );
+    }
+
+    const [headers = [], ...rows] = readSpreadsheet(
+      new Uint8Array(await file.arrayBuffer()),
+      file.name,
+      MAX_IMPORT_ROWS + 1 // And the header
+    );
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: "The file has no rows below the header" },
+        { status: 400 }
+      );
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        {
+          error: `The file has ${rows.length} rows. Import at most ${MAX_IMPORT_ROWS} at a time.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { headers, rows },
+    });
+  } catch (error: any) {
+    if (error instanceof SpreadsheetError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error reading import file:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to read file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { saleImportPreviewSchema } from "@/lib/services/sales/sale-import.schema";
+import { previewSaleImport } from "@/lib/services/sales/sale-import.service";
+
+// Maps spreadsheet rows to sales and reports each row's problems, without
+// saving anything
+export async function POST(request: NextRequest) {
+  try {
+    // Only admins can import sales
+    const user = await requireAdmin();
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = saleImportPreviewSchema.parse(body);
+
+    const previews = await previewSaleImport(user.id, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: previews,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error previewing sales import:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to preview import" },
+      { status: 500 }
+    );
+  }
+}
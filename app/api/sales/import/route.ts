@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { saleImportCommitSchema } from "@/lib/services/sales/sale-import.schema";
+import { commitSaleImport } from "@/lib/services/sales/sale-import.service";
+
+// Records one batch of previewed sales. Each sale gets its own result, and
+// sales already imported are returned rather than recorded again.
+export async function POST(request: NextRequest) {
+  try {
+    // Only admins can import sales
+    const user = await requireAdmin();
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = saleImportCommitSchema.parse(body);
+
+    const results = await commitSaleImport(user.id, user.id, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: results,
+      message: `${results.filter((r) => r.status === "imported").length} of ${results.length} sales imported`,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error importing sales:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to import sales" },
+      { status: 500 }
+    );
+  }
+}
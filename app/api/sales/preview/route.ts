@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { saleSchema } from "@/lib/services/sales/sale.schema";
+import {
+  PricingError,
+  priceSaleForOwner,
+} from "@/lib/services/sales/pricing.service";
+import { CurrencyError } from "@/lib/services/sales/exchange-rate.service";
+
+const previewSchema = saleSchema.pick({
+  customerId: true,
+  currency: true,
+  items: true,
+  discount: true,
+  amountPaid: true,
+});
+
+// Prices a cart without saving it, so the sale form shows the same totals
+// the server will record.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = previewSchema.parse(body);
+
+    const pricing = await priceSaleForOwner(
+      user.id,
+      validatedData.items,
+      validatedData
+    );
+
+    return NextResponse.json({ success: true, data: pricing });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PricingError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          details:
+            error.index !== undefined
+              ? [{ index: error.index, message: error.message }]
+              : [],
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof CurrencyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error pricing sale:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to price sale" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,162 +1,92 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth-helpers";
+import { withIdempotency } from "@/lib/idempotency";
 import { prisma } from "@/lib/db";
 import { PaymentMethod, PaymentStatus, SaleStatus } from "@prisma/client";
 import { z } from "zod";
+import { saleSchema } from "@/lib/services/sales/sale.schema";
+import {
+  createSale,
+  InsufficientStockError,
+} from "@/lib/services/sales/sale-creation.service";
+import { PricingError } from "@/lib/services/sales/pricing.service";
+import { HeldCartError } from "@/lib/services/sales/held-cart.service";
+import { CurrencyError } from "@/lib/services/sales/exchange-rate.service";
 import { startOfDay, endOfDay, subDays, subMonths } from "date-fns";
 
-const saleItemSchema = z.object({
-  productId: z.string().optional(),
-  productName: z.string().min(1, "Product name is required"),
-  quantity: z.number().int().min(1, "Quantity must be at least 1"),
-  unitPrice: z.number().min(0, "Unit price must be positive"),
-});
-
-const saleSchema = z.object({
-  customerId: z.string().optional().nullable(),
-  items: z.array(saleItemSchema).min(1, "At least one item is required"),
-  subtotal: z.number().min(0),
-  discount: z.number().min(0).default(0),
-  tax: z.number().min(0).default(0),
-  totalAmount: z.number().min(0),
-  amountPaid: z.number().min(0).default(0),
-  paymentMethod: z.nativeEnum(PaymentMethod).default(PaymentMethod.CASH),
-  paymentStatus: z.nativeEnum(PaymentStatus).default(PaymentStatus.PAID),
-  status: z.nativeEnum(SaleStatus).default(SaleStatus.COMPLETED),
-  saleDate: z.string().optional(),
-  dueDate: z.string().optional().nullable(),
-  notes: z.string().optional().nullable(),
-  saleRegionId: z.string().optional().nullable(),
-  saleDistrictId: z.string().optional().nullable(),
-});
-
 export async function POST(request: NextRequest) {
   try {
     const user = await requireAuth();
-    const body = await request.json();
 
-    // Validate input
-    const validatedData = saleSchema.parse(body);
+    // A retried request with the same key gets the first response back
+    return await withIdempotency(request, user.id, async () => {
+      const body = await request.json();
 
-    // Generate invoice number
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = String(today.getMonth() + 1).padStart(2, "0");
-    
-    // Get the last invoice number for this month
-    const lastSale = await prisma.sale.findFirst({
-      where: {
-        ownerId: user.id,
-        invoiceNumber: {
-          startsWith: `INV-${year}-${month}`,
-        },
-      },
-      orderBy: {
-        invoiceNumber: "desc",
-      },
-    });
+      // Validate input
+      const validatedData = saleSchema.parse(body);
 
-    let invoiceNumber: string;
-    if (lastSale) {
-      const lastNumber = parseInt(lastSale.invoiceNumber.split("-")[3] || "0");
-      invoiceNumber = `INV-${year}-${month}-${String(lastNumber + 1).padStart(4, "0")}`;
-    } else {
-      invoiceNumber = `INV-${year}-${month}-0001`;
+      // Create sale, decrement stock and update customer stats in one transaction
+      const sale = await createSale(user.id, user.id, validatedData);
+
+      return NextResponse.json({
+        success: true,
+        data: sale,
+        message: "Sale created successfully",
+      });
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
     }
 
-    // Calculate balance due
-    const balanceDue = validatedData.totalAmount - validatedData.amountPaid;
+    if (error instanceof PricingError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          details:
+            error.index !== undefined
+              ? [{ index: error.index, message: error.message }]
+              : [],
+        },
+        { status: 400 }
+      );
+    }
 
-    // Create sale with items
-    const sale = await prisma.sale.create({
-      data: {
-        invoiceNumber,
-        customerId: validatedData.customerId || null,
-        subtotal: validatedData.subtotal,
-        discount: validatedData.discount,
-        tax: validatedData.tax,
-        totalAmount: validatedData.totalAmount,
-        amountPaid: validatedData.amountPaid,
-        balanceDue,
-        paymentMethod: validatedData.paymentMethod,
-        paymentStatus: validatedData.paymentStatus,
-        status: validatedData.status,
-        saleDate: validatedData.saleDate ? new Date(validatedData.saleDate) : new Date(),
-        dueDate: validatedData.dueDate ? new Date(validatedData.dueDate) : null,
-        notes: validatedData.notes,
-        saleRegionId: validatedData.saleRegionId,
-        saleDistrictId: validatedData.saleDistrictId,
-        ownerId: user.id,
-        soldById: user.id,
-        items: {
-          create: validatedData.items.map((item) => ({
-            productId: item.productId || null,
-            productName: item.productName,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            totalPrice: item.quantity * item.unitPrice,
+    if (error instanceof InsufficientStockError) {
+      return NextResponse.json(
+        {
+          error: "Insufficient stock",
+          details: error.shortages.map((s) => ({
+            ...s,
+            message: `Only ${s.available} ${s.unit} of ${s.productName} in stock`,
           })),
         },
-      },
-      include: {
-        items: true,
-        customer: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-      },
-    });
-
-    // Update product stock if productId is provided
-    for (const item of validatedData.items) {
-      if (item.productId) {
-        await prisma.product.update({
-          where: { id: item.productId },
-          data: {
-            currentStock: {
-              decrement: item.quantity,
-            },
-          },
-        });
-      }
+        { status: 409 }
+      );
     }
 
-    // Update customer stats if customer exists
-    if (validatedData.customerId) {
-      const customer = await prisma.customer.findUnique({
-        where: { id: validatedData.customerId },
-      });
+    if (error instanceof HeldCartError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
 
-      if (customer) {
-        const now = new Date();
-        await prisma.customer.update({
-          where: { id: validatedData.customerId },
-          data: {
-            totalSpent: {
-              increment: validatedData.totalAmount,
-            },
-            totalVisits: {
-              increment: 1,
-            },
-            lastVisit: now,
-            firstVisit: customer.firstVisit || now,
-          },
-        });
-      }
+    if (error instanceof CurrencyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
     }
 
-    return NextResponse.json({
-      success: true,
-      data: sale,
-      message: "Sale created successfully",
-    });
-  } catch (error: any) {
-    if (error instanceof z.ZodError) {
+    // The same cart was already recorded, e.g. a retry after a dropped
+    // connection. Other unique violations are real faults and are logged
+    // below. The target is a field list, or the index name on some
+    // databases.
+    if (
+      error.code === "P2002" &&
+      String(error.meta?.target ?? "").includes("clientId")
+    ) {
       return NextResponse.json(
-        { error: "Validation error", details: error.errors },
-        { status: 400 }
+        { error: "This sale has already been recorded" },
+        { status: 409 }
       );
     }
 
@@ -280,6 +210,7 @@ export async function GET(request: NextRequest) {
               id: true,
               productName: true,
               quantity: true,
+              unitName: true,
               unitPrice: true,
               totalPrice: true,
             },
@@ -306,76 +237,6 @@ export async function GET(request: NextRequest) {
       prisma.sale.count({ where }),
     ]);
 
-    // Calculate stats
-    const now = new Date();
-    const todayStart = startOfDay(now);
-    const weekStart = startOfDay(subDays(now, 7));
-    const monthStart = startOfDay(subMonths(now, 1));
-
-    const [
-      totalRevenue,
-      todayRevenue,
-      weekRevenue,
-      monthRevenue,
-      totalSales,
-      todaySales,
-      pendingPayments,
-      overduePayments,
-    ] = await Promise.all([
-      prisma.sale.aggregate({
-        where: { ownerId: user.id, status: "COMPLETED" },
-        _sum: { totalAmount: true },
-      }),
-      prisma.sale.aggregate({
-        where: {
-          ownerId: user.id,
-          status: "COMPLETED",
-          saleDate: { gte: todayStart },
-        },
-        _sum: { totalAmount: true },
-      }),
-      prisma.sale.aggregate({
-        where: {
-          ownerId: user.id,
-          status: "COMPLETED",
-          saleDate: { gte: weekStart },
-        },
-        _sum: { totalAmount: true },
-      }),
-      prisma.sale.aggregate({
-        where: {
-          ownerId: user.id,
-          status: "COMPLETED",
-          saleDate: { gte: monthStart },
-        },
-        _sum: { totalAmount: true },
-      }),
-      prisma.sale.count({
-        where: { ownerId: user.id, status: "COMPLETED" },
-      }),
-      prisma.sale.count({
-        where: {
-          ownerId: user.id,
-          status: "COMPLETED",
-          saleDate: { gte: todayStart },
-        },
-      }),
-      prisma.sale.aggregate({
-        where: {
-          ownerId: user.id,
-          paymentStatus: { in: ["PENDING", "PARTIAL"] },
-        },
-        _sum: { balanceDue: true },
-      }),
-      prisma.sale.aggregate({
-        where: {
-          ownerId: user.id,
-          paymentStatus: "OVERDUE",
-        },
-        _sum: { balanceDue: true },
-      }),
-    ]);
-
     return NextResponse.json({
       success: true,
       data: sales,
@@ -385,16 +246,6 @@ export async function GET(request: NextRequest) {
         total,
         totalPages: Math.ceil(total / limit),
       },
-      stats: {
-        totalRevenue: Number(totalRevenue._sum.totalAmount || 0),
-        todayRevenue: Number(todayRevenue._sum.totalAmount || 0),
-        weekRevenue: Number(weekRevenue._sum.totalAmount || 0),
-        monthRevenue: Number(monthRevenue._sum.totalAmount || 0),
-        totalSales,
-        todaySales,
-        pendingPayments: Number(pendingPayments._sum.balanceDue || 0),
-        overduePayments: Number(overduePayments._sum.balanceDue || 0),
-      },
     });
   } catch (error: any) {
     console.error("Error fetching sales:", error);
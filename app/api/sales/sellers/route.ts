@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { listSellers } from "@/lib/services/sales/seller.service";
+
+// Staff sales are credited to, for commission rules and statements
+export async function GET() {
+  try {
+    const user = await requireAuth();
+
+    const sellers = await listSellers(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: sellers,
+    });
+  } catch (error: any) {
+    console.error("Error fetching sellers:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch sellers" },
+      { status: 500 }
+    );
+  }
+}
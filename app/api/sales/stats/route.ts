@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { getSalesStats } from "@/lib/services/sales/sales-stats.service";
+
+// Revenue, sale counts and outstanding balances for the sales page,
+// read from the daily aggregates
+export async function GET() {
+  try {
+    const user = await requireAuth();
+
+    const stats = await getSalesStats(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: stats,
+    });
+  } catch (error: any) {
+    console.error("Error fetching sales stats:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch sales stats" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { offlineSyncSchema } from "@/lib/services/sales/sale.schema";
+import { syncOfflineSales } from "@/lib/services/sales/offline-sync.service";
+
+// Receives sales queued by a till while it was offline. Each sale gets its
+// own result; conflicts are returned for the cashier rather than failing
+// the batch.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = offlineSyncSchema.parse(body);
+
+    const results = await syncOfflineSales(
+      user.id,
+      user.id,
+      validatedData.sales
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: results,
+      message: `${results.filter((r) => r.status === "synced").length} of ${results.length} sales synced`,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error syncing offline sales:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to sync sales" },
+      { status: 500 }
+    );
+  }
+}
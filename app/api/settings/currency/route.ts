@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, requireAdmin } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { redenominationSchema } from "@/lib/services/currency/redenomination.schema";
+import { getCurrencyDisplay } from "@/lib/services/currency/currency.service";
+import {
+  listCurrencyMigrations,
+  redenominateCurrency,
+  RedenominationError,
+} from "@/lib/services/currency/redenomination.service";
+
+// The business currency every screen formats money in, with any
+// redenomination transition and the history of past migrations
+export async function GET() {
+  try {
+    const user = await requireAuth();
+
+    const [display, migrations] = await Promise.all([
+      getCurrencyDisplay(user.id),
+      listCurrencyMigrations(user.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...display, migrations },
+    });
+  } catch (error: any) {
+    console.error("Error fetching currency:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch currency" },
+      { status: 500 }
+    );
+  }
+}
+
+// Redenominate: convert every recorded amount to the new currency
+export async function POST(request: NextRequest) {
+  try {
+    // Only admins can change business settings
+    const user = await requireAdmin();
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = redenominationSchema.parse(body);
+
+    const migration = await redenominateCurrency(
+      user.id,
+      user.id,
+      validatedData
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: migration,
+      message: `Amounts converted from ${migration.fromCurrency} to ${migration.toCurrency}`,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof RedenominationError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error("Error converting currency:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to convert currency" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, requireAdmin } from "@/lib/auth-helpers";
+import { prisma } from "@/lib/db";
+import { NumberingReset } from "@prisma/client";
+import { z } from "zod";
+
+// The currency is changed through POST /api/settings/currency, which
+// converts the amounts already recorded
+const settingsSchema = z.object({
+  timezone: z.string().min(1).optional(),
+  dateFormat: z.string().min(1).optional(),
+  emailNotifications: z.boolean().optional(),
+  lowStockAlerts: z.boolean().optional(),
+  paymentReminders: z.boolean().optional(),
+  smsNotifications: z.boolean().optional(),
+  allowNegativeStock: z.boolean().optional(),
+  cashVarianceThreshold: z.number().min(0).optional(),
+  allowPriceOverride: z.boolean().optional(),
+  maxDiscountPercent: z.number().min(0).max(100).optional(),
+  invoicePrefix: z
+    .string()
+    .max(10, "Prefix must be 10 characters or fewer")
+    .regex(/^[A-Za-z0-9]*$/, "Prefix may only contain letters and numbers")
+    .optional(),
+  invoiceNumberReset: z.nativeEnum(NumberingReset).optional(),
+  invoiceNumberPadding: z.number().int().min(1).max(10).optional(),
+  quotePrefix: z
+    .string()
+    .max(10, "Prefix must be 10 characters or fewer")
+    .regex(/^[A-Za-z0-9]*$/, "Prefix may only contain letters and numbers")
+    .optional(),
+  quoteValidityDays: z.number().int().min(1).max(365).optional(),
+  paymentTerms: z.string().max(500).optional().nullable(),
+  receiptPaperWidth: z.union([z.literal(58), z.literal(80)]).optional(),
+  reminderSchedule: z
+    .array(z.number().int().min(-90).max(365))
+    .max(10, "At most 10 reminder steps")
+    .optional(),
+  // End or extend showing old-currency amounts after a redenomination
+  legacyDisplayUntil: z.string().optional().nullable(),
+});
+
+export async function GET() {
+  try {
+    const user = await requireAuth();
+
+    const settings = await prisma.userSettings.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id },
+      update: {},
+    });
+
+    return NextResponse.json({ success: true, data: settings });
+  } catch (error: any) {
+    console.error("Error fetching settings:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch settings" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    // Only admins can change business settings
+    const user = await requireAdmin();
+    const body = await request.json();
+
+    // Validate input
+    const { legacyDisplayUntil, ...validatedData } = settingsSchema.parse(body);
+    const data = {
+      ...validatedData,
+      ...(legacyDisplayUntil !== undefined && {
+        legacyDisplayUntil: legacyDisplayUntil
+          ? new Date(legacyDisplayUntil)
+          : null,
+      }),
+    };
+
+    const settings = await prisma.userSettings.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, ...data },
+      update: data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+      message: "Settings updated successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating settings:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update settings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { closeShiftSchema } from "@/lib/services/shifts/shift.schema";
+import {
+  closeShift,
+  getShiftReport,
+  ShiftError,
+} from "@/lib/services/shifts/shift.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+// Close the drawer with the cashier's count and return the Z report
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = closeShiftSchema.parse(body);
+
+    const shift = await closeShift(id, user.id, user.id, validatedData);
+
+    if (!shift) {
+      return NextResponse.json({ error: "Shift not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getShiftReport(shift.id, user.id),
+      message: "Shift closed",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ShiftError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error("Error closing shift:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to close shift" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { cashMovementSchema } from "@/lib/services/shifts/shift.schema";
+import {
+  recordCashMovement,
+  ShiftError,
+} from "@/lib/services/shifts/shift.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = cashMovementSchema.parse(body);
+
+    const movement = await recordCashMovement(
+      id,
+      user.id,
+      user.id,
+      validatedData
+    );
+
+    if (!movement) {
+      return NextResponse.json({ error: "Shift not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: movement,
+      message: "Cash movement recorded",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ShiftError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error("Error recording cash movement:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to record cash movement" },
+      { status: 500 }
+    );
+  }
+}
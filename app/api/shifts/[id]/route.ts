@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { getShiftReport } from "@/lib/services/shifts/shift.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+// X report while the shift is open, Z report once it is closed
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAuth();
+    const { id } = await Promise.resolve(params);
+
+    const data = await getShiftReport(id, user.id);
+
+    if (!data) {
+      return NextResponse.json({ error: "Shift not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data });
+  } catch (error: any) {
+    console.error("Error fetching shift:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch shift" },
+      { status: 500 }
+    );
+  }
+}
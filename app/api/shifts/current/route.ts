@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import {
+  getOpenShift,
+  getShiftReport,
+} from "@/lib/services/shifts/shift.service";
+
+// The signed-in cashier's open shift with its running totals, or null
+export async function GET() {
+  try {
+    const user = await requireAuth();
+
+    const open = await getOpenShift(user.id, user.id);
+    const data = open ? await getShiftReport(open.id, user.id) : null;
+
+    return NextResponse.json({ success: true, data });
+  } catch (error: any) {
+    console.error("Error fetching current shift:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch current shift" },
+      { status: 500 }
+    );
+  }
+}
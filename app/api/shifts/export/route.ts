@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { exportShiftsCsv } from "@/lib/services/shifts/shift.service";
+import { format, startOfDay, endOfDay } from "date-fns";
+
+// Closed shift history as a CSV download
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const searchParams = request.nextUrl.searchParams;
+    const startDate = searchParams.get("startDate");
+    const endDate = searchParams.get("endDate");
+
+    const csv = await exportShiftsCsv(user.id, {
+      startDate: startDate ? startOfDay(new Date(startDate)) : null,
+      endDate: endDate ? endOfDay(new Date(endDate)) : null,
+    });
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="shifts_${format(new Date(), "yyyy-MM-dd")}.csv"`,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error exporting shifts:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to export shifts" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth-helpers";
+import { ShiftStatus } from "@prisma/client";
+import { z } from "zod";
+import { openShiftSchema } from "@/lib/services/shifts/shift.schema";
+import {
+  listShifts,
+  openShift,
+  ShiftError,
+} from "@/lib/services/shifts/shift.service";
+import { startOfDay, endOfDay } from "date-fns";
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const searchParams = request.nextUrl.searchParams;
+
+    // Pagination
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "20");
+
+    // Filters
+    const status = searchParams.get("status") as ShiftStatus | null;
+    const startDate = searchParams.get("startDate");
+    const endDate = searchParams.get("endDate");
+
+    const { shifts, total } = await listShifts(
+      user.id,
+      {
+        status,
+        startDate: startDate ? startOfDay(new Date(startDate)) : null,
+        endDate: endDate ? endOfDay(new Date(endDate)) : null,
+      },
+      page,
+      limit
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: shifts,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching shifts:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch shifts" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = openShiftSchema.parse(body);
+
+    const shift = await openShift(user.id, user.id, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: shift,
+      message: "Shift opened",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ShiftError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error("Error opening shift:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to open shift" },
+      { status: 500 }
+    );
+  }
+}
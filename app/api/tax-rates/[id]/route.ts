@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { taxRateUpdateSchema } from "@/lib/services/sales/tax-rate.schema";
+import {
+  deleteTaxRate,
+  updateTaxRate,
+} from "@/lib/services/sales/tax-rate.service";
+
+type RouteParams = { params: Promise<{ id: string }> | { id: string } };
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAdmin();
+    const { id } = await Promise.resolve(params);
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = taxRateUpdateSchema.parse(body);
+
+    const taxRate = await updateTaxRate(id, user.id, validatedData);
+
+    if (!taxRate) {
+      return NextResponse.json({ error: "Tax rate not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: taxRate,
+      message: "Tax rate updated successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A tax rate with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error updating tax rate:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update tax rate" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requireAdmin();
+    const { id } = await Promise.resolve(params);
+
+    const deleted = await deleteTaxRate(id, user.id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Tax rate not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Tax rate deleted successfully",
+    });
+  } catch (error: any) {
+    console.error("Error deleting tax rate:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to delete tax rate" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, requireAdmin } from "@/lib/auth-helpers";
+import { z } from "zod";
+import { taxRateSchema } from "@/lib/services/sales/tax-rate.schema";
+import {
+  createTaxRate,
+  listTaxRates,
+} from "@/lib/services/sales/tax-rate.service";
+
+export async function GET() {
+  try {
+    const user = await requireAuth();
+
+    const taxRates = await listTaxRates(user.id);
+
+    return NextResponse.json({ success: true, data: taxRates });
+  } catch (error: any) {
+    console.error("Error fetching tax rates:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch tax rates" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Only admins can change business settings
+    const user = await requireAdmin();
+    const body = await request.json();
+
+    // Validate input
+    const validatedData = taxRateSchema.parse(body);
+
+    const taxRate = await createTaxRate(user.id, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: taxRate,
+      message: "Tax rate created successfully",
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A tax rate with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error creating tax rate:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to create tax rate" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { CommissionsView } from "@/components/commissions/commissions-view";
+
+export const metadata = {
+  title: "Commissions | CIMS",
+  description: "Staff commission rules and statements",
+};
+
+export default function CommissionsPage() {
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <CommissionsView />
+      </div>
+    </DashboardLayout>
+  );
+}
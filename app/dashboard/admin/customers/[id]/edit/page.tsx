@@ -0,0 +1,23 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { EditCustomerForm } from "@/components/customers/edit-customer-form";
+
+export const metadata = {
+  title: "Edit Customer | CIMS",
+  description: "Edit a customer's details",
+};
+
+export default async function EditCustomerPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <EditCustomerForm customerId={id} />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,17 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { PriceListsView } from "@/components/price-lists/price-lists-view";
+
+export const metadata = {
+  title: "Price Lists | CIMS",
+  description: "Customer-type and per-customer prices with quantity breaks",
+};
+
+export default function PriceListsPage() {
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <PriceListsView />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,23 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { QuoteDetailView } from "@/components/quotes/quote-detail-view";
+
+export const metadata = {
+  title: "Quote Details | CIMS",
+  description: "View a quotation",
+};
+
+export default async function QuoteDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <QuoteDetailView quoteId={id} />
+      </div>
+    </DashboardLayout>
+  );
+}
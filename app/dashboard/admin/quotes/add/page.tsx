@@ -0,0 +1,17 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { AddQuoteForm } from "@/components/quotes/add-quote-form";
+
+export const metadata = {
+  title: "New Quote | CIMS",
+  description: "Prepare a quotation for a customer",
+};
+
+export default function AddQuotePage() {
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <AddQuoteForm />
+      </div>
+    </DashboardLayout>
+  );
+}
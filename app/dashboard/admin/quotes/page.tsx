@@ -0,0 +1,17 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { QuotesView } from "@/components/quotes/quotes-view";
+
+export const metadata = {
+  title: "Quotes | CIMS",
+  description: "Prepare quotations and convert them to sales",
+};
+
+export default function QuotesPage() {
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <QuotesView />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,23 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { EditSaleForm } from "@/components/sales/edit-sale-form";
+
+export const metadata = {
+  title: "Edit Sale | CIMS",
+  description: "Edit a sales transaction",
+};
+
+export default async function EditSalePage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <EditSaleForm saleId={id} />
+      </div>
+    </DashboardLayout>
+  );
+}
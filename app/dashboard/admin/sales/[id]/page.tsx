@@ -0,0 +1,23 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { SaleDetailView } from "@/components/sales/sale-detail-view";
+
+export const metadata = {
+  title: "Sale Details | CIMS",
+  description: "View a sales transaction",
+};
+
+export default async function SaleDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <SaleDetailView saleId={id} />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,17 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { SaleImportView } from "@/components/sales/sale-import-view";
+
+export const metadata = {
+  title: "Import Sales | CIMS",
+  description: "Import past sales from a spreadsheet",
+};
+
+export default function ImportSalesPage() {
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <SaleImportView />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,20 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { requireAdmin } from "@/lib/auth-helpers";
+import { SettingsView } from "@/components/settings/settings-view";
+
+export const metadata = {
+  title: "Settings | CIMS",
+  description: "Configure your business settings",
+};
+
+export default async function SettingsPage() {
+  await requireAdmin();
+
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <SettingsView />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,23 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { ShiftReportView } from "@/components/shifts/shift-report-view";
+
+export const metadata = {
+  title: "Shift Report | CIMS",
+  description: "Expected and counted takings for a shift",
+};
+
+export default async function ShiftReportPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <ShiftReportView shiftId={id} />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,17 @@
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { ShiftsView } from "@/components/shifts/shifts-view";
+
+export const metadata = {
+  title: "Cash Drawer | CIMS",
+  description: "Open, reconcile and close cashier shifts",
+};
+
+export default function ShiftsPage() {
+  return (
+    <DashboardLayout>
+      <div className="p-6">
+        <ShiftsView />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -11,6 +11,7 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
+import { useCurrency, useMoneyFormatter } from "@/components/layout/currency-provider";
 
 interface CLVData {
   customerName: string;
@@ -24,6 +25,8 @@ interface CLVChartProps {
 }
 
 export function CLVChart({ data, limit = 10 }: CLVChartProps) {
+  const { currency } = useCurrency();
+  const formatCurrency = useMoneyFormatter();
   const chartData = data
     .sort((a, b) => b.clv - a.clv)
     .slice(0, limit)
@@ -56,7 +59,7 @@ export function CLVChart({ data, limit = 10 }: CLVChartProps) {
               tickFormatter={(value) =>
                 new Intl.NumberFormat("en-US", {
                   style: "currency",
-                  currency: "SLL",
+                  currency,
                   notation: "compact",
                   minimumFractionDigits: 0,
                 }).format(value)
@@ -69,13 +72,7 @@ export function CLVChart({ data, limit = 10 }: CLVChartProps) {
                 borderRadius: "8px",
                 color: "#111827",
               }}
-              formatter={(value: number) =>
-                new Intl.NumberFormat("en-US", {
-                  style: "currency",
-                  currency: "SLL",
-                  minimumFractionDigits: 0,
-                }).format(value)
-              }
+              formatter={(value: number) => formatCurrency(value)}
             />
             <Legend />
             <Bar
@@ -11,6 +11,7 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
+import { useCurrency } from "@/components/layout/currency-provider";
 
 interface SalesTrendData {
   period: string;
@@ -26,6 +27,7 @@ interface SalesTrendChartProps {
 }
 
 export function SalesTrendChart({ data }: SalesTrendChartProps) {
+  const { currency } = useCurrency();
   const chartData = data.map((item) => ({
     period: item.period,
     revenue: item.totalRevenue,
@@ -84,7 +86,7 @@ export function SalesTrendChart({ data }: SalesTrendChartProps) {
               dataKey="revenue"
               stroke="#3b82f6"
               strokeWidth={2}
-              name="Revenue (SLL)"
+              name={`Revenue (${currency})`}
               dot={{ fill: "#3b82f6", r: 4 }}
             />
             <Line
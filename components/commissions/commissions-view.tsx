@@ -0,0 +1,581 @@
+"use client";
+
+import { Fragment, useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Percent, Plus, Save, Trash2, Pencil, X, Trophy } from "lucide-react";
+import { CommissionBasis } from "@prisma/client";
+import { format, startOfMonth } from "date-fns";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+interface Seller {
+  id: string;
+  name: string;
+}
+
+interface CommissionRule {
+  id: string;
+  category: string | null;
+  basis: CommissionBasis;
+  rate: number | string; // Decimals arrive as strings
+  staff: Seller;
+}
+
+interface CommissionStatement {
+  staff: Array<{
+    staff: Seller;
+    salesCount: number;
+    revenue: number;
+    margin: number;
+    uncostedRevenue: number;
+    commission: number;
+    categories: Array<{
+      category: string | null;
+      basis: CommissionBasis | null;
+      rate: number;
+      revenue: number;
+      margin: number;
+      commission: number;
+    }>;
+  }>;
+  totals: {
+    salesCount: number;
+    revenue: number;
+    margin: number;
+    commission: number;
+  };
+}
+
+const BASIS_LABELS: Record<CommissionBasis, string> = {
+  [CommissionBasis.REVENUE]: "of revenue",
+  [CommissionBasis.MARGIN]: "of margin",
+};
+
+const selectClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const emptyRule = {
+  id: null as string | null, // Set while editing an existing rule
+  staffId: "",
+  category: "",
+  basis: CommissionBasis.REVENUE as CommissionBasis,
+  rate: "",
+};
+
+export function CommissionsView() {
+  const formatCurrency = useMoneyFormatter();
+  const [sellers, setSellers] = useState<Seller[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [statement, setStatement] = useState<CommissionStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [period, setPeriod] = useState({
+    startDate: format(startOfMonth(new Date()), "yyyy-MM-dd"),
+    endDate: format(new Date(), "yyyy-MM-dd"),
+    staffId: "",
+  });
+  const [ruleForm, setRuleForm] = useState(emptyRule);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const res = await fetch("/api/commissions/rules");
+      const data = await res.json();
+      if (data.success) {
+        setRules(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching commission rules:", error);
+    }
+  }, []);
+
+  const fetchStatement = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        startDate: period.startDate,
+        endDate: period.endDate,
+      });
+      if (period.staffId) {
+        params.append("staffId", period.staffId);
+      }
+
+      const res = await fetch(`/api/commissions/statement?${params.toString()}`);
+      const data = await res.json();
+      if (data.success) {
+        setStatement(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching commission statement:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  useEffect(() => {
+    fetchStatement();
+  }, [fetchStatement]);
+
+  useEffect(() => {
+    async function fetchOptions() {
+      try {
+        const [sellersRes, productsRes] = await Promise.all([
+          fetch("/api/sales/sellers"),
+          fetch("/api/products?limit=100"),
+        ]);
+        const sellersData = await sellersRes.json();
+        const productsData = await productsRes.json();
+        if (sellersData.success) setSellers(sellersData.data);
+        if (productsData.success) {
+          setCategories(
+            Array.from(
+              new Set<string>(
+                productsData.data
+                  .map((p: { category: string | null }) => p.category)
+                  .filter(Boolean)
+              )
+            ).sort()
+          );
+        }
+      } catch (error) {
+        console.error("Error fetching staff and categories:", error);
+      }
+    }
+
+    fetchOptions();
+  }, []);
+
+  const saveRule = async () => {
+    const rate = parseFloat(ruleForm.rate);
+    if (!ruleForm.id && !ruleForm.staffId) {
+      setError("Choose a staff member");
+      return;
+    }
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      setError("Enter a rate between 0 and 100%");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const body = {
+        category: ruleForm.category.trim() || null,
+        basis: ruleForm.basis,
+        rate,
+      };
+      const res = await fetch(
+        ruleForm.id
+          ? `/api/commissions/rules/${ruleForm.id}`
+          : "/api/commissions/rules",
+        {
+          method: ruleForm.id ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            ruleForm.id ? body : { ...body, staffId: ruleForm.staffId }
+          ),
+        }
+      );
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(
+          data.details?.[0]?.message ||
+            data.error ||
+            "Failed to save commission rule"
+        );
+      }
+
+      setRuleForm(emptyRule);
+      await Promise.all([fetchRules(), fetchStatement()]);
+    } catch (err: any) {
+      setError(err.message || "Failed to save commission rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editRule = (rule: CommissionRule) => {
+    setError(null);
+    setRuleForm({
+      id: rule.id,
+      staffId: rule.staff.id,
+      category: rule.category || "",
+      basis: rule.basis,
+      rate: String(Number(rule.rate)),
+    });
+  };
+
+  const deleteRule = async (rule: CommissionRule) => {
+    if (
+      !window.confirm(
+        `Delete ${rule.staff.name}'s rule for ${rule.category || "all other categories"}?`
+      )
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/commissions/rules/${rule.id}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to delete commission rule");
+      }
+
+      if (ruleForm.id === rule.id) setRuleForm(emptyRule);
+      await Promise.all([fetchRules(), fetchStatement()]);
+    } catch (err: any) {
+      setError(err.message || "Failed to delete commission rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Commissions</h1>
+        <p className="text-gray-600 mt-1">
+          What each staff member earns on the sales credited to them
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <X className="w-5 h-5 text-red-600" />
+              <p className="text-red-600">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Statement */}
+        <div className="lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-gray-900 flex items-center gap-2">
+                <Trophy className="w-5 h-5" />
+                Statement
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">
+                    From
+                  </label>
+                  <Input
+                    type="date"
+                    value={period.startDate}
+                    onChange={(e) =>
+                      setPeriod((prev) => ({ ...prev, startDate: e.target.value }))
+                    }
+                    className="text-gray-900"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">
+                    To
+                  </label>
+                  <Input
+                    type="date"
+                    value={period.endDate}
+                    onChange={(e) =>
+                      setPeriod((prev) => ({ ...prev, endDate: e.target.value }))
+                    }
+                    className="text-gray-900"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">
+                    Staff Member
+                  </label>
+                  <select
+                    value={period.staffId}
+                    onChange={(e) =>
+                      setPeriod((prev) => ({ ...prev, staffId: e.target.value }))
+                    }
+                    className={selectClass}
+                  >
+                    <option value="">All staff</option>
+                    {sellers.map((seller) => (
+                      <option key={seller.id} value={seller.id}>
+                        {seller.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {loading || !statement ? (
+                <p className="text-sm text-gray-600">Loading statement...</p>
+              ) : statement.staff.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  No completed sales in this period.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-left text-gray-600">
+                        <th className="py-2 pr-4 font-medium">Staff Member</th>
+                        <th className="py-2 pr-4 font-medium text-right">Sales</th>
+                        <th className="py-2 pr-4 font-medium text-right">Revenue</th>
+                        <th className="py-2 pr-4 font-medium text-right">Margin</th>
+                        <th className="py-2 font-medium text-right">Commission</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {statement.staff.map((entry) => (
+                        <Fragment key={entry.staff.id}>
+                          <tr className="border-t border-gray-200 text-gray-900">
+                            <td className="py-2 pr-4 font-medium">
+                              {entry.staff.name}
+                            </td>
+                            <td className="py-2 pr-4 text-right">
+                              {entry.salesCount}
+                            </td>
+                            <td className="py-2 pr-4 text-right">
+                              {formatCurrency(entry.revenue)}
+                            </td>
+                            <td className="py-2 pr-4 text-right">
+                              {formatCurrency(entry.margin)}
+                              {entry.uncostedRevenue > 0 && (
+                                <span
+                                  className="block text-xs text-gray-500"
+                                  title="Lines without a cost, such as manual items, have no margin"
+                                >
+                                  {formatCurrency(entry.uncostedRevenue)} uncosted
+                                </span>
+                              )}
+                            </td>
+                            <td className="py-2 text-right font-semibold">
+                              {formatCurrency(entry.commission)}
+                            </td>
+                          </tr>
+                          {entry.categories.map((line) => (
+                            <tr
+                              key={`${entry.staff.id}-${line.category ?? ""}`}
+                              className="text-xs text-gray-600"
+                            >
+                              <td className="py-1 pr-4 pl-4">
+                                {line.category || "Uncategorised"}
+                                {" - "}
+                                {line.basis
+                                  ? `${line.rate}% ${BASIS_LABELS[line.basis]}`
+                                  : "no rule"}
+                              </td>
+                              <td className="py-1 pr-4" />
+                              <td className="py-1 pr-4 text-right">
+                                {formatCurrency(line.revenue)}
+                              </td>
+                              <td className="py-1 pr-4 text-right">
+                                {formatCurrency(line.margin)}
+                              </td>
+                              <td className="py-1 text-right">
+                                {formatCurrency(line.commission)}
+                              </td>
+                            </tr>
+                          ))}
+                        </Fragment>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr className="border-t-2 border-gray-300 font-semibold text-gray-900">
+                        <td className="py-2 pr-4">Total</td>
+                        <td className="py-2 pr-4 text-right">
+                          {statement.totals.salesCount}
+                        </td>
+                        <td className="py-2 pr-4 text-right">
+                          {formatCurrency(statement.totals.revenue)}
+                        </td>
+                        <td className="py-2 pr-4 text-right">
+                          {formatCurrency(statement.totals.margin)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {formatCurrency(statement.totals.commission)}
+                        </td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Rules */}
+        <div className="lg:col-span-1">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-gray-900 flex items-center gap-2">
+                <Percent className="w-5 h-5" />
+                Rules
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                A rule for a product category wins over the staff
+                member&apos;s rule for all other categories. Revenue is after
+                discounts and refunds, before tax; margin is revenue less the
+                product&apos;s cost when it was sold.
+              </p>
+
+              {rules.length === 0 ? (
+                <p className="text-sm text-gray-600">No commission rules yet.</p>
+              ) : (
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {rules.map((rule) => (
+                    <div
+                      key={rule.id}
+                      className={`flex items-center justify-between gap-2 px-4 py-3 ${
+                        rule.id === ruleForm.id ? "bg-blue-50" : ""
+                      }`}
+                    >
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {rule.staff.name}
+                        </p>
+                        <p className="text-xs text-gray-600">
+                          {Number(rule.rate)}% {BASIS_LABELS[rule.basis]} on{" "}
+                          {rule.category || "all other categories"}
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => editRule(rule)}
+                          disabled={saving}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteRule(rule)}
+                          disabled={saving}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2 pt-2 border-t border-gray-200">
+                <select
+                  value={ruleForm.staffId}
+                  onChange={(e) =>
+                    setRuleForm((prev) => ({ ...prev, staffId: e.target.value }))
+                  }
+                  disabled={saving || !!ruleForm.id}
+                  className={selectClass}
+                >
+                  <option value="">Staff member...</option>
+                  {sellers.map((seller) => (
+                    <option key={seller.id} value={seller.id}>
+                      {seller.name}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  type="text"
+                  list="commission-categories"
+                  placeholder="Category (blank for all others)"
+                  value={ruleForm.category}
+                  onChange={(e) =>
+                    setRuleForm((prev) => ({ ...prev, category: e.target.value }))
+                  }
+                  disabled={saving}
+                  className="text-gray-900"
+                />
+                <datalist id="commission-categories">
+                  {categories.map((category) => (
+                    <option key={category} value={category} />
+                  ))}
+                </datalist>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    placeholder="Rate %"
+                    value={ruleForm.rate}
+                    onChange={(e) =>
+                      setRuleForm((prev) => ({ ...prev, rate: e.target.value }))
+                    }
+                    disabled={saving}
+                    className="text-gray-900"
+                  />
+                  <select
+                    value={ruleForm.basis}
+                    onChange={(e) =>
+                      setRuleForm((prev) => ({
+                        ...prev,
+                        basis: e.target.value as CommissionBasis,
+                      }))
+                    }
+                    disabled={saving}
+                    className={selectClass}
+                  >
+                    {Object.values(CommissionBasis).map((basis) => (
+                      <option key={basis} value={basis}>
+                        {BASIS_LABELS[basis]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    onClick={saveRule}
+                    disabled={saving}
+                    className="flex-1"
+                  >
+                    {ruleForm.id ? (
+                      <Save className="w-4 h-4 mr-2" />
+                    ) : (
+                      <Plus className="w-4 h-4 mr-2" />
+                    )}
+                    {ruleForm.id ? "Save Rule" : "Add Rule"}
+                  </Button>
+                  {ruleForm.id && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setRuleForm(emptyRule)}
+                      disabled={saving}
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -19,11 +19,14 @@ import {
   X,
 } from "lucide-react";
 import Link from "next/link";
+import { newClientId } from "@/lib/utils";
 import { CustomerType } from "@prisma/client";
 
 export function AddCustomerForm() {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
+  // Sent with the create request so a double submit is only saved once
+  const [idempotencyKey, setIdempotencyKey] = useState(newClientId);
   const [error, setError] = useState<string | null>(null);
   const [tagInput, setTagInput] = useState("");
   const [formData, setFormData] = useState({
@@ -79,7 +82,10 @@ export function AddCustomerForm() {
     try {
       const response = await fetch("/api/customers", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey,
+        },
         body: JSON.stringify({
           ...formData,
           email: formData.email || undefined,
@@ -97,6 +103,7 @@ export function AddCustomerForm() {
       const data = await response.json();
 
       if (!response.ok) {
+        setIdempotencyKey(newClientId());
         throw new Error(data.error || "Failed to create customer");
       }
 
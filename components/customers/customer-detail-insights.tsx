@@ -8,6 +8,7 @@ import { CustomerInsightChart } from "@/components/analytics/CustomerInsightChar
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
+import { PaymentHistoryPanel } from "@/components/sales/payment-history-panel";
 
 interface CustomerInsight {
   customerId: string;
@@ -183,6 +184,8 @@ export function CustomerDetailInsights({ customerId }: { customerId: string }) {
           />
         )}
       </div>
+
+      <PaymentHistoryPanel customerId={customerId} />
     </div>
   );
 }
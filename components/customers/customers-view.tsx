@@ -11,7 +11,8 @@ import {
   Download,
   Eye,
   Edit,
-  Trash2,
+  Archive,
+  ArchiveRestore,
   Users,
   DollarSign,
   TrendingUp,
@@ -27,6 +28,7 @@ import {
 import Link from "next/link";
 import { formatDistanceToNow } from "date-fns";
 import { CustomerType } from "@prisma/client";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
 
 interface Customer {
   id: string;
@@ -81,6 +83,7 @@ interface CustomersResponse {
 }
 
 export function CustomersView() {
+  const formatCurrency = useMoneyFormatter();
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
@@ -106,6 +109,8 @@ export function CustomersView() {
   const [sortBy, setSortBy] = useState("createdAt");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [showFilters, setShowFilters] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [archivingId, setArchivingId] = useState<string | null>(null);
 
   // Debounce search
   useEffect(() => {
@@ -139,6 +144,9 @@ export function CustomersView() {
       if (filters.city) {
         params.append("city", filters.city);
       }
+      if (showArchived) {
+        params.append("archived", "true");
+      }
 
       const res = await fetch(`/api/customers?${params.toString()}`);
       const data: CustomersResponse = await res.json();
@@ -153,7 +161,7 @@ export function CustomersView() {
     } finally {
       setLoading(false);
     }
-  }, [page, debouncedSearch, filters, sortBy, sortOrder]);
+  }, [page, debouncedSearch, filters, sortBy, sortOrder, showArchived]);
 
   useEffect(() => {
     fetchCustomers();
@@ -174,6 +182,59 @@ export function CustomersView() {
     setPage(1);
   };
 
+  // Archived customers keep their sales but drop out of pickers
+  const handleArchive = async (customer: Customer) => {
+    if (
+      !window.confirm(
+        `Archive ${customer.name}? Their sales history is kept, but they can't be chosen for new sales.`
+      )
+    ) {
+      return;
+    }
+
+    setArchivingId(customer.id);
+    try {
+      const res = await fetch(`/api/customers/${customer.id}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to archive customer");
+      }
+
+      await fetchCustomers();
+    } catch (error: any) {
+      console.error("Error archiving customer:", error);
+      window.alert(error.message || "Failed to archive customer");
+    } finally {
+      setArchivingId(null);
+    }
+  };
+
+  const handleRestore = async (customer: Customer) => {
+    setArchivingId(customer.id);
+    try {
+      const res = await fetch(`/api/customers/${customer.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ archived: false }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to restore customer");
+      }
+
+      await fetchCustomers();
+    } catch (error: any) {
+      console.error("Error restoring customer:", error);
+      window.alert(error.message || "Failed to restore customer");
+    } finally {
+      setArchivingId(null);
+    }
+  };
+
   const getLoyaltyColor = (score: number) => {
     if (score >= 80) return "text-green-600 bg-green-50";
     if (score >= 60) return "text-blue-600 bg-blue-50";
@@ -244,11 +305,7 @@ export function CustomersView() {
                   Total Revenue
                 </p>
                 <p className="text-2xl font-bold text-gray-900 mt-1">
-                  {new Intl.NumberFormat("en-US", {
-                    style: "currency",
-                    currency: "SLL",
-                    minimumFractionDigits: 0,
-                  }).format(Number(stats.totalRevenue))}
+                  {formatCurrency(Number(stats.totalRevenue))}
                 </p>
               </div>
               <div className="p-3 bg-green-100 rounded-lg">
@@ -284,11 +341,7 @@ export function CustomersView() {
                   Avg. Customer Value
                 </p>
                 <p className="text-2xl font-bold text-gray-900 mt-1">
-                  {new Intl.NumberFormat("en-US", {
-                    style: "currency",
-                    currency: "SLL",
-                    minimumFractionDigits: 0,
-                  }).format(Number(stats.averageSpent))}
+                  {formatCurrency(Number(stats.averageSpent))}
                 </p>
               </div>
               <div className="p-3 bg-purple-100 rounded-lg">
@@ -394,9 +447,23 @@ export function CustomersView() {
       {/* Customers Table */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-gray-900">
-            All Customers ({pagination.total})
-          </CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-gray-900">
+              {showArchived ? "Archived Customers" : "All Customers"}{" "}
+              ({pagination.total})
+            </CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setShowArchived(!showArchived);
+                setPage(1);
+              }}
+            >
+              <Archive className="w-4 h-4 mr-2" />
+              {showArchived ? "Show Active" : "Show Archived"}
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {loading ? (
@@ -507,11 +574,7 @@ export function CustomersView() {
                         <td className="py-4 px-4">
                           <div>
                             <p className="font-medium text-gray-900">
-                              {new Intl.NumberFormat("en-US", {
-                                style: "currency",
-                                currency: "SLL",
-                                minimumFractionDigits: 0,
-                              }).format(Number(customer.totalSpent))}
+                              {formatCurrency(Number(customer.totalSpent))}
                             </p>
                             <p className="text-xs text-gray-500">
                               {customer.totalVisits} visits
@@ -563,12 +626,34 @@ export function CustomersView() {
                                 <Eye className="w-4 h-4" />
                               </Button>
                             </Link>
-                            <Button variant="ghost" size="sm">
-                              <Edit className="w-4 h-4" />
-                            </Button>
-                            <Button variant="ghost" size="sm">
-                              <Trash2 className="w-4 h-4 text-red-600" />
-                            </Button>
+                            <Link
+                              href={`/dashboard/admin/customers/${customer.id}/edit`}
+                            >
+                              <Button variant="ghost" size="sm" title="Edit">
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                            </Link>
+                            {showArchived ? (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Restore"
+                                onClick={() => handleRestore(customer)}
+                                disabled={archivingId === customer.id}
+                              >
+                                <ArchiveRestore className="w-4 h-4 text-green-600" />
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Archive"
+                                onClick={() => handleArchive(customer)}
+                                disabled={archivingId === customer.id}
+                              >
+                                <Archive className="w-4 h-4 text-red-600" />
+                              </Button>
+                            )}
                           </div>
                         </td>
                       </tr>
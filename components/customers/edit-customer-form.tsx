@@ -0,0 +1,499 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ArrowLeft,
+  Save,
+  User,
+  MapPin,
+  Tag,
+  Building,
+  AlertCircle,
+  X,
+} from "lucide-react";
+import Link from "next/link";
+import { CustomerType } from "@prisma/client";
+
+interface Place {
+  id: string;
+  name: string;
+}
+
+interface Country extends Place {
+  regions: (Place & {
+    districts: (Place & {
+      chiefdoms: (Place & { locations: Place[] })[];
+    })[];
+  })[];
+}
+
+// Location levels, widest first
+const LOCATION_LEVELS = [
+  "countryId",
+  "regionId",
+  "districtId",
+  "chiefdomId",
+  "locationId",
+] as const;
+
+type LocationLevel = (typeof LOCATION_LEVELS)[number];
+
+const selectClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export function EditCustomerForm({ customerId }: { customerId: string }) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [customerCode, setCustomerCode] = useState("");
+  const [archived, setArchived] = useState(false);
+  const [countries, setCountries] = useState<Country[]>([]);
+  const [tagInput, setTagInput] = useState("");
+  const [formData, setFormData] = useState({
+    name: "",
+    phone: "",
+    alternatePhone: "",
+    email: "",
+    address: "",
+    city: "",
+    countryId: "",
+    regionId: "",
+    districtId: "",
+    chiefdomId: "",
+    locationId: "",
+    type: CustomerType.RETAIL as CustomerType,
+    tags: [] as string[],
+    notes: "",
+  });
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const [customerRes, locationsRes] = await Promise.all([
+          fetch(`/api/customers/${customerId}`),
+          fetch("/api/locations"),
+        ]);
+
+        const customerData = await customerRes.json();
+        const locationsData = await locationsRes.json();
+
+        if (customerData.success) {
+          const customer = customerData.data;
+          setCustomerCode(customer.customerCode);
+          setArchived(customer.archivedAt !== null);
+          setFormData({
+            name: customer.name,
+            phone: customer.phone,
+            alternatePhone: customer.alternatePhone || "",
+            email: customer.email || "",
+            address: customer.address || "",
+            city: customer.city,
+            countryId: customer.countryId || "",
+            regionId: customer.regionId || "",
+            districtId: customer.districtId || "",
+            chiefdomId: customer.chiefdomId || "",
+            locationId: customer.locationId || "",
+            type: customer.type,
+            tags: customer.tags,
+            notes: customer.notes || "",
+          });
+        } else {
+          setError(customerData.error || "Failed to load customer");
+        }
+        if (locationsData.success) {
+          setCountries(locationsData.data);
+        }
+      } catch (error) {
+        console.error("Error fetching customer:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [customerId]);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  // Choosing a place clears the levels below it
+  const handleLocationChange = (level: LocationLevel, value: string) => {
+    const below = LOCATION_LEVELS.slice(LOCATION_LEVELS.indexOf(level) + 1);
+    setFormData((prev) => ({
+      ...prev,
+      [level]: value,
+      ...Object.fromEntries(below.map((field) => [field, ""])),
+    }));
+  };
+
+  const handleAddTag = () => {
+    if (tagInput.trim() && !formData.tags.includes(tagInput.trim())) {
+      setFormData((prev) => ({
+        ...prev,
+        tags: [...prev.tags, tagInput.trim()],
+      }));
+      setTagInput("");
+    }
+  };
+
+  const handleRemoveTag = (tagToRemove: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      tags: prev.tags.filter((tag) => tag !== tagToRemove),
+    }));
+  };
+
+  const country = countries.find((c) => c.id === formData.countryId);
+  const region = country?.regions.find((r) => r.id === formData.regionId);
+  const district = region?.districts.find((d) => d.id === formData.districtId);
+  const chiefdom = district?.chiefdoms.find(
+    (c) => c.id === formData.chiefdomId
+  );
+
+  const locationSelects: {
+    level: LocationLevel;
+    label: string;
+    options: Place[];
+  }[] = [
+    { level: "countryId", label: "Country", options: countries },
+    { level: "regionId", label: "Region", options: country?.regions ?? [] },
+    {
+      level: "districtId",
+      label: "District",
+      options: region?.districts ?? [],
+    },
+    {
+      level: "chiefdomId",
+      label: "Chiefdom",
+      options: district?.chiefdoms ?? [],
+    },
+    {
+      level: "locationId",
+      label: "Location",
+      options: chiefdom?.locations ?? [],
+    },
+  ];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/customers/${customerId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...formData,
+          countryId: formData.countryId || null,
+          regionId: formData.regionId || null,
+          districtId: formData.districtId || null,
+          chiefdomId: formData.chiefdomId || null,
+          locationId: formData.locationId || null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update customer");
+      }
+
+      router.push("/dashboard/admin/customers");
+    } catch (err: any) {
+      setError(err.message || "Failed to update customer");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link href="/dashboard/admin/customers">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Edit Customer</h1>
+          <p className="text-gray-600 mt-1 font-mono">
+            {customerCode}
+            {archived && (
+              <span className="ml-2 font-sans text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                Archived
+              </span>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-600">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Basic Information */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900 flex items-center gap-2">
+              <User className="w-5 h-5" />
+              Basic Information
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">
+                Name <span className="text-red-500">*</span>
+              </label>
+              <Input
+                name="name"
+                value={formData.name}
+                onChange={handleChange}
+                required
+                disabled={saving}
+                className="text-gray-900"
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Phone Number <span className="text-red-500">*</span>
+                </label>
+                <Input
+                  name="phone"
+                  type="tel"
+                  value={formData.phone}
+                  onChange={handleChange}
+                  required
+                  disabled={saving}
+                  className="text-gray-900"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Alternate Phone
+                </label>
+                <Input
+                  name="alternatePhone"
+                  type="tel"
+                  value={formData.alternatePhone}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className="text-gray-900"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">
+                Email Address
+              </label>
+              <Input
+                name="email"
+                type="email"
+                value={formData.email}
+                onChange={handleChange}
+                disabled={saving}
+                className="text-gray-900"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Location Information */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900 flex items-center gap-2">
+              <MapPin className="w-5 h-5" />
+              Location Information
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Address
+                </label>
+                <Input
+                  name="address"
+                  value={formData.address}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className="text-gray-900"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  City <span className="text-red-500">*</span>
+                </label>
+                <Input
+                  name="city"
+                  value={formData.city}
+                  onChange={handleChange}
+                  required
+                  disabled={saving}
+                  className="text-gray-900"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+              {locationSelects.map(({ level, label, options }, index) => (
+                <div key={level} className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">
+                    {label}
+                  </label>
+                  <select
+                    value={formData[level]}
+                    onChange={(e) => handleLocationChange(level, e.target.value)}
+                    disabled={
+                      saving ||
+                      (index > 0 && !formData[LOCATION_LEVELS[index - 1]])
+                    }
+                    className={selectClass}
+                  >
+                    <option value="">Not set</option>
+                    {options.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Customer Type & Tags */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900 flex items-center gap-2">
+              <Building className="w-5 h-5" />
+              Customer Classification
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">
+                Customer Type
+              </label>
+              <select
+                name="type"
+                value={formData.type}
+                onChange={handleChange}
+                disabled={saving}
+                className={selectClass}
+              >
+                <option value={CustomerType.RETAIL}>Retail</option>
+                <option value={CustomerType.WHOLESALE}>Wholesale</option>
+                <option value={CustomerType.CORPORATE}>Corporate</option>
+                <option value={CustomerType.REGULAR}>Regular</option>
+                <option value={CustomerType.WALK_IN}>Walk-in</option>
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Tags</label>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Add a tag (e.g., VIP, Bulk Buyer)"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleAddTag();
+                    }
+                  }}
+                  disabled={saving}
+                  className="text-gray-900"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleAddTag}
+                  disabled={saving || !tagInput.trim()}
+                >
+                  <Tag className="w-4 h-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+              {formData.tags.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {formData.tags.map((tag) => (
+                    <span
+                      key={tag}
+                      className="inline-flex items-center gap-1 px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-sm"
+                    >
+                      {tag}
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveTag(tag)}
+                        className="hover:text-blue-900"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Notes</label>
+              <textarea
+                name="notes"
+                rows={4}
+                value={formData.notes}
+                onChange={handleChange}
+                disabled={saving}
+                className={selectClass}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end gap-3">
+          <Link href="/dashboard/admin/customers">
+            <Button type="button" variant="outline" disabled={saving}>
+              Cancel
+            </Button>
+          </Link>
+          <Button type="submit" disabled={saving}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? "Saving..." : "Save Changes"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { CustomerInsightChart } from "@/components/analytics/CustomerInsightChar
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { ArrowRight } from "lucide-react";
+import { useCurrency } from "@/components/layout/currency-provider";
 
 interface CustomerInsight {
   customerId: string;
@@ -21,6 +22,7 @@ interface CustomerInsight {
 }
 
 export function CustomerInsightsView() {
+  const { currency } = useCurrency();
   const [insights, setInsights] = useState<CustomerInsight[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -63,7 +65,7 @@ export function CustomerInsightsView() {
         <CustomerInsightChart
           data={chartData}
           title="Top Customers by Revenue"
-          valueLabel="Total Spent (SLL)"
+          valueLabel={`Total Spent (${currency})`}
         />
       )}
 
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { SalesTrendChart } from "@/components/analytics/SalesTrendChart";
 import { RevenueForecastChart } from "@/components/analytics/RevenueForecastChart";
 import { CustomerInsightChart } from "@/components/analytics/CustomerInsightChart";
+import { useCurrency } from "@/components/layout/currency-provider";
 
 interface PaymentMethodAnalysis {
   method: string;
@@ -20,6 +21,7 @@ interface BestSellingProduct {
 }
 
 export function SalesAnalyticsView() {
+  const { currency } = useCurrency();
   const [salesTrends, setSalesTrends] = useState<any[]>([]);
   const [forecast, setForecast] = useState<any[]>([]);
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethodAnalysis[]>([]);
@@ -87,7 +89,7 @@ export function SalesAnalyticsView() {
           <CustomerInsightChart
             data={paymentChartData}
             title="Payment Methods Analysis"
-            valueLabel="Revenue (SLL)"
+            valueLabel={`Revenue (${currency})`}
           />
         )}
 
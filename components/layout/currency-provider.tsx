@@ -0,0 +1,73 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { DEFAULT_CURRENCY, formatMoney, type LegacyCurrency } from "@/lib/utils";
+
+export interface CurrencyDisplay {
+  currency: string; // The business's currency
+  // Old currency shown alongside during a redenomination, if still on
+  legacy: LegacyCurrency | null;
+}
+
+const CurrencyContext = createContext<CurrencyDisplay>({
+  currency: DEFAULT_CURRENCY,
+  legacy: null,
+});
+
+// Loads the business's currency once for the whole dashboard
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const [display, setDisplay] = useState<CurrencyDisplay>({
+    currency: DEFAULT_CURRENCY,
+    legacy: null,
+  });
+
+  useEffect(() => {
+    const fetchCurrency = async () => {
+      try {
+        const response = await fetch("/api/settings/currency");
+        if (!response.ok) return;
+        const result = await response.json();
+        setDisplay({
+          currency: result.data.currency,
+          legacy: result.data.legacy
+            ? {
+                currency: result.data.legacy.currency,
+                factor: Number(result.data.legacy.factor),
+              }
+            : null,
+        });
+      } catch (err) {
+        console.error("Error fetching currency:", err);
+      }
+    };
+    fetchCurrency();
+  }, []);
+
+  return (
+    <CurrencyContext.Provider value={display}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency(): CurrencyDisplay {
+  return useContext(CurrencyContext);
+}
+
+/**
+ * Formats amounts in the business's currency, with the old currency
+ * alongside during a redenomination. Amounts in another currency, e.g. a
+ * foreign-currency sale, are shown in that currency alone.
+ */
+export function useMoneyFormatter() {
+  const { currency, legacy } = useCurrency();
+  return useCallback(
+    (amount: number | string, amountCurrency: string = currency) =>
+      formatMoney(
+        amount,
+        amountCurrency,
+        amountCurrency === currency ? legacy : null
+      ),
+    [currency, legacy]
+  );
+}
@@ -3,6 +3,7 @@
 import { Sidebar } from "./sidebar";
 import { Header } from "./header";
 import { Footer } from "./footer";
+import { CurrencyProvider } from "./currency-provider";
 import { useSession } from "next-auth/react";
 import { useState, useEffect } from "react";
 import { UserRole } from "@prisma/client";
@@ -38,16 +39,18 @@ export function DashboardLayoutWrapper({
   }
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      <Sidebar userRole={session.user.role as UserRole} />
-      <div className={`transition-all duration-300 ${sidebarOpen ? "lg:ml-64" : "ml-0"}`}>
-        <Header onMenuClick={() => setSidebarOpen(!sidebarOpen)} />
-        <main className="pt-16 pb-20 min-h-screen">
-          {children}
-        </main>
-        <Footer />
+    <CurrencyProvider>
+      <div className="min-h-screen bg-gray-50">
+        <Sidebar userRole={session.user.role as UserRole} />
+        <div className={`transition-all duration-300 ${sidebarOpen ? "lg:ml-64" : "ml-0"}`}>
+          <Header onMenuClick={() => setSidebarOpen(!sidebarOpen)} />
+          <main className="pt-16 pb-20 min-h-screen">
+            {children}
+          </main>
+          <Footer />
+        </div>
       </div>
-    </div>
+    </CurrencyProvider>
   );
 }
 
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Search, LogOut, User, Menu } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
 import { NotificationsDropdown } from "./notifications-dropdown";
+import { OfflineSyncIndicator } from "./offline-sync-indicator";
 
 interface HeaderProps {
   onMenuClick?: () => void;
@@ -56,6 +57,7 @@ export function Header({ onMenuClick }: HeaderProps) {
         </div>
 
         <div className="flex items-center space-x-4">
+          <OfflineSyncIndicator />
           <NotificationsDropdown />
 
           <div className="relative" ref={menuRef}>
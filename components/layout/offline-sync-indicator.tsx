@@ -0,0 +1,242 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  acceptQueuedSaleConflicts,
+  discardQueuedSale,
+  getQueuedSales,
+  QUEUE_CHANGED_EVENT,
+  retryQueuedSale,
+  syncQueuedSales,
+  type QueuedSale,
+} from "@/lib/offline/pos-store";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+export function OfflineSyncIndicator() {
+  const formatCurrency = useMoneyFormatter();
+  const [queue, setQueue] = useState<QueuedSale[]>([]);
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const sync = useCallback(async () => {
+    if (!navigator.onLine) return;
+    setSyncing(true);
+    try {
+      await syncQueuedSales();
+      setSyncError(null);
+    } catch (error: any) {
+      setSyncError(error.message || "Failed to sync sales");
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const refresh = () => setQueue(getQueuedSales());
+    const goOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const goOffline = () => setOnline(false);
+
+    refresh();
+    setOnline(navigator.onLine);
+    sync();
+
+    window.addEventListener(QUEUE_CHANGED_EVENT, refresh);
+    window.addEventListener("storage", refresh); // Other tabs
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    // Retry every minute in case the browser misses the online event
+    const interval = setInterval(sync, 60000);
+
+    return () => {
+      window.removeEventListener(QUEUE_CHANGED_EVENT, refresh);
+      window.removeEventListener("storage", refresh);
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+      clearInterval(interval);
+    };
+  }, [sync]);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (
+        dropdownRef.current &&
+        !dropdownRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const acceptConflicts = (entry: QueuedSale) => {
+    acceptQueuedSaleConflicts(entry.clientId);
+    sync();
+  };
+
+  const retry = (entry: QueuedSale) => {
+    retryQueuedSale(entry.clientId);
+    sync();
+  };
+
+  const discard = (entry: QueuedSale) => {
+    if (
+      !window.confirm(
+        "Discard this offline sale? It will not be recorded on the server."
+      )
+    ) {
+      return;
+    }
+    discardQueuedSale(entry.clientId);
+  };
+
+  if (online && queue.length === 0) return null;
+
+  const needsAttention = queue.filter((entry) => entry.status !== "pending");
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium ${
+          needsAttention.length > 0
+            ? "bg-red-100 text-red-800"
+            : "bg-yellow-100 text-yellow-800"
+        }`}
+      >
+        {needsAttention.length > 0 ? (
+          <AlertTriangle className="w-4 h-4" />
+        ) : (
+          <CloudOff className="w-4 h-4" />
+        )}
+        {queue.length > 0 ? `${queue.length} unsynced` : "Offline"}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <h3 className="font-semibold text-gray-900">Offline Sales</h3>
+              <p className="text-xs text-gray-500">
+                {online
+                  ? "Saved on this device until they reach the server"
+                  : "You are offline. Sales are saved on this device."}
+              </p>
+            </div>
+            <button
+              onClick={sync}
+              disabled={!online || syncing}
+              className="p-2 rounded-md hover:bg-gray-100 disabled:opacity-50"
+              title="Sync now"
+            >
+              <RefreshCw
+                className={`w-4 h-4 text-gray-600 ${syncing ? "animate-spin" : ""}`}
+              />
+            </button>
+          </div>
+
+          {syncError && (
+            <p className="px-4 py-2 text-sm text-red-600 border-b border-gray-100">
+              {syncError}
+            </p>
+          )}
+
+          <div className="max-h-96 overflow-y-auto">
+            {queue.length === 0 ? (
+              <p className="p-4 text-center text-sm text-gray-500">
+                No unsynced sales
+              </p>
+            ) : (
+              queue.map((entry) => (
+                <div
+                  key={entry.clientId}
+                  className="p-4 border-b border-gray-100 last:border-b-0"
+                >
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-900">
+                      {entry.customerName || "Walk-in Customer"}
+                    </p>
+                    <p className="text-sm font-medium text-gray-900">
+                      {formatCurrency(entry.payload.expectedTotal)}
+                    </p>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {entry.payload.items.length} line
+                    {entry.payload.items.length === 1 ? "" : "s"} • rung up{" "}
+                    {formatDistanceToNow(new Date(entry.queuedAt), {
+                      addSuffix: true,
+                    })}
+                    {entry.status === "pending" && " • waiting to sync"}
+                  </p>
+
+                  {entry.status !== "pending" && (
+                    <div className="mt-2 p-2 rounded-md bg-red-50 text-xs text-red-700 space-y-1">
+                      <p className="font-medium">{entry.message}</p>
+                      {entry.priceConflicts?.map((conflict) => (
+                        <p key={`price-${conflict.index}`}>
+                          {conflict.productName}: sold at{" "}
+                          {formatCurrency(
+                            conflict.offlinePrice,
+                            entry.payload.currency || undefined
+                          )}
+                          , now{" "}
+                          {formatCurrency(
+                            conflict.currentPrice,
+                            entry.payload.currency || undefined
+                          )}
+                        </p>
+                      ))}
+                      {entry.stockShortages?.map((shortage) => (
+                        <p key={`stock-${shortage.index}`}>
+                          {shortage.productName}: sold {shortage.requested}{" "}
+                          {shortage.unit}, only {shortage.available} in stock
+                        </p>
+                      ))}
+                      <div className="flex gap-3 pt-1">
+                        {entry.status === "conflict" ? (
+                          <button
+                            onClick={() => acceptConflicts(entry)}
+                            className="font-medium text-blue-600 hover:underline"
+                          >
+                            Record anyway
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => retry(entry)}
+                            className="font-medium text-blue-600 hover:underline"
+                          >
+                            Retry
+                          </button>
+                        )}
+                        <button
+                          onClick={() => discard(entry)}
+                          className="font-medium text-red-600 hover:underline"
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,7 +12,11 @@ import {
   ShoppingCart,
   Settings,
   FileText,
+  FileSignature,
+  Wallet,
+  Tags,
   UserCog,
+  Percent,
 } from "lucide-react";
 import { UserRole } from "@prisma/client";
 
@@ -82,6 +86,30 @@ const navItems: NavItem[] = [
     icon: ShoppingCart,
     roles: ["ADMIN", "MANAGER", "STAFF"],
   },
+  {
+    href: "/dashboard/admin/price-lists",
+    label: "Price Lists",
+    icon: Tags,
+    roles: ["ADMIN"],
+  },
+  {
+    href: "/dashboard/admin/commissions",
+    label: "Commissions",
+    icon: Percent,
+    roles: ["ADMIN"],
+  },
+  {
+    href: "/dashboard/admin/quotes",
+    label: "Quotes",
+    icon: FileSignature,
+    roles: ["ADMIN", "MANAGER", "STAFF"],
+  },
+  {
+    href: "/dashboard/admin/shifts",
+    label: "Cash Drawer",
+    icon: Wallet,
+    roles: ["ADMIN", "MANAGER", "STAFF"],
+  },
   {
     href: "/dashboard/admin/reports",
     label: "Reports",
@@ -0,0 +1,651 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tags, Plus, Trash2, Save, X, Users } from "lucide-react";
+import { CustomerType } from "@prisma/client";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+interface PriceListSummary {
+  id: string;
+  name: string;
+  customerType: CustomerType | null;
+  isActive: boolean;
+  _count: { items: number; customers: number };
+}
+
+interface PriceListDetail {
+  id: string;
+  name: string;
+  customerType: CustomerType | null;
+  isActive: boolean;
+  items: Array<{
+    productId: string;
+    minQuantity: number | string; // Decimals arrive as strings
+    unitPrice: number | string;
+  }>;
+  customers: Array<{ id: string; name: string; phone: string }>;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string;
+  sellingPrice: number;
+  unit: string;
+}
+
+interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+}
+
+interface PriceRow {
+  productId: string;
+  minQuantity: string;
+  unitPrice: string;
+}
+
+const TYPE_LABELS: Record<CustomerType, string> = {
+  [CustomerType.RETAIL]: "Retail",
+  [CustomerType.WHOLESALE]: "Wholesale",
+  [CustomerType.CORPORATE]: "Corporate",
+  [CustomerType.REGULAR]: "Regular",
+  [CustomerType.WALK_IN]: "Walk-in",
+};
+
+const selectClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export function PriceListsView() {
+  const formatCurrency = useMoneyFormatter();
+  const [priceLists, setPriceLists] = useState<PriceListSummary[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [newType, setNewType] = useState<CustomerType | "">("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editor, setEditor] = useState<{
+    name: string;
+    customerType: CustomerType | "";
+    isActive: boolean;
+    rows: PriceRow[];
+    customers: Customer[];
+  } | null>(null);
+  const [customerToAdd, setCustomerToAdd] = useState("");
+
+  const fetchPriceLists = useCallback(async () => {
+    try {
+      const res = await fetch("/api/price-lists");
+      const data = await res.json();
+      if (data.success) {
+        setPriceLists(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching price lists:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPriceLists();
+  }, [fetchPriceLists]);
+
+  useEffect(() => {
+    async function fetchCatalog() {
+      try {
+        const [productsRes, customersRes] = await Promise.all([
+          fetch("/api/products?limit=100&sortBy=name&sortOrder=asc"),
+          fetch("/api/customers?limit=100"),
+        ]);
+        const productsData = await productsRes.json();
+        const customersData = await customersRes.json();
+        if (productsData.success) setProducts(productsData.data);
+        if (customersData.success) setCustomers(customersData.data);
+      } catch (error) {
+        console.error("Error fetching products and customers:", error);
+      }
+    }
+
+    fetchCatalog();
+  }, []);
+
+  const openPriceList = async (id: string) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/price-lists/${id}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to load price list");
+      }
+
+      const list: PriceListDetail = data.data;
+      setSelectedId(list.id);
+      setEditor({
+        name: list.name,
+        customerType: list.customerType || "",
+        isActive: list.isActive,
+        rows: list.items.map((item) => ({
+          productId: item.productId,
+          minQuantity: String(Number(item.minQuantity)),
+          unitPrice: String(Number(item.unitPrice)),
+        })),
+        customers: list.customers,
+      });
+    } catch (err: any) {
+      setError(err.message || "Failed to load price list");
+    }
+  };
+
+  const request = async (url: string, method: string, body?: object) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save price list");
+      }
+
+      await fetchPriceLists();
+      return data.data || true;
+    } catch (err: any) {
+      setError(err.message || "Failed to save price list");
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      setError("Price list name is required");
+      return;
+    }
+
+    const created = await request("/api/price-lists", "POST", {
+      name: newName.trim(),
+      customerType: newType || null,
+    });
+    if (created) {
+      setNewName("");
+      setNewType("");
+      await openPriceList(created.id);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editor || !selectedId) return;
+
+    const items = editor.rows
+      .filter((row) => row.productId)
+      .map((row) => ({
+        productId: row.productId,
+        minQuantity: parseFloat(row.minQuantity) || 1,
+        unitPrice: parseFloat(row.unitPrice) || 0,
+      }));
+
+    await request(`/api/price-lists/${selectedId}`, "PATCH", {
+      name: editor.name.trim(),
+      customerType: editor.customerType || null,
+      isActive: editor.isActive,
+      items,
+      customerIds: editor.customers.map((c) => c.id),
+    });
+  };
+
+  const handleDelete = async () => {
+    if (!editor || !selectedId) return;
+    if (
+      !window.confirm(
+        `Delete "${editor.name}"? Its customers will get their type's prices or catalogue prices.`
+      )
+    ) {
+      return;
+    }
+
+    const deleted = await request(`/api/price-lists/${selectedId}`, "DELETE");
+    if (deleted) {
+      setSelectedId(null);
+      setEditor(null);
+    }
+  };
+
+  const updateRow = (index: number, field: keyof PriceRow, value: string) => {
+    setEditor((prev) => {
+      if (!prev) return prev;
+      const rows = [...prev.rows];
+      rows[index] = { ...rows[index], [field]: value };
+      return { ...prev, rows };
+    });
+  };
+
+  const addCustomer = () => {
+    const customer = customers.find((c) => c.id === customerToAdd);
+    if (!customer) return;
+    setEditor((prev) =>
+      prev && !prev.customers.some((c) => c.id === customer.id)
+        ? { ...prev, customers: [...prev.customers, customer] }
+        : prev
+    );
+    setCustomerToAdd("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Price Lists</h1>
+        <p className="text-gray-600 mt-1">
+          Wholesale, corporate and customer-specific prices with quantity
+          breaks
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <X className="w-5 h-5 text-red-600" />
+              <p className="text-red-600">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-gray-900 flex items-center gap-2">
+                <Tags className="w-5 h-5" />
+                Lists
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                A customer&apos;s own list wins over the list for their
+                customer type. Products not on the list sell at their
+                catalogue price.
+              </p>
+
+              {loading ? (
+                <p className="text-sm text-gray-600">Loading price lists...</p>
+              ) : priceLists.length === 0 ? (
+                <p className="text-sm text-gray-600">No price lists yet.</p>
+              ) : (
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {priceLists.map((list) => (
+                    <button
+                      key={list.id}
+                      type="button"
+                      onClick={() => openPriceList(list.id)}
+                      className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                        list.id === selectedId ? "bg-blue-50" : ""
+                      }`}
+                    >
+                      <p className="font-medium text-gray-900">
+                        {list.name}
+                        {!list.isActive && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            (inactive)
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        {list.customerType
+                          ? `All ${TYPE_LABELS[list.customerType].toLowerCase()} customers • `
+                          : ""}
+                        {list._count.items} price(s) • {list._count.customers}{" "}
+                        customer(s)
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2 pt-2 border-t border-gray-200">
+                <Input
+                  type="text"
+                  placeholder="New list name"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  disabled={saving}
+                  className="text-gray-900"
+                />
+                <select
+                  value={newType}
+                  onChange={(e) => setNewType(e.target.value as CustomerType | "")}
+                  disabled={saving}
+                  className={selectClass}
+                >
+                  <option value="">Named customers only</option>
+                  {Object.values(CustomerType).map((type) => (
+                    <option key={type} value={type}>
+                      All {TYPE_LABELS[type]} customers
+                    </option>
+                  ))}
+                </select>
+                <Button size="sm" onClick={handleCreate} disabled={saving}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create List
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          {!editor ? (
+            <Card>
+              <CardContent className="p-6">
+                <p className="text-center text-gray-600">
+                  Select a price list to edit its prices and customers
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-gray-900">
+                      {editor.name || "Price List"}
+                    </CardTitle>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={handleDelete}
+                        disabled={saving}
+                      >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete
+                      </Button>
+                      <Button size="sm" onClick={handleSave} disabled={saving}>
+                        <Save className="w-4 h-4 mr-2" />
+                        {saving ? "Saving..." : "Save"}
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium text-gray-700">
+                        Name
+                      </label>
+                      <Input
+                        type="text"
+                        value={editor.name}
+                        onChange={(e) =>
+                          setEditor({ ...editor, name: e.target.value })
+                        }
+                        disabled={saving}
+                        className="text-gray-900"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium text-gray-700">
+                        Applies To
+                      </label>
+                      <select
+                        value={editor.customerType}
+                        onChange={(e) =>
+                          setEditor({
+                            ...editor,
+                            customerType: e.target.value as CustomerType | "",
+                          })
+                        }
+                        disabled={saving}
+                        className={selectClass}
+                      >
+                        <option value="">Named customers only</option>
+                        {Object.values(CustomerType).map((type) => (
+                          <option key={type} value={type}>
+                            All {TYPE_LABELS[type]} customers
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-7">
+                      <input
+                        type="checkbox"
+                        checked={editor.isActive}
+                        onChange={(e) =>
+                          setEditor({ ...editor, isActive: e.target.checked })
+                        }
+                        disabled={saving}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      Active
+                    </label>
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <p className="text-sm font-semibold text-gray-700">
+                        Prices
+                      </p>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() =>
+                          setEditor({
+                            ...editor,
+                            rows: [
+                              ...editor.rows,
+                              { productId: "", minQuantity: "1", unitPrice: "" },
+                            ],
+                          })
+                        }
+                      >
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Price
+                      </Button>
+                    </div>
+                    {editor.rows.length === 0 ? (
+                      <p className="text-sm text-gray-500">
+                        No prices yet. Add a product with the price from a
+                        minimum quantity; add the product again with a higher
+                        minimum for a quantity break. Quantities and prices
+                        are in the product&apos;s base unit.
+                      </p>
+                    ) : (
+                      <table className="w-full">
+                        <thead>
+                          <tr className="border-b border-gray-200">
+                            <th className="text-left py-2 px-2 text-sm font-semibold text-gray-700">
+                              Product
+                            </th>
+                            <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                              From Qty
+                            </th>
+                            <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                              Unit Price
+                            </th>
+                            <th className="py-2 px-2"></th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {editor.rows.map((row, index) => {
+                            const product = products.find(
+                              (p) => p.id === row.productId
+                            );
+                            return (
+                              <tr key={index} className="border-b border-gray-100">
+                                <td className="py-2 px-2">
+                                  <select
+                                    value={row.productId}
+                                    onChange={(e) =>
+                                      updateRow(index, "productId", e.target.value)
+                                    }
+                                    disabled={saving}
+                                    className={selectClass}
+                                  >
+                                    <option value="">Select product</option>
+                                    {products.map((p) => (
+                                      <option key={p.id} value={p.id}>
+                                        {p.name} ({p.sku})
+                                      </option>
+                                    ))}
+                                  </select>
+                                  {product && (
+                                    <p className="text-xs text-gray-500 mt-1">
+                                      Catalogue:{" "}
+                                      {formatCurrency(product.sellingPrice)} per{" "}
+                                      {product.unit}
+                                    </p>
+                                  )}
+                                </td>
+                                <td className="py-2 px-2">
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    value={row.minQuantity}
+                                    onChange={(e) =>
+                                      updateRow(index, "minQuantity", e.target.value)
+                                    }
+                                    disabled={saving}
+                                    className="w-24 ml-auto text-gray-900"
+                                  />
+                                </td>
+                                <td className="py-2 px-2">
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={row.unitPrice}
+                                    onChange={(e) =>
+                                      updateRow(index, "unitPrice", e.target.value)
+                                    }
+                                    disabled={saving}
+                                    className="w-32 ml-auto text-gray-900"
+                                  />
+                                </td>
+                                <td className="py-2 px-2 text-right">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    disabled={saving}
+                                    onClick={() =>
+                                      setEditor({
+                                        ...editor,
+                                        rows: editor.rows.filter(
+                                          (_, i) => i !== index
+                                        ),
+                                      })
+                                    }
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-gray-900 flex items-center gap-2">
+                    <Users className="w-5 h-5" />
+                    Customers
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="text-sm text-gray-600">
+                    Customers named here get this list whatever their type.
+                  </p>
+                  {editor.customers.length > 0 && (
+                    <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                      {editor.customers.map((customer) => (
+                        <div
+                          key={customer.id}
+                          className="flex items-center justify-between px-4 py-2"
+                        >
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">
+                              {customer.name}
+                            </p>
+                            <p className="text-xs text-gray-600">
+                              {customer.phone}
+                            </p>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={saving}
+                            onClick={() =>
+                              setEditor({
+                                ...editor,
+                                customers: editor.customers.filter(
+                                  (c) => c.id !== customer.id
+                                ),
+                              })
+                            }
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <select
+                      value={customerToAdd}
+                      onChange={(e) => setCustomerToAdd(e.target.value)}
+                      disabled={saving}
+                      className={selectClass}
+                    >
+                      <option value="">Select customer</option>
+                      {customers
+                        .filter(
+                          (c) => !editor.customers.some((e) => e.id === c.id)
+                        )
+                        .map((c) => (
+                          <option key={c.id} value={c.id}>
+                            {c.name} ({c.phone})
+                          </option>
+                        ))}
+                    </select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={addCustomer}
+                      disabled={saving || !customerToAdd}
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Changes are saved with the Save button above.
+                  </p>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
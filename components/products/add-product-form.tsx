@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -20,17 +20,37 @@ import {
   Plus,
 } from "lucide-react";
 import Link from "next/link";
+import { newClientId } from "@/lib/utils";
+import {
+  ProductUnitsEditor,
+  unitRowsToInput,
+  type ProductUnitRow,
+} from "@/components/products/product-units-editor";
 import { ProductStatus } from "@prisma/client";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+interface TaxRateOption {
+  id: string;
+  name: string;
+  rate: string | number;
+  isDefault: boolean;
+  isActive: boolean;
+}
 
 export function AddProductForm() {
+  const formatCurrency = useMoneyFormatter();
   const router = useRouter();
   const [loading, setLoading] = useState(false);
+  // Sent with the create request so a double submit is only saved once
+  const [idempotencyKey, setIdempotencyKey] = useState(newClientId);
   const [error, setError] = useState<string | null>(null);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [uploadingImage, setUploadingImage] = useState(false);
   const [showCustomCategory, setShowCustomCategory] = useState(false);
   const [customCategory, setCustomCategory] = useState("");
+  const [taxRates, setTaxRates] = useState<TaxRateOption[]>([]);
+  const [unitRows, setUnitRows] = useState<ProductUnitRow[]>([]);
   const [formData, setFormData] = useState({
     sku: "",
     name: "",
@@ -44,8 +64,25 @@ export function AddProductForm() {
     status: ProductStatus.ACTIVE,
     barcode: "",
     supplier: "",
+    taxRateId: "",
   });
 
+  useEffect(() => {
+    async function fetchTaxRates() {
+      try {
+        const res = await fetch("/api/tax-rates");
+        const data = await res.json();
+        if (data.success) {
+          setTaxRates(data.data.filter((t: TaxRateOption) => t.isActive));
+        }
+      } catch (error) {
+        console.error("Error fetching tax rates:", error);
+      }
+    }
+
+    fetchTaxRates();
+  }, []);
+
   // Predefined categories
   const categories = [
     "Electronics",
@@ -161,19 +198,25 @@ export function AddProductForm() {
       // First, create the product
       const response = await fetch("/api/products", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey,
+        },
         body: JSON.stringify({
           ...formData,
           costPrice: parseFloat(formData.costPrice) || 0,
           sellingPrice: parseFloat(formData.sellingPrice) || 0,
-          currentStock: parseInt(formData.currentStock) || 0,
-          lowStockAlert: parseInt(formData.lowStockAlert) || 10,
+          currentStock: parseFloat(formData.currentStock) || 0,
+          lowStockAlert: parseFloat(formData.lowStockAlert) || 10,
+          taxRateId: formData.taxRateId || null,
+          units: unitRowsToInput(unitRows),
         }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
+        setIdempotencyKey(newClientId());
         throw new Error(data.error || "Failed to create product");
       }
 
@@ -469,6 +512,30 @@ export function AddProductForm() {
                   </div>
                 </div>
 
+                {taxRates.length > 0 && (
+                  <div className="space-y-2">
+                    <label htmlFor="taxRateId" className="text-sm font-medium text-gray-700">
+                      Tax Rate
+                    </label>
+                    <select
+                      id="taxRateId"
+                      name="taxRateId"
+                      value={formData.taxRateId}
+                      onChange={handleChange}
+                      disabled={loading}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Business default</option>
+                      {taxRates.map((taxRate) => (
+                        <option key={taxRate.id} value={taxRate.id}>
+                          {taxRate.name} ({Number(taxRate.rate)}%)
+                          {taxRate.isDefault ? " - default" : ""}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 {formData.costPrice && formData.sellingPrice && (
                   <div className="p-3 bg-blue-50 rounded-lg">
                     <p className="text-sm text-gray-600">Profit Margin</p>
@@ -499,6 +566,7 @@ export function AddProductForm() {
                       name="currentStock"
                       type="number"
                       min="0"
+                      step="any"
                       placeholder="0"
                       value={formData.currentStock}
                       onChange={handleChange}
@@ -516,6 +584,7 @@ export function AddProductForm() {
                       name="lowStockAlert"
                       type="number"
                       min="0"
+                      step="any"
                       placeholder="10"
                       value={formData.lowStockAlert}
                       onChange={handleChange}
@@ -547,6 +616,14 @@ export function AddProductForm() {
                     </select>
                   </div>
                 </div>
+
+                <ProductUnitsEditor
+                  baseUnit={formData.unit}
+                  basePrice={parseFloat(formData.sellingPrice) || 0}
+                  rows={unitRows}
+                  onChange={setUnitRows}
+                  disabled={loading}
+                />
               </CardContent>
             </Card>
 
@@ -652,11 +729,7 @@ export function AddProductForm() {
                   <div className="p-3 bg-gray-50 rounded-lg">
                     <p className="text-sm text-gray-600">Profit per Unit</p>
                     <p className="text-lg font-bold text-gray-900">
-                      {new Intl.NumberFormat("en-US", {
-                        style: "currency",
-                        currency: "SLL",
-                        minimumFractionDigits: 0,
-                      }).format(
+                      {formatCurrency(
                         parseFloat(formData.sellingPrice) -
                           parseFloat(formData.costPrice)
                       )}
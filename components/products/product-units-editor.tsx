@@ -0,0 +1,141 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+
+export interface ProductUnitRow {
+  name: string;
+  factor: string; // Base units in one of this unit
+  sellingPrice: string; // Blank sells at the base price times the factor
+  barcode: string;
+}
+
+export const emptyUnitRow = (): ProductUnitRow => ({
+  name: "",
+  factor: "",
+  sellingPrice: "",
+  barcode: "",
+});
+
+/**
+ * Request body for a product's units, skipping rows left blank
+ */
+export function unitRowsToInput(rows: ProductUnitRow[]) {
+  return rows
+    .filter((row) => row.name.trim() && row.factor)
+    .map((row) => ({
+      name: row.name.trim(),
+      factor: parseFloat(row.factor) || 0,
+      sellingPrice: row.sellingPrice ? parseFloat(row.sellingPrice) : null,
+      barcode: row.barcode.trim() || null,
+    }));
+}
+
+interface ProductUnitsEditorProps {
+  baseUnit: string;
+  basePrice: number;
+  rows: ProductUnitRow[];
+  onChange: (rows: ProductUnitRow[]) => void;
+  disabled?: boolean;
+}
+
+// Other units a product is sold in, e.g. a 50 kg bag and a 0.25 kg cup of
+// rice kept in stock by the kg
+export function ProductUnitsEditor({
+  baseUnit,
+  basePrice,
+  rows,
+  onChange,
+  disabled,
+}: ProductUnitsEditorProps) {
+  const updateRow = (
+    index: number,
+    field: keyof ProductUnitRow,
+    value: string
+  ) => {
+    const next = [...rows];
+    next[index] = { ...next[index], [field]: value };
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-700">Selling Units</p>
+          <p className="text-xs text-gray-500">
+            Stock is kept in {baseUnit}. Add units it is also sold in, with
+            how many {baseUnit} each holds.
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...rows, emptyUnitRow()])}
+          disabled={disabled}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Unit
+        </Button>
+      </div>
+
+      {rows.map((row, index) => {
+        const factor = parseFloat(row.factor) || 0;
+        return (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <Input
+              type="text"
+              placeholder="Unit, e.g. bag"
+              value={row.name}
+              onChange={(e) => updateRow(index, "name", e.target.value)}
+              disabled={disabled}
+              className="col-span-3 text-gray-900"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              placeholder={`${baseUnit} per unit`}
+              value={row.factor}
+              onChange={(e) => updateRow(index, "factor", e.target.value)}
+              disabled={disabled}
+              className="col-span-3 text-gray-900"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder={
+                factor > 0 ? `Price (${basePrice * factor})` : "Price"
+              }
+              value={row.sellingPrice}
+              onChange={(e) => updateRow(index, "sellingPrice", e.target.value)}
+              disabled={disabled}
+              className="col-span-3 text-gray-900"
+            />
+            <Input
+              type="text"
+              placeholder="Barcode"
+              value={row.barcode}
+              onChange={(e) => updateRow(index, "barcode", e.target.value)}
+              disabled={disabled}
+              className="col-span-2 text-gray-900"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(rows.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="col-span-1"
+            >
+              <Trash2 className="w-4 h-4 text-red-600" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
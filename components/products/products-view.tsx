@@ -24,9 +24,17 @@ import {
   CheckCircle2,
   XCircle,
   MinusCircle,
+  Scale,
+  Save,
 } from "lucide-react";
 import Link from "next/link";
 import { ProductStatus } from "@prisma/client";
+import {
+  ProductUnitsEditor,
+  unitRowsToInput,
+  type ProductUnitRow,
+} from "@/components/products/product-units-editor";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
 
 interface Product {
   id: string;
@@ -36,9 +44,16 @@ interface Product {
   description?: string | null;
   costPrice: number;
   sellingPrice: number;
-  currentStock: number;
-  lowStockAlert: number;
+  currentStock: number | string; // In the base unit; decimals arrive as strings
+  lowStockAlert: number | string;
   unit: string;
+  units?: Array<{
+    id: string;
+    name: string;
+    factor: number | string;
+    sellingPrice: number | string | null;
+    barcode?: string | null;
+  }>;
   status: ProductStatus;
   barcode?: string | null;
   supplier?: string | null;
@@ -70,6 +85,7 @@ interface ProductsResponse {
 }
 
 export function ProductsView() {
+  const formatCurrency = useMoneyFormatter();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
@@ -99,6 +115,10 @@ export function ProductsView() {
   const [sortBy, setSortBy] = useState("createdAt");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [showFilters, setShowFilters] = useState(false);
+  const [unitsProduct, setUnitsProduct] = useState<Product | null>(null);
+  const [unitRows, setUnitRows] = useState<ProductUnitRow[]>([]);
+  const [savingUnits, setSavingUnits] = useState(false);
+  const [unitsError, setUnitsError] = useState<string | null>(null);
 
   // Debounce search
   useEffect(() => {
@@ -155,6 +175,46 @@ export function ProductsView() {
     fetchProducts();
   }, [fetchProducts]);
 
+  const openUnits = (product: Product) => {
+    setUnitsProduct(product);
+    setUnitsError(null);
+    setUnitRows(
+      (product.units || []).map((unit) => ({
+        name: unit.name,
+        factor: String(Number(unit.factor)),
+        sellingPrice:
+          unit.sellingPrice !== null ? String(Number(unit.sellingPrice)) : "",
+        barcode: unit.barcode || "",
+      }))
+    );
+  };
+
+  const saveUnits = async () => {
+    if (!unitsProduct) return;
+    setSavingUnits(true);
+    setUnitsError(null);
+
+    try {
+      const res = await fetch(`/api/products/${unitsProduct.id}/units`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ units: unitRowsToInput(unitRows) }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save units");
+      }
+
+      setUnitsProduct(null);
+      await fetchProducts();
+    } catch (err: any) {
+      setUnitsError(err.message || "Failed to save units");
+    } finally {
+      setSavingUnits(false);
+    }
+  };
+
   const handleSort = (field: string) => {
     if (sortBy === field) {
       setSortOrder(sortOrder === "asc" ? "desc" : "asc");
@@ -181,7 +241,7 @@ export function ProductsView() {
   };
 
   const getStockStatus = (currentStock: number, lowStockAlert: number) => {
-    if (currentStock === 0) {
+    if (currentStock <= 0) {
       return {
         label: "Out of Stock",
         color: "text-red-600 bg-red-50",
@@ -262,11 +322,7 @@ export function ProductsView() {
                   Inventory Value
                 </p>
                 <p className="text-2xl font-bold text-gray-900 mt-1">
-                  {new Intl.NumberFormat("en-US", {
-                    style: "currency",
-                    currency: "SLL",
-                    minimumFractionDigits: 0,
-                  }).format(stats.totalInventoryValue)}
+                  {formatCurrency(stats.totalInventoryValue)}
                 </p>
                 <p className="text-xs text-gray-500 mt-1">At cost price</p>
               </div>
@@ -306,11 +362,7 @@ export function ProductsView() {
                   Avg. Selling Price
                 </p>
                 <p className="text-2xl font-bold text-gray-900 mt-1">
-                  {new Intl.NumberFormat("en-US", {
-                    style: "currency",
-                    currency: "SLL",
-                    minimumFractionDigits: 0,
-                  }).format(stats.averageSellingPrice)}
+                  {formatCurrency(stats.averageSellingPrice)}
                 </p>
                 <p className="text-xs text-gray-500 mt-1">
                   Avg. margin:{" "}
@@ -445,6 +497,44 @@ export function ProductsView() {
         </CardContent>
       </Card>
 
+      {/* Selling Units */}
+      {unitsProduct && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-gray-900 flex items-center gap-2">
+                <Scale className="w-5 h-5" />
+                Units for {unitsProduct.name}
+              </CardTitle>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setUnitsProduct(null)}
+                  disabled={savingUnits}
+                >
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={saveUnits} disabled={savingUnits}>
+                  <Save className="w-4 h-4 mr-2" />
+                  {savingUnits ? "Saving..." : "Save Units"}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {unitsError && <p className="text-sm text-red-600">{unitsError}</p>}
+            <ProductUnitsEditor
+              baseUnit={unitsProduct.unit}
+              basePrice={Number(unitsProduct.sellingPrice)}
+              rows={unitRows}
+              onChange={setUnitRows}
+              disabled={savingUnits}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Products Table */}
       <Card>
         <CardHeader>
@@ -524,8 +614,8 @@ export function ProductsView() {
                   <tbody>
                     {products.map((product) => {
                       const stockStatus = getStockStatus(
-                        product.currentStock,
-                        product.lowStockAlert
+                        Number(product.currentStock),
+                        Number(product.lowStockAlert)
                       );
                       const StockIcon = stockStatus.icon;
                       const margin = calculateProfitMargin(
@@ -577,12 +667,13 @@ export function ProductsView() {
                                 className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${stockStatus.color}`}
                               >
                                 <StockIcon className="w-3 h-3 mr-1" />
-                                {product.currentStock} {product.unit}
+                                {Number(product.currentStock)} {product.unit}
                               </span>
-                              {product.currentStock <= product.lowStockAlert &&
-                                product.currentStock > 0 && (
+                              {Number(product.currentStock) <=
+                                Number(product.lowStockAlert) &&
+                                Number(product.currentStock) > 0 && (
                                   <span className="text-xs text-orange-600">
-                                    Alert: {product.lowStockAlert}
+                                    Alert: {Number(product.lowStockAlert)}
                                   </span>
                                 )}
                             </div>
@@ -590,19 +681,11 @@ export function ProductsView() {
                           <td className="py-4 px-4">
                             <div>
                               <p className="font-medium text-gray-900">
-                                {new Intl.NumberFormat("en-US", {
-                                  style: "currency",
-                                  currency: "SLL",
-                                  minimumFractionDigits: 0,
-                                }).format(product.sellingPrice)}
+                                {formatCurrency(product.sellingPrice)}
                               </p>
                               <p className="text-xs text-gray-500">
                                 Cost:{" "}
-                                {new Intl.NumberFormat("en-US", {
-                                  style: "currency",
-                                  currency: "SLL",
-                                  minimumFractionDigits: 0,
-                                }).format(product.costPrice)}
+                                {formatCurrency(product.costPrice)}
                               </p>
                             </div>
                           </td>
@@ -636,6 +719,14 @@ export function ProductsView() {
                               <Button variant="ghost" size="sm">
                                 <Edit className="w-4 h-4" />
                               </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Selling units"
+                                onClick={() => openUnits(product)}
+                              >
+                                <Scale className="w-4 h-4" />
+                              </Button>
                               <Button variant="ghost" size="sm">
                                 <Trash2 className="w-4 h-4 text-red-600" />
                               </Button>
@@ -0,0 +1,757 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ArrowLeft,
+  Save,
+  User,
+  Search,
+  Plus,
+  Trash2,
+  X,
+  FileSignature,
+  Calendar,
+} from "lucide-react";
+import Link from "next/link";
+import { CustomerType, DiscountType } from "@prisma/client";
+import { format } from "date-fns";
+import { catalogUnitPrice, roundQuantity } from "@/lib/utils";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+interface ProductUnit {
+  id: string;
+  name: string;
+  factor: number | string; // Decimals arrive as strings
+  sellingPrice: number | string | null;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string;
+  sellingPrice: number;
+  currentStock: number | string; // In the base unit
+  unit: string;
+  units?: ProductUnit[];
+}
+
+interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+  type: CustomerType;
+}
+
+interface QuoteItem {
+  productId?: string;
+  productName: string;
+  quantity: number; // In the unit quoted
+  unitId?: string | null; // Product unit; null quotes the base unit
+  unitPrice: number;
+  discountType?: DiscountType;
+  discountValue: number;
+}
+
+interface QuotePricing {
+  lines: Array<{ totalPrice: number; taxAmount: number }>;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  totalAmount: number;
+}
+
+export function AddQuoteForm() {
+  const formatCurrency = useMoneyFormatter();
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lineErrors, setLineErrors] = useState<Record<number, string>>({});
+  const [pricing, setPricing] = useState<QuotePricing | null>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [searchProduct, setSearchProduct] = useState("");
+  const [searchCustomer, setSearchCustomer] = useState("");
+  const [showProductSearch, setShowProductSearch] = useState(false);
+  const [showCustomerSearch, setShowCustomerSearch] = useState(false);
+  const productSearchRef = useRef<HTMLDivElement>(null);
+  const customerSearchRef = useRef<HTMLDivElement>(null);
+  const [formData, setFormData] = useState({
+    customerId: "",
+    items: [] as QuoteItem[],
+    discount: "0",
+    quoteDate: format(new Date(), "yyyy-MM-dd"),
+    validUntil: "", // Blank uses the business's validity period
+    notes: "",
+  });
+
+  // Close dropdowns when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (
+        productSearchRef.current &&
+        !productSearchRef.current.contains(event.target as Node)
+      ) {
+        setShowProductSearch(false);
+      }
+      if (
+        customerSearchRef.current &&
+        !customerSearchRef.current.contains(event.target as Node)
+      ) {
+        setShowCustomerSearch(false);
+      }
+    }
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, []);
+
+  // Fetch products and customers
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const [productsRes, customersRes] = await Promise.all([
+          fetch("/api/products?limit=100"),
+          fetch("/api/customers?limit=100"),
+        ]);
+
+        const productsData = await productsRes.json();
+        const customersData = await customersRes.json();
+
+        if (productsData.success) {
+          setProducts(productsData.data);
+        }
+        if (customersData.success) {
+          setCustomers(customersData.data);
+        }
+      } catch (error) {
+        console.error("Error fetching data:", error);
+      }
+    }
+
+    fetchData();
+  }, []);
+
+  // Price the quote on the server, the same way a sale is priced
+  useEffect(() => {
+    if (
+      formData.items.length === 0 ||
+      formData.items.some((item) => !item.productName)
+    ) {
+      setPricing(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch("/api/sales/preview", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            items: formData.items,
+            discount: parseFloat(formData.discount) || 0,
+          }),
+        });
+        const data = await res.json();
+
+        if (data.success) {
+          setPricing(data.data);
+          setLineErrors({});
+        } else {
+          setPricing(null);
+          const errors: Record<number, string> = {};
+          (data.details || []).forEach(
+            (detail: { index?: number; message: string }) => {
+              if (detail.index !== undefined) {
+                errors[detail.index] = detail.message;
+              }
+            }
+          );
+          setLineErrors(errors);
+        }
+      } catch (error) {
+        console.error("Error pricing quote:", error);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [formData.items, formData.discount]);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const addItem = (product?: Product) => {
+    const newItem: QuoteItem = product
+      ? {
+          productId: product.id,
+          productName: product.name,
+          quantity: 1,
+          unitPrice: Number(product.sellingPrice),
+          discountValue: 0,
+        }
+      : { productName: "", quantity: 1, unitPrice: 0, discountValue: 0 };
+
+    setFormData((prev) => ({ ...prev, items: [...prev.items, newItem] }));
+    setSearchProduct("");
+    setShowProductSearch(false);
+  };
+
+  const removeItem = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      items: prev.items.filter((_, i) => i !== index),
+    }));
+    setLineErrors({});
+  };
+
+  const updateItem = (index: number, field: keyof QuoteItem, value: any) => {
+    setFormData((prev) => {
+      const newItems = [...prev.items];
+      newItems[index] = { ...newItems[index], [field]: value };
+
+      // Quote the new unit at its catalogue price
+      const product = products.find((p) => p.id === newItems[index].productId);
+      if (field === "unitId" && product) {
+        const unit = product.units?.find((u) => u.id === value);
+        newItems[index].unitPrice = catalogUnitPrice(
+          Number(product.sellingPrice),
+          newItems[index].quantity,
+          unit
+            ? {
+                factor: Number(unit.factor),
+                sellingPrice:
+                  unit.sellingPrice !== null ? Number(unit.sellingPrice) : null,
+              }
+            : null
+        );
+      }
+
+      return { ...prev, items: newItems };
+    });
+  };
+
+  // Unit picker for a catalogue line whose product sells in more than its
+  // base unit
+  const renderUnitSelect = (item: QuoteItem, index: number) => {
+    const product = products.find((p) => p.id === item.productId);
+    if (!product?.units || product.units.length === 0) return null;
+
+    return (
+      <select
+        value={item.unitId || ""}
+        onChange={(e) => updateItem(index, "unitId", e.target.value || null)}
+        className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">{product.unit}</option>
+        {product.units.map((unit) => (
+          <option key={unit.id} value={unit.id}>
+            {unit.name} ({Number(unit.factor)} {product.unit})
+          </option>
+        ))}
+      </select>
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.items.length === 0) {
+      setError("Please add at least one item");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/quotes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          customerId: formData.customerId || null,
+          items: formData.items,
+          discount: parseFloat(formData.discount) || 0,
+          quoteDate: formData.quoteDate,
+          validUntil: formData.validUntil || undefined,
+          notes: formData.notes || null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create quote");
+      }
+
+      router.push(`/dashboard/admin/quotes/${data.data.id}`);
+    } catch (err: any) {
+      setError(err.message || "Failed to create quote");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filteredProducts = products.filter(
+    (p) =>
+      p.name.toLowerCase().includes(searchProduct.toLowerCase()) ||
+      p.sku.toLowerCase().includes(searchProduct.toLowerCase())
+  );
+
+  const filteredCustomers = customers.filter(
+    (c) =>
+      c.name.toLowerCase().includes(searchCustomer.toLowerCase()) ||
+      c.phone.includes(searchCustomer)
+  );
+
+  const selectedCustomer = customers.find((c) => c.id === formData.customerId);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link href="/dashboard/admin/quotes">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">New Quote</h1>
+          <p className="text-gray-600 mt-1">
+            Price items for a customer without touching stock
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <p className="text-red-600">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Customer */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-gray-900 flex items-center gap-2">
+                  <User className="w-5 h-5" />
+                  Customer
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="relative" ref={customerSearchRef}>
+                  {selectedCustomer ? (
+                    <div className="flex items-center justify-between p-3 border border-gray-300 rounded-md bg-gray-50">
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {selectedCustomer.name}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {selectedCustomer.phone} • {selectedCustomer.type}
+                        </p>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          setFormData((prev) => ({ ...prev, customerId: "" }))
+                        }
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="relative">
+                        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                        <Input
+                          type="text"
+                          placeholder="Search customer by name or phone..."
+                          value={searchCustomer}
+                          onChange={(e) => {
+                            setSearchCustomer(e.target.value);
+                            setShowCustomerSearch(true);
+                          }}
+                          onFocus={() => setShowCustomerSearch(true)}
+                          className="pl-10 text-gray-900"
+                        />
+                      </div>
+                      {showCustomerSearch && searchCustomer && (
+                        <div className="absolute z-10 w-full mt-1 bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto">
+                          {filteredCustomers.length > 0 ? (
+                            filteredCustomers.map((customer) => (
+                              <button
+                                key={customer.id}
+                                type="button"
+                                onClick={() => {
+                                  setFormData((prev) => ({
+                                    ...prev,
+                                    customerId: customer.id,
+                                  }));
+                                  setSearchCustomer("");
+                                  setShowCustomerSearch(false);
+                                }}
+                                className="w-full text-left px-4 py-2 hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
+                              >
+                                <p className="font-medium text-gray-900">
+                                  {customer.name}
+                                </p>
+                                <p className="text-sm text-gray-600">
+                                  {customer.phone} • {customer.type}
+                                </p>
+                              </button>
+                            ))
+                          ) : (
+                            <div className="px-4 py-2 text-sm text-gray-500">
+                              No customers found
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Items */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-gray-900 flex items-center gap-2">
+                    <FileSignature className="w-5 h-5" />
+                    Quote Items
+                  </CardTitle>
+                  <div className="relative flex" ref={productSearchRef}>
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                      <Input
+                        type="text"
+                        placeholder="Search products..."
+                        value={searchProduct}
+                        onChange={(e) => {
+                          setSearchProduct(e.target.value);
+                          setShowProductSearch(true);
+                        }}
+                        onFocus={() => setShowProductSearch(true)}
+                        className="pl-10 w-64 text-gray-900"
+                      />
+                      {showProductSearch && searchProduct && (
+                        <div className="absolute z-10 w-full mt-1 bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto">
+                          {filteredProducts.length > 0 ? (
+                            filteredProducts.map((product) => (
+                              <button
+                                key={product.id}
+                                type="button"
+                                onClick={() => addItem(product)}
+                                className="w-full text-left px-4 py-2 hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
+                              >
+                                <p className="font-medium text-gray-900">
+                                  {product.name}
+                                </p>
+                                <p className="text-sm text-gray-600">
+                                  {product.sku} • Stock: {Number(product.currentStock)}{" "}
+                                  {product.unit} •{" "}
+                                  {formatCurrency(product.sellingPrice)}
+                                </p>
+                              </button>
+                            ))
+                          ) : (
+                            <div className="px-4 py-2 text-sm text-gray-500">
+                              No products found
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => addItem()}
+                      className="ml-2"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Item
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {formData.items.length === 0 ? (
+                  <div className="text-center py-8 text-gray-500">
+                    No items added. Search for a product or click &quot;Add Item&quot; to
+                    add manually.
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {formData.items.map((item, index) => (
+                      <div
+                        key={index}
+                        className={`p-4 border rounded-lg ${
+                          lineErrors[index]
+                            ? "border-red-300 bg-red-50"
+                            : "border-gray-200"
+                        }`}
+                      >
+                        <div className="grid grid-cols-12 gap-4 items-end">
+                          <div className="col-span-4">
+                            <label className="text-sm font-medium text-gray-700 mb-2 block">
+                              Product Name
+                            </label>
+                            <Input
+                              type="text"
+                              value={item.productName}
+                              onChange={(e) =>
+                                updateItem(index, "productName", e.target.value)
+                              }
+                              placeholder="Enter product name"
+                              className="text-gray-900"
+                            />
+                          </div>
+                          <div className="col-span-2">
+                            <label className="text-sm font-medium text-gray-700 mb-2 block">
+                              Quantity
+                            </label>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="any"
+                              value={item.quantity}
+                              onChange={(e) =>
+                                updateItem(
+                                  index,
+                                  "quantity",
+                                  roundQuantity(parseFloat(e.target.value) || 0)
+                                )
+                              }
+                              className="text-gray-900"
+                            />
+                            {renderUnitSelect(item, index)}
+                          </div>
+                          <div className="col-span-2">
+                            <label className="text-sm font-medium text-gray-700 mb-2 block">
+                              Unit Price
+                            </label>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={item.unitPrice}
+                              onChange={(e) =>
+                                updateItem(
+                                  index,
+                                  "unitPrice",
+                                  parseFloat(e.target.value) || 0
+                                )
+                              }
+                              className="text-gray-900"
+                            />
+                          </div>
+                          <div className="col-span-3">
+                            <label className="text-sm font-medium text-gray-700 mb-2 block">
+                              Discount
+                            </label>
+                            <div className="flex gap-1">
+                              <select
+                                value={item.discountType || ""}
+                                onChange={(e) =>
+                                  updateItem(
+                                    index,
+                                    "discountType",
+                                    (e.target.value as DiscountType) ||
+                                      undefined
+                                  )
+                                }
+                                className="w-full px-2 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              >
+                                <option value="">None</option>
+                                <option value={DiscountType.PERCENTAGE}>%</option>
+                                <option value={DiscountType.FIXED}>Amount</option>
+                              </select>
+                              {item.discountType && (
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  value={item.discountValue}
+                                  onChange={(e) =>
+                                    updateItem(
+                                      index,
+                                      "discountValue",
+                                      parseFloat(e.target.value) || 0
+                                    )
+                                  }
+                                  className="text-gray-900"
+                                />
+                              )}
+                            </div>
+                          </div>
+                          <div className="col-span-1">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeItem(index)}
+                            >
+                              <Trash2 className="w-4 h-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </div>
+                        {pricing?.lines[index] && (
+                          <p className="text-sm text-gray-600 mt-2">
+                            Line total:{" "}
+                            {formatCurrency(pricing.lines[index].totalPrice)}
+                            {pricing.lines[index].taxAmount > 0 &&
+                              ` + ${formatCurrency(pricing.lines[index].taxAmount)} tax`}
+                          </p>
+                        )}
+                        {lineErrors[index] && (
+                          <p className="text-sm text-red-600 mt-2">
+                            {lineErrors[index]}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Validity */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-gray-900 flex items-center gap-2">
+                  <Calendar className="w-5 h-5" />
+                  Validity
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-700">
+                      Quote Date
+                    </label>
+                    <Input
+                      type="date"
+                      name="quoteDate"
+                      value={formData.quoteDate}
+                      onChange={handleChange}
+                      disabled={loading}
+                      className="text-gray-900"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-700">
+                      Valid Until
+                    </label>
+                    <Input
+                      type="date"
+                      name="validUntil"
+                      value={formData.validUntil}
+                      min={formData.quoteDate}
+                      onChange={handleChange}
+                      disabled={loading}
+                      className="text-gray-900"
+                    />
+                    <p className="text-xs text-gray-500">
+                      Leave blank to use the validity period from settings
+                    </p>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">
+                    Notes
+                  </label>
+                  <textarea
+                    name="notes"
+                    rows={3}
+                    value={formData.notes}
+                    onChange={handleChange}
+                    disabled={loading}
+                    placeholder="Delivery terms, conditions..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Sidebar - Summary */}
+          <div className="lg:col-span-1">
+            <Card className="sticky top-6">
+              <CardHeader>
+                <CardTitle className="text-gray-900">Quote Summary</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-3">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Subtotal</span>
+                    <span className="font-medium text-gray-900">
+                      {formatCurrency(pricing?.subtotal || 0)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Discount</span>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      name="discount"
+                      value={formData.discount}
+                      onChange={handleChange}
+                      disabled={loading}
+                      className="w-24 h-8 text-sm text-gray-900"
+                    />
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Tax</span>
+                    <span className="font-medium text-gray-900">
+                      {formatCurrency(pricing?.tax || 0)}
+                    </span>
+                  </div>
+                  <div className="pt-3 border-t border-gray-200 flex justify-between">
+                    <span className="font-semibold text-gray-900">Total</span>
+                    <span className="font-bold text-lg text-gray-900">
+                      {formatCurrency(pricing?.totalAmount || 0)}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="pt-4 border-t border-gray-200">
+                  <Button
+                    type="submit"
+                    disabled={loading || formData.items.length === 0}
+                    className="w-full"
+                  >
+                    {loading ? (
+                      "Saving..."
+                    ) : (
+                      <>
+                        <Save className="w-4 h-4 mr-2" />
+                        Save Draft Quote
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
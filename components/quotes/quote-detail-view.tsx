@@ -0,0 +1,613 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ArrowLeft,
+  Send,
+  RotateCcw,
+  Trash2,
+  ShoppingCart,
+  FileSignature,
+  User,
+  X,
+} from "lucide-react";
+import Link from "next/link";
+import { addDays, format } from "date-fns";
+import { PaymentMethod, QuoteStatus } from "@prisma/client";
+import { getQuoteStatusColor } from "./quotes-view";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+interface QuoteDetail {
+  id: string;
+  quoteNumber: string;
+  customer?: {
+    id: string;
+    name: string;
+    phone?: string | null;
+    email?: string | null;
+  } | null;
+  items: Array<{
+    id: string;
+    productName: string;
+    quantity: number | string; // Decimals arrive as strings
+    unitName?: string | null;
+    unitFactor: number | string;
+    unitPrice: number;
+    totalPrice: number;
+    discountAmount: number;
+    taxRateName?: string | null;
+    taxPercent: number;
+    taxAmount: number;
+    product?: {
+      id: string;
+      sku: string;
+      unit: string;
+      currentStock: number | string;
+    } | null;
+  }>;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  taxBreakdown: Array<{
+    name: string;
+    rate: number;
+    taxableAmount: number;
+    taxAmount: number;
+  }>;
+  totalAmount: number;
+  status: QuoteStatus;
+  quoteDate: string;
+  validUntil: string;
+  notes?: string | null;
+  sentAt?: string | null;
+  acceptedAt?: string | null;
+  sale?: { id: string; invoiceNumber: string } | null;
+  createdBy?: { id: string; name: string } | null;
+}
+
+export function QuoteDetailView({ quoteId }: { quoteId: string }) {
+  const formatCurrency = useMoneyFormatter();
+  const router = useRouter();
+  const [quote, setQuote] = useState<QuoteDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showConvert, setShowConvert] = useState(false);
+  const [conversion, setConversion] = useState({
+    paymentMethod: PaymentMethod.CASH as PaymentMethod,
+    amountPaid: "",
+    dueDate: "",
+  });
+
+  const fetchQuote = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/quotes/${quoteId}`);
+      const data = await res.json();
+      if (data.success) {
+        setQuote(data.data);
+      } else {
+        setError(data.error || "Failed to load quote");
+      }
+    } catch (error) {
+      console.error("Error fetching quote:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [quoteId]);
+
+  useEffect(() => {
+    fetchQuote();
+  }, [fetchQuote]);
+
+  const updateQuote = async (body: Record<string, unknown>) => {
+    setUpdating(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/quotes/${quoteId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update quote");
+      }
+
+      await fetchQuote();
+    } catch (err: any) {
+      setError(err.message || "Failed to update quote");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const reviseQuote = async () => {
+    const days = window.prompt(
+      "Keep the revised quote valid for how many days?",
+      "30"
+    );
+    if (days === null) return;
+
+    const validUntil = addDays(new Date(), parseInt(days) || 30);
+    await updateQuote({
+      status: QuoteStatus.DRAFT,
+      validUntil: format(validUntil, "yyyy-MM-dd"),
+    });
+  };
+
+  const deleteQuote = async () => {
+    if (!window.confirm("Are you sure you want to delete this quote?")) {
+      return;
+    }
+
+    setUpdating(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/quotes/${quoteId}`, { method: "DELETE" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to delete quote");
+      }
+
+      router.push("/dashboard/admin/quotes");
+    } catch (err: any) {
+      setError(err.message || "Failed to delete quote");
+      setUpdating(false);
+    }
+  };
+
+  const convertQuote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quote) return;
+
+    setUpdating(true);
+    setError(null);
+    try {
+      const amountPaid =
+        conversion.amountPaid === ""
+          ? Number(quote.totalAmount)
+          : parseFloat(conversion.amountPaid) || 0;
+
+      const res = await fetch(`/api/quotes/${quoteId}/convert`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          paymentMethod: conversion.paymentMethod,
+          amountPaid,
+          dueDate: conversion.dueDate || null,
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to convert quote");
+      }
+
+      router.push(`/dashboard/admin/sales/${data.data.sale.id}`);
+    } catch (err: any) {
+      setError(err.message || "Failed to convert quote");
+      setUpdating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!quote) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <p className="text-center text-gray-600">
+            {error || "Quote not found"}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isOpen =
+    quote.status === QuoteStatus.DRAFT || quote.status === QuoteStatus.SENT;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/dashboard/admin/quotes">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold text-gray-900 font-mono">
+                {quote.quoteNumber}
+              </h1>
+              <span
+                className={`px-2 py-1 text-xs font-medium rounded-full ${getQuoteStatusColor(
+                  quote.status
+                )}`}
+              >
+                {quote.status}
+              </span>
+            </div>
+            <p className="text-gray-600 mt-1">
+              {format(new Date(quote.quoteDate), "MMM dd, yyyy")} • Valid until{" "}
+              {format(new Date(quote.validUntil), "MMM dd, yyyy")}
+              {quote.createdBy && ` • Prepared by ${quote.createdBy.name}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          {quote.status === QuoteStatus.DRAFT && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={updating}
+              onClick={() => updateQuote({ status: QuoteStatus.SENT })}
+            >
+              <Send className="w-4 h-4 mr-2" />
+              Mark as Sent
+            </Button>
+          )}
+          {(quote.status === QuoteStatus.SENT ||
+            quote.status === QuoteStatus.EXPIRED) && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={updating}
+              onClick={reviseQuote}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Revise
+            </Button>
+          )}
+          {isOpen && (
+            <Button
+              size="sm"
+              disabled={updating}
+              onClick={() => setShowConvert(true)}
+            >
+              <ShoppingCart className="w-4 h-4 mr-2" />
+              Convert to Sale
+            </Button>
+          )}
+          {quote.status !== QuoteStatus.ACCEPTED && (
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={updating}
+              onClick={deleteQuote}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <X className="w-5 h-5 text-red-600" />
+              <p className="text-red-600">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {quote.sale && (
+        <Card className="border-green-200 bg-green-50">
+          <CardContent className="p-4">
+            <p className="text-green-700">
+              Accepted
+              {quote.acceptedAt &&
+                ` on ${format(new Date(quote.acceptedAt), "MMM dd, yyyy")}`}{" "}
+              and converted to sale{" "}
+              <Link
+                href={`/dashboard/admin/sales/${quote.sale.id}`}
+                className="font-mono font-medium hover:underline"
+              >
+                {quote.sale.invoiceNumber}
+              </Link>
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {showConvert && isOpen && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900 flex items-center gap-2">
+              <ShoppingCart className="w-5 h-5" />
+              Convert to Sale
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={convertQuote} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                The quoted prices are kept. Stock is deducted and the customer
+                is charged when the sale is created.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">
+                    Payment Method
+                  </label>
+                  <select
+                    value={conversion.paymentMethod}
+                    onChange={(e) =>
+                      setConversion((prev) => ({
+                        ...prev,
+                        paymentMethod: e.target.value as PaymentMethod,
+                      }))
+                    }
+                    disabled={updating}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {Object.values(PaymentMethod).map((method) => (
+                      <option key={method} value={method}>
+                        {method.replace("_", " ")}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">
+                    Amount Paid
+                  </label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={conversion.amountPaid}
+                    placeholder={String(Number(quote.totalAmount))}
+                    onChange={(e) =>
+                      setConversion((prev) => ({
+                        ...prev,
+                        amountPaid: e.target.value,
+                      }))
+                    }
+                    disabled={updating}
+                    className="text-gray-900"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">
+                    Due Date
+                  </label>
+                  <Input
+                    type="date"
+                    value={conversion.dueDate}
+                    onChange={(e) =>
+                      setConversion((prev) => ({
+                        ...prev,
+                        dueDate: e.target.value,
+                      }))
+                    }
+                    disabled={updating}
+                    className="text-gray-900"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={updating}
+                  onClick={() => setShowConvert(false)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={updating}>
+                  {updating ? "Converting..." : "Create Sale"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Items */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-gray-900 flex items-center gap-2">
+                <FileSignature className="w-5 h-5" />
+                Items
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-2 text-sm font-semibold text-gray-700">
+                      Product
+                    </th>
+                    <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                      Qty
+                    </th>
+                    <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                      Unit Price
+                    </th>
+                    <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                      Discount
+                    </th>
+                    <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                      Tax
+                    </th>
+                    <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                      Total
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {quote.items.map((item) => (
+                    <tr key={item.id} className="border-b border-gray-100">
+                      <td className="py-3 px-2">
+                        <p className="text-sm font-medium text-gray-900">
+                          {item.productName}
+                        </p>
+                        {item.product && (
+                          <p
+                            className={`text-xs ${
+                              isOpen &&
+                              Number(item.product.currentStock) <
+                                Number(item.quantity) * Number(item.unitFactor)
+                                ? "text-orange-600"
+                                : "text-gray-500"
+                            }`}
+                          >
+                            {item.product.sku} • In stock:{" "}
+                            {Number(item.product.currentStock)} {item.product.unit}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-3 px-2 text-right text-sm text-gray-900">
+                        {Number(item.quantity)} {item.unitName}
+                      </td>
+                      <td className="py-3 px-2 text-right text-sm text-gray-900">
+                        {formatCurrency(item.unitPrice)}
+                      </td>
+                      <td className="py-3 px-2 text-right text-sm text-gray-900">
+                        {Number(item.discountAmount) > 0
+                          ? formatCurrency(-Number(item.discountAmount))
+                          : "-"}
+                      </td>
+                      <td className="py-3 px-2 text-right text-sm text-gray-900">
+                        {formatCurrency(item.taxAmount)}
+                        {item.taxRateName && (
+                          <p className="text-xs text-gray-500">
+                            {item.taxRateName} {Number(item.taxPercent)}%
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-3 px-2 text-right text-sm font-medium text-gray-900">
+                        {formatCurrency(item.totalPrice)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          {quote.notes && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-gray-900">Notes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                  {quote.notes}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="lg:col-span-1 space-y-6">
+          {/* Customer */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-gray-900 flex items-center gap-2">
+                <User className="w-5 h-5" />
+                Customer
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {quote.customer ? (
+                <div>
+                  <Link
+                    href={`/dashboard/admin/customers/${quote.customer.id}/insights`}
+                    className="font-medium text-gray-900 hover:text-blue-600"
+                  >
+                    {quote.customer.name}
+                  </Link>
+                  {quote.customer.phone && (
+                    <p className="text-sm text-gray-600">
+                      {quote.customer.phone}
+                    </p>
+                  )}
+                  {quote.customer.email && (
+                    <p className="text-sm text-gray-600">
+                      {quote.customer.email}
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Walk-in Customer</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Totals */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-gray-900">Totals</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Subtotal</span>
+                <span className="text-gray-900">
+                  {formatCurrency(quote.subtotal)}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Discount</span>
+                <span className="text-gray-900">
+                  {formatCurrency(quote.discount)}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Tax</span>
+                <span className="text-gray-900">
+                  {formatCurrency(quote.tax)}
+                </span>
+              </div>
+              {quote.taxBreakdown.map((entry) => (
+                <div
+                  key={`${entry.name}-${entry.rate}`}
+                  className="flex justify-between text-xs pl-3"
+                >
+                  <span className="text-gray-500">
+                    {entry.name} ({entry.rate}%) on{" "}
+                    {formatCurrency(entry.taxableAmount)}
+                  </span>
+                  <span className="text-gray-700">
+                    {formatCurrency(entry.taxAmount)}
+                  </span>
+                </div>
+              ))}
+              <div className="pt-3 border-t border-gray-200 flex justify-between">
+                <span className="font-semibold text-gray-900">Total</span>
+                <span className="font-bold text-gray-900">
+                  {formatCurrency(quote.totalAmount)}
+                </span>
+              </div>
+              {quote.sentAt && (
+                <div className="pt-3 border-t border-gray-200 text-sm text-gray-600">
+                  Sent {format(new Date(quote.sentAt), "MMM dd, yyyy")}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
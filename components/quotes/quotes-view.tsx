@@ -0,0 +1,329 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Search,
+  Plus,
+  Eye,
+  FileSignature,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { CustomerType, QuoteStatus } from "@prisma/client";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+interface Quote {
+  id: string;
+  quoteNumber: string;
+  customer?: {
+    id: string;
+    name: string;
+    phone?: string | null;
+    type: CustomerType;
+  } | null;
+  totalAmount: number;
+  status: QuoteStatus;
+  quoteDate: string;
+  validUntil: string;
+  sale?: { id: string; invoiceNumber: string } | null;
+  _count: { items: number };
+}
+
+interface QuoteStat {
+  status: QuoteStatus;
+  count: number;
+  totalAmount: number;
+}
+
+export const getQuoteStatusColor = (status: QuoteStatus) => {
+  const colors: Record<QuoteStatus, string> = {
+    DRAFT: "bg-gray-100 text-gray-700",
+    SENT: "bg-blue-100 text-blue-700",
+    ACCEPTED: "bg-green-100 text-green-700",
+    EXPIRED: "bg-red-100 text-red-700",
+  };
+  return colors[status] || "bg-gray-100 text-gray-700";
+};
+
+export function QuotesView() {
+  const formatCurrency = useMoneyFormatter();
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [stats, setStats] = useState<QuoteStat[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [status, setStatus] = useState<QuoteStatus | "">("");
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState({
+    page: 1,
+    limit: 20,
+    total: 0,
+    totalPages: 0,
+  });
+
+  // Debounce search
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const fetchQuotes = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: "20",
+      });
+      if (debouncedSearch) params.append("search", debouncedSearch);
+      if (status) params.append("status", status);
+
+      const res = await fetch(`/api/quotes?${params.toString()}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setQuotes(data.data.quotes);
+        setStats(data.data.stats);
+        setPagination(data.data.pagination);
+      }
+    } catch (error) {
+      console.error("Error fetching quotes:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, debouncedSearch, status]);
+
+  useEffect(() => {
+    fetchQuotes();
+  }, [fetchQuotes]);
+
+  const statFor = (s: QuoteStatus) =>
+    stats.find((stat) => stat.status === s) || {
+      status: s,
+      count: 0,
+      totalAmount: 0,
+    };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Quotes</h1>
+          <p className="text-gray-600 mt-1">
+            Prepare quotations and convert accepted ones into sales
+          </p>
+        </div>
+        <Link href="/dashboard/admin/quotes/add">
+          <Button size="sm">
+            <Plus className="w-4 h-4 mr-2" />
+            New Quote
+          </Button>
+        </Link>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {Object.values(QuoteStatus).map((s) => (
+          <Card
+            key={s}
+            className={`cursor-pointer ${status === s ? "ring-2 ring-blue-500" : ""}`}
+            onClick={() => {
+              setStatus(status === s ? "" : s);
+              setPage(1);
+            }}
+          >
+            <CardContent className="p-6">
+              <p className="text-sm font-medium text-gray-600">
+                {s.charAt(0) + s.slice(1).toLowerCase()}
+              </p>
+              <p className="text-2xl font-bold text-gray-900 mt-1">
+                {statFor(s).count}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {formatCurrency(statFor(s).totalAmount)}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Search */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <Input
+              type="text"
+              placeholder="Search by quote number or customer..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10 text-gray-900"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Quotes Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-gray-900">
+            All Quotes ({pagination.total})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : quotes.length === 0 ? (
+            <div className="text-center py-12">
+              <FileSignature className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600 text-lg">No quotes found</p>
+              <p className="text-gray-500 text-sm mt-2">
+                {debouncedSearch || status
+                  ? "Try adjusting your search or filters"
+                  : "Get started by creating your first quote"}
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                        Quote
+                      </th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                        Customer
+                      </th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                        Date
+                      </th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                        Valid Until
+                      </th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                        Amount
+                      </th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                        Status
+                      </th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {quotes.map((quote) => (
+                      <tr
+                        key={quote.id}
+                        className="border-b border-gray-100 hover:bg-gray-50 transition-colors"
+                      >
+                        <td className="py-4 px-4">
+                          <p className="font-medium text-gray-900 font-mono">
+                            {quote.quoteNumber}
+                          </p>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {quote._count.items} item
+                            {quote._count.items !== 1 ? "s" : ""}
+                          </p>
+                        </td>
+                        <td className="py-4 px-4">
+                          {quote.customer ? (
+                            <div>
+                              <p className="font-medium text-gray-900">
+                                {quote.customer.name}
+                              </p>
+                              <p className="text-xs text-gray-500 mt-1">
+                                {quote.customer.type}
+                              </p>
+                            </div>
+                          ) : (
+                            <span className="text-sm text-gray-400">
+                              No customer
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-4 px-4 text-sm text-gray-900">
+                          {format(new Date(quote.quoteDate), "MMM dd, yyyy")}
+                        </td>
+                        <td className="py-4 px-4 text-sm text-gray-900">
+                          {format(new Date(quote.validUntil), "MMM dd, yyyy")}
+                        </td>
+                        <td className="py-4 px-4 font-medium text-gray-900">
+                          {formatCurrency(quote.totalAmount)}
+                        </td>
+                        <td className="py-4 px-4">
+                          <span
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getQuoteStatusColor(
+                              quote.status
+                            )}`}
+                          >
+                            {quote.status}
+                          </span>
+                          {quote.sale && (
+                            <Link
+                              href={`/dashboard/admin/sales/${quote.sale.id}`}
+                              className="block text-xs text-blue-600 hover:underline mt-1"
+                            >
+                              {quote.sale.invoiceNumber}
+                            </Link>
+                          )}
+                        </td>
+                        <td className="py-4 px-4">
+                          <Link href={`/dashboard/admin/quotes/${quote.id}`}>
+                            <Button variant="ghost" size="sm">
+                              <Eye className="w-4 h-4" />
+                            </Button>
+                          </Link>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Pagination */}
+              {pagination.totalPages > 1 && (
+                <div className="flex items-center justify-between mt-6 pt-4 border-t border-gray-200">
+                  <p className="text-sm text-gray-600">
+                    Page {page} of {pagination.totalPages}
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(page - 1)}
+                      disabled={page === 1}
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(page + 1)}
+                      disabled={page === pagination.totalPages}
+                    >
+                      Next
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
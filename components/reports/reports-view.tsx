@@ -18,6 +18,7 @@ import {
   CheckCircle2,
 } from "lucide-react";
 import { format, subMonths } from "date-fns";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
 
 type ReportType =
   | "sales_summary"
@@ -393,17 +394,14 @@ function ReportDisplay({
 }
 
 function SalesSummaryDisplay({ data }: { data: any }) {
+  const formatCurrency = useMoneyFormatter();
   return (
     <div className="space-y-6">
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         <div className="p-4 bg-blue-50 rounded-lg">
           <p className="text-sm text-gray-600">Total Revenue</p>
           <p className="text-2xl font-bold text-gray-900 mt-1">
-            {new Intl.NumberFormat("en-US", {
-              style: "currency",
-              currency: "SLL",
-              minimumFractionDigits: 0,
-            }).format(data.summary.totalRevenue)}
+            {formatCurrency(data.summary.totalRevenue)}
           </p>
         </div>
         <div className="p-4 bg-green-50 rounded-lg">
@@ -415,21 +413,21 @@ function SalesSummaryDisplay({ data }: { data: any }) {
         <div className="p-4 bg-yellow-50 rounded-lg">
           <p className="text-sm text-gray-600">Avg. Order Value</p>
           <p className="text-2xl font-bold text-gray-900 mt-1">
-            {new Intl.NumberFormat("en-US", {
-              style: "currency",
-              currency: "SLL",
-              minimumFractionDigits: 0,
-            }).format(data.summary.averageOrderValue)}
+            {formatCurrency(data.summary.averageOrderValue)}
           </p>
         </div>
         <div className="p-4 bg-purple-50 rounded-lg">
           <p className="text-sm text-gray-600">Total Discounts</p>
           <p className="text-2xl font-bold text-gray-900 mt-1">
-            {new Intl.NumberFormat("en-US", {
-              style: "currency",
-              currency: "SLL",
-              minimumFractionDigits: 0,
-            }).format(data.summary.totalDiscounts)}
+            {formatCurrency(data.summary.totalDiscounts)}
+          </p>
+        </div>
+        <div className="p-4 bg-red-50 rounded-lg">
+          <p className="text-sm text-gray-600">
+            Refunds ({data.summary.refundCount})
+          </p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">
+            {formatCurrency(data.summary.totalRefunds)}
           </p>
         </div>
       </div>
@@ -442,6 +440,7 @@ function SalesSummaryDisplay({ data }: { data: any }) {
               <tr className="border-b border-gray-200">
                 <th className="text-left py-2 px-4">Date</th>
                 <th className="text-right py-2 px-4">Revenue</th>
+                <th className="text-right py-2 px-4">Refunds</th>
                 <th className="text-right py-2 px-4">Sales</th>
               </tr>
             </thead>
@@ -450,11 +449,12 @@ function SalesSummaryDisplay({ data }: { data: any }) {
                 <tr key={day.date} className="border-b border-gray-100">
                   <td className="py-2 px-4">{format(new Date(day.date), "MMM dd, yyyy")}</td>
                   <td className="text-right py-2 px-4">
-                    {new Intl.NumberFormat("en-US", {
-                      style: "currency",
-                      currency: "SLL",
-                      minimumFractionDigits: 0,
-                    }).format(day.revenue)}
+                    {formatCurrency(day.revenue)}
+                  </td>
+                  <td className="text-right py-2 px-4">
+                    {day.refunds
+                      ? formatCurrency(day.refunds)
+                      : "-"}
                   </td>
                   <td className="text-right py-2 px-4">{day.count}</td>
                 </tr>
@@ -468,6 +468,7 @@ function SalesSummaryDisplay({ data }: { data: any }) {
 }
 
 function SalesDetailedDisplay({ data }: { data: any }) {
+  const formatCurrency = useMoneyFormatter();
   return (
     <div className="space-y-4">
       <p className="text-sm text-gray-600">
@@ -493,11 +494,7 @@ function SalesDetailedDisplay({ data }: { data: any }) {
                 </td>
                 <td className="py-2 px-4">{sale.customer}</td>
                 <td className="text-right py-2 px-4">
-                  {new Intl.NumberFormat("en-US", {
-                    style: "currency",
-                    currency: "SLL",
-                    minimumFractionDigits: 0,
-                  }).format(sale.totalAmount)}
+                  {formatCurrency(sale.totalAmount)}
                 </td>
                 <td className="py-2 px-4">{sale.status}</td>
               </tr>
@@ -510,6 +507,7 @@ function SalesDetailedDisplay({ data }: { data: any }) {
 }
 
 function CustomerAnalysisDisplay({ data }: { data: any }) {
+  const formatCurrency = useMoneyFormatter();
   return (
     <div className="space-y-6">
       <div>
@@ -522,11 +520,7 @@ function CustomerAnalysisDisplay({ data }: { data: any }) {
                 {segment.count}
               </p>
               <p className="text-xs text-gray-500 mt-1">
-                {new Intl.NumberFormat("en-US", {
-                  style: "currency",
-                  currency: "SLL",
-                  minimumFractionDigits: 0,
-                }).format(segment.totalValue)}
+                {formatCurrency(segment.totalValue)}
               </p>
             </div>
           ))}
@@ -550,11 +544,7 @@ function CustomerAnalysisDisplay({ data }: { data: any }) {
                   <td className="py-2 px-4">{customer.name}</td>
                   <td className="py-2 px-4">{customer.segment}</td>
                   <td className="text-right py-2 px-4">
-                    {new Intl.NumberFormat("en-US", {
-                      style: "currency",
-                      currency: "SLL",
-                      minimumFractionDigits: 0,
-                    }).format(customer.periodRevenue)}
+                    {formatCurrency(customer.periodRevenue)}
                   </td>
                   <td className="text-right py-2 px-4">{customer.periodVisits}</td>
                 </tr>
@@ -568,6 +558,7 @@ function CustomerAnalysisDisplay({ data }: { data: any }) {
 }
 
 function ProductPerformanceDisplay({ data }: { data: any }) {
+  const formatCurrency = useMoneyFormatter();
   return (
     <div className="space-y-6">
       <div className="grid grid-cols-3 gap-4">
@@ -586,11 +577,7 @@ function ProductPerformanceDisplay({ data }: { data: any }) {
         <div className="p-4 bg-yellow-50 rounded-lg">
           <p className="text-sm text-gray-600">Total Revenue</p>
           <p className="text-2xl font-bold text-gray-900 mt-1">
-            {new Intl.NumberFormat("en-US", {
-              style: "currency",
-              currency: "SLL",
-              minimumFractionDigits: 0,
-            }).format(data.summary.totalRevenue)}
+            {formatCurrency(data.summary.totalRevenue)}
           </p>
         </div>
       </div>
@@ -611,11 +598,7 @@ function ProductPerformanceDisplay({ data }: { data: any }) {
                   <td className="py-2 px-4">{product.productName}</td>
                   <td className="text-right py-2 px-4">{product.totalQuantity}</td>
                   <td className="text-right py-2 px-4">
-                    {new Intl.NumberFormat("en-US", {
-                      style: "currency",
-                      currency: "SLL",
-                      minimumFractionDigits: 0,
-                    }).format(product.totalRevenue)}
+                    {formatCurrency(product.totalRevenue)}
                   </td>
                 </tr>
               ))}
@@ -628,40 +611,62 @@ function ProductPerformanceDisplay({ data }: { data: any }) {
 }
 
 function FinancialSummaryDisplay({ data }: { data: any }) {
+  const formatCurrency = useMoneyFormatter();
   return (
     <div className="space-y-6">
-      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="p-4 bg-blue-50 rounded-lg">
           <p className="text-sm text-gray-600">Total Revenue</p>
           <p className="text-2xl font-bold text-gray-900 mt-1">
-            {new Intl.NumberFormat("en-US", {
-              style: "currency",
-              currency: "SLL",
-              minimumFractionDigits: 0,
-            }).format(data.summary.totalRevenue)}
+            {formatCurrency(data.summary.totalRevenue)}
           </p>
         </div>
         <div className="p-4 bg-green-50 rounded-lg">
           <p className="text-sm text-gray-600">Total Paid</p>
           <p className="text-2xl font-bold text-gray-900 mt-1">
-            {new Intl.NumberFormat("en-US", {
-              style: "currency",
-              currency: "SLL",
-              minimumFractionDigits: 0,
-            }).format(data.summary.totalPaid)}
+            {formatCurrency(data.summary.totalPaid)}
           </p>
         </div>
         <div className="p-4 bg-yellow-50 rounded-lg">
           <p className="text-sm text-gray-600">Pending</p>
           <p className="text-2xl font-bold text-gray-900 mt-1">
-            {new Intl.NumberFormat("en-US", {
-              style: "currency",
-              currency: "SLL",
-              minimumFractionDigits: 0,
-            }).format(data.summary.totalPending)}
+            {formatCurrency(data.summary.totalPending)}
+          </p>
+        </div>
+        <div className="p-4 bg-red-50 rounded-lg">
+          <p className="text-sm text-gray-600">Refunds</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">
+            {formatCurrency(data.summary.totalRefunds)}
           </p>
         </div>
       </div>
+      {data.refundBreakdown?.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-gray-900 mb-4">Refunds by Method</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 px-4">Method</th>
+                  <th className="text-right py-2 px-4">Count</th>
+                  <th className="text-right py-2 px-4">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.refundBreakdown.map((item: any) => (
+                  <tr key={item.method} className="border-b border-gray-100">
+                    <td className="py-2 px-4">{item.method.replace("_", " ")}</td>
+                    <td className="text-right py-2 px-4">{item.count}</td>
+                    <td className="text-right py-2 px-4">
+                      {formatCurrency(item.amount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
       <div>
         <h3 className="font-semibold text-gray-900 mb-4">Payment Status Breakdown</h3>
         <div className="overflow-x-auto">
@@ -679,11 +684,7 @@ function FinancialSummaryDisplay({ data }: { data: any }) {
                   <td className="py-2 px-4">{item.status}</td>
                   <td className="text-right py-2 px-4">{item.count}</td>
                   <td className="text-right py-2 px-4">
-                    {new Intl.NumberFormat("en-US", {
-                      style: "currency",
-                      currency: "SLL",
-                      minimumFractionDigits: 0,
-                    }).format(item.amount)}
+                    {formatCurrency(item.amount)}
                   </td>
                 </tr>
               ))}
@@ -696,6 +697,7 @@ function FinancialSummaryDisplay({ data }: { data: any }) {
 }
 
 function PaymentAnalysisDisplay({ data }: { data: any }) {
+  const formatCurrency = useMoneyFormatter();
   return (
     <div className="space-y-6">
       <div>
@@ -716,11 +718,7 @@ function PaymentAnalysisDisplay({ data }: { data: any }) {
                   <td className="py-2 px-4">{method.method.replace("_", " ")}</td>
                   <td className="text-right py-2 px-4">{method.count}</td>
                   <td className="text-right py-2 px-4">
-                    {new Intl.NumberFormat("en-US", {
-                      style: "currency",
-                      currency: "SLL",
-                      minimumFractionDigits: 0,
-                    }).format(method.totalAmount)}
+                    {formatCurrency(method.totalAmount)}
                   </td>
                   <td className="text-right py-2 px-4">
                     {method.percentage.toFixed(1)}%
@@ -736,6 +734,7 @@ function PaymentAnalysisDisplay({ data }: { data: any }) {
 }
 
 function RegionalSalesDisplay({ data }: { data: any }) {
+  const formatCurrency = useMoneyFormatter();
   return (
     <div className="space-y-6">
       <div className="grid grid-cols-3 gap-4">
@@ -748,11 +747,7 @@ function RegionalSalesDisplay({ data }: { data: any }) {
         <div className="p-4 bg-green-50 rounded-lg">
           <p className="text-sm text-gray-600">Total Revenue</p>
           <p className="text-2xl font-bold text-gray-900 mt-1">
-            {new Intl.NumberFormat("en-US", {
-              style: "currency",
-              currency: "SLL",
-              minimumFractionDigits: 0,
-            }).format(data.summary.totalRevenue)}
+            {formatCurrency(data.summary.totalRevenue)}
           </p>
         </div>
         <div className="p-4 bg-yellow-50 rounded-lg">
@@ -780,18 +775,10 @@ function RegionalSalesDisplay({ data }: { data: any }) {
                   <td className="py-2 px-4">{region.regionName}</td>
                   <td className="text-right py-2 px-4">{region.totalSales}</td>
                   <td className="text-right py-2 px-4">
-                    {new Intl.NumberFormat("en-US", {
-                      style: "currency",
-                      currency: "SLL",
-                      minimumFractionDigits: 0,
-                    }).format(region.totalRevenue)}
+                    {formatCurrency(region.totalRevenue)}
                   </td>
                   <td className="text-right py-2 px-4">
-                    {new Intl.NumberFormat("en-US", {
-                      style: "currency",
-                      currency: "SLL",
-                      minimumFractionDigits: 0,
-                    }).format(region.averageOrderValue)}
+                    {formatCurrency(region.averageOrderValue)}
                   </td>
                 </tr>
               ))}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -17,18 +17,61 @@ import {
   CreditCard,
   X,
   Search,
+  PauseCircle,
+  CloudOff,
+  Camera,
+  ScanLine,
 } from "lucide-react";
 import Link from "next/link";
-import { PaymentMethod, PaymentStatus, SaleStatus } from "@prisma/client";
+import {
+  DiscountType,
+  PaymentMethod,
+  PaymentStatus,
+  SaleStatus,
+  TaxRateType,
+} from "@prisma/client";
 import { format } from "date-fns";
+import {
+  HeldCartsPanel,
+  type HeldCartSummary,
+} from "@/components/sales/held-carts-panel";
+import {
+  CameraScanner,
+  isCameraScanSupported,
+} from "@/components/sales/camera-scanner";
+import {
+  baseQuantity,
+  catalogUnitPrice,
+  newClientId,
+  roundQuantity,
+  type PriceTier,
+} from "@/lib/utils";
+import { listenForScans } from "@/lib/barcode-scanner";
+import {
+  deductCachedStock,
+  queueSale,
+  readCatalog,
+  writeCatalog,
+} from "@/lib/offline/pos-store";
+import { useCurrency, useMoneyFormatter } from "@/components/layout/currency-provider";
+
+interface ProductUnit {
+  id: string;
+  name: string;
+  factor: number | string; // Decimals arrive as strings
+  sellingPrice: number | string | null;
+  barcode?: string | null;
+}
 
 interface Product {
   id: string;
   name: string;
   sku: string;
+  barcode?: string | null;
   sellingPrice: number;
-  currentStock: number;
+  currentStock: number | string; // In the base unit
   unit: string;
+  units?: ProductUnit[];
 }
 
 interface Customer {
@@ -40,15 +83,77 @@ interface Customer {
 interface SaleItem {
   productId?: string;
   productName: string;
-  quantity: number;
+  quantity: number; // In the unit sold
+  unitId?: string | null; // Product unit; null sells in the base unit
   unitPrice: number;
-  totalPrice: number;
+  discountType?: DiscountType;
+  discountValue: number;
+  totalPrice: number; // After the line discount
+  manualPrice?: boolean; // Typed by the cashier; kept when the customer changes
+}
+
+interface ExchangeRate {
+  id: string;
+  currency: string;
+  rate: number | string; // Base currency per unit
 }
 
+interface CustomerPriceList {
+  id: string;
+  name: string;
+  tiers: Record<string, PriceTier[]>; // By product ID
+}
+
+interface Tender {
+  method: PaymentMethod;
+  amount: string;
+  reference: string;
+}
+
+interface SalePricing {
+  lines: Array<{
+    totalPrice: number;
+    priceOverridden: boolean;
+    discountAmount: number;
+    taxRateName: string | null;
+    taxPercent: number;
+    taxAmount: number;
+  }>;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  taxBreakdown: Array<{
+    taxRateId: string | null;
+    name: string;
+    type: TaxRateType | null;
+    rate: number;
+    taxableAmount: number;
+    taxAmount: number;
+  }>;
+  totalAmount: number;
+  amountPaid: number;
+  balanceDue: number;
+  paymentStatus: PaymentStatus;
+}
+
+const emptyCart = () => ({
+  customerId: "",
+  currency: "", // Blank is the base currency
+  items: [] as SaleItem[],
+  discount: "0",
+  status: SaleStatus.COMPLETED,
+  saleDate: format(new Date(), "yyyy-MM-dd"),
+  dueDate: "",
+  notes: "",
+  tenders: [{ method: PaymentMethod.CASH, amount: "", reference: "" }] as Tender[],
+});
+
 export function AddSaleForm() {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [lineErrors, setLineErrors] = useState<Record<number, string>>({});
+  const [pricing, setPricing] = useState<SalePricing | null>(null);
   const [products, setProducts] = useState<Product[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [searchProduct, setSearchProduct] = useState("");
@@ -57,6 +162,27 @@ export function AddSaleForm() {
   const [showCustomerSearch, setShowCustomerSearch] = useState(false);
   const productSearchRef = useRef<HTMLDivElement>(null);
   const customerSearchRef = useRef<HTMLDivElement>(null);
+  const [heldCarts, setHeldCarts] = useState<HeldCartSummary[]>([]);
+  const [heldCartId, setHeldCartId] = useState<string | null>(null);
+  const [showHeldCarts, setShowHeldCarts] = useState(false);
+  const [holding, setHolding] = useState(false);
+  // Identifies this cart to the server so an offline retry is not recorded twice
+  const [clientId, setClientId] = useState(newClientId);
+  const [catalogCachedAt, setCatalogCachedAt] = useState<string | null>(null);
+  const [offlineNotice, setOfflineNotice] = useState<string | null>(null);
+  const [unknownCode, setUnknownCode] = useState<string | null>(null);
+  const [quickProduct, setQuickProduct] = useState({
+    name: "",
+    sellingPrice: "",
+    costPrice: "",
+    currentStock: "",
+  });
+  const [creatingProduct, setCreatingProduct] = useState(false);
+  // Kept across retries of the same quick-create so it adds one product
+  const [quickProductKey, setQuickProductKey] = useState(newClientId);
+  const [showCamera, setShowCamera] = useState(false);
+  const [cameraSupported, setCameraSupported] = useState(false);
+  const scanHandlerRef = useRef<(code: string) => void>(() => {});
 
   // Close dropdowns when clicking outside
   useEffect(() => {
@@ -81,19 +207,16 @@ export function AddSaleForm() {
     };
   }, []);
 
-  const [formData, setFormData] = useState({
-    customerId: "",
-    items: [] as SaleItem[],
-    discount: "0",
-    tax: "0",
-    paymentMethod: PaymentMethod.CASH,
-    paymentStatus: PaymentStatus.PAID,
-    status: SaleStatus.COMPLETED,
-    saleDate: format(new Date(), "yyyy-MM-dd"),
-    dueDate: "",
-    notes: "",
-    amountPaid: "",
-  });
+  const [formData, setFormData] = useState(emptyCart);
+  const [priceList, setPriceList] = useState<CustomerPriceList | null>(null);
+  const { currency: baseCurrency } = useCurrency();
+  const formatCurrency = useMoneyFormatter();
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+
+  const saleCurrency = formData.currency || baseCurrency;
+  const exchangeRate = Number(
+    exchangeRates.find((r) => r.currency === formData.currency)?.rate ?? 1
+  );
 
   // Fetch products and customers
   useEffect(() => {
@@ -113,14 +236,58 @@ export function AddSaleForm() {
         if (customersData.success) {
           setCustomers(customersData.data);
         }
+        if (productsData.success && customersData.success) {
+          writeCatalog(productsData.data, customersData.data);
+        }
       } catch (error) {
-        console.error("Error fetching data:", error);
+        // Offline: fall back to the catalogue saved on this device
+        const catalog = readCatalog<Product, Customer>();
+        if (catalog) {
+          setProducts(catalog.products);
+          setCustomers(catalog.customers);
+          setCatalogCachedAt(catalog.cachedAt);
+        } else {
+          console.error("Error fetching data:", error);
+        }
       }
     }
 
     fetchData();
   }, []);
 
+  useEffect(() => {
+    async function fetchExchangeRates() {
+      try {
+        const res = await fetch("/api/exchange-rates");
+        const data = await res.json();
+        if (data.success) {
+          setExchangeRates(data.data);
+        }
+      } catch (error) {
+        // Offline: sales are taken in the base currency
+        console.error("Error fetching exchange rates:", error);
+      }
+    }
+
+    fetchExchangeRates();
+  }, []);
+
+  const fetchHeldCarts = useCallback(async () => {
+    try {
+      const res = await fetch("/api/held-carts");
+      const data = await res.json();
+      if (data.success) {
+        setHeldCarts(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching held carts:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHeldCarts();
+  }, [fetchHeldCarts]);
+
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
@@ -129,25 +296,164 @@ export function AddSaleForm() {
       ...prev,
       [name]: value,
     }));
+  };
 
-    // Auto-calculate amount paid if payment status is PAID
-    if (name === "paymentStatus" && value === PaymentStatus.PAID) {
-      const total = calculateTotal();
-      setFormData((prev) => ({
-        ...prev,
-        amountPaid: total.toFixed(2),
-      }));
+  // Price the cart on the server so the summary matches what will be recorded
+  useEffect(() => {
+    if (
+      formData.items.length === 0 ||
+      formData.items.some((item) => !item.productName)
+    ) {
+      setPricing(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch("/api/sales/preview", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            currency: formData.currency || null,
+            items: formData.items,
+            discount: parseFloat(formData.discount) || 0,
+            amountPaid: formData.tenders.reduce(
+              (sum, tender) => sum + (parseFloat(tender.amount) || 0),
+              0
+            ),
+          }),
+        });
+        const data = await res.json();
+
+        if (data.success) {
+          setPricing(data.data);
+          setLineErrors({});
+        } else {
+          setPricing(null);
+          const errors: Record<number, string> = {};
+          (data.details || []).forEach(
+            (detail: { index?: number; message: string }) => {
+              if (detail.index !== undefined) {
+                errors[detail.index] = detail.message;
+              }
+            }
+          );
+          setLineErrors(errors);
+        }
+      } catch (error) {
+        console.error("Error pricing sale:", error);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [
+    formData.items,
+    formData.discount,
+    formData.tenders,
+    formData.currency,
+  ]);
+
+  // Unit price for a catalogue product in the unit sold: the customer's
+  // price list tier for the quantity, or else the unit's selling price,
+  // converted from the base currency at the sale's rate
+  const unitPriceFor = (
+    product: Product,
+    quantity: number,
+    unitId?: string | null,
+    list: CustomerPriceList | null = priceList,
+    rate: number = exchangeRate
+  ) => {
+    const unit = product.units?.find((u) => u.id === unitId);
+    const price = catalogUnitPrice(
+      Number(product.sellingPrice),
+      quantity,
+      unit
+        ? {
+            factor: Number(unit.factor),
+            sellingPrice:
+              unit.sellingPrice !== null ? Number(unit.sellingPrice) : null,
+          }
+        : null,
+      list?.tiers[product.id]
+    );
+    return Math.round((price / rate + Number.EPSILON) * 100) / 100;
+  };
+
+  const fetchPriceList = async (
+    customerId: string
+  ): Promise<CustomerPriceList | null> => {
+    if (!customerId) return null;
+    try {
+      const res = await fetch(
+        `/api/price-lists/resolve?customerId=${encodeURIComponent(customerId)}`
+      );
+      const data = await res.json();
+      return data.success ? data.data : null;
+    } catch (error) {
+      // Offline: catalogue prices until the sale is priced on the server
+      console.error("Error fetching price list:", error);
+      return null;
     }
   };
 
+  // Switch customer and reprice catalogue lines from their price list.
+  // Prices the cashier typed in are left alone.
+  const selectCustomer = async (customerId: string) => {
+    setFormData((prev) => ({ ...prev, customerId }));
+    const list = await fetchPriceList(customerId);
+    setPriceList(list);
+    setFormData((prev) => {
+      if (prev.customerId !== customerId) return prev;
+      return {
+        ...prev,
+        items: prev.items.map((item) => {
+          const product = products.find((p) => p.id === item.productId);
+          if (!product || item.manualPrice) return item;
+          const repriced = {
+            ...item,
+            unitPrice: unitPriceFor(product, item.quantity, item.unitId, list),
+          };
+          return { ...repriced, totalPrice: lineTotal(repriced) };
+        }),
+      };
+    });
+  };
+
+  // Switch the sale's currency and convert catalogue lines at its rate.
+  // Prices the cashier typed in are left alone.
+  const selectCurrency = (currency: string) => {
+    const rate = Number(
+      exchangeRates.find((r) => r.currency === currency)?.rate ?? 1
+    );
+    setFormData((prev) => ({
+      ...prev,
+      currency,
+      items: prev.items.map((item) => {
+        const product = products.find((p) => p.id === item.productId);
+        if (!product || item.manualPrice) return item;
+        const repriced = {
+          ...item,
+          unitPrice: unitPriceFor(
+            product,
+            item.quantity,
+            item.unitId,
+            priceList,
+            rate
+          ),
+        };
+        return { ...repriced, totalPrice: lineTotal(repriced) };
+      }),
+    }));
+  };
+
   const addItem = (product?: Product) => {
     if (product) {
       const newItem: SaleItem = {
         productId: product.id,
         productName: product.name,
         quantity: 1,
-        unitPrice: Number(product.sellingPrice),
-        totalPrice: Number(product.sellingPrice),
+        unitPrice: unitPriceFor(product, 1),
+        discountValue: 0,
+        totalPrice: unitPriceFor(product, 1),
       };
       setFormData((prev) => ({
         ...prev,
@@ -161,6 +467,7 @@ export function AddSaleForm() {
         productName: "",
         quantity: 1,
         unitPrice: 0,
+        discountValue: 0,
         totalPrice: 0,
       };
       setFormData((prev) => ({
@@ -170,11 +477,174 @@ export function AddSaleForm() {
     }
   };
 
+  // A scanned product goes on its existing line if it's already in the
+  // cart in the same unit, e.g. a sack barcode adds a sack
+  const addScannedProduct = (product: Product, unitId: string | null = null) => {
+    setFormData((prev) => {
+      const index = prev.items.findIndex(
+        (item) =>
+          item.productId === product.id && (item.unitId || null) === unitId
+      );
+      if (index === -1) {
+        const newItem: SaleItem = {
+          productId: product.id,
+          productName: product.name,
+          quantity: 1,
+          unitId,
+          unitPrice: unitPriceFor(product, 1, unitId),
+          discountValue: 0,
+          totalPrice: unitPriceFor(product, 1, unitId),
+        };
+        return { ...prev, items: [...prev.items, newItem] };
+      }
+
+      const items = [...prev.items];
+      const quantity = items[index].quantity + 1;
+      items[index] = {
+        ...items[index],
+        quantity,
+        ...(!items[index].manualPrice && {
+          unitPrice: unitPriceFor(product, quantity, unitId),
+        }),
+      };
+      items[index].totalPrice = lineTotal(items[index]);
+      return { ...prev, items };
+    });
+  };
+
+  const handleScan = async (code: string) => {
+    const scanned = code.trim();
+    if (!scanned) return;
+
+    setSearchProduct("");
+    setShowProductSearch(false);
+    setShowCamera(false);
+    setUnknownCode(null);
+    setError(null);
+
+    const known = products.find(
+      (p) =>
+        p.barcode === scanned || p.sku.toLowerCase() === scanned.toLowerCase()
+    );
+    if (known) {
+      addScannedProduct(known);
+      return;
+    }
+    const knownUnit = products
+      .flatMap((p) => (p.units || []).map((unit) => ({ product: p, unit })))
+      .find(({ unit }) => unit.barcode === scanned);
+    if (knownUnit) {
+      addScannedProduct(knownUnit.product, knownUnit.unit.id);
+      return;
+    }
+
+    // Only part of the catalogue is loaded, so ask the server
+    try {
+      const res = await fetch(
+        `/api/products/lookup?code=${encodeURIComponent(scanned)}`
+      );
+      const data = await res.json();
+
+      if (data.success) {
+        setProducts((prev) => [...prev, data.data]);
+        addScannedProduct(data.data, data.data.unitId);
+      } else if (res.status === 404) {
+        setUnknownCode(scanned);
+        setQuickProductKey(newClientId());
+        setQuickProduct({
+          name: "",
+          sellingPrice: "",
+          costPrice: "",
+          currentStock: "",
+        });
+      } else {
+        setError(data.error || "Failed to look up product");
+      }
+    } catch (error) {
+      console.error("Error looking up product:", error);
+      setError(`No saved product matches "${scanned}"`);
+    }
+  };
+
+  // Listeners below always call the latest handler
+  useEffect(() => {
+    scanHandlerRef.current = handleScan;
+  });
+
+  const onScan = useCallback((code: string) => {
+    scanHandlerRef.current(code);
+  }, []);
+
+  useEffect(() => listenForScans(onScan), [onScan]);
+
+  useEffect(() => {
+    setCameraSupported(isCameraScanSupported());
+  }, []);
+
+  const quickCreateProduct = async () => {
+    if (!unknownCode) return;
+    if (!quickProduct.name || !quickProduct.sellingPrice) {
+      setError("Enter a name and selling price for the new product");
+      return;
+    }
+
+    setCreatingProduct(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/products", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": quickProductKey,
+        },
+        body: JSON.stringify({
+          sku: unknownCode,
+          barcode: unknownCode,
+          name: quickProduct.name,
+          sellingPrice: parseFloat(quickProduct.sellingPrice) || 0,
+          costPrice: parseFloat(quickProduct.costPrice) || 0,
+          currentStock: parseFloat(quickProduct.currentStock) || 0,
+          lowStockAlert: 10,
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        // A corrected resubmit is a new request. A server error, or the
+        // first attempt still running, is retried as it was.
+        if (res.status < 500 && !res.headers.has("Retry-After")) {
+          setQuickProductKey(newClientId());
+        }
+        throw new Error(data.error || "Failed to create product");
+      }
+
+      setProducts((prev) => [...prev, data.data]);
+      addScannedProduct(data.data);
+      setUnknownCode(null);
+    } catch (err: any) {
+      setError(err.message || "Failed to create product");
+    } finally {
+      setCreatingProduct(false);
+    }
+  };
+
   const removeItem = (index: number) => {
     setFormData((prev) => ({
       ...prev,
       items: prev.items.filter((_, i) => i !== index),
     }));
+    setLineErrors({});
+  };
+
+  const lineTotal = (item: SaleItem) => {
+    const gross = item.quantity * item.unitPrice;
+    if (!item.discountType) return gross;
+    const discount =
+      item.discountType === DiscountType.PERCENTAGE
+        ? (gross * item.discountValue) / 100
+        : item.discountValue;
+    return Math.max(0, gross - discount);
   };
 
   const updateItem = (index: number, field: keyof SaleItem, value: any) => {
@@ -185,10 +655,38 @@ export function AddSaleForm() {
         [field]: value,
       };
 
+      if (field === "unitPrice") {
+        newItems[index].manualPrice = true;
+      }
+
+      // A typed price was for the old unit
+      if (field === "unitId") {
+        newItems[index].manualPrice = false;
+      }
+
+      // Quantity breaks in the customer's price list
+      const product = products.find((p) => p.id === newItems[index].productId);
+      if (
+        (field === "quantity" || field === "unitId") &&
+        product &&
+        !newItems[index].manualPrice
+      ) {
+        newItems[index].unitPrice = unitPriceFor(
+          product,
+          newItems[index].quantity || 1,
+          newItems[index].unitId
+        );
+      }
+
       // Recalculate total price
-      if (field === "quantity" || field === "unitPrice") {
-        newItems[index].totalPrice =
-          newItems[index].quantity * newItems[index].unitPrice;
+      if (
+        field === "quantity" ||
+        field === "unitId" ||
+        field === "unitPrice" ||
+        field === "discountType" ||
+        field === "discountValue"
+      ) {
+        newItems[index].totalPrice = lineTotal(newItems[index]);
       }
 
       return {
@@ -198,21 +696,231 @@ export function AddSaleForm() {
     });
   };
 
+  // Unit picker for a catalogue line whose product sells in more than its
+  // base unit
+  const renderUnitSelect = (item: SaleItem, index: number) => {
+    const product = products.find((p) => p.id === item.productId);
+    if (!product?.units || product.units.length === 0) return null;
+
+    return (
+      <select
+        value={item.unitId || ""}
+        onChange={(e) => updateItem(index, "unitId", e.target.value || null)}
+        className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">{product.unit}</option>
+        {product.units.map((unit) => (
+          <option key={unit.id} value={unit.id}>
+            {unit.name} ({Number(unit.factor)} {product.unit})
+          </option>
+        ))}
+      </select>
+    );
+  };
+
+  // Local estimates are shown until the server pricing comes back
   const calculateSubtotal = () => {
+    if (pricing) return pricing.subtotal;
     return formData.items.reduce((sum, item) => sum + item.totalPrice, 0);
   };
 
+  const calculateTax = () => {
+    return pricing ? pricing.tax : 0;
+  };
+
   const calculateTotal = () => {
+    if (pricing) return pricing.totalAmount;
     const subtotal = calculateSubtotal();
     const discount = parseFloat(formData.discount) || 0;
-    const tax = parseFloat(formData.tax) || 0;
-    return subtotal - discount + tax;
+    return subtotal - discount;
+  };
+
+  const calculateAmountPaid = () => {
+    return formData.tenders.reduce(
+      (sum, tender) => sum + (parseFloat(tender.amount) || 0),
+      0
+    );
   };
 
   const calculateBalanceDue = () => {
+    if (pricing) return pricing.balanceDue;
     const total = calculateTotal();
-    const amountPaid = parseFloat(formData.amountPaid) || 0;
-    return Math.max(0, total - amountPaid);
+    return Math.max(0, total - calculateAmountPaid());
+  };
+
+  const addTender = () => {
+    setFormData((prev) => ({
+      ...prev,
+      tenders: [
+        ...prev.tenders,
+        { method: PaymentMethod.MOBILE_MONEY, amount: "", reference: "" },
+      ],
+    }));
+  };
+
+  const removeTender = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      tenders: prev.tenders.filter((_, i) => i !== index),
+    }));
+  };
+
+  const updateTender = (index: number, field: keyof Tender, value: string) => {
+    setFormData((prev) => {
+      const tenders = [...prev.tenders];
+      tenders[index] = { ...tenders[index], [field]: value };
+      return { ...prev, tenders };
+    });
+  };
+
+  // The last tender takes whatever the other tenders leave unpaid
+  const payInFull = () => {
+    setFormData((prev) => {
+      const tenders = [...prev.tenders];
+      const last = tenders.length - 1;
+      const others = tenders
+        .slice(0, last)
+        .reduce((sum, t) => sum + (parseFloat(t.amount) || 0), 0);
+      tenders[last] = {
+        ...tenders[last],
+        amount: Math.max(0, calculateTotal() - others).toFixed(2),
+      };
+      return { ...prev, tenders };
+    });
+  };
+
+  const resetCart = () => {
+    setFormData(emptyCart());
+    setClientId(newClientId());
+    setHeldCartId(null);
+    setPricing(null);
+    setPriceList(null);
+    setLineErrors({});
+  };
+
+  // Park the basket on the server so the next customer can be served.
+  // Nothing happens to stock until the cart is completed.
+  const holdCurrentCart = async () => {
+    if (formData.items.length === 0) return;
+
+    const customer = customers.find((c) => c.id === formData.customerId);
+    const label = window.prompt(
+      "Label this cart so you can find it again (optional)",
+      heldCarts.find((cart) => cart.id === heldCartId)?.label ||
+        customer?.name ||
+        ""
+    );
+    if (label === null) return;
+
+    setHolding(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        heldCartId ? `/api/held-carts/${heldCartId}` : "/api/held-carts",
+        {
+          method: heldCartId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            label: label || null,
+            customerId: formData.customerId || null,
+            items: formData.items,
+            discount: parseFloat(formData.discount) || 0,
+            notes: formData.notes || null,
+          }),
+        }
+      );
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to hold cart");
+      }
+
+      resetCart();
+      await fetchHeldCarts();
+    } catch (err: any) {
+      setError(err.message || "Failed to hold cart");
+    } finally {
+      setHolding(false);
+    }
+  };
+
+  const resumeCart = async (cart: HeldCartSummary) => {
+    if (
+      formData.items.length > 0 &&
+      !window.confirm(
+        "Replace the current cart? Hold it first if you want to keep it."
+      )
+    ) {
+      return;
+    }
+
+    setHolding(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/held-carts/${cart.id}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to resume cart");
+      }
+
+      const held = data.data;
+      if (
+        held.customer &&
+        !customers.some((c) => c.id === held.customer.id)
+      ) {
+        setCustomers((prev) => [held.customer, ...prev]);
+      }
+
+      const items: SaleItem[] = held.items.map((item: SaleItem) => ({
+        ...item,
+        totalPrice: lineTotal(item),
+      }));
+      setFormData({
+        ...emptyCart(),
+        customerId: held.customerId || "",
+        items,
+        discount: String(Number(held.discount)),
+        notes: held.notes || "",
+      });
+      setHeldCartId(held.id);
+      setShowHeldCarts(false);
+      setLineErrors({});
+      setPriceList(await fetchPriceList(held.customerId || ""));
+    } catch (err: any) {
+      setError(err.message || "Failed to resume cart");
+      await fetchHeldCarts();
+    } finally {
+      setHolding(false);
+    }
+  };
+
+  const discardCart = async (cart: HeldCartSummary) => {
+    if (!window.confirm("Discard this held cart?")) {
+      return;
+    }
+
+    setHolding(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/held-carts/${cart.id}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+
+      if (!res.ok && res.status !== 404) {
+        throw new Error(data.error || "Failed to discard cart");
+      }
+
+      if (cart.id === heldCartId) {
+        setHeldCartId(null);
+      }
+      await fetchHeldCarts();
+    } catch (err: any) {
+      setError(err.message || "Failed to discard cart");
+    } finally {
+      setHolding(false);
+    }
   };
 
   const filteredProducts = products.filter(
@@ -237,35 +945,119 @@ export function AddSaleForm() {
 
     setLoading(true);
     setError(null);
+    setLineErrors({});
+    setOfflineNotice(null);
 
-    try {
-      const subtotal = calculateSubtotal();
-      const total = calculateTotal();
-      const amountPaid = parseFloat(formData.amountPaid) || 0;
+    // Tenders left at zero are dropped; nothing paid means a credit sale
+    const tenders = formData.tenders
+      .map((tender) => ({
+        method: tender.method,
+        amount: parseFloat(tender.amount) || 0,
+        reference: tender.reference || null,
+      }))
+      .filter((tender) => tender.amount > 0);
 
-      const response = await fetch("/api/sales", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          customerId: formData.customerId || null,
-          items: formData.items,
-          subtotal,
-          discount: parseFloat(formData.discount) || 0,
-          tax: parseFloat(formData.tax) || 0,
-          totalAmount: total,
-          amountPaid,
-          paymentMethod: formData.paymentMethod,
-          paymentStatus: formData.paymentStatus,
-          status: formData.status,
-          saleDate: formData.saleDate,
-          dueDate: formData.dueDate || null,
-          notes: formData.notes || null,
-        }),
+    const sale = {
+      customerId: formData.customerId || null,
+      currency: formData.currency || null,
+      items: formData.items,
+      discount: parseFloat(formData.discount) || 0,
+      tenders,
+      paymentMethod:
+        tenders.length > 0 ? tenders[0].method : PaymentMethod.CREDIT,
+      status: formData.status,
+      saleDate: formData.saleDate,
+      dueDate: formData.dueDate || null,
+      notes: formData.notes || null,
+      heldCartId,
+      clientId,
+    };
+
+    // Keep the sale on this device and sync it when the connection is back
+    const queueOffline = () => {
+      // What the till would have charged for each line, so price changes
+      // made while offline are flagged when the sale syncs
+      const linePrices = formData.items.map((item) => {
+        const product = products.find((p) => p.id === item.productId);
+        return product
+          ? unitPriceFor(product, item.quantity, item.unitId)
+          : null;
       });
 
+      queueSale(
+        {
+          ...sale,
+          // A held cart is left on the server; it can be discarded later
+          heldCartId: null,
+          // Keep the time of day for sales rung up today
+          saleDate:
+            formData.saleDate === format(new Date(), "yyyy-MM-dd")
+              ? new Date().toISOString()
+              : formData.saleDate,
+          expectedTotal: calculateTotal(),
+          linePrices,
+        },
+        selectedCustomer?.name || null
+      );
+      deductCachedStock(formData.items);
+      setProducts((prev) =>
+        prev.map((product) => {
+          const sold = formData.items
+            .filter((item) => item.productId === product.id)
+            .reduce((sum, item) => {
+              const unit = product.units?.find((u) => u.id === item.unitId);
+              return sum + baseQuantity(item.quantity, Number(unit?.factor ?? 1));
+            }, 0);
+          return sold > 0
+            ? {
+                ...product,
+                currentStock: roundQuantity(Number(product.currentStock) - sold),
+              }
+            : product;
+        })
+      );
+      setOfflineNotice(
+        "No connection. The sale was saved on this device and will sync automatically."
+      );
+      resetCart();
+    };
+
+    try {
+      if (!navigator.onLine) {
+        queueOffline();
+        return;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch("/api/sales", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            // A double tap or a retry replays the first response
+            "Idempotency-Key": clientId,
+          },
+          body: JSON.stringify(sale),
+        });
+      } catch {
+        // The request never reached the server
+        queueOffline();
+        return;
+      }
+
       const data = await response.json();
 
       if (!response.ok) {
+        // Flag the lines that would oversell
+        if (response.status === 409 && Array.isArray(data.details)) {
+          const errors: Record<number, string> = {};
+          data.details.forEach((detail: { index: number; message: string }) => {
+            errors[detail.index] = detail.message;
+          });
+          setLineErrors(errors);
+        }
+        // The corrected cart is a new request
+        setClientId(newClientId());
         throw new Error(data.error || "Failed to create sale");
       }
 
@@ -298,8 +1090,60 @@ export function AddSaleForm() {
             </p>
           </div>
         </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setShowHeldCarts((prev) => !prev)}
+        >
+          <PauseCircle className="w-4 h-4 mr-2" />
+          Held Carts ({heldCarts.length})
+        </Button>
       </div>
 
+      {showHeldCarts && (
+        <HeldCartsPanel
+          carts={heldCarts}
+          activeCartId={heldCartId}
+          busy={holding || loading}
+          onResume={resumeCart}
+          onDiscard={discardCart}
+          onClose={() => setShowHeldCarts(false)}
+        />
+      )}
+
+      {offlineNotice && (
+        <Card className="border-yellow-200 bg-yellow-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <CloudOff className="w-5 h-5 text-yellow-700" />
+              <p className="text-yellow-800">{offlineNotice}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {catalogCachedAt && (
+        <p className="text-sm text-gray-600">
+          Offline: using products and customers saved on{" "}
+          {format(new Date(catalogCachedAt), "MMM dd, yyyy hh:mm a")}. Prices
+          and stock are checked again when the sale syncs.
+        </p>
+      )}
+
+      {heldCartId && (
+        <Card className="border-blue-200 bg-blue-50">
+          <CardContent className="p-4 flex items-center justify-between">
+            <p className="text-blue-800">
+              Resumed a held cart. Completing the sale removes it from the
+              held list; holding it again keeps your changes.
+            </p>
+            <Button type="button" variant="ghost" size="sm" onClick={resetCart}>
+              Start New Cart
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {error && (
         <Card className="border-red-200 bg-red-50">
           <CardContent className="p-4">
@@ -334,14 +1178,17 @@ export function AddSaleForm() {
                         <p className="text-sm text-gray-600">
                           {selectedCustomer.phone}
                         </p>
+                        {priceList && (
+                          <p className="text-xs text-blue-600">
+                            {priceList.name} prices apply
+                          </p>
+                        )}
                       </div>
                       <Button
                         type="button"
                         variant="ghost"
                         size="sm"
-                        onClick={() =>
-                          setFormData((prev) => ({ ...prev, customerId: "" }))
-                        }
+                        onClick={() => selectCustomer("")}
                       >
                         <X className="w-4 h-4" />
                       </Button>
@@ -370,10 +1217,7 @@ export function AddSaleForm() {
                                 key={customer.id}
                                 type="button"
                                 onClick={() => {
-                                  setFormData((prev) => ({
-                                    ...prev,
-                                    customerId: customer.id,
-                                  }));
+                                  selectCustomer(customer.id);
                                   setSearchCustomer("");
                                   setShowCustomerSearch(false);
                                 }}
@@ -413,8 +1257,21 @@ export function AddSaleForm() {
                       <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
                       <Input
                         type="text"
-                        placeholder="Search products..."
+                        placeholder="Search or scan products..."
                         value={searchProduct}
+                        data-barcode-input
+                        onKeyDown={(e) => {
+                          if (e.key !== "Enter") return;
+                          // Enter picks the only match, or looks the text up as a code
+                          e.preventDefault();
+                          if (filteredProducts.length === 1) {
+                            addScannedProduct(filteredProducts[0]);
+                            setSearchProduct("");
+                            setShowProductSearch(false);
+                          } else {
+                            handleScan(searchProduct);
+                          }
+                        }}
                         onChange={(e) => {
                           setSearchProduct(e.target.value);
                           setShowProductSearch(true);
@@ -431,7 +1288,7 @@ export function AddSaleForm() {
                               key={product.id}
                               type="button"
                               onClick={() => addItem(product)}
-                              disabled={product.currentStock === 0}
+                              disabled={Number(product.currentStock) <= 0}
                               className="w-full text-left px-4 py-2 hover:bg-gray-50 border-b border-gray-100 last:border-b-0 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                               <div className="flex items-center justify-between">
@@ -440,13 +1297,9 @@ export function AddSaleForm() {
                                     {product.name}
                                   </p>
                                   <p className="text-sm text-gray-600">
-                                    {product.sku} • Stock: {product.currentStock}{" "}
+                                    {product.sku} • Stock: {Number(product.currentStock)}{" "}
                                     {product.unit} •{" "}
-                                    {new Intl.NumberFormat("en-US", {
-                                      style: "currency",
-                                      currency: "SLL",
-                                      minimumFractionDigits: 0,
-                                    }).format(product.sellingPrice)}
+                                    {formatCurrency(product.sellingPrice)}
                                   </p>
                                 </div>
                               </div>
@@ -459,6 +1312,18 @@ export function AddSaleForm() {
                         )}
                       </div>
                     )}
+                    {cameraSupported && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowCamera((prev) => !prev)}
+                        className="ml-2"
+                      >
+                        <Camera className="w-4 h-4 mr-2" />
+                        Scan
+                      </Button>
+                    )}
                     <Button
                       type="button"
                       variant="outline"
@@ -473,17 +1338,114 @@ export function AddSaleForm() {
                 </div>
               </CardHeader>
               <CardContent>
+                {showCamera && (
+                  <div className="mb-4">
+                    <CameraScanner
+                      onScan={onScan}
+                      onClose={() => setShowCamera(false)}
+                    />
+                  </div>
+                )}
+                {unknownCode && (
+                  <div className="mb-4 p-4 border border-yellow-200 bg-yellow-50 rounded-md space-y-3">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm text-yellow-800 flex items-center gap-2">
+                        <ScanLine className="w-4 h-4" />
+                        No product matches &quot;{unknownCode}&quot;. Create it
+                        now to add it to the sale.
+                      </p>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setUnknownCode(null)}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                      <Input
+                        type="text"
+                        placeholder="Product name"
+                        value={quickProduct.name}
+                        onChange={(e) =>
+                          setQuickProduct((prev) => ({
+                            ...prev,
+                            name: e.target.value,
+                          }))
+                        }
+                        className="text-gray-900"
+                      />
+                      <Input
+                        type="number"
+                        placeholder="Selling price"
+                        min="0"
+                        value={quickProduct.sellingPrice}
+                        onChange={(e) =>
+                          setQuickProduct((prev) => ({
+                            ...prev,
+                            sellingPrice: e.target.value,
+                          }))
+                        }
+                        className="text-gray-900"
+                      />
+                      <Input
+                        type="number"
+                        placeholder="Cost price"
+                        min="0"
+                        value={quickProduct.costPrice}
+                        onChange={(e) =>
+                          setQuickProduct((prev) => ({
+                            ...prev,
+                            costPrice: e.target.value,
+                          }))
+                        }
+                        className="text-gray-900"
+                      />
+                      <Input
+                        type="number"
+                        placeholder="Stock on hand"
+                        min="0"
+                        value={quickProduct.currentStock}
+                        onChange={(e) =>
+                          setQuickProduct((prev) => ({
+                            ...prev,
+                            currentStock: e.target.value,
+                          }))
+                        }
+                        className="text-gray-900"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-600">
+                      The code is saved as both the barcode and the SKU. Other
+                      details can be filled in later from the product page.
+                    </p>
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={quickCreateProduct}
+                      disabled={creatingProduct}
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      {creatingProduct ? "Creating..." : "Create and Add"}
+                    </Button>
+                  </div>
+                )}
                 {formData.items.length === 0 ? (
                   <div className="text-center py-8 text-gray-500">
-                    No items added. Search for a product or click "Add Item" to
-                    add manually.
+                    No items added. Scan a barcode, search for a product or
+                    click &quot;Add Item&quot; to add manually.
                   </div>
                 ) : (
                   <div className="space-y-4">
                     {formData.items.map((item, index) => (
                       <div
                         key={index}
-                        className="p-4 border border-gray-200 rounded-lg"
+                        className={`p-4 border rounded-lg ${
+                          lineErrors[index]
+                            ? "border-red-300 bg-red-50"
+                            : "border-gray-200"
+                        }`}
                       >
                         <div className="grid grid-cols-12 gap-4 items-end">
                           <div className="col-span-5">
@@ -506,17 +1468,19 @@ export function AddSaleForm() {
                             </label>
                             <Input
                               type="number"
-                              min="1"
+                              min="0"
+                              step="any"
                               value={item.quantity}
                               onChange={(e) =>
                                 updateItem(
                                   index,
                                   "quantity",
-                                  parseInt(e.target.value) || 1
+                                  roundQuantity(parseFloat(e.target.value) || 0)
                                 )
                               }
                               className="text-gray-900"
                             />
+                            {renderUnitSelect(item, index)}
                           </div>
                           <div className="col-span-2">
                             <label className="text-sm font-medium text-gray-700 mb-2 block">
@@ -543,11 +1507,7 @@ export function AddSaleForm() {
                             </label>
                             <Input
                               type="text"
-                              value={new Intl.NumberFormat("en-US", {
-                                style: "currency",
-                                currency: "SLL",
-                                minimumFractionDigits: 0,
-                              }).format(item.totalPrice)}
+                              value={formatCurrency(item.totalPrice, saleCurrency)}
                               disabled
                               className="text-gray-900 bg-gray-50"
                             />
@@ -563,6 +1523,77 @@ export function AddSaleForm() {
                             </Button>
                           </div>
                         </div>
+                        <div className="grid grid-cols-12 gap-4 items-end mt-3">
+                          <div className="col-span-3">
+                            <label className="text-sm font-medium text-gray-700 mb-2 block">
+                              Line Discount
+                            </label>
+                            <select
+                              value={item.discountType || ""}
+                              onChange={(e) =>
+                                updateItem(
+                                  index,
+                                  "discountType",
+                                  (e.target.value as DiscountType) || undefined
+                                )
+                              }
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              <option value="">None</option>
+                              <option value={DiscountType.PERCENTAGE}>
+                                Percent (%)
+                              </option>
+                              <option value={DiscountType.FIXED}>Amount</option>
+                            </select>
+                          </div>
+                          {item.discountType && (
+                            <div className="col-span-2">
+                              <label className="text-sm font-medium text-gray-700 mb-2 block">
+                                {item.discountType === DiscountType.PERCENTAGE
+                                  ? "Percent"
+                                  : "Amount"}
+                              </label>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                max={
+                                  item.discountType === DiscountType.PERCENTAGE
+                                    ? "100"
+                                    : undefined
+                                }
+                                value={item.discountValue}
+                                onChange={(e) =>
+                                  updateItem(
+                                    index,
+                                    "discountValue",
+                                    parseFloat(e.target.value) || 0
+                                  )
+                                }
+                                className="text-gray-900"
+                              />
+                            </div>
+                          )}
+                          {pricing?.lines[index] && (
+                            <div className="col-span-7 text-sm text-gray-600 pb-2">
+                              {pricing.lines[index].taxRateName
+                                ? `${pricing.lines[index].taxRateName} ${pricing.lines[index].taxPercent}%: `
+                                : "No tax: "}
+                              {formatCurrency(pricing.lines[index].taxAmount, saleCurrency)}
+                            </div>
+                          )}
+                        </div>
+                        {pricing?.lines[index]?.priceOverridden && (
+                          <p className="text-xs text-orange-600 mt-2">
+                            Price differs from the catalogue price and will be
+                            recorded as an override
+                          </p>
+                        )}
+                        {lineErrors[index] && (
+                          <p className="text-sm text-red-600 mt-2">
+                            {lineErrors[index]}
+                          </p>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -579,66 +1610,112 @@ export function AddSaleForm() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium text-gray-700">
-                      Payment Method
-                    </label>
-                    <select
-                      name="paymentMethod"
-                      value={formData.paymentMethod}
-                      onChange={handleChange}
-                      disabled={loading}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                <div className="space-y-3">
+                  {formData.tenders.map((tender, index) => (
+                    <div
+                      key={index}
+                      className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end"
                     >
-                      <option value={PaymentMethod.CASH}>Cash</option>
-                      <option value={PaymentMethod.MOBILE_MONEY}>
-                        Mobile Money
-                      </option>
-                      <option value={PaymentMethod.BANK_TRANSFER}>
-                        Bank Transfer
-                      </option>
-                      <option value={PaymentMethod.POS}>POS</option>
-                      <option value={PaymentMethod.CREDIT}>Credit</option>
-                      <option value={PaymentMethod.CHEQUE}>Cheque</option>
-                    </select>
-                  </div>
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium text-gray-700">
-                      Payment Status
-                    </label>
-                    <select
-                      name="paymentStatus"
-                      value={formData.paymentStatus}
-                      onChange={handleChange}
+                      <div className="md:col-span-4 space-y-2">
+                        <label className="text-sm font-medium text-gray-700">
+                          Payment Method
+                        </label>
+                        <select
+                          value={tender.method}
+                          onChange={(e) =>
+                            updateTender(index, "method", e.target.value)
+                          }
+                          disabled={loading}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value={PaymentMethod.CASH}>Cash</option>
+                          <option value={PaymentMethod.MOBILE_MONEY}>
+                            Mobile Money
+                          </option>
+                          <option value={PaymentMethod.BANK_TRANSFER}>
+                            Bank Transfer
+                          </option>
+                          <option value={PaymentMethod.POS}>POS</option>
+                          <option value={PaymentMethod.CHEQUE}>Cheque</option>
+                        </select>
+                      </div>
+                      <div className="md:col-span-3 space-y-2">
+                        <label className="text-sm font-medium text-gray-700">
+                          Amount
+                        </label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={tender.amount}
+                          onChange={(e) =>
+                            updateTender(index, "amount", e.target.value)
+                          }
+                          disabled={loading}
+                          className="text-gray-900"
+                        />
+                      </div>
+                      <div className="md:col-span-4 space-y-2">
+                        <label className="text-sm font-medium text-gray-700">
+                          Reference
+                        </label>
+                        <Input
+                          type="text"
+                          value={tender.reference}
+                          onChange={(e) =>
+                            updateTender(index, "reference", e.target.value)
+                          }
+                          disabled={loading || tender.method === PaymentMethod.CASH}
+                          placeholder={
+                            tender.method === PaymentMethod.CASH
+                              ? ""
+                              : "Transaction ID"
+                          }
+                          className="text-gray-900"
+                        />
+                      </div>
+                      <div className="md:col-span-1">
+                        {formData.tenders.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeTender(index)}
+                            disabled={loading}
+                          >
+                            <Trash2 className="w-4 h-4 text-red-600" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={addTender}
                       disabled={loading}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
                     >
-                      <option value={PaymentStatus.PAID}>Paid</option>
-                      <option value={PaymentStatus.PARTIAL}>Partial</option>
-                      <option value={PaymentStatus.PENDING}>Pending</option>
-                      <option value={PaymentStatus.OVERDUE}>Overdue</option>
-                    </select>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Split Payment
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={payInFull}
+                      disabled={loading || formData.items.length === 0}
+                    >
+                      Paid in Full
+                    </Button>
                   </div>
+                  <p className="text-xs text-gray-500">
+                    Anything left unpaid is recorded as credit.
+                  </p>
                 </div>
 
-                <div className="space-y-2">
-                  <label className="text-sm font-medium text-gray-700">
-                    Amount Paid
-                  </label>
-                  <Input
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    name="amountPaid"
-                    value={formData.amountPaid}
-                    onChange={handleChange}
-                    disabled={loading}
-                    className="text-gray-900"
-                  />
-                </div>
-
-                {formData.paymentStatus !== PaymentStatus.PAID && (
+                {calculateBalanceDue() > 0 && (
                   <div className="space-y-2">
                     <label className="text-sm font-medium text-gray-700">
                       Due Date
@@ -654,6 +1731,28 @@ export function AddSaleForm() {
                   </div>
                 )}
 
+                {exchangeRates.length > 0 && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-700">
+                      Currency
+                    </label>
+                    <select
+                      value={formData.currency}
+                      onChange={(e) => selectCurrency(e.target.value)}
+                      disabled={loading}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">{baseCurrency}</option>
+                      {exchangeRates.map((rate) => (
+                        <option key={rate.id} value={rate.currency}>
+                          {rate.currency} (1 = {Number(rate.rate)}{" "}
+                          {baseCurrency})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <label className="text-sm font-medium text-gray-700">
                     Sale Date
@@ -697,11 +1796,7 @@ export function AddSaleForm() {
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Subtotal</span>
                     <span className="font-medium text-gray-900">
-                      {new Intl.NumberFormat("en-US", {
-                        style: "currency",
-                        currency: "SLL",
-                        minimumFractionDigits: 0,
-                      }).format(calculateSubtotal())}
+                      {formatCurrency(calculateSubtotal(), saleCurrency)}
                     </span>
                   </div>
                   <div className="flex justify-between text-sm">
@@ -719,48 +1814,51 @@ export function AddSaleForm() {
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Tax</span>
-                    <Input
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      name="tax"
-                      value={formData.tax}
-                      onChange={handleChange}
-                      disabled={loading}
-                      className="w-24 h-8 text-sm text-gray-900"
-                    />
+                    <span className="font-medium text-gray-900">
+                      {formatCurrency(calculateTax(), saleCurrency)}
+                    </span>
                   </div>
+                  {pricing?.taxBreakdown.map((entry) => (
+                    <div
+                      key={entry.taxRateId || entry.name}
+                      className="flex justify-between text-xs pl-3"
+                    >
+                      <span className="text-gray-500">
+                        {entry.name} ({entry.rate}%) on{" "}
+                        {formatCurrency(entry.taxableAmount, saleCurrency)}
+                      </span>
+                      <span className="text-gray-700">
+                        {formatCurrency(entry.taxAmount, saleCurrency)}
+                      </span>
+                    </div>
+                  ))}
                   <div className="pt-3 border-t border-gray-200 flex justify-between">
                     <span className="font-semibold text-gray-900">Total</span>
                     <span className="font-bold text-lg text-gray-900">
-                      {new Intl.NumberFormat("en-US", {
-                        style: "currency",
-                        currency: "SLL",
-                        minimumFractionDigits: 0,
-                      }).format(calculateTotal())}
+                      {formatCurrency(calculateTotal(), saleCurrency)}
                     </span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Amount Paid</span>
                     <span className="font-medium text-gray-900">
-                      {new Intl.NumberFormat("en-US", {
-                        style: "currency",
-                        currency: "SLL",
-                        minimumFractionDigits: 0,
-                      }).format(parseFloat(formData.amountPaid) || 0)}
+                      {formatCurrency(calculateAmountPaid(), saleCurrency)}
                     </span>
                   </div>
+                  {pricing && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Payment Status</span>
+                      <span className="font-medium text-gray-900">
+                        {pricing.paymentStatus}
+                      </span>
+                    </div>
+                  )}
                   {calculateBalanceDue() > 0 && (
                     <div className="flex justify-between text-sm pt-2 border-t border-gray-200">
                       <span className="text-orange-600 font-medium">
                         Balance Due
                       </span>
                       <span className="font-bold text-orange-600">
-                        {new Intl.NumberFormat("en-US", {
-                          style: "currency",
-                          currency: "SLL",
-                          minimumFractionDigits: 0,
-                        }).format(calculateBalanceDue())}
+                        {formatCurrency(calculateBalanceDue(), saleCurrency)}
                       </span>
                     </div>
                   )}
@@ -782,6 +1880,26 @@ export function AddSaleForm() {
                       </>
                     )}
                   </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={
+                      loading ||
+                      holding ||
+                      formData.items.length === 0 ||
+                      !!formData.currency
+                    }
+                    title={
+                      formData.currency
+                        ? `Held carts are kept in ${baseCurrency}`
+                        : undefined
+                    }
+                    onClick={holdCurrentCart}
+                    className="w-full mt-3"
+                  >
+                    <PauseCircle className="w-4 h-4 mr-2" />
+                    {holding ? "Holding..." : "Hold Cart"}
+                  </Button>
                 </div>
               </CardContent>
             </Card>
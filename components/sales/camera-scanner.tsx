@@ -0,0 +1,135 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Camera, X } from "lucide-react";
+
+// The Barcode Detection API isn't in the DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: {
+  formats?: string[];
+}) => BarcodeDetectorLike;
+
+const SCAN_INTERVAL_MS = 300;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === "undefined") return null;
+  return (
+    (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor })
+      .BarcodeDetector || null
+  );
+}
+
+/**
+ * Whether this browser can read barcodes from the camera
+ */
+export function isCameraScanSupported(): boolean {
+  return (
+    !!getBarcodeDetector() &&
+    typeof navigator !== "undefined" &&
+    !!navigator.mediaDevices?.getUserMedia
+  );
+}
+
+interface CameraScannerProps {
+  onScan: (code: string) => void;
+  onClose: () => void;
+}
+
+export function CameraScanner({ onScan, onClose }: CameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(() =>
+    getBarcodeDetector()
+      ? null
+      : "This browser can't scan barcodes with the camera"
+  );
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+    const detector = new Detector({
+      formats: ["ean_13", "ean_8", "upc_a", "upc_e", "code_128", "code_39", "qr_code"],
+    });
+
+    async function start() {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+        });
+        if (stopped || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        timer = setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+          try {
+            const codes = await detector.detect(videoRef.current);
+            if (codes.length > 0 && !stopped) {
+              stopped = true;
+              onScan(codes[0].rawValue);
+            }
+          } catch (err) {
+            console.error("Error detecting barcode:", err);
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (err: any) {
+        setError(err.message || "Could not open the camera");
+      }
+    }
+
+    start();
+
+    return () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [onScan]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-gray-900 flex items-center gap-2">
+            <Camera className="w-5 h-5" />
+            Scan with Camera
+          </CardTitle>
+          <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <>
+            <video
+              ref={videoRef}
+              className="w-full max-h-72 rounded-md bg-black object-cover"
+              muted
+              playsInline
+            />
+            <p className="text-sm text-gray-600 mt-2">
+              Point the camera at a barcode. The product is added as soon as
+              it&apos;s read.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
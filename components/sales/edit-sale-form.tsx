@@ -0,0 +1,238 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Save, X } from "lucide-react";
+import Link from "next/link";
+import { format } from "date-fns";
+
+interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+}
+
+export function EditSaleForm({ saleId }: { saleId: string }) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [formData, setFormData] = useState({
+    customerId: "",
+    saleDate: "",
+    dueDate: "",
+    notes: "",
+  });
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const [saleRes, customersRes] = await Promise.all([
+          fetch(`/api/sales/${saleId}`),
+          fetch("/api/customers?limit=100"),
+        ]);
+
+        const saleData = await saleRes.json();
+        const customersData = await customersRes.json();
+
+        if (saleData.success) {
+          const sale = saleData.data;
+          setInvoiceNumber(sale.invoiceNumber);
+          setFormData({
+            customerId: sale.customerId || "",
+            saleDate: format(new Date(sale.saleDate), "yyyy-MM-dd"),
+            dueDate: sale.dueDate
+              ? format(new Date(sale.dueDate), "yyyy-MM-dd")
+              : "",
+            notes: sale.notes || "",
+          });
+        } else {
+          setError(saleData.error || "Failed to load sale");
+        }
+        if (customersData.success) {
+          const current = saleData.success ? saleData.data.customer : null;
+          // An archived customer isn't listed, but stays on their sales
+          setCustomers(
+            current &&
+              !customersData.data.some((c: Customer) => c.id === current.id)
+              ? [current, ...customersData.data]
+              : customersData.data
+          );
+        }
+      } catch (error) {
+        console.error("Error fetching sale:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [saleId]);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sales/${saleId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          customerId: formData.customerId || null,
+          saleDate: formData.saleDate,
+          dueDate: formData.dueDate || null,
+          notes: formData.notes || null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update sale");
+      }
+
+      router.push(`/dashboard/admin/sales/${saleId}`);
+    } catch (err: any) {
+      setError(err.message || "Failed to update sale");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link href={`/dashboard/admin/sales/${saleId}`}>
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Edit Sale</h1>
+          <p className="text-gray-600 mt-1 font-mono">{invoiceNumber}</p>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <X className="w-5 h-5 text-red-600" />
+              <p className="text-red-600">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900">Sale Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">
+                Customer
+              </label>
+              <select
+                name="customerId"
+                value={formData.customerId}
+                onChange={handleChange}
+                disabled={saving}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Walk-in Customer</option>
+                {customers.map((customer) => (
+                  <option key={customer.id} value={customer.id}>
+                    {customer.name} ({customer.phone})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Sale Date
+                </label>
+                <Input
+                  type="date"
+                  name="saleDate"
+                  value={formData.saleDate}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className="text-gray-900"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Due Date
+                </label>
+                <Input
+                  type="date"
+                  name="dueDate"
+                  value={formData.dueDate}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className="text-gray-900"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Notes</label>
+              <textarea
+                name="notes"
+                rows={3}
+                value={formData.notes}
+                onChange={handleChange}
+                disabled={saving}
+                placeholder="Additional notes..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saving}>
+                {saving ? (
+                  "Saving..."
+                ) : (
+                  <>
+                    <Save className="w-4 h-4 mr-2" />
+                    Save Changes
+                  </>
+                )}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </form>
+    </div>
+  );
+}
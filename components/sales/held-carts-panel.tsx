@@ -0,0 +1,107 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { PauseCircle, Play, Trash2, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+export interface HeldCartSummary {
+  id: string;
+  label?: string | null;
+  customer?: { id: string; name: string; phone: string } | null;
+  itemCount: number | string; // Decimal, serialised as a string
+  subtotal: number;
+  createdAt: string;
+}
+
+interface HeldCartsPanelProps {
+  carts: HeldCartSummary[];
+  activeCartId: string | null;
+  busy: boolean;
+  onResume: (cart: HeldCartSummary) => void;
+  onDiscard: (cart: HeldCartSummary) => void;
+  onClose: () => void;
+}
+
+export function HeldCartsPanel({
+  carts,
+  activeCartId,
+  busy,
+  onResume,
+  onDiscard,
+  onClose,
+}: HeldCartsPanelProps) {
+  const formatCurrency = useMoneyFormatter();
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-gray-900 flex items-center gap-2">
+            <PauseCircle className="w-5 h-5" />
+            Held Carts
+          </CardTitle>
+          <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {carts.length === 0 ? (
+          <p className="text-center py-4 text-sm text-gray-500">
+            No held carts. Use &quot;Hold Cart&quot; to park a basket and serve
+            the next customer.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {carts.map((cart) => (
+              <div
+                key={cart.id}
+                className="flex items-center justify-between py-3"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {cart.label || cart.customer?.name || "Walk-in Customer"}
+                    {cart.id === activeCartId && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                        Open
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {Number(cart.itemCount)} item{Number(cart.itemCount) === 1 ? "" : "s"} •{" "}
+                    {formatCurrency(cart.subtotal)} • held{" "}
+                    {formatDistanceToNow(new Date(cart.createdAt), {
+                      addSuffix: true,
+                    })}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={busy || cart.id === activeCartId}
+                    onClick={() => onResume(cart)}
+                  >
+                    <Play className="w-4 h-4 mr-2" />
+                    Resume
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={busy}
+                    onClick={() => onDiscard(cart)}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,425 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Wallet, Plus, X } from "lucide-react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { PaymentMethod, PaymentStatus } from "@prisma/client";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+interface PaymentEntry {
+  id: string;
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  reference?: string | null;
+  notes?: string | null;
+  paidAt: string;
+  sale: { id: string; invoiceNumber: string };
+  receivedBy?: { id: string; name: string } | null;
+}
+
+interface OpenInvoice {
+  id: string;
+  invoiceNumber: string;
+  saleDate: string;
+  dueDate?: string | null;
+  currency: string;
+  totalAmount: number;
+  balanceDue: number;
+  paymentStatus: PaymentStatus;
+}
+
+interface PaymentHistoryPanelProps {
+  // Exactly one of these selects whose payments are shown
+  saleId?: string;
+  customerId?: string;
+  balanceDue?: number; // Sale balance, when showing a single sale
+  currency?: string; // Sale currency, when showing a single sale
+  canRecord?: boolean;
+  onRecorded?: () => void;
+}
+
+export function PaymentHistoryPanel({
+  saleId,
+  customerId,
+  balanceDue,
+  currency,
+  canRecord = true,
+  onRecorded,
+}: PaymentHistoryPanelProps) {
+  const formatCurrency = useMoneyFormatter();
+  const [payments, setPayments] = useState<PaymentEntry[]>([]);
+  const [openInvoices, setOpenInvoices] = useState<OpenInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    amount: "",
+    method: PaymentMethod.CASH as PaymentMethod,
+    currency: "", // Lump sums only; blank is the first currency owed
+    reference: "",
+    notes: "",
+  });
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ limit: "50" });
+      if (saleId) params.append("saleId", saleId);
+      if (customerId) params.append("customerId", customerId);
+
+      const res = await fetch(`/api/payments?${params}`);
+      const data = await res.json();
+      if (data.success) {
+        setPayments(data.data.payments);
+        setOpenInvoices(data.data.openInvoices);
+      }
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [saleId, customerId]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  // A lump sum is paid in one currency and only settles invoices in it
+  const invoiceCurrencies = Array.from(
+    new Set(openInvoices.map((inv) => inv.currency))
+  );
+  const paymentCurrency = saleId
+    ? currency
+    : formData.currency || invoiceCurrencies[0];
+  const outstanding = saleId
+    ? Number(balanceDue || 0)
+    : openInvoices
+        .filter((inv) => inv.currency === paymentCurrency)
+        .reduce((sum, inv) => sum + Number(inv.balanceDue), 0);
+
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(formData.amount) || 0;
+    if (amount <= 0) {
+      setError("Enter an amount greater than zero");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/payments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          // A sale payment targets that invoice; a customer payment is
+          // applied to their oldest open invoices first
+          ...(saleId
+            ? { allocations: [{ saleId, amount }] }
+            : { customerId, amount, currency: paymentCurrency }),
+          method: formData.method,
+          reference: formData.reference || null,
+          notes: formData.notes || null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to record payment");
+      }
+
+      setFormData({
+        amount: "",
+        method: PaymentMethod.CASH,
+        currency: "",
+        reference: "",
+        notes: "",
+      });
+      setShowForm(false);
+      await fetchPayments();
+      onRecorded?.();
+    } catch (err: any) {
+      setError(err.message || "Failed to record payment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-gray-900 flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Payment History
+          </CardTitle>
+          {canRecord && outstanding > 0 && !showForm && (
+            <Button size="sm" onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Record Payment
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-md bg-red-50 border border-red-200">
+            <X className="w-4 h-4 text-red-600" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {showForm && (
+          <form
+            onSubmit={handleSubmit}
+            className="space-y-3 p-4 border border-gray-200 rounded-lg bg-gray-50"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label className="text-sm font-medium text-gray-700">
+                  Amount
+                </label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  name="amount"
+                  value={formData.amount}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className="text-gray-900 bg-white"
+                />
+                <button
+                  type="button"
+                  className="text-xs text-blue-600 hover:underline"
+                  onClick={() =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      amount: String(outstanding),
+                    }))
+                  }
+                >
+                  Pay full balance (
+                  {formatCurrency(outstanding, paymentCurrency)})
+                </button>
+              </div>
+              <div className="space-y-1">
+                <label className="text-sm font-medium text-gray-700">
+                  Method
+                </label>
+                <select
+                  name="method"
+                  value={formData.method}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {Object.values(PaymentMethod)
+                    .filter((m) => m !== PaymentMethod.CREDIT)
+                    .map((method) => (
+                      <option key={method} value={method}>
+                        {method.replace("_", " ")}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            </div>
+            {!saleId && invoiceCurrencies.length > 1 && (
+              <div className="space-y-1">
+                <label className="text-sm font-medium text-gray-700">
+                  Currency
+                </label>
+                <select
+                  name="currency"
+                  value={paymentCurrency}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {invoiceCurrencies.map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <label className="text-sm font-medium text-gray-700">
+                Reference
+              </label>
+              <Input
+                type="text"
+                name="reference"
+                value={formData.reference}
+                onChange={handleChange}
+                disabled={saving}
+                placeholder="Transaction ID, cheque number..."
+                className="text-gray-900 bg-white"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium text-gray-700">Notes</label>
+              <textarea
+                name="notes"
+                value={formData.notes}
+                onChange={handleChange}
+                disabled={saving}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            {!saleId && (
+              <p className="text-xs text-gray-600">
+                Applied to the oldest open invoices first.
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={saving}
+                onClick={() => setShowForm(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={saving}>
+                {saving ? "Saving..." : "Save Payment"}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {/* Open invoices for a customer */}
+        {!saleId && openInvoices.length > 0 && (
+          <div>
+            <p className="text-sm font-semibold text-gray-700 mb-2">
+              Open Invoices (
+              {invoiceCurrencies.length > 1
+                ? invoiceCurrencies
+                    .map((code) =>
+                      formatCurrency(
+                        openInvoices
+                          .filter((inv) => inv.currency === code)
+                          .reduce((sum, inv) => sum + Number(inv.balanceDue), 0),
+                        code
+                      )
+                    )
+                    .join(" + ")
+                : formatCurrency(outstanding, paymentCurrency)}{" "}
+              outstanding)
+            </p>
+            <div className="space-y-1">
+              {openInvoices.map((invoice) => (
+                <div
+                  key={invoice.id}
+                  className="flex items-center justify-between text-sm"
+                >
+                  <Link
+                    href={`/dashboard/admin/sales/${invoice.id}`}
+                    className="font-mono text-gray-900 hover:text-blue-600"
+                  >
+                    {invoice.invoiceNumber}
+                  </Link>
+                  <span className="text-gray-600">
+                    {invoice.dueDate
+                      ? `Due ${format(new Date(invoice.dueDate), "MMM dd, yyyy")}`
+                      : format(new Date(invoice.saleDate), "MMM dd, yyyy")}
+                  </span>
+                  <span
+                    className={`font-medium ${
+                      invoice.paymentStatus === PaymentStatus.OVERDUE
+                        ? "text-red-600"
+                        : "text-orange-600"
+                    }`}
+                  >
+                    {formatCurrency(invoice.balanceDue, invoice.currency)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading payments...</p>
+        ) : payments.length === 0 ? (
+          <p className="text-sm text-gray-500">No payments recorded</p>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left py-2 px-2 text-sm font-semibold text-gray-700">
+                  Date
+                </th>
+                {!saleId && (
+                  <th className="text-left py-2 px-2 text-sm font-semibold text-gray-700">
+                    Invoice
+                  </th>
+                )}
+                <th className="text-left py-2 px-2 text-sm font-semibold text-gray-700">
+                  Method
+                </th>
+                <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                  Amount
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {payments.map((payment) => (
+                <tr key={payment.id} className="border-b border-gray-100">
+                  <td className="py-2 px-2 text-sm text-gray-900">
+                    {format(new Date(payment.paidAt), "MMM dd, yyyy")}
+                    {payment.receivedBy && (
+                      <p className="text-xs text-gray-500">
+                        {payment.receivedBy.name}
+                      </p>
+                    )}
+                  </td>
+                  {!saleId && (
+                    <td className="py-2 px-2 text-sm">
+                      <Link
+                        href={`/dashboard/admin/sales/${payment.sale.id}`}
+                        className="font-mono text-gray-900 hover:text-blue-600"
+                      >
+                        {payment.sale.invoiceNumber}
+                      </Link>
+                    </td>
+                  )}
+                  <td className="py-2 px-2 text-sm text-gray-900">
+                    {payment.method.replace("_", " ")}
+                    {payment.reference && (
+                      <p className="text-xs text-gray-500">
+                        {payment.reference}
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-2 px-2 text-right text-sm font-medium text-gray-900">
+                    {formatCurrency(payment.amount, payment.currency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,427 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Undo2, X } from "lucide-react";
+import { format } from "date-fns";
+import { PaymentMethod } from "@prisma/client";
+import { newClientId, roundQuantity } from "@/lib/utils";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+interface RefundEntry {
+  id: string;
+  amount: number;
+  credited: number; // Taken off the balance due rather than paid out
+  method: PaymentMethod;
+  reference?: string | null;
+  reason: string;
+  refundedAt: string;
+  processedBy?: { id: string; name: string } | null;
+  items: Array<{
+    id: string;
+    quantity: number | string; // Decimals arrive as strings
+    restocked: boolean;
+    saleItem: { id: string; productName: string };
+  }>;
+}
+
+interface RefundableItem {
+  id: string;
+  productName: string;
+  quantity: number | string;
+  unitName?: string | null;
+  totalPrice: number;
+  taxAmount: number;
+  product?: { id: string } | null;
+}
+
+interface RefundPanelProps {
+  saleId: string;
+  items: RefundableItem[];
+  refundable: number; // Sale total not yet refunded
+  currency?: string; // Sale currency
+  canRefund?: boolean;
+  onRefunded?: () => void;
+}
+
+export function RefundPanel({
+  saleId,
+  items,
+  refundable,
+  currency,
+  canRefund = true,
+  onRefunded,
+}: RefundPanelProps) {
+  const formatCurrency = useMoneyFormatter();
+  const [refunds, setRefunds] = useState<RefundEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [restock, setRestock] = useState<Record<string, boolean>>({});
+  const [formData, setFormData] = useState({
+    amount: "",
+    method: PaymentMethod.CASH as PaymentMethod,
+    reference: "",
+    reason: "",
+  });
+  const [idempotencyKey, setIdempotencyKey] = useState(newClientId);
+
+  const fetchRefunds = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/sales/${saleId}/refunds`);
+      const data = await res.json();
+      if (data.success) {
+        setRefunds(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching refunds:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [saleId]);
+
+  useEffect(() => {
+    fetchRefunds();
+  }, [fetchRefunds]);
+
+  // Units of each line already returned in earlier refunds
+  const returned = (saleItemId: string) =>
+    refunds.reduce(
+      (sum, refund) =>
+        sum +
+        refund.items
+          .filter((i) => i.saleItem.id === saleItemId)
+          .reduce((acc, i) => acc + Number(i.quantity), 0),
+      0
+    );
+
+  // Estimate only: the server also takes off each line's share of the
+  // sale discount
+  const estimatedAmount = items.reduce((sum, item) => {
+    const quantity = parseFloat(quantities[item.id]) || 0;
+    if (quantity <= 0) return sum;
+    const value = Number(item.totalPrice) + Number(item.taxAmount);
+    return sum + (value * quantity) / Number(item.quantity);
+  }, 0);
+
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const lines = items
+      .map((item) => ({
+        saleItemId: item.id,
+        quantity: roundQuantity(parseFloat(quantities[item.id]) || 0),
+        restock: !!restock[item.id],
+      }))
+      .filter((line) => line.quantity > 0);
+    const amount = parseFloat(formData.amount) || 0;
+
+    if (lines.length === 0 && amount <= 0) {
+      setError("Select items to return or enter an amount");
+      return;
+    }
+    if (!formData.reason.trim()) {
+      setError("Enter a reason for the refund");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sales/${saleId}/refunds`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey,
+        },
+        body: JSON.stringify({
+          items: lines,
+          ...(amount > 0 && { amount }),
+          method: formData.method,
+          reference: formData.reference || null,
+          reason: formData.reason,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        // A corrected resubmit is a new request
+        setIdempotencyKey(newClientId());
+        throw new Error(data.error || "Failed to record refund");
+      }
+
+      setFormData({
+        amount: "",
+        method: PaymentMethod.CASH,
+        reference: "",
+        reason: "",
+      });
+      setQuantities({});
+      setRestock({});
+      setIdempotencyKey(newClientId());
+      setShowForm(false);
+      await fetchRefunds();
+      onRefunded?.();
+    } catch (err: any) {
+      setError(err.message || "Failed to record refund");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!loading && refunds.length === 0 && !(canRefund && refundable > 0)) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-gray-900 flex items-center gap-2">
+            <Undo2 className="w-5 h-5" />
+            Refunds
+          </CardTitle>
+          {canRefund && refundable > 0 && !showForm && (
+            <Button size="sm" variant="outline" onClick={() => setShowForm(true)}>
+              <Undo2 className="w-4 h-4 mr-2" />
+              Refund
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-md bg-red-50 border border-red-200">
+            <X className="w-4 h-4 text-red-600" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {showForm && (
+          <form
+            onSubmit={handleSubmit}
+            className="space-y-3 p-4 border border-gray-200 rounded-lg bg-gray-50"
+          >
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 px-2 text-sm font-semibold text-gray-700">
+                    Item
+                  </th>
+                  <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                    Return
+                  </th>
+                  <th className="text-center py-2 px-2 text-sm font-semibold text-gray-700">
+                    Restock
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => {
+                  const returnable = roundQuantity(
+                    Number(item.quantity) - returned(item.id)
+                  );
+                  return (
+                    <tr key={item.id} className="border-b border-gray-100">
+                      <td className="py-2 px-2 text-sm text-gray-900">
+                        {item.productName}
+                        <p className="text-xs text-gray-500">
+                          {returnable} of {Number(item.quantity)}{" "}
+                          {item.unitName} returnable
+                        </p>
+                      </td>
+                      <td className="py-2 px-2 text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          max={returnable}
+                          value={quantities[item.id] || ""}
+                          onChange={(e) =>
+                            setQuantities((prev) => ({
+                              ...prev,
+                              [item.id]: e.target.value,
+                            }))
+                          }
+                          disabled={saving || returnable <= 0}
+                          className="w-20 ml-auto text-gray-900 bg-white"
+                        />
+                      </td>
+                      <td className="py-2 px-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={!!restock[item.id]}
+                          onChange={(e) =>
+                            setRestock((prev) => ({
+                              ...prev,
+                              [item.id]: e.target.checked,
+                            }))
+                          }
+                          disabled={saving || !item.product || returnable <= 0}
+                          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label className="text-sm font-medium text-gray-700">
+                  Amount
+                </label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  name="amount"
+                  value={formData.amount}
+                  onChange={handleChange}
+                  disabled={saving}
+                  placeholder={
+                    estimatedAmount > 0
+                      ? `About ${formatCurrency(estimatedAmount, currency)}`
+                      : undefined
+                  }
+                  className="text-gray-900 bg-white"
+                />
+                <p className="text-xs text-gray-600">
+                  Leave blank to refund what was paid for the returned items.
+                  Up to {formatCurrency(refundable, currency)}. Anything
+                  still owed on the sale is taken off first.
+                </p>
+              </div>
+              <div className="space-y-1">
+                <label className="text-sm font-medium text-gray-700">
+                  Refund Method
+                </label>
+                <select
+                  name="method"
+                  value={formData.method}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {Object.values(PaymentMethod)
+                    .filter((m) => m !== PaymentMethod.CREDIT)
+                    .map((method) => (
+                      <option key={method} value={method}>
+                        {method.replace("_", " ")}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium text-gray-700">
+                Reference
+              </label>
+              <Input
+                type="text"
+                name="reference"
+                value={formData.reference}
+                onChange={handleChange}
+                disabled={saving}
+                placeholder="Mobile money transaction ID..."
+                className="text-gray-900 bg-white"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium text-gray-700">
+                Reason *
+              </label>
+              <textarea
+                name="reason"
+                value={formData.reason}
+                onChange={handleChange}
+                disabled={saving}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={saving}
+                onClick={() => setShowForm(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={saving}>
+                {saving ? "Saving..." : "Record Refund"}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading refunds...</p>
+        ) : refunds.length === 0 ? (
+          <p className="text-sm text-gray-500">No refunds given</p>
+        ) : (
+          <div className="space-y-3">
+            {refunds.map((refund) => (
+              <div
+                key={refund.id}
+                className="p-3 border border-gray-200 rounded-lg text-sm"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-900">
+                    {format(new Date(refund.refundedAt), "MMM dd, yyyy hh:mm a")}{" "}
+                    • {refund.method.replace("_", " ")}
+                    {refund.reference && ` • ${refund.reference}`}
+                  </span>
+                  <span className="font-medium text-red-600">
+                    {formatCurrency(-Number(refund.amount), currency)}
+                  </span>
+                </div>
+                <p className="text-gray-700 mt-1">{refund.reason}</p>
+                {Number(refund.credited) > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {formatCurrency(Number(refund.credited), currency)} taken
+                    off the balance due
+                  </p>
+                )}
+                {refund.items.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {refund.items
+                      .map(
+                        (i) =>
+                          `${Number(i.quantity)} × ${i.saleItem.productName}${
+                            i.restocked ? " (restocked)" : ""
+                          }`
+                      )
+                      .join(", ")}
+                  </p>
+                )}
+                {refund.processedBy && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    By {refund.processedBy.name}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,547 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  ArrowLeft,
+  Edit,
+  Ban,
+  RotateCcw,
+  Receipt,
+  User,
+  CreditCard,
+  FileText,
+  Printer,
+  Save,
+  X,
+} from "lucide-react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { PaymentMethod, PaymentStatus, SaleStatus } from "@prisma/client";
+import { PaymentHistoryPanel } from "@/components/sales/payment-history-panel";
+import { RefundPanel } from "@/components/sales/refund-panel";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+interface SaleDetail {
+  id: string;
+  invoiceNumber: string;
+  customer?: {
+    id: string;
+    name: string;
+    phone?: string | null;
+    email?: string | null;
+  } | null;
+  items: Array<{
+    id: string;
+    productName: string;
+    quantity: number | string; // Decimals arrive as strings
+    unitName?: string | null;
+    unitPrice: number;
+    totalPrice: number;
+    catalogPrice?: number | null;
+    priceOverridden: boolean;
+    discountAmount: number;
+    taxRateName?: string | null;
+    taxPercent: number;
+    taxAmount: number;
+    product?: {
+      id: string;
+      sku: string;
+      unit: string;
+    } | null;
+  }>;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  taxBreakdown: Array<{
+    name: string;
+    rate: number;
+    taxableAmount: number;
+    taxAmount: number;
+  }>;
+  totalAmount: number;
+  amountPaid: number;
+  balanceDue: number;
+  amountRefunded: number;
+  currency: string;
+  exchangeRate: number | string; // Base currency per unit
+  baseCurrency: string;
+  paymentMethod: PaymentMethod;
+  paymentStatus: PaymentStatus;
+  status: SaleStatus;
+  saleDate: string;
+  dueDate?: string | null;
+  notes?: string | null;
+  saleRegion?: { id: string; name: string } | null;
+  saleDistrict?: { id: string; name: string } | null;
+  soldBy?: { id: string; name: string } | null;
+}
+
+export function SaleDetailView({ saleId }: { saleId: string }) {
+  const formatCurrency = useMoneyFormatter();
+  const router = useRouter();
+  const [sale, setSale] = useState<SaleDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savingDocument, setSavingDocument] = useState(false);
+
+  const fetchSale = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/sales/${saleId}`);
+      const data = await res.json();
+      if (data.success) {
+        setSale(data.data);
+      } else {
+        setError(data.error || "Failed to load sale");
+      }
+    } catch (error) {
+      console.error("Error fetching sale:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [saleId]);
+
+  useEffect(() => {
+    fetchSale();
+  }, [fetchSale]);
+
+  const updateStatus = async (status: SaleStatus) => {
+    const label = status === SaleStatus.CANCELLED ? "void" : "return";
+    if (
+      !window.confirm(
+        `Are you sure you want to ${label} this sale? Stock and customer totals will be restored.`
+      )
+    ) {
+      return;
+    }
+
+    setUpdating(true);
+    setError(null);
+    try {
+      const res =
+        status === SaleStatus.CANCELLED
+          ? await fetch(`/api/sales/${saleId}`, { method: "DELETE" })
+          : await fetch(`/api/sales/${saleId}`, {
+              method: "PATCH",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ status }),
+            });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || `Failed to ${label} sale`);
+      }
+
+      await fetchSale();
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || `Failed to ${label} sale`);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const saveInvoice = async () => {
+    setSavingDocument(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sales/${saleId}/document`, {
+        method: "POST",
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save invoice");
+      }
+
+      if (data.data.signedUrl) {
+        window.open(data.data.signedUrl, "_blank", "noopener,noreferrer");
+      }
+      await fetchSale();
+    } catch (err: any) {
+      setError(err.message || "Failed to save invoice");
+    } finally {
+      setSavingDocument(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!sale) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <p className="text-center text-gray-600">
+            {error || "Sale not found"}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isFinal =
+    sale.status === SaleStatus.CANCELLED || sale.status === SaleStatus.RETURNED;
+  // Refunded sales are settled line by line, not returned or voided whole
+  const hasRefunds = Number(sale.amountRefunded) > 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/dashboard/admin/sales">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 font-mono">
+              {sale.invoiceNumber}
+            </h1>
+            <p className="text-gray-600 mt-1">
+              {format(new Date(sale.saleDate), "MMM dd, yyyy hh:mm a")}
+              {sale.soldBy && ` • Sold by ${sale.soldBy.name}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <a href={`/api/sales/${sale.id}/document`}>
+            <Button variant="outline" size="sm">
+              <FileText className="w-4 h-4 mr-2" />
+              Invoice PDF
+            </Button>
+          </a>
+          <a
+            href={`/api/sales/${sale.id}/document?layout=receipt&download=false`}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            <Button variant="outline" size="sm">
+              <Printer className="w-4 h-4 mr-2" />
+              Receipt
+            </Button>
+          </a>
+          <a
+            href={`/api/sales/${sale.id}/receipt?qr=true`}
+            title="ESC/POS file for thermal printers"
+          >
+            <Button variant="outline" size="sm">
+              <Printer className="w-4 h-4 mr-2" />
+              Thermal
+            </Button>
+          </a>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={saveInvoice}
+            disabled={savingDocument}
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {savingDocument ? "Saving..." : "Save to Files"}
+          </Button>
+          {!isFinal && (
+            <>
+              <Link href={`/dashboard/admin/sales/${sale.id}/edit`}>
+                <Button variant="outline" size="sm" disabled={updating}>
+                  <Edit className="w-4 h-4 mr-2" />
+                  Edit
+                </Button>
+              </Link>
+              {!hasRefunds && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={updating}
+                    onClick={() => updateStatus(SaleStatus.RETURNED)}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Return
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    disabled={updating}
+                    onClick={() => updateStatus(SaleStatus.CANCELLED)}
+                  >
+                    <Ban className="w-4 h-4 mr-2" />
+                    Void
+                  </Button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <X className="w-5 h-5 text-red-600" />
+              <p className="text-red-600">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Items */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-gray-900 flex items-center gap-2">
+                <Receipt className="w-5 h-5" />
+                Items
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-2 text-sm font-semibold text-gray-700">
+                      Product
+                    </th>
+                    <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                      Qty
+                    </th>
+                    <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                      Unit Price
+                    </th>
+                    <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                      Discount
+                    </th>
+                    <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                      Tax
+                    </th>
+                    <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                      Total
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sale.items.map((item) => (
+                    <tr key={item.id} className="border-b border-gray-100">
+                      <td className="py-3 px-2">
+                        <p className="text-sm font-medium text-gray-900">
+                          {item.productName}
+                        </p>
+                        {item.product && (
+                          <p className="text-xs text-gray-500">
+                            {item.product.sku}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-3 px-2 text-right text-sm text-gray-900">
+                        {Number(item.quantity)} {item.unitName}
+                      </td>
+                      <td className="py-3 px-2 text-right text-sm text-gray-900">
+                        {formatCurrency(item.unitPrice, sale.currency)}
+                        {item.priceOverridden && item.catalogPrice != null && (
+                          <p className="text-xs text-orange-600">
+                            Catalogue:{" "}
+                            {formatCurrency(item.catalogPrice, sale.currency)}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-3 px-2 text-right text-sm text-gray-900">
+                        {Number(item.discountAmount) > 0
+                          ? formatCurrency(
+                              -Number(item.discountAmount),
+                              sale.currency
+                            )
+                          : "-"}
+                      </td>
+                      <td className="py-3 px-2 text-right text-sm text-gray-900">
+                        {formatCurrency(item.taxAmount, sale.currency)}
+                        {item.taxRateName && (
+                          <p className="text-xs text-gray-500">
+                            {item.taxRateName} {Number(item.taxPercent)}%
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-3 px-2 text-right text-sm font-medium text-gray-900">
+                        {formatCurrency(item.totalPrice, sale.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <PaymentHistoryPanel
+            saleId={sale.id}
+            balanceDue={Number(sale.balanceDue)}
+            currency={sale.currency}
+            canRecord={!isFinal}
+            onRecorded={fetchSale}
+          />
+
+          <RefundPanel
+            saleId={sale.id}
+            items={sale.items}
+            refundable={
+              Number(sale.totalAmount) - Number(sale.amountRefunded)
+            }
+            currency={sale.currency}
+            canRefund={!isFinal}
+            onRefunded={fetchSale}
+          />
+
+          {sale.notes && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-gray-900">Notes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                  {sale.notes}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="lg:col-span-1 space-y-6">
+          {/* Customer */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-gray-900 flex items-center gap-2">
+                <User className="w-5 h-5" />
+                Customer
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {sale.customer ? (
+                <div>
+                  <Link
+                    href={`/dashboard/admin/customers/${sale.customer.id}/insights`}
+                    className="font-medium text-gray-900 hover:text-blue-600"
+                  >
+                    {sale.customer.name}
+                  </Link>
+                  {sale.customer.phone && (
+                    <p className="text-sm text-gray-600">
+                      {sale.customer.phone}
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Walk-in Customer</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Payment summary */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-gray-900 flex items-center gap-2">
+                <CreditCard className="w-5 h-5" />
+                Payment
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Status</span>
+                <span className="font-medium text-gray-900">{sale.status}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Subtotal</span>
+                <span className="text-gray-900">
+                  {formatCurrency(sale.subtotal, sale.currency)}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Discount</span>
+                <span className="text-gray-900">
+                  {formatCurrency(sale.discount, sale.currency)}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Tax</span>
+                <span className="text-gray-900">
+                  {formatCurrency(sale.tax, sale.currency)}
+                </span>
+              </div>
+              {sale.taxBreakdown.map((entry) => (
+                <div
+                  key={`${entry.name}-${entry.rate}`}
+                  className="flex justify-between text-xs pl-3"
+                >
+                  <span className="text-gray-500">
+                    {entry.name} ({entry.rate}%) on{" "}
+                    {formatCurrency(entry.taxableAmount, sale.currency)}
+                  </span>
+                  <span className="text-gray-700">
+                    {formatCurrency(entry.taxAmount, sale.currency)}
+                  </span>
+                </div>
+              ))}
+              <div className="pt-3 border-t border-gray-200 flex justify-between">
+                <span className="font-semibold text-gray-900">Total</span>
+                <span className="font-bold text-gray-900">
+                  {formatCurrency(sale.totalAmount, sale.currency)}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Amount Paid</span>
+                <span className="text-gray-900">
+                  {formatCurrency(sale.amountPaid, sale.currency)}
+                </span>
+              </div>
+              {hasRefunds && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Refunded</span>
+                  <span className="text-red-600">
+                    {formatCurrency(
+                      -Number(sale.amountRefunded),
+                      sale.currency
+                    )}
+                  </span>
+                </div>
+              )}
+              {Number(sale.balanceDue) > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-orange-600 font-medium">
+                    Balance Due
+                  </span>
+                  <span className="font-bold text-orange-600">
+                    {formatCurrency(sale.balanceDue, sale.currency)}
+                  </span>
+                </div>
+              )}
+              <div className="pt-3 border-t border-gray-200 text-sm text-gray-600">
+                {sale.paymentMethod.replace("_", " ")} • {sale.paymentStatus}
+                {sale.dueDate &&
+                  ` • Due ${format(new Date(sale.dueDate), "MMM dd, yyyy")}`}
+              </div>
+              {sale.currency !== sale.baseCurrency && (
+                <div className="text-sm text-gray-600">
+                  1 {sale.currency} ={" "}
+                  {formatCurrency(Number(sale.exchangeRate), sale.baseCurrency)}
+                  {" • "}
+                  Total{" "}
+                  {formatCurrency(
+                    Number(sale.totalAmount) * Number(sale.exchangeRate),
+                    sale.baseCurrency
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
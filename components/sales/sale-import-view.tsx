@@ -0,0 +1,516 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle,
+  FileSpreadsheet,
+  Upload,
+} from "lucide-react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+type ImportField =
+  | "reference"
+  | "saleDate"
+  | "customerPhone"
+  | "sku"
+  | "productName"
+  | "unit"
+  | "quantity"
+  | "unitPrice"
+  | "discount"
+  | "amountPaid"
+  | "paymentMethod"
+  | "dueDate"
+  | "notes";
+
+// Sale fields a column can be mapped to. Headers are matched in this
+// order, so "Due Date" is taken before "Date" and "Amount Paid" before
+// "Payment".
+const IMPORT_FIELDS: Array<{
+  key: ImportField;
+  label: string;
+  hint: string;
+  header: RegExp;
+}> = [
+  { key: "dueDate", label: "Due Date", hint: "For credit sales", header: /due/ },
+  { key: "saleDate", label: "Sale Date", hint: "Required", header: /date|day/ },
+  { key: "reference", label: "Receipt / Reference", hint: "Rows sharing it are one sale", header: /receipt|invoice|ref|order|transaction/ },
+  { key: "customerPhone", label: "Customer Phone", hint: "Matched to a customer", header: /phone|mobile|tel|contact/ },
+  { key: "sku", label: "SKU", hint: "Matched to a product", header: /sku|code|barcode/ },
+  { key: "productName", label: "Product Name", hint: "Matched when there is no SKU", header: /product|item|description|goods/ },
+  { key: "unit", label: "Unit", hint: "Blank is the product's base unit", header: /^unit$|uom|measure/ },
+  { key: "quantity", label: "Quantity", hint: "Required", header: /qty|quantity/ },
+  { key: "unitPrice", label: "Unit Price", hint: "Blank is the catalogue price", header: /price|rate/ },
+  { key: "discount", label: "Discount", hint: "Off the whole sale", header: /discount/ },
+  { key: "amountPaid", label: "Amount Paid", hint: "Blank is paid in full", header: /paid|amount/ },
+  { key: "paymentMethod", label: "Payment Method", hint: "Cash if blank", header: /method|payment|mode/ },
+  { key: "notes", label: "Notes", hint: "", header: /note|remark|comment/ },
+];
+
+// Sales sent per request
+const BATCH_SIZE = 50;
+
+interface ImportRowMessage {
+  row: number;
+  message: string;
+}
+
+interface ImportedSalePreview {
+  reference: string | null;
+  rows: number[];
+  sale: ({ clientId: string; saleDate: string; items: unknown[] } & Record<string, unknown>) | null;
+  errors: ImportRowMessage[];
+  warnings: ImportRowMessage[];
+  customerName: string | null;
+  totalAmount: number | null;
+  importedAs: string | null;
+}
+
+interface ImportResult {
+  clientId: string;
+  status: "imported" | "failed";
+  sale?: { id: string; invoiceNumber: string; totalAmount: number };
+  duplicate?: boolean;
+  message?: string;
+}
+
+const selectClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+/**
+ * Guess each field's column from the header row
+ */
+function guessMapping(headers: string[]): Partial<Record<ImportField, number>> {
+  const mapping: Partial<Record<ImportField, number>> = {};
+  const used = new Set<number>();
+  for (const field of IMPORT_FIELDS) {
+    const index = headers.findIndex(
+      (header, i) => !used.has(i) && field.header.test(header.toLowerCase())
+    );
+    if (index !== -1) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+export function SaleImportView() {
+  const formatCurrency = useMoneyFormatter();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, number>>>({});
+  const [historical, setHistorical] = useState(true);
+  const [previews, setPreviews] = useState<ImportedSalePreview[] | null>(null);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setFileName(null);
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+    setPreviews(null);
+    setResults(null);
+    setProgress(null);
+    setError(null);
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    setLoading(true);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await fetch("/api/sales/import/parse", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to read file");
+      }
+
+      setFileName(file.name);
+      setHeaders(data.data.headers);
+      setRows(data.data.rows);
+      setMapping(guessMapping(data.data.headers));
+    } catch (err: any) {
+      setError(err.message || "Failed to read file");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setLoading(true);
+    setError(null);
+    setPreviews(null);
+
+    try {
+      const response = await fetch("/api/sales/import/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mapping, rows }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to preview import"
+        );
+      }
+
+      setPreviews(data.data);
+    } catch (err: any) {
+      setError(err.message || "Failed to preview import");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const ready = (previews || []).filter((p) => p.sale && !p.importedAs);
+  const withErrors = (previews || []).filter((p) => p.errors.length > 0);
+  const alreadyImported = (previews || []).filter((p) => p.importedAs);
+
+  const handleImport = async () => {
+    if (
+      !window.confirm(
+        historical
+          ? `Import ${ready.length} sales? Stock and customer totals are left as they are.`
+          : `Import ${ready.length} sales? Stock is taken down and customer totals go up for each sale.`
+      )
+    ) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    const collected: ImportResult[] = [];
+    setProgress({ done: 0, total: ready.length });
+
+    try {
+      // Batches are committed one after another; a stopped import can be
+      // run again, as sales already recorded are skipped
+      for (let start = 0; start < ready.length; start += BATCH_SIZE) {
+        const batch = ready.slice(start, start + BATCH_SIZE);
+        const response = await fetch("/api/sales/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            historical,
+            sales: batch.map((p) => p.sale),
+          }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(
+            data.details?.[0]?.message || data.error || "Failed to import sales"
+          );
+        }
+
+        collected.push(...data.data);
+        setProgress({ done: start + batch.length, total: ready.length });
+      }
+    } catch (err: any) {
+      setError(
+        `${err.message || "Failed to import sales"}. Import again to carry on; sales already recorded are skipped.`
+      );
+    } finally {
+      setResults(collected);
+      setLoading(false);
+    }
+  };
+
+  const failed = (results || []).filter((r) => r.status === "failed");
+  const imported = (results || []).filter(
+    (r) => r.status === "imported" && !r.duplicate
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Import Sales</h1>
+          <p className="text-gray-600 mt-1">
+            Bring in past sales from a CSV or Excel file
+          </p>
+        </div>
+        <Link href="/dashboard/admin/sales">
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Sales
+          </Button>
+        </Link>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4 flex items-center gap-2 text-red-800">
+            <AlertCircle className="w-5 h-5" />
+            <p>{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* File */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-gray-900 flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            1. Choose a File
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="text-sm text-gray-600">
+            The first row must hold the column names. Each row is one item
+            sold; give rows of the same sale the same receipt number.
+          </p>
+          <label className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white cursor-pointer hover:bg-gray-50">
+            <Upload className="w-4 h-4" />
+            {fileName || "Upload .csv or .xlsx"}
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              disabled={loading}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {fileName && (
+            <p className="text-sm text-gray-600">
+              {rows.length} row{rows.length === 1 ? "" : "s"} found
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Column mapping */}
+      {headers.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900">2. Match the Columns</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <label className="text-sm font-medium text-gray-700">
+                    {field.label}
+                  </label>
+                  <select
+                    value={mapping[field.key] ?? ""}
+                    onChange={(e) => {
+                      setMapping((prev) => ({
+                        ...prev,
+                        [field.key]:
+                          e.target.value === ""
+                            ? undefined
+                            : Number(e.target.value),
+                      }));
+                      setPreviews(null);
+                    }}
+                    disabled={loading}
+                    className={selectClass}
+                  >
+                    <option value="">Not in file</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                  {field.hint && (
+                    <p className="text-xs text-gray-500">{field.hint}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={historical}
+                onChange={(e) => setHistorical(e.target.checked)}
+                disabled={loading}
+                className="w-4 h-4 mt-0.5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>
+                Historical only: these sales are already counted in current
+                stock and customer totals, so leave those as they are
+              </span>
+            </label>
+
+            <Button type="button" onClick={handlePreview} disabled={loading}>
+              {loading && !previews ? "Checking..." : "Preview Import"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Preview */}
+      {previews && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900">3. Check and Import</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span className="text-green-700">
+                {ready.length} sale{ready.length === 1 ? "" : "s"} ready
+              </span>
+              <span className="text-red-700">
+                {withErrors.length} with errors
+              </span>
+              {alreadyImported.length > 0 && (
+                <span className="text-gray-600">
+                  {alreadyImported.length} already imported
+                </span>
+              )}
+            </div>
+
+            <div className="overflow-x-auto max-h-[32rem] overflow-y-auto border border-gray-200 rounded-md">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-gray-700">
+                    <th className="py-2 px-3">Rows</th>
+                    <th className="py-2 px-3">Receipt</th>
+                    <th className="py-2 px-3">Date</th>
+                    <th className="py-2 px-3">Customer</th>
+                    <th className="py-2 px-3 text-right">Total</th>
+                    <th className="py-2 px-3">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {previews.map((preview) => (
+                    <tr key={preview.rows[0]} className="align-top">
+                      <td className="py-2 px-3 text-gray-600">
+                        {preview.rows.length > 1
+                          ? `${preview.rows[0]}-${preview.rows[preview.rows.length - 1]}`
+                          : preview.rows[0]}
+                      </td>
+                      <td className="py-2 px-3 text-gray-900">
+                        {preview.reference || "-"}
+                      </td>
+                      <td className="py-2 px-3 text-gray-900">
+                        {preview.sale
+                          ? format(new Date(preview.sale.saleDate), "MMM dd, yyyy")
+                          : "-"}
+                      </td>
+                      <td className="py-2 px-3 text-gray-900">
+                        {preview.customerName || "Walk-in Customer"}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-900">
+                        {preview.totalAmount !== null
+                          ? formatCurrency(preview.totalAmount)
+                          : "-"}
+                      </td>
+                      <td className="py-2 px-3">
+                        {preview.errors.length > 0 ? (
+                          <ul className="text-red-700 space-y-0.5">
+                            {preview.errors.map((e, i) => (
+                              <li key={i}>
+                                Row {e.row}: {e.message}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : preview.importedAs ? (
+                          <span className="text-gray-600">
+                            Already imported as {preview.importedAs}
+                          </span>
+                        ) : (
+                          <span className="text-green-700">Ready</span>
+                        )}
+                        {preview.warnings.length > 0 && (
+                          <ul className="text-yellow-700 space-y-0.5 mt-1">
+                            {preview.warnings.map((w, i) => (
+                              <li key={i}>
+                                Row {w.row}: {w.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {withErrors.length > 0 && (
+              <p className="text-sm text-gray-600">
+                Sales with errors are skipped. Fix them in the file and upload
+                it again; sales already imported won&apos;t be recorded twice.
+              </p>
+            )}
+
+            <div className="flex items-center gap-4">
+              <Button
+                type="button"
+                onClick={handleImport}
+                disabled={loading || ready.length === 0 || results !== null}
+              >
+                {progress && loading
+                  ? `Importing ${progress.done} of ${progress.total}...`
+                  : `Import ${ready.length} Sale${ready.length === 1 ? "" : "s"}`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Results */}
+      {results && (
+        <Card className={failed.length > 0 ? "border-yellow-200" : "border-green-200"}>
+          <CardContent className="p-4 space-y-2">
+            <p className="flex items-center gap-2 text-gray-900">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              {imported.length} sale{imported.length === 1 ? "" : "s"} imported
+              {results.length - imported.length - failed.length > 0 &&
+                `, ${results.length - imported.length - failed.length} already recorded`}
+            </p>
+            {failed.length > 0 && (
+              <ul className="text-sm text-red-700 space-y-0.5">
+                {failed.map((result) => {
+                  const preview = ready.find(
+                    (p) => p.sale?.clientId === result.clientId
+                  );
+                  return (
+                    <li key={result.clientId}>
+                      Row {preview?.rows[0]}: {result.message}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            <div className="flex gap-3">
+              <Link href="/dashboard/admin/sales">
+                <Button size="sm">View Sales</Button>
+              </Link>
+              <Button type="button" variant="outline" size="sm" onClick={reset}>
+                Import Another File
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
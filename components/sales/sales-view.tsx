@@ -12,6 +12,7 @@ import {
   Eye,
   Edit,
   Trash2,
+  FileText,
   Receipt,
   DollarSign,
   TrendingUp,
@@ -24,15 +25,18 @@ import {
   Calendar,
   User,
   CreditCard,
+  Upload,
 } from "lucide-react";
 import Link from "next/link";
 import { format } from "date-fns";
 import { PaymentMethod, PaymentStatus, SaleStatus } from "@prisma/client";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
 
 interface SaleItem {
   id: string;
   productName: string;
-  quantity: number;
+  quantity: number | string; // Decimals arrive as strings
+  unitName?: string | null;
   unitPrice: number;
   totalPrice: number;
 }
@@ -52,6 +56,7 @@ interface Sale {
   totalAmount: number;
   amountPaid: number;
   balanceDue: number;
+  currency: string;
   paymentMethod: PaymentMethod;
   paymentStatus: PaymentStatus;
   status: SaleStatus;
@@ -81,19 +86,10 @@ interface SalesResponse {
     total: number;
     totalPages: number;
   };
-  stats: {
-    totalRevenue: number;
-    todayRevenue: number;
-    weekRevenue: number;
-    monthRevenue: number;
-    totalSales: number;
-    todaySales: number;
-    pendingPayments: number;
-    overduePayments: number;
-  };
 }
 
 export function SalesView() {
+  const formatCurrency = useMoneyFormatter();
   const [sales, setSales] = useState<Sale[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
@@ -126,6 +122,7 @@ export function SalesView() {
   const [sortBy, setSortBy] = useState("saleDate");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [showFilters, setShowFilters] = useState(false);
+  const [voidingId, setVoidingId] = useState<string | null>(null);
 
   // Debounce search
   useEffect(() => {
@@ -173,7 +170,6 @@ export function SalesView() {
       if (data.success) {
         setSales(data.data);
         setPagination(data.pagination);
-        setStats(data.stats);
       }
     } catch (error) {
       console.error("Error fetching sales:", error);
@@ -186,6 +182,24 @@ export function SalesView() {
     fetchSales();
   }, [fetchSales]);
 
+  // Stats cover every sale, whatever the filters, so they load on their own
+  const fetchStats = useCallback(async () => {
+    try {
+      const res = await fetch("/api/sales/stats");
+      const data = await res.json();
+
+      if (data.success) {
+        setStats(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching sales stats:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
   const handleSort = (field: string) => {
     if (sortBy === field) {
       setSortOrder(sortOrder === "asc" ? "desc" : "asc");
@@ -208,6 +222,36 @@ export function SalesView() {
     setPage(1);
   };
 
+  const isVoidable = (status: SaleStatus) =>
+    status !== "CANCELLED" && status !== "RETURNED";
+
+  const handleVoid = async (sale: Sale) => {
+    if (
+      !window.confirm(
+        `Void sale ${sale.invoiceNumber}? Stock and customer totals will be restored.`
+      )
+    ) {
+      return;
+    }
+
+    setVoidingId(sale.id);
+    try {
+      const res = await fetch(`/api/sales/${sale.id}`, { method: "DELETE" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to void sale");
+      }
+
+      await Promise.all([fetchSales(), fetchStats()]);
+    } catch (error: any) {
+      console.error("Error voiding sale:", error);
+      window.alert(error.message || "Failed to void sale");
+    } finally {
+      setVoidingId(null);
+    }
+  };
+
   const getStatusColor = (status: SaleStatus) => {
     const colors: Record<SaleStatus, string> = {
       COMPLETED: "bg-green-100 text-green-700",
@@ -254,6 +298,12 @@ export function SalesView() {
             <Download className="w-4 h-4 mr-2" />
             Export
           </Button>
+          <Link href="/dashboard/admin/sales/import">
+            <Button variant="outline" size="sm">
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+          </Link>
           <Link href="/dashboard/admin/sales/add">
             <Button size="sm">
               <Plus className="w-4 h-4 mr-2" />
@@ -273,11 +323,7 @@ export function SalesView() {
                   Total Revenue
                 </p>
                 <p className="text-2xl font-bold text-gray-900 mt-1">
-                  {new Intl.NumberFormat("en-US", {
-                    style: "currency",
-                    currency: "SLL",
-                    minimumFractionDigits: 0,
-                  }).format(stats.totalRevenue)}
+                  {formatCurrency(stats.totalRevenue)}
                 </p>
                 <p className="text-xs text-gray-500 mt-1">
                   {stats.totalSales} total sales
@@ -298,11 +344,7 @@ export function SalesView() {
                   Today's Revenue
                 </p>
                 <p className="text-2xl font-bold text-gray-900 mt-1">
-                  {new Intl.NumberFormat("en-US", {
-                    style: "currency",
-                    currency: "SLL",
-                    minimumFractionDigits: 0,
-                  }).format(stats.todayRevenue)}
+                  {formatCurrency(stats.todayRevenue)}
                 </p>
                 <p className="text-xs text-gray-500 mt-1">
                   {stats.todaySales} sales today
@@ -323,11 +365,7 @@ export function SalesView() {
                   Pending Payments
                 </p>
                 <p className="text-2xl font-bold text-gray-900 mt-1">
-                  {new Intl.NumberFormat("en-US", {
-                    style: "currency",
-                    currency: "SLL",
-                    minimumFractionDigits: 0,
-                  }).format(stats.pendingPayments)}
+                  {formatCurrency(stats.pendingPayments)}
                 </p>
                 <p className="text-xs text-gray-500 mt-1">Awaiting payment</p>
               </div>
@@ -346,11 +384,7 @@ export function SalesView() {
                   Overdue Payments
                 </p>
                 <p className="text-2xl font-bold text-gray-900 mt-1">
-                  {new Intl.NumberFormat("en-US", {
-                    style: "currency",
-                    currency: "SLL",
-                    minimumFractionDigits: 0,
-                  }).format(stats.overduePayments)}
+                  {formatCurrency(stats.overduePayments)}
                 </p>
                 <p className="text-xs text-gray-500 mt-1">Requires attention</p>
               </div>
@@ -669,7 +703,7 @@ export function SalesView() {
                             <p className="font-medium text-gray-900">
                               {new Intl.NumberFormat("en-US", {
                                 style: "currency",
-                                currency: "SLL",
+                                currency: sale.currency,
                                 minimumFractionDigits: 0,
                               }).format(sale.totalAmount)}
                             </p>
@@ -678,7 +712,7 @@ export function SalesView() {
                                 Due:{" "}
                                 {new Intl.NumberFormat("en-US", {
                                   style: "currency",
-                                  currency: "SLL",
+                                  currency: sale.currency,
                                   minimumFractionDigits: 0,
                                 }).format(sale.balanceDue)}
                               </p>
@@ -713,15 +747,38 @@ export function SalesView() {
                         </td>
                         <td className="py-4 px-4">
                           <div className="flex items-center gap-2">
-                            <Button variant="ghost" size="sm">
-                              <Eye className="w-4 h-4" />
-                            </Button>
-                            <Button variant="ghost" size="sm">
-                              <Edit className="w-4 h-4" />
-                            </Button>
-                            <Button variant="ghost" size="sm">
-                              <Trash2 className="w-4 h-4 text-red-600" />
-                            </Button>
+                            <Link href={`/dashboard/admin/sales/${sale.id}`}>
+                              <Button variant="ghost" size="sm">
+                                <Eye className="w-4 h-4" />
+                              </Button>
+                            </Link>
+                            <a
+                              href={`/api/sales/${sale.id}/document`}
+                              title="Download invoice PDF"
+                            >
+                              <Button variant="ghost" size="sm">
+                                <FileText className="w-4 h-4" />
+                              </Button>
+                            </a>
+                            {isVoidable(sale.status) && (
+                              <>
+                                <Link
+                                  href={`/dashboard/admin/sales/${sale.id}/edit`}
+                                >
+                                  <Button variant="ghost" size="sm">
+                                    <Edit className="w-4 h-4" />
+                                  </Button>
+                                </Link>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleVoid(sale)}
+                                  disabled={voidingId === sale.id}
+                                >
+                                  <Trash2 className="w-4 h-4 text-red-600" />
+                                </Button>
+                              </>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -0,0 +1,287 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Coins } from "lucide-react";
+import { format } from "date-fns";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/utils";
+
+interface CurrencyMigration {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  factor: string | number;
+  summary: {
+    rows: Record<string, number>;
+    totals: Record<string, { before: number; after: number }>;
+  };
+  createdAt: string;
+  performedBy: { id: string; name: string };
+}
+
+interface CurrencyInfo {
+  currency: string;
+  legacy: { currency: string; factor: number; until: string } | null;
+  migrations: CurrencyMigration[];
+}
+
+const TOTAL_LABELS: Record<string, string> = {
+  sales: "Sales",
+  payments: "Payments",
+  customerSpend: "Customer spend",
+  catalogue: "Catalogue prices",
+};
+
+const emptyForm = { toCurrency: DEFAULT_CURRENCY, factor: "1000", until: "" };
+
+// Business currency and the redenomination tool, e.g. the 2022 switch from
+// old Leones (SLL) to new Leones (SLE) at 1,000 to 1
+export function CurrencyCard() {
+  const [info, setInfo] = useState<CurrencyInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchCurrency = async () => {
+    try {
+      const res = await fetch("/api/settings/currency");
+      const data = await res.json();
+      if (data.success) {
+        setInfo(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching currency:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCurrency();
+  }, []);
+
+  const handleRedenominate = async () => {
+    if (!info) return;
+    const toCurrency = formData.toCurrency.trim();
+    const factor = parseFloat(formData.factor) || 0;
+    if (!toCurrency || factor <= 0) {
+      setError("Enter the new currency and how many old units make one new unit");
+      return;
+    }
+    if (
+      !window.confirm(
+        `Convert every amount from ${info.currency} to ${toCurrency}, dividing by ${factor}? Sales, payments, prices, customer balances and expenses are all converted. This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/settings/currency", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          toCurrency,
+          factor,
+          legacyDisplayUntil: formData.until || null,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message ||
+            data.error ||
+            "Failed to convert currency"
+        );
+      }
+
+      // Every screen formats money in the business currency, so reload
+      window.location.reload();
+    } catch (err: any) {
+      setError(err.message || "Failed to convert currency");
+      setSaving(false);
+    }
+  };
+
+  const handleStopLegacy = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ legacyDisplayUntil: null }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update settings");
+      }
+
+      window.location.reload();
+    } catch (err: any) {
+      setError(err.message || "Failed to update settings");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-gray-900 flex items-center gap-2">
+          <Coins className="w-5 h-5" />
+          Currency
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading || !info ? (
+          <p className="text-sm text-gray-600">Loading currency...</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Amounts are recorded and shown in{" "}
+              <span className="font-medium text-gray-900">{info.currency}</span>
+              .
+            </p>
+
+            {info.legacy && (
+              <div className="flex items-center justify-between gap-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
+                <p className="text-sm text-blue-900">
+                  Amounts are also shown in {info.legacy.currency} (
+                  {formatMoney(1, info.currency)} ={" "}
+                  {formatMoney(info.legacy.factor, info.legacy.currency)})
+                  until {format(new Date(info.legacy.until), "MMM dd, yyyy")}.
+                </p>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleStopLegacy}
+                  disabled={saving}
+                >
+                  Stop Showing
+                </Button>
+              </div>
+            )}
+
+            {/* Redenominate */}
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">
+                Redenominate
+              </p>
+              <p className="text-xs text-gray-500">
+                Converts every recorded amount to a new currency. Old amounts
+                are shown alongside until the date given, 6 months if left
+                blank.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">
+                    New Currency
+                  </label>
+                  <Input
+                    type="text"
+                    maxLength={3}
+                    value={formData.toCurrency}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        toCurrency: e.target.value.toUpperCase(),
+                      }))
+                    }
+                    disabled={saving}
+                    className="text-gray-900"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">
+                    {info.currency} per new unit
+                  </label>
+                  <Input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={formData.factor}
+                    onChange={(e) =>
+                      setFormData((prev) => ({ ...prev, factor: e.target.value }))
+                    }
+                    disabled={saving}
+                    className="text-gray-900"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">
+                    Show Old Amounts Until
+                  </label>
+                  <Input
+                    type="date"
+                    value={formData.until}
+                    onChange={(e) =>
+                      setFormData((prev) => ({ ...prev, until: e.target.value }))
+                    }
+                    disabled={saving}
+                    className="text-gray-900"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleRedenominate}
+                  disabled={saving}
+                  className="w-full"
+                >
+                  {saving ? "Converting..." : "Convert"}
+                </Button>
+              </div>
+            </div>
+
+            {/* Audit trail */}
+            {info.migrations.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">History</p>
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {info.migrations.map((migration) => (
+                    <div key={migration.id} className="px-4 py-3 space-y-1">
+                      <p className="font-medium text-gray-900">
+                        {migration.fromCurrency} to {migration.toCurrency} at{" "}
+                        {Number(migration.factor)} to 1
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {format(new Date(migration.createdAt), "MMM dd, yyyy HH:mm")}{" "}
+                        by {migration.performedBy.name} -{" "}
+                        {Object.values(migration.summary.rows).reduce(
+                          (sum, count) => sum + count,
+                          0
+                        )}{" "}
+                        rows converted
+                      </p>
+                      {Object.entries(migration.summary.totals).map(
+                        ([key, total]) => (
+                          <p key={key} className="text-xs text-gray-500">
+                            {TOTAL_LABELS[key] || key}:{" "}
+                            {formatMoney(total.before, migration.fromCurrency)}{" "}
+                            to {formatMoney(total.after, migration.toCurrency)}
+                          </p>
+                        )
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
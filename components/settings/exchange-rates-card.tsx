@@ -0,0 +1,223 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowLeftRight, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { useCurrency } from "@/components/layout/currency-provider";
+
+interface ExchangeRate {
+  id: string;
+  currency: string;
+  rate: string | number; // Base currency per unit
+  updatedAt: string;
+}
+
+const emptyForm = { currency: "", rate: "" };
+
+export function ExchangeRatesCard() {
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const { currency: baseCurrency } = useCurrency();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchExchangeRates = async () => {
+    try {
+      const res = await fetch("/api/exchange-rates");
+      const data = await res.json();
+      if (data.success) {
+        setExchangeRates(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching exchange rates:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchExchangeRates();
+  }, []);
+
+  const request = async (url: string, method: string, body?: object) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.details?.[0]?.message ||
+            data.error ||
+            "Failed to save exchange rate"
+        );
+      }
+
+      await fetchExchangeRates();
+      return true;
+    } catch (err: any) {
+      setError(err.message || "Failed to save exchange rate");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!formData.currency.trim()) {
+      setError("Currency code is required");
+      return;
+    }
+
+    const saved = await request("/api/exchange-rates", "POST", {
+      currency: formData.currency.trim(),
+      rate: parseFloat(formData.rate) || 0,
+    });
+    if (saved) setFormData(emptyForm);
+  };
+
+  const handleDelete = async (exchangeRate: ExchangeRate) => {
+    if (
+      !window.confirm(
+        `Delete the ${exchangeRate.currency} rate? New sales can no longer be taken in ${exchangeRate.currency}.`
+      )
+    ) {
+      return;
+    }
+    await request(`/api/exchange-rates/${exchangeRate.id}`, "DELETE");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-gray-900 flex items-center gap-2">
+          <ArrowLeftRight className="w-5 h-5" />
+          Exchange Rates
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Sales can be taken in any currency with a rate. Each sale and
+          payment keeps the rate it was made at; reports are in{" "}
+          {baseCurrency}.
+        </p>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <p className="text-sm text-gray-600">Loading exchange rates...</p>
+        ) : exchangeRates.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No exchange rates yet - sales are taken in {baseCurrency} only.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {exchangeRates.map((exchangeRate) => (
+              <div
+                key={exchangeRate.id}
+                className="flex items-center justify-between gap-4 px-4 py-3"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    1 {exchangeRate.currency} = {Number(exchangeRate.rate)}{" "}
+                    {baseCurrency}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Updated{" "}
+                    {format(new Date(exchangeRate.updatedAt), "MMM dd, yyyy")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={saving}
+                    title="Edit"
+                    onClick={() =>
+                      setFormData({
+                        currency: exchangeRate.currency,
+                        rate: String(Number(exchangeRate.rate)),
+                      })
+                    }
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={saving}
+                    title="Delete"
+                    onClick={() => handleDelete(exchangeRate)}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Add or update a rate */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">
+              Currency
+            </label>
+            <Input
+              type="text"
+              maxLength={3}
+              value={formData.currency}
+              onChange={(e) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  currency: e.target.value.toUpperCase(),
+                }))
+              }
+              disabled={saving}
+              placeholder="e.g. USD"
+              className="text-gray-900"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">
+              {baseCurrency} per unit
+            </label>
+            <Input
+              type="number"
+              step="any"
+              min="0"
+              value={formData.rate}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, rate: e.target.value }))
+              }
+              disabled={saving}
+              className="text-gray-900"
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleSave}
+            disabled={saving}
+            className="w-full"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Save Rate
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
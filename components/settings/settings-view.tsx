@@ -0,0 +1,507 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Save,
+  Receipt,
+  Percent,
+  Package,
+  Bell,
+  X,
+  CheckCircle,
+  Wallet,
+} from "lucide-react";
+import { NumberingReset } from "@prisma/client";
+import { format } from "date-fns";
+import { TaxRatesCard } from "./tax-rates-card";
+import { ExchangeRatesCard } from "./exchange-rates-card";
+import { CurrencyCard } from "./currency-card";
+
+interface SettingsForm {
+  invoicePrefix: string;
+  invoiceNumberReset: NumberingReset;
+  invoiceNumberPadding: string;
+  quotePrefix: string;
+  quoteValidityDays: string;
+  paymentTerms: string;
+  receiptPaperWidth: string;
+  maxDiscountPercent: string;
+  allowPriceOverride: boolean;
+  allowNegativeStock: boolean;
+  cashVarianceThreshold: string;
+  paymentReminders: boolean;
+  reminderSchedule: string; // Comma-separated days from the due date
+}
+
+export function SettingsView() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [formData, setFormData] = useState<SettingsForm>({
+    invoicePrefix: "INV",
+    invoiceNumberReset: NumberingReset.MONTHLY,
+    invoiceNumberPadding: "4",
+    quotePrefix: "QUO",
+    quoteValidityDays: "30",
+    paymentTerms: "",
+    receiptPaperWidth: "80",
+    maxDiscountPercent: "100",
+    allowPriceOverride: true,
+    allowNegativeStock: false,
+    cashVarianceThreshold: "10000",
+    paymentReminders: true,
+    reminderSchedule: "-3, 0, 7, 14, 30",
+  });
+
+  useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const res = await fetch("/api/settings");
+        const data = await res.json();
+        if (data.success) {
+          const settings = data.data;
+          setFormData({
+            invoicePrefix: settings.invoicePrefix,
+            invoiceNumberReset: settings.invoiceNumberReset,
+            invoiceNumberPadding: String(settings.invoiceNumberPadding),
+            quotePrefix: settings.quotePrefix,
+            quoteValidityDays: String(settings.quoteValidityDays),
+            paymentTerms: settings.paymentTerms || "",
+            receiptPaperWidth: String(settings.receiptPaperWidth),
+            maxDiscountPercent: String(Number(settings.maxDiscountPercent)),
+            allowPriceOverride: settings.allowPriceOverride,
+            allowNegativeStock: settings.allowNegativeStock,
+            cashVarianceThreshold: String(
+              Number(settings.cashVarianceThreshold)
+            ),
+            paymentReminders: settings.paymentReminders,
+            reminderSchedule: settings.reminderSchedule.join(", "),
+          });
+        }
+      } catch (error) {
+        console.error("Error fetching settings:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSettings();
+  }, []);
+
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+    >
+  ) => {
+    const { name, value, type } = e.target;
+    setSaved(false);
+    setFormData((prev) => ({
+      ...prev,
+      [name]:
+        type === "checkbox" ? (e.target as HTMLInputElement).checked : value,
+    }));
+  };
+
+  const invoicePreview = () => {
+    const padding = parseInt(formData.invoiceNumberPadding) || 4;
+    const running = "1".padStart(padding, "0");
+    const today = new Date();
+    const period =
+      formData.invoiceNumberReset === NumberingReset.MONTHLY
+        ? format(today, "yyyy-MM")
+        : formData.invoiceNumberReset === NumberingReset.YEARLY
+          ? format(today, "yyyy")
+          : "";
+    return [formData.invoicePrefix, period, running].filter(Boolean).join("-");
+  };
+
+  const parseSchedule = () =>
+    formData.reminderSchedule
+      .split(",")
+      .map((step) => step.trim())
+      .filter(Boolean)
+      .map((step) => parseInt(step));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const reminderSchedule = parseSchedule();
+    if (reminderSchedule.some((step) => Number.isNaN(step))) {
+      setError("Reminder schedule must be a list of whole numbers of days");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setSaved(false);
+
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          invoicePrefix: formData.invoicePrefix,
+          invoiceNumberReset: formData.invoiceNumberReset,
+          invoiceNumberPadding: parseInt(formData.invoiceNumberPadding) || 4,
+          quotePrefix: formData.quotePrefix,
+          quoteValidityDays: parseInt(formData.quoteValidityDays) || 30,
+          paymentTerms: formData.paymentTerms || null,
+          receiptPaperWidth: parseInt(formData.receiptPaperWidth),
+          maxDiscountPercent: parseFloat(formData.maxDiscountPercent) || 0,
+          allowPriceOverride: formData.allowPriceOverride,
+          allowNegativeStock: formData.allowNegativeStock,
+          cashVarianceThreshold: parseFloat(formData.cashVarianceThreshold) || 0,
+          paymentReminders: formData.paymentReminders,
+          reminderSchedule: Array.from(new Set(reminderSchedule)).sort(
+            (a, b) => a - b
+          ),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update settings");
+      }
+
+      setSaved(true);
+    } catch (err: any) {
+      setError(err.message || "Failed to update settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+        <p className="text-gray-600 mt-1">
+          Configure how your business records sales
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <X className="w-5 h-5 text-red-600" />
+              <p className="text-red-600">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {saved && (
+        <Card className="border-green-200 bg-green-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <p className="text-green-600">Settings saved</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Invoice Numbering */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900 flex items-center gap-2">
+              <Receipt className="w-5 h-5" />
+              Invoice Numbering
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Prefix
+                </label>
+                <Input
+                  type="text"
+                  name="invoicePrefix"
+                  value={formData.invoicePrefix}
+                  onChange={handleChange}
+                  disabled={saving}
+                  maxLength={10}
+                  className="text-gray-900"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Restart Numbering
+                </label>
+                <select
+                  name="invoiceNumberReset"
+                  value={formData.invoiceNumberReset}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value={NumberingReset.MONTHLY}>Every month</option>
+                  <option value={NumberingReset.YEARLY}>Every year</option>
+                  <option value={NumberingReset.NEVER}>Never</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Number of Digits
+                </label>
+                <Input
+                  type="number"
+                  min="1"
+                  max="10"
+                  name="invoiceNumberPadding"
+                  value={formData.invoiceNumberPadding}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className="text-gray-900"
+                />
+              </div>
+            </div>
+            <p className="text-sm text-gray-600">
+              Next invoice will look like{" "}
+              <span className="font-mono text-gray-900">{invoicePreview()}</span>
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Quote Prefix
+                </label>
+                <Input
+                  type="text"
+                  name="quotePrefix"
+                  value={formData.quotePrefix}
+                  onChange={handleChange}
+                  disabled={saving}
+                  maxLength={10}
+                  className="text-gray-900"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Quotes Valid For (days)
+                </label>
+                <Input
+                  type="number"
+                  min="1"
+                  max="365"
+                  name="quoteValidityDays"
+                  value={formData.quoteValidityDays}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className="text-gray-900"
+                />
+              </div>
+            </div>
+            <p className="text-sm text-gray-600">
+              Quotes are numbered separately, using the same reset and digits
+            </p>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">
+                Payment Terms
+              </label>
+              <textarea
+                name="paymentTerms"
+                rows={2}
+                value={formData.paymentTerms}
+                onChange={handleChange}
+                disabled={saving}
+                maxLength={500}
+                placeholder="e.g. Payment due within 30 days"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-sm text-gray-600">
+                Printed on invoices and receipts
+              </p>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">
+                Thermal Receipt Printer
+              </label>
+              <select
+                name="receiptPaperWidth"
+                value={formData.receiptPaperWidth}
+                onChange={handleChange}
+                disabled={saving}
+                className="w-full md:w-1/3 px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="80">80mm roll</option>
+                <option value="58">58mm roll</option>
+              </select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Pricing */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900 flex items-center gap-2">
+              <Percent className="w-5 h-5" />
+              Pricing
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Maximum Discount (% of subtotal or line)
+                </label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  name="maxDiscountPercent"
+                  value={formData.maxDiscountPercent}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className="text-gray-900"
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                name="allowPriceOverride"
+                checked={formData.allowPriceOverride}
+                onChange={handleChange}
+                disabled={saving}
+              />
+              Allow cashiers to change catalogue prices at the till
+            </label>
+          </CardContent>
+        </Card>
+
+        {/* Inventory */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900 flex items-center gap-2">
+              <Package className="w-5 h-5" />
+              Inventory
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                name="allowNegativeStock"
+                checked={formData.allowNegativeStock}
+                onChange={handleChange}
+                disabled={saving}
+              />
+              Allow sales when a product is out of stock
+            </label>
+          </CardContent>
+        </Card>
+
+        {/* Cash Drawer */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900 flex items-center gap-2">
+              <Wallet className="w-5 h-5" />
+              Cash Drawer
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">
+                  Variance Alert Threshold
+                </label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  name="cashVarianceThreshold"
+                  value={formData.cashVarianceThreshold}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className="text-gray-900"
+                />
+                <p className="text-sm text-gray-600">
+                  Notify me when a closing count is over or short by more than
+                  this amount
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Payment Reminders */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900 flex items-center gap-2">
+              <Bell className="w-5 h-5" />
+              Payment Reminders
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                name="paymentReminders"
+                checked={formData.paymentReminders}
+                onChange={handleChange}
+                disabled={saving}
+              />
+              Notify me about unpaid invoices
+            </label>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">
+                Reminder Schedule (days from due date)
+              </label>
+              <Input
+                type="text"
+                name="reminderSchedule"
+                value={formData.reminderSchedule}
+                onChange={handleChange}
+                disabled={saving || !formData.paymentReminders}
+                className="text-gray-900"
+              />
+              <p className="text-sm text-gray-600">
+                Negative numbers are days before the due date, e.g. -3, 0, 7,
+                14, 30 reminds 3 days before, on the day, and 7, 14 and 30 days
+                after. Unpaid sales are marked overdue the day after they fall
+                due.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saving}>
+            {saving ? (
+              "Saving..."
+            ) : (
+              <>
+                <Save className="w-4 h-4 mr-2" />
+                Save Settings
+              </>
+            )}
+          </Button>
+        </div>
+      </form>
+
+      <TaxRatesCard />
+
+      <CurrencyCard />
+
+      <ExchangeRatesCard />
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Landmark, Plus, Trash2, Star } from "lucide-react";
+import { TaxRateType } from "@prisma/client";
+
+interface TaxRate {
+  id: string;
+  name: string;
+  rate: string | number;
+  type: TaxRateType;
+  isDefault: boolean;
+  isActive: boolean;
+  _count?: { products: number };
+}
+
+const TYPE_LABELS: Record<TaxRateType, string> = {
+  [TaxRateType.STANDARD]: "Standard",
+  [TaxRateType.ZERO_RATED]: "Zero-rated",
+  [TaxRateType.EXEMPT]: "Exempt",
+};
+
+const emptyForm = {
+  name: "",
+  rate: "",
+  type: TaxRateType.STANDARD as TaxRateType,
+  isDefault: false,
+};
+
+export function TaxRatesCard() {
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchTaxRates = async () => {
+    try {
+      const res = await fetch("/api/tax-rates");
+      const data = await res.json();
+      if (data.success) {
+        setTaxRates(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching tax rates:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTaxRates();
+  }, []);
+
+  const request = async (url: string, method: string, body?: object) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save tax rate");
+      }
+
+      await fetchTaxRates();
+      return true;
+    } catch (err: any) {
+      setError(err.message || "Failed to save tax rate");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!formData.name.trim()) {
+      setError("Tax rate name is required");
+      return;
+    }
+
+    const added = await request("/api/tax-rates", "POST", {
+      name: formData.name.trim(),
+      rate:
+        formData.type === TaxRateType.STANDARD
+          ? parseFloat(formData.rate) || 0
+          : 0,
+      type: formData.type,
+      isDefault: formData.isDefault,
+    });
+    if (added) setFormData(emptyForm);
+  };
+
+  const handleDelete = async (taxRate: TaxRate) => {
+    const inUse = taxRate._count?.products
+      ? ` ${taxRate._count.products} product(s) will use the default rate instead.`
+      : "";
+    if (!window.confirm(`Delete "${taxRate.name}"?${inUse}`)) return;
+    await request(`/api/tax-rates/${taxRate.id}`, "DELETE");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-gray-900 flex items-center gap-2">
+          <Landmark className="w-5 h-5" />
+          Tax Rates
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Assign a rate to each product. Products without one, and manual
+          items, use the default rate.
+        </p>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <p className="text-sm text-gray-600">Loading tax rates...</p>
+        ) : taxRates.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No tax rates yet - sales are not taxed.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {taxRates.map((taxRate) => (
+              <div
+                key={taxRate.id}
+                className="flex items-center justify-between gap-4 px-4 py-3"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {taxRate.name}
+                    {taxRate.isDefault && (
+                      <span className="ml-2 text-xs font-medium text-blue-600">
+                        Default
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {TYPE_LABELS[taxRate.type]} - {Number(taxRate.rate)}%
+                    {taxRate._count && ` - ${taxRate._count.products} products`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={taxRate.isActive}
+                      disabled={saving}
+                      onChange={(e) =>
+                        request(`/api/tax-rates/${taxRate.id}`, "PATCH", {
+                          isActive: e.target.checked,
+                        })
+                      }
+                    />
+                    Active
+                  </label>
+                  {!taxRate.isDefault && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={saving}
+                      title="Make default"
+                      onClick={() =>
+                        request(`/api/tax-rates/${taxRate.id}`, "PATCH", {
+                          isDefault: true,
+                        })
+                      }
+                    >
+                      <Star className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={saving}
+                    title="Delete"
+                    onClick={() => handleDelete(taxRate)}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Add rate */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Name</label>
+            <Input
+              type="text"
+              value={formData.name}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, name: e.target.value }))
+              }
+              disabled={saving}
+              placeholder="e.g. GST"
+              className="text-gray-900"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Type</label>
+            <select
+              value={formData.type}
+              onChange={(e) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  type: e.target.value as TaxRateType,
+                }))
+              }
+              disabled={saving}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {Object.values(TaxRateType).map((type) => (
+                <option key={type} value={type}>
+                  {TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Rate (%)</label>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              max="100"
+              value={
+                formData.type === TaxRateType.STANDARD ? formData.rate : "0"
+              }
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, rate: e.target.value }))
+              }
+              disabled={saving || formData.type !== TaxRateType.STANDARD}
+              className="text-gray-900"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.isDefault}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    isDefault: e.target.checked,
+                  }))
+                }
+                disabled={saving}
+              />
+              Default rate
+            </label>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleAdd}
+              disabled={saving}
+              className="w-full"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Rate
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,296 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Printer, Wallet } from "lucide-react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { CashMovementType, PaymentMethod, ShiftStatus } from "@prisma/client";
+import { varianceColor } from "./shifts-view";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+interface ShiftReportData {
+  shift: {
+    id: string;
+    status: ShiftStatus;
+    openingFloat: number;
+    openedAt: string;
+    openingNotes?: string | null;
+    closedAt?: string | null;
+    closingNotes?: string | null;
+    cashier: { id: string; name: string };
+    movements: Array<{
+      id: string;
+      type: CashMovementType;
+      amount: number;
+      reason: string;
+      createdAt: string;
+    }>;
+  };
+  report: {
+    totals: Array<{
+      method: PaymentMethod;
+      expected: number;
+      counted: number | null;
+      variance: number | null;
+    }>;
+    openingFloat: number;
+    cashIn: number;
+    cashOut: number;
+    cashTaken: number;
+    cashRefunded: number;
+    sales: { count: number; totalAmount: number; balanceDue: number };
+  };
+}
+
+export function ShiftReportView({ shiftId }: { shiftId: string }) {
+  const formatCurrency = useMoneyFormatter();
+  const [data, setData] = useState<ShiftReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchShift() {
+      try {
+        const res = await fetch(`/api/shifts/${shiftId}`);
+        const result = await res.json();
+        if (result.success) {
+          setData(result.data);
+        } else {
+          setError(result.error || "Failed to load shift");
+        }
+      } catch (error) {
+        console.error("Error fetching shift:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchShift();
+  }, [shiftId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <p className="text-center text-gray-600">
+            {error || "Shift not found"}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { shift, report } = data;
+  const isClosed = shift.status === ShiftStatus.CLOSED;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/dashboard/admin/shifts">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              {isClosed ? "Z Report" : "X Report"}
+            </h1>
+            <p className="text-gray-600 mt-1">
+              {shift.cashier.name} •{" "}
+              {format(new Date(shift.openedAt), "MMM dd, yyyy hh:mm a")} –{" "}
+              {shift.closedAt
+                ? format(new Date(shift.closedAt), "MMM dd, yyyy hh:mm a")
+                : "still open"}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => window.print()}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-gray-900 flex items-center gap-2">
+                <Wallet className="w-5 h-5" />
+                Expected vs Counted
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 px-2 text-sm font-semibold text-gray-700">
+                      Method
+                    </th>
+                    <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                      Expected
+                    </th>
+                    <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                      Counted
+                    </th>
+                    <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                      Variance
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.totals.map((total) => (
+                    <tr key={total.method} className="border-b border-gray-100">
+                      <td className="py-3 px-2 text-sm text-gray-900">
+                        {total.method.replace("_", " ")}
+                      </td>
+                      <td className="py-3 px-2 text-right text-sm text-gray-900">
+                        {formatCurrency(total.expected)}
+                      </td>
+                      <td className="py-3 px-2 text-right text-sm text-gray-900">
+                        {total.counted != null
+                          ? formatCurrency(total.counted)
+                          : "-"}
+                      </td>
+                      <td
+                        className={`py-3 px-2 text-right text-sm font-medium ${
+                          total.variance != null
+                            ? varianceColor(total.variance)
+                            : "text-gray-900"
+                        }`}
+                      >
+                        {total.variance != null
+                          ? formatCurrency(total.variance)
+                          : "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-3">
+                Expected cash is the opening float plus cash taken on sales
+                recorded during the shift, less cash refunds, plus cash in,
+                less cash out.
+              </p>
+            </CardContent>
+          </Card>
+
+          {shift.movements.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-gray-900">Cash In / Out</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {shift.movements.map((m) => (
+                  <div
+                    key={m.id}
+                    className="flex items-center justify-between text-sm"
+                  >
+                    <span className="text-gray-700">
+                      {format(new Date(m.createdAt), "hh:mm a")} • {m.reason}
+                    </span>
+                    <span className="text-gray-900">
+                      {formatCurrency(
+                        m.type === CashMovementType.CASH_IN
+                          ? m.amount
+                          : -m.amount
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="lg:col-span-1 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-gray-900">Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Sales</span>
+                <span className="text-gray-900">{report.sales.count}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Sales Value</span>
+                <span className="text-gray-900">
+                  {formatCurrency(report.sales.totalAmount)}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Sold on Credit</span>
+                <span className="text-gray-900">
+                  {formatCurrency(report.sales.balanceDue)}
+                </span>
+              </div>
+              <div className="pt-3 border-t border-gray-200 flex justify-between text-sm">
+                <span className="text-gray-600">Opening Float</span>
+                <span className="text-gray-900">
+                  {formatCurrency(report.openingFloat)}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Cash Taken</span>
+                <span className="text-gray-900">
+                  {formatCurrency(report.cashTaken)}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Cash Refunded</span>
+                <span className="text-gray-900">
+                  {formatCurrency(-report.cashRefunded)}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Cash In</span>
+                <span className="text-gray-900">
+                  {formatCurrency(report.cashIn)}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Cash Out</span>
+                <span className="text-gray-900">
+                  {formatCurrency(-report.cashOut)}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+
+          {(shift.openingNotes || shift.closingNotes) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-gray-900">Notes</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {shift.openingNotes && (
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                    {shift.openingNotes}
+                  </p>
+                )}
+                {shift.closingNotes && (
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                    {shift.closingNotes}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
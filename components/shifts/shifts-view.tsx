@@ -0,0 +1,608 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Wallet,
+  Download,
+  Eye,
+  LogIn,
+  LogOut,
+  ArrowDownCircle,
+  ArrowUpCircle,
+  X,
+} from "lucide-react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { CashMovementType, PaymentMethod, ShiftStatus } from "@prisma/client";
+import { useMoneyFormatter } from "@/components/layout/currency-provider";
+
+interface ShiftTotal {
+  method: PaymentMethod;
+  expected: number;
+  counted: number | null;
+  variance: number | null;
+}
+
+interface CurrentShift {
+  shift: {
+    id: string;
+    openingFloat: number;
+    openedAt: string;
+    movements: Array<{
+      id: string;
+      type: CashMovementType;
+      amount: number;
+      reason: string;
+      createdAt: string;
+    }>;
+  };
+  report: {
+    totals: ShiftTotal[];
+    cashIn: number;
+    cashOut: number;
+    cashTaken: number;
+    sales: { count: number; totalAmount: number; balanceDue: number };
+  };
+}
+
+interface ShiftRow {
+  id: string;
+  status: ShiftStatus;
+  openingFloat: number;
+  openedAt: string;
+  closedAt?: string | null;
+  expectedCash?: number | null;
+  countedCash?: number | null;
+  cashVariance?: number | null;
+  cashier: { id: string; name: string };
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export const varianceColor = (variance: number) =>
+  variance === 0
+    ? "text-green-700"
+    : variance > 0
+      ? "text-blue-700"
+      : "text-red-600";
+
+export function ShiftsView() {
+  const formatCurrency = useMoneyFormatter();
+  const router = useRouter();
+  const [current, setCurrent] = useState<CurrentShift | null>(null);
+  const [shifts, setShifts] = useState<ShiftRow[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [movement, setMovement] = useState({
+    type: CashMovementType.CASH_OUT as CashMovementType,
+    amount: "",
+    reason: "",
+  });
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [closingNotes, setClosingNotes] = useState("");
+
+  const fetchCurrent = useCallback(async () => {
+    try {
+      const res = await fetch("/api/shifts/current");
+      const data = await res.json();
+      if (data.success) {
+        setCurrent(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching current shift:", error);
+    }
+  }, []);
+
+  const fetchShifts = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/shifts?page=${page}&limit=20`);
+      const data = await res.json();
+      if (data.success) {
+        setShifts(data.data);
+        setPagination(data.pagination);
+      }
+    } catch (error) {
+      console.error("Error fetching shifts:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    fetchCurrent();
+  }, [fetchCurrent]);
+
+  useEffect(() => {
+    fetchShifts();
+  }, [fetchShifts]);
+
+  const post = async (url: string, body: unknown, fallback: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || fallback);
+      }
+      return data.data;
+    } catch (err: any) {
+      setError(err.message || fallback);
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpen = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const shift = await post(
+      "/api/shifts",
+      { openingFloat: parseFloat(openingFloat) || 0 },
+      "Failed to open shift"
+    );
+    if (shift) {
+      setOpeningFloat("");
+      await Promise.all([fetchCurrent(), fetchShifts()]);
+    }
+  };
+
+  const handleMovement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!current) return;
+    const recorded = await post(
+      `/api/shifts/${current.shift.id}/movements`,
+      {
+        type: movement.type,
+        amount: parseFloat(movement.amount) || 0,
+        reason: movement.reason,
+      },
+      "Failed to record cash movement"
+    );
+    if (recorded) {
+      setMovement((prev) => ({ ...prev, amount: "", reason: "" }));
+      await fetchCurrent();
+    }
+  };
+
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!current) return;
+    if (
+      !window.confirm(
+        "Close this shift? The count can't be changed afterwards."
+      )
+    ) {
+      return;
+    }
+
+    const closed = await post(
+      `/api/shifts/${current.shift.id}/close`,
+      {
+        counts: current.report.totals.map((total) => ({
+          method: total.method,
+          counted: parseFloat(counts[total.method]) || 0,
+        })),
+        notes: closingNotes || null,
+      },
+      "Failed to close shift"
+    );
+    if (closed) {
+      router.push(`/dashboard/admin/shifts/${current.shift.id}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Cash Drawer</h1>
+          <p className="text-gray-600 mt-1">
+            Open and close shifts and reconcile your takings
+          </p>
+        </div>
+        <a href="/api/shifts/export" download>
+          <Button variant="outline">
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </a>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <X className="w-5 h-5 text-red-600" />
+              <p className="text-red-600">{error}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!current ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-gray-900 flex items-center gap-2">
+              <LogIn className="w-5 h-5" />
+              Open Shift
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleOpen} className="flex items-end gap-4">
+              <div className="space-y-2 w-64">
+                <label className="text-sm font-medium text-gray-700">
+                  Opening Float (cash in the drawer)
+                </label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={openingFloat}
+                  onChange={(e) => setOpeningFloat(e.target.value)}
+                  disabled={saving}
+                  required
+                  className="text-gray-900"
+                />
+              </div>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Opening..." : "Open Shift"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Running totals */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-gray-900 flex items-center gap-2">
+                  <Wallet className="w-5 h-5" />
+                  Current Shift
+                </CardTitle>
+                <p className="text-sm text-gray-600">
+                  Opened{" "}
+                  {format(new Date(current.shift.openedAt), "MMM dd, yyyy hh:mm a")}{" "}
+                  with a float of {formatCurrency(current.shift.openingFloat)}
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-600">Sales</p>
+                    <p className="font-semibold text-gray-900">
+                      {current.report.sales.count}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">Sales Value</p>
+                    <p className="font-semibold text-gray-900">
+                      {formatCurrency(current.report.sales.totalAmount)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">Cash In</p>
+                    <p className="font-semibold text-gray-900">
+                      {formatCurrency(current.report.cashIn)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">Cash Out</p>
+                    <p className="font-semibold text-gray-900">
+                      {formatCurrency(current.report.cashOut)}
+                    </p>
+                  </div>
+                </div>
+
+                <form onSubmit={handleClose} className="space-y-4">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-gray-200">
+                        <th className="text-left py-2 px-2 text-sm font-semibold text-gray-700">
+                          Method
+                        </th>
+                        <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                          Expected
+                        </th>
+                        <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700">
+                          Counted
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {current.report.totals.map((total) => (
+                        <tr
+                          key={total.method}
+                          className="border-b border-gray-100"
+                        >
+                          <td className="py-2 px-2 text-sm text-gray-900">
+                            {total.method.replace("_", " ")}
+                          </td>
+                          <td className="py-2 px-2 text-right text-sm text-gray-900">
+                            {formatCurrency(total.expected)}
+                          </td>
+                          <td className="py-2 px-2 text-right">
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              value={counts[total.method] || ""}
+                              onChange={(e) =>
+                                setCounts((prev) => ({
+                                  ...prev,
+                                  [total.method]: e.target.value,
+                                }))
+                              }
+                              disabled={saving}
+                              required={total.method === PaymentMethod.CASH}
+                              className="w-36 ml-auto text-right text-gray-900"
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <textarea
+                    rows={2}
+                    value={closingNotes}
+                    onChange={(e) => setClosingNotes(e.target.value)}
+                    disabled={saving}
+                    maxLength={500}
+                    placeholder="Closing notes (optional)"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="flex justify-end">
+                    <Button type="submit" disabled={saving}>
+                      <LogOut className="w-4 h-4 mr-2" />
+                      {saving ? "Closing..." : "Close Shift"}
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Cash in / out */}
+          <div className="lg:col-span-1">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-gray-900">Cash In / Out</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <form onSubmit={handleMovement} className="space-y-3">
+                  <select
+                    value={movement.type}
+                    onChange={(e) =>
+                      setMovement((prev) => ({
+                        ...prev,
+                        type: e.target.value as CashMovementType,
+                      }))
+                    }
+                    disabled={saving}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value={CashMovementType.CASH_OUT}>
+                      Cash out (paid out, bank drop)
+                    </option>
+                    <option value={CashMovementType.CASH_IN}>
+                      Cash in (float top-up)
+                    </option>
+                  </select>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="Amount"
+                    value={movement.amount}
+                    onChange={(e) =>
+                      setMovement((prev) => ({
+                        ...prev,
+                        amount: e.target.value,
+                      }))
+                    }
+                    disabled={saving}
+                    required
+                    className="text-gray-900"
+                  />
+                  <Input
+                    type="text"
+                    placeholder="Reason"
+                    value={movement.reason}
+                    onChange={(e) =>
+                      setMovement((prev) => ({
+                        ...prev,
+                        reason: e.target.value,
+                      }))
+                    }
+                    disabled={saving}
+                    required
+                    maxLength={200}
+                    className="text-gray-900"
+                  />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    disabled={saving}
+                    className="w-full"
+                  >
+                    Record
+                  </Button>
+                </form>
+
+                {current.shift.movements.length > 0 && (
+                  <div className="pt-3 border-t border-gray-200 space-y-2">
+                    {current.shift.movements.map((m) => (
+                      <div
+                        key={m.id}
+                        className="flex items-center justify-between text-sm"
+                      >
+                        <span className="flex items-center gap-2 text-gray-700">
+                          {m.type === CashMovementType.CASH_IN ? (
+                            <ArrowDownCircle className="w-4 h-4 text-green-600" />
+                          ) : (
+                            <ArrowUpCircle className="w-4 h-4 text-red-600" />
+                          )}
+                          {m.reason}
+                        </span>
+                        <span className="text-gray-900">
+                          {formatCurrency(
+                            m.type === CashMovementType.CASH_IN
+                              ? m.amount
+                              : -m.amount
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+
+      {/* History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-gray-900">Shift History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : shifts.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">No shifts yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Opened
+                    </th>
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Closed
+                    </th>
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Cashier
+                    </th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">
+                      Expected Cash
+                    </th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">
+                      Counted Cash
+                    </th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">
+                      Variance
+                    </th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shifts.map((shift) => (
+                    <tr
+                      key={shift.id}
+                      className="border-b border-gray-100 hover:bg-gray-50"
+                    >
+                      <td className="py-3 px-4 text-sm text-gray-900">
+                        {format(new Date(shift.openedAt), "MMM dd, yyyy hh:mm a")}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-900">
+                        {shift.closedAt ? (
+                          format(new Date(shift.closedAt), "MMM dd, yyyy hh:mm a")
+                        ) : (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                            Open
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-900">
+                        {shift.cashier.name}
+                      </td>
+                      <td className="py-3 px-4 text-right text-sm text-gray-900">
+                        {shift.expectedCash != null
+                          ? formatCurrency(shift.expectedCash)
+                          : "-"}
+                      </td>
+                      <td className="py-3 px-4 text-right text-sm text-gray-900">
+                        {shift.countedCash != null
+                          ? formatCurrency(shift.countedCash)
+                          : "-"}
+                      </td>
+                      <td
+                        className={`py-3 px-4 text-right text-sm font-medium ${
+                          shift.cashVariance != null
+                            ? varianceColor(Number(shift.cashVariance))
+                            : "text-gray-900"
+                        }`}
+                      >
+                        {shift.cashVariance != null
+                          ? formatCurrency(shift.cashVariance)
+                          : "-"}
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        <Link href={`/dashboard/admin/shifts/${shift.id}`}>
+                          <Button variant="ghost" size="sm">
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                        </Link>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between pt-4">
+              <p className="text-sm text-gray-600">
+                Page {pagination.page} of {pagination.totalPages}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page <= 1}
+                  onClick={() => setPage((p) => p - 1)}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= pagination.totalPages}
+                  onClick={() => setPage((p) => p + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Keyboard-wedge barcode scanners type a code much faster than a person
+ * can and finish with Enter. Keystrokes arriving within MAX_KEY_GAP_MS of
+ * each other are collected; an Enter after at least MIN_CODE_LENGTH of
+ * them is reported as a scan.
+ */
+const MAX_KEY_GAP_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT"
+  );
+}
+
+/**
+ * Listen for scans on the whole page. Typing into a field is left alone
+ * unless the field opts in with a `data-barcode-input` attribute, so a
+ * scan only lands in the cart when the cashier isn't editing something.
+ * Returns a function that stops listening.
+ */
+export function listenForScans(onScan: (code: string) => void): () => void {
+  let buffer = "";
+  let lastKeyAt = 0;
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    const target = event.target as HTMLElement | null;
+    if (isEditable(target) && !target?.hasAttribute("data-barcode-input")) {
+      buffer = "";
+      return;
+    }
+
+    const now = Date.now();
+    if (now - lastKeyAt > MAX_KEY_GAP_MS) {
+      buffer = "";
+    }
+    lastKeyAt = now;
+
+    if (event.key === "Enter") {
+      if (buffer.length >= MIN_CODE_LENGTH) {
+        // Keep the scanner's Enter from submitting the form
+        event.preventDefault();
+        event.stopPropagation();
+        onScan(buffer);
+      }
+      buffer = "";
+      return;
+    }
+
+    if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+      buffer += event.key;
+    }
+  };
+
+  window.addEventListener("keydown", handleKeyDown, true);
+  return () => window.removeEventListener("keydown", handleKeyDown, true);
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./db";
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+// How long a key is remembered. A retry after this is treated as new.
+export const IDEMPOTENCY_RETENTION_HOURS = 24;
+
+/**
+ * Run a mutating route handler at most once per Idempotency-Key and user.
+ * A retry with the same key gets the stored response back instead of
+ * creating a duplicate. Requests without the header run as normal.
+ *
+ * Responses with a 5xx status, and handlers that throw, are not stored, so
+ * the client can retry them.
+ */
+export async function withIdempotency(
+  request: NextRequest,
+  userId: string,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)?.trim();
+  if (!key) return handler();
+
+  if (key.length > 255) {
+    return NextResponse.json(
+      { error: `${IDEMPOTENCY_HEADER} must be 255 characters or fewer` },
+      { status: 400 }
+    );
+  }
+
+  const endpoint = `${request.method} ${request.nextUrl.pathname}`;
+  const body = await request.clone().text();
+  const requestHash = createHash("sha256")
+    .update(`${endpoint}\n${body}`)
+    .digest("hex");
+
+  const claimed = await claimKey(userId, key, endpoint, requestHash);
+  if (claimed instanceof NextResponse) return claimed;
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await prisma.idempotencyKey.delete({ where: { id: claimed } });
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await prisma.idempotencyKey.delete({ where: { id: claimed } });
+    return response;
+  }
+
+  await prisma.idempotencyKey.update({
+    where: { id: claimed },
+    data: {
+      statusCode: response.status,
+      responseBody: await response.clone().json(),
+    },
+  });
+  return response;
+}
+
+/**
+ * Reserve the key for this request. Returns the reservation's id, or the
+ * response to send when the key has been seen before.
+ */
+async function claimKey(
+  userId: string,
+  key: string,
+  endpoint: string,
+  requestHash: string
+): Promise<string | NextResponse> {
+  const now = new Date();
+  const expiresAt = new Date(
+    now.getTime() + IDEMPOTENCY_RETENTION_HOURS * 60 * 60 * 1000
+  );
+
+  // Clear this user's lapsed keys so they can be reused
+  await prisma.idempotencyKey.deleteMany({
+    where: { userId, expiresAt: { lt: now } },
+  });
+
+  try {
+    const record = await prisma.idempotencyKey.create({
+      data: { userId, key, endpoint, requestHash, expiresAt },
+      select: { id: true },
+    });
+    return record.id;
+  } catch (error) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2002"
+    ) {
+      throw error;
+    }
+  }
+
+  const existing = await prisma.idempotencyKey.findUnique({
+    where: { userId_key: { userId, key } },
+  });
+
+  // Released by a failed first attempt in the meantime
+  if (!existing) return claimKey(userId, key, endpoint, requestHash);
+
+  if (existing.endpoint !== endpoint || existing.requestHash !== requestHash) {
+    return NextResponse.json(
+      {
+        error: `This ${IDEMPOTENCY_HEADER} was already used for a different request`,
+      },
+      { status: 422 }
+    );
+  }
+
+  if (existing.statusCode === null) {
+    return NextResponse.json(
+      { error: "The original request is still being processed" },
+      { status: 409, headers: { "Retry-After": "1" } }
+    );
+  }
+
+  return NextResponse.json(existing.responseBody, {
+    status: existing.statusCode,
+    headers: { "Idempotent-Replayed": "true" },
+  });
+}
@@ -0,0 +1,225 @@
+import type { OfflineSaleRequest } from "@/lib/services/sales/sale.schema";
+import type {
+  OfflineSyncResult,
+  PriceConflict,
+} from "@/lib/services/sales/offline-sync.service";
+import type { StockShortage } from "@/lib/services/sales/sale-creation.service";
+import { baseQuantity, roundQuantity } from "@/lib/utils";
+
+// Browser-side storage for the point of sale, so a till keeps selling when
+// the connection drops. Everything lives in localStorage on the device.
+
+const CATALOG_KEY = "cims:pos-catalog";
+const QUEUE_KEY = "cims:offline-sales";
+
+// Fired on window whenever the queue changes, so the header can update
+export const QUEUE_CHANGED_EVENT = "cims:offline-queue-changed";
+
+export interface CachedCatalog<TProduct, TCustomer> {
+  products: TProduct[];
+  customers: TCustomer[];
+  cachedAt: string;
+}
+
+export interface QueuedSale {
+  clientId: string;
+  queuedAt: string;
+  customerName: string | null;
+  payload: OfflineSaleRequest;
+  status: "pending" | "conflict" | "failed";
+  message?: string;
+  priceConflicts?: PriceConflict[];
+  stockShortages?: StockShortage[];
+}
+
+function readJson<T>(key: string): T | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error saving ${key} on this device:`, error);
+  }
+}
+
+export function readCatalog<TProduct, TCustomer>() {
+  return readJson<CachedCatalog<TProduct, TCustomer>>(CATALOG_KEY);
+}
+
+export function writeCatalog<TProduct, TCustomer>(
+  products: TProduct[],
+  customers: TCustomer[]
+) {
+  writeJson(CATALOG_KEY, {
+    products,
+    customers,
+    cachedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Take sold quantities off the cached catalogue, in each product's base
+ * unit, so later offline sales see what is left on the shelf
+ */
+export function deductCachedStock(
+  items: Array<{ productId?: string; quantity: number; unitId?: string | null }>
+) {
+  const catalog = readCatalog<
+    {
+      id: string;
+      currentStock: number | string;
+      units?: Array<{ id: string; factor: number | string }>;
+    },
+    unknown
+  >();
+  if (!catalog) return;
+
+  const products = new Map(catalog.products.map((p) => [p.id, p]));
+  const sold = new Map<string, number>();
+  for (const item of items) {
+    if (!item.productId) continue;
+    const unit = products
+      .get(item.productId)
+      ?.units?.find((u) => u.id === item.unitId);
+    sold.set(
+      item.productId,
+      (sold.get(item.productId) || 0) +
+        baseQuantity(item.quantity, unit ? Number(unit.factor) : 1)
+    );
+  }
+
+  writeJson(CATALOG_KEY, {
+    ...catalog,
+    products: catalog.products.map((product) =>
+      sold.has(product.id)
+        ? {
+            ...product,
+            currentStock: roundQuantity(
+              Number(product.currentStock) - sold.get(product.id)!
+            ),
+          }
+        : product
+    ),
+  });
+}
+
+export function getQueuedSales(): QueuedSale[] {
+  return readJson<QueuedSale[]>(QUEUE_KEY) || [];
+}
+
+function saveQueue(queue: QueuedSale[]) {
+  writeJson(QUEUE_KEY, queue);
+  window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+}
+
+export function queueSale(
+  payload: OfflineSaleRequest,
+  customerName: string | null
+) {
+  saveQueue([
+    ...getQueuedSales(),
+    {
+      clientId: payload.clientId,
+      queuedAt: new Date().toISOString(),
+      customerName,
+      payload,
+      status: "pending",
+    },
+  ]);
+}
+
+/**
+ * Record the sale even though stock ran out or prices changed meanwhile
+ */
+export function acceptQueuedSaleConflicts(clientId: string) {
+  saveQueue(
+    getQueuedSales().map((entry) =>
+      entry.clientId === clientId
+        ? {
+            ...entry,
+            status: "pending",
+            payload: { ...entry.payload, acceptConflicts: true },
+          }
+        : entry
+    )
+  );
+}
+
+export function retryQueuedSale(clientId: string) {
+  saveQueue(
+    getQueuedSales().map((entry) =>
+      entry.clientId === clientId ? { ...entry, status: "pending" } : entry
+    )
+  );
+}
+
+export function discardQueuedSale(clientId: string) {
+  saveQueue(getQueuedSales().filter((entry) => entry.clientId !== clientId));
+}
+
+let syncInFlight: Promise<number> | null = null;
+
+/**
+ * Send pending sales to the server. Synced sales leave the queue; conflicts
+ * and failures stay for the cashier. Resolves to the number synced.
+ */
+export function syncQueuedSales(): Promise<number> {
+  if (!syncInFlight) {
+    syncInFlight = runSync().finally(() => {
+      syncInFlight = null;
+    });
+  }
+  return syncInFlight;
+}
+
+async function runSync(): Promise<number> {
+  const pending = getQueuedSales()
+    .filter((entry) => entry.status === "pending")
+    .slice(0, 50);
+  if (pending.length === 0) return 0;
+
+  const res = await fetch("/api/sales/sync", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ sales: pending.map((entry) => entry.payload) }),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "Failed to sync sales");
+  }
+
+  const results = new Map<string, OfflineSyncResult>(
+    data.data.map((result: OfflineSyncResult) => [result.clientId, result])
+  );
+
+  // Re-read the queue in case a sale was added while the request was out
+  const queue: QueuedSale[] = [];
+  for (const entry of getQueuedSales()) {
+    const result = results.get(entry.clientId);
+    if (!result) {
+      queue.push(entry);
+    } else if (result.status === "conflict") {
+      queue.push({
+        ...entry,
+        status: "conflict",
+        message: result.message,
+        priceConflicts: result.priceConflicts,
+        stockShortages: result.stockShortages,
+      });
+    } else if (result.status === "failed") {
+      queue.push({ ...entry, status: "failed", message: result.message });
+    }
+  }
+  saveQueue(queue);
+
+  return data.data.filter((r: OfflineSyncResult) => r.status === "synced")
+    .length;
+}
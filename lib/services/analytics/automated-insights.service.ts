@@ -8,6 +8,7 @@ import { forecastRevenue } from "./revenue-forecast.service";
 import { getBestSellingProducts } from "./sales-analytics.service";
 import { getAverageCLV } from "./customer-lifetime-value.service";
 import { getAllCustomersRFMAnalysis } from "./rfm-analysis.service";
+import { businessMoneyFormatter } from "@/lib/services/currency/currency.service";
 
 export interface AutomatedInsight {
   type: AnalyticsType;
@@ -27,6 +28,7 @@ export async function generateAutomatedInsights(
   ownerId: string
 ): Promise<AutomatedInsight[]> {
   const insights: AutomatedInsight[] = [];
+  const formatMoney = await businessMoneyFormatter(ownerId);
 
   // 1. Top Customers Insight
   try {
@@ -36,11 +38,7 @@ export async function generateAutomatedInsights(
       insights.push({
         type: AnalyticsType.TOP_CUSTOMERS,
         title: "Top Customer Performance",
-        summary: `${topCustomer.customerName} is your top customer with ${new Intl.NumberFormat("en-US", {
-          style: "currency",
-          currency: "SLL",
-          minimumFractionDigits: 0,
-        }).format(topCustomer.totalSpent)} in total spending.`,
+        summary: `${topCustomer.customerName} is your top customer with ${formatMoney(topCustomer.totalSpent)} in total spending.`,
         priority: "HIGH",
         actionable: true,
         recommendations: [
@@ -171,11 +169,7 @@ export async function generateAutomatedInsights(
       insights.push({
         type: AnalyticsType.CUSTOMER_ACQUISITION,
         title: "Customer Segment Analysis",
-        summary: `${atRiskSegment.count} customers are in the AT_RISK segment, representing ${new Intl.NumberFormat("en-US", {
-          style: "currency",
-          currency: "SLL",
-          minimumFractionDigits: 0,
-        }).format(atRiskSegment.totalValue)} in potential lost revenue.`,
+        summary: `${atRiskSegment.count} customers are in the AT_RISK segment, representing ${formatMoney(atRiskSegment.totalValue)} in potential lost revenue.`,
         priority: "HIGH",
         actionable: true,
         recommendations: [
@@ -240,11 +234,7 @@ export async function generateAutomatedInsights(
       insights.push({
         type: AnalyticsType.CUSTOMER_ACQUISITION,
         title: "Customer Value Analysis",
-        summary: `Average customer lifetime value is ${new Intl.NumberFormat("en-US", {
-          style: "currency",
-          currency: "SLL",
-          minimumFractionDigits: 0,
-        }).format(clvStats.averageCLV)}. You have ${clvStats.highValueCustomers} high-value customers.`,
+        summary: `Average customer lifetime value is ${formatMoney(clvStats.averageCLV)}. You have ${clvStats.highValueCustomers} high-value customers.`,
         priority: "MEDIUM",
         actionable: true,
         recommendations: [
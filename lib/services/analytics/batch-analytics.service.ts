@@ -2,6 +2,7 @@ import { prisma } from "@/lib/db";
 import { updateAllLoyaltyScores } from "./loyalty-score.service";
 import { segmentCustomers } from "./customer-segmentation.service";
 import { generateAndSaveInsights } from "./automated-insights.service";
+import { runOverdueDetection } from "./overdue-detection.service";
 
 export interface BatchAnalyticsResult {
   success: boolean;
@@ -12,7 +13,8 @@ export interface BatchAnalyticsResult {
 
 /**
  * Run batch analytics processing for a business
- * Updates all customer scores, segments, and generates insights
+ * Updates all customer scores, segments, and generates insights, then
+ * flags overdue sales
  */
 export async function runBatchAnalytics(
   ownerId: string
@@ -46,6 +48,16 @@ export async function runBatchAnalytics(
       errors.push(`Failed to generate insights: ${error.message}`);
     }
 
+    // 4. Flag overdue credit sales and send payment reminders
+    try {
+      const overdue = await runOverdueDetection(ownerId);
+      tasksCompleted.push(
+        `Flagged ${overdue.flaggedOverdue} overdue sales and sent ${overdue.remindersSent} payment reminders`
+      );
+    } catch (error: any) {
+      errors.push(`Failed to run overdue detection: ${error.message}`);
+    }
+
     const duration = Date.now() - startTime;
 
     return {
@@ -1,4 +1,5 @@
 import { prisma } from "@/lib/db";
+import { baseQuantity, roundQuantity } from "@/lib/utils";
 import { Customer } from "@prisma/client";
 import { calculateLoyaltyScore } from "./loyalty-score.service";
 import { calculateChurnRisk, ChurnRiskAnalysis } from "./churn-risk.service";
@@ -86,7 +87,10 @@ export async function getCustomerInsights(customerId: string): Promise<CustomerI
   sales.forEach((sale) => {
     sale.items.forEach((item) => {
       const productName = item.productName;
-      productCounts[productName] = (productCounts[productName] || 0) + item.quantity;
+      productCounts[productName] = roundQuantity(
+        (productCounts[productName] || 0) +
+          baseQuantity(Number(item.quantity), Number(item.unitFactor))
+      );
     });
   });
   const topProducts = Object.entries(productCounts)
@@ -0,0 +1,244 @@
+import { prisma } from "@/lib/db";
+import { NotificationType, PaymentStatus } from "@prisma/client";
+import { differenceInCalendarDays, startOfDay } from "date-fns";
+import { REVERSED_SALE_STATUSES } from "@/lib/services/sales/sale-lifecycle.service";
+import { businessMoneyFormatter } from "@/lib/services/currency/currency.service";
+import { refreshSalesDays } from "@/lib/services/sales/sales-stats.service";
+
+export interface OverdueDetectionResult {
+  flaggedOverdue: number;
+  clearedOverdue: number;
+  remindersSent: number;
+}
+
+// Days from the due date a reminder goes out; negative is before it
+export const DEFAULT_REMINDER_SCHEDULE = [-3, 0, 7, 14, 30];
+
+/**
+ * Latest step of the reminder schedule reached on a given day, or null
+ * if the first reminder is not due yet
+ */
+export function reachedReminderStep(
+  schedule: number[],
+  dueDate: Date,
+  now: Date
+): number | null {
+  const daysFromDue = differenceInCalendarDays(now, dueDate);
+  const reached = schedule.filter((offset) => offset <= daysFromDue);
+  return reached.length > 0 ? Math.max(...reached) : null;
+}
+
+function reminderText(
+  invoiceNumber: string,
+  customerName: string,
+  balance: string, // Formatted balance due
+  offsetDays: number
+): { title: string; message: string } {
+  const invoice = `Invoice ${invoiceNumber} for ${customerName} (${balance} outstanding)`;
+
+  if (offsetDays < 0) {
+    return {
+      title: "Payment Due Soon",
+      message: `${invoice} is due in ${-offsetDays} day${offsetDays === -1 ? "" : "s"}.`,
+    };
+  }
+  if (offsetDays === 0) {
+    return { title: "Payment Due Today", message: `${invoice} is due today.` };
+  }
+  return {
+    title: "Payment Overdue",
+    message: `${invoice} is ${offsetDays} day${offsetDays === 1 ? "" : "s"} overdue.`,
+  };
+}
+
+/**
+ * Mark unpaid sales past their due date as OVERDUE, and put sales whose
+ * due date was moved back into the future back to PENDING or PARTIAL
+ */
+async function updateOverdueStatuses(
+  ownerId: string,
+  now: Date
+): Promise<{ flagged: number; cleared: number }> {
+  const today = startOfDay(now);
+  const open = {
+    ownerId,
+    balanceDue: { gt: 0 },
+    status: { notIn: REVERSED_SALE_STATUSES },
+  };
+
+  const overdueNow = {
+    ...open,
+    dueDate: { lt: today },
+    paymentStatus: { in: [PaymentStatus.PENDING, PaymentStatus.PARTIAL] },
+  };
+  const notYetDue = {
+    ...open,
+    paymentStatus: PaymentStatus.OVERDUE,
+    OR: [{ dueDate: null }, { dueDate: { gte: today } }],
+  };
+
+  return prisma.$transaction(
+    async (tx) => {
+      // Days whose pending and overdue balances are about to move
+      const moving = await tx.sale.findMany({
+        where: { OR: [overdueNow, notYetDue] },
+        select: { saleDate: true },
+      });
+
+      const flagged = await tx.sale.updateMany({
+        where: overdueNow,
+        data: { paymentStatus: PaymentStatus.OVERDUE },
+      });
+      const clearedPartial = await tx.sale.updateMany({
+        where: { ...notYetDue, amountPaid: { gt: 0 } },
+        data: { paymentStatus: PaymentStatus.PARTIAL },
+      });
+      const clearedPending = await tx.sale.updateMany({
+        where: { ...notYetDue, amountPaid: { lte: 0 } },
+        data: { paymentStatus: PaymentStatus.PENDING },
+      });
+
+      await refreshSalesDays(tx, ownerId, moving.map((sale) => sale.saleDate));
+
+      return {
+        flagged: flagged.count,
+        cleared: clearedPartial.count + clearedPending.count,
+      };
+    },
+    { timeout: 60000 }
+  );
+}
+
+/**
+ * Raise a PAYMENT_OVERDUE notification for each open invoice that has
+ * reached a new step of the reminder schedule. Only the latest step
+ * reached is sent, so an invoice found long overdue gets one reminder
+ * rather than the whole backlog. Changing the due date restarts the
+ * schedule.
+ */
+async function sendPaymentReminders(
+  ownerId: string,
+  schedule: number[],
+  now: Date
+): Promise<number> {
+  if (schedule.length === 0) return 0;
+
+  const sales = await prisma.sale.findMany({
+    where: {
+      ownerId,
+      balanceDue: { gt: 0 },
+      dueDate: { not: null },
+      status: { notIn: REVERSED_SALE_STATUSES },
+    },
+    select: {
+      id: true,
+      invoiceNumber: true,
+      dueDate: true,
+      balanceDue: true,
+      currency: true,
+      customer: { select: { name: true } },
+      reminders: { select: { offsetDays: true, dueDate: true } },
+    },
+  });
+
+  const formatMoney = await businessMoneyFormatter(ownerId);
+  let sent = 0;
+
+  for (const sale of sales) {
+    const dueDate = sale.dueDate!;
+    const step = reachedReminderStep(schedule, dueDate, now);
+    if (step === null) continue;
+
+    const alreadySent = sale.reminders
+      .filter((r) => r.dueDate.getTime() === dueDate.getTime())
+      .map((r) => r.offsetDays);
+    if (alreadySent.length > 0 && step <= Math.max(...alreadySent)) continue;
+
+    const balanceDue = Number(sale.balanceDue);
+    const { title, message } = reminderText(
+      sale.invoiceNumber,
+      sale.customer?.name || "Walk-in Customer",
+      formatMoney(balanceDue, sale.currency),
+      step
+    );
+
+    // The unique reminder row stops a concurrent run sending it twice
+    try {
+      await prisma.$transaction([
+        prisma.paymentReminder.create({
+          data: { saleId: sale.id, ownerId, offsetDays: step, dueDate },
+        }),
+        prisma.notification.create({
+          data: {
+            type: NotificationType.PAYMENT_OVERDUE,
+            title,
+            message,
+            actionUrl: `/dashboard/admin/sales/${sale.id}`,
+            metadata: {
+              saleId: sale.id,
+              invoiceNumber: sale.invoiceNumber,
+              offsetDays: step,
+              balanceDue,
+            },
+            ownerId,
+          },
+        }),
+      ]);
+    } catch (error: any) {
+      if (error.code === "P2002") continue;
+      throw error;
+    }
+    sent++;
+  }
+
+  return sent;
+}
+
+/**
+ * Flag past-due sales and send any reminders due for a business
+ */
+export async function runOverdueDetection(
+  ownerId: string,
+  now: Date = new Date()
+): Promise<OverdueDetectionResult> {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId: ownerId },
+    select: { paymentReminders: true, reminderSchedule: true },
+  });
+
+  const { flagged, cleared } = await updateOverdueStatuses(ownerId, now);
+
+  const remindersEnabled = settings?.paymentReminders ?? true;
+  const schedule = settings?.reminderSchedule ?? DEFAULT_REMINDER_SCHEDULE;
+  const remindersSent = remindersEnabled
+    ? await sendPaymentReminders(ownerId, schedule, now)
+    : 0;
+
+  return { flaggedOverdue: flagged, clearedOverdue: cleared, remindersSent };
+}
+
+/**
+ * Run overdue detection for all businesses (scheduled job)
+ */
+export async function runOverdueDetectionForAll(): Promise<{
+  totalBusinesses: number;
+  results: Array<{ ownerId: string; result?: OverdueDetectionResult; error?: string }>;
+}> {
+  const users = await prisma.user.findMany({
+    where: { isActive: true },
+    select: { id: true },
+  });
+
+  // One business at a time keeps the job light on the database
+  const results = [];
+  for (const user of users) {
+    try {
+      const result = await runOverdueDetection(user.id);
+      results.push({ ownerId: user.id, result });
+    } catch (error: any) {
+      results.push({ ownerId: user.id, error: error.message });
+    }
+  }
+
+  return { totalBusinesses: users.length, results };
+}
@@ -1,4 +1,5 @@
 import { prisma } from "@/lib/db";
+import { toBaseAmount } from "@/lib/services/sales/exchange-rate.service";
 import { startOfMonth, endOfMonth, addMonths, format, subMonths } from "date-fns";
 
 export interface RevenueForecast {
@@ -43,7 +44,10 @@ export async function forecastRevenue(
       },
     });
 
-    const revenue = sales.reduce((sum, s) => sum + Number(s.totalAmount), 0);
+    const revenue = sales.reduce(
+      (sum, s) => sum + toBaseAmount(s.totalAmount, s.exchangeRate),
+      0
+    );
     historicalData.push(revenue);
     historicalDates.push(monthStart);
   }
@@ -1,4 +1,7 @@
 import { prisma } from "@/lib/db";
+import { Prisma } from "@prisma/client";
+import { baseQuantity, roundQuantity } from "@/lib/utils";
+import { toBaseAmount } from "@/lib/services/sales/exchange-rate.service";
 import { startOfMonth, endOfMonth, subMonths, format, parseISO } from "date-fns";
 
 export interface SalesTrendData {
@@ -25,6 +28,16 @@ export interface RegionalSalesData {
   averageOrderValue: number;
 }
 
+/**
+ * A sale's total in the base currency, at the rate it was made at
+ */
+function baseTotal(sale: {
+  totalAmount: Prisma.Decimal;
+  exchangeRate: Prisma.Decimal;
+}): number {
+  return toBaseAmount(sale.totalAmount, sale.exchangeRate);
+}
+
 /**
  * Get monthly sales trends
  */
@@ -51,7 +64,7 @@ export async function getSalesTrends(
       },
     });
 
-    const totalRevenue = sales.reduce((sum, s) => sum + Number(s.totalAmount), 0);
+    const totalRevenue = sales.reduce((sum, s) => sum + baseTotal(s), 0);
     const numberOfOrders = sales.length;
     const averageOrderValue = numberOfOrders > 0 ? totalRevenue / numberOfOrders : 0;
 
@@ -98,20 +111,55 @@ export async function getPaymentMethodAnalysis(
 
   const sales = await prisma.sale.findMany({
     where,
+    include: {
+      payments: {
+        select: { method: true, amount: true, exchangeRate: true },
+      },
+    },
   });
 
   const methodStats: Record<string, { count: number; totalAmount: number }> = {};
 
-  sales.forEach((sale) => {
-    const method = sale.paymentMethod;
+  const addTender = (method: string, amount: number) => {
     if (!methodStats[method]) {
       methodStats[method] = { count: 0, totalAmount: 0 };
     }
     methodStats[method].count++;
-    methodStats[method].totalAmount += Number(sale.totalAmount);
+    methodStats[method].totalAmount += amount;
+  };
+
+  // Revenue is attributed per tender. Sales recorded before the payment
+  // ledger count as one tender in the sale's method, and whatever is
+  // still owed counts as credit. Amounts are in the base currency.
+  sales.forEach((sale) => {
+    const totalAmount = baseTotal(sale);
+    const tenders =
+      sale.payments.length > 0
+        ? sale.payments.map((p) => ({
+            method: p.method as string,
+            amount: toBaseAmount(p.amount, p.exchangeRate),
+          }))
+        : [
+            {
+              method: sale.paymentMethod as string,
+              amount: Math.min(
+                toBaseAmount(sale.amountPaid, sale.exchangeRate),
+                totalAmount
+              ),
+            },
+          ];
+
+    tenders
+      .filter((t) => t.amount > 0)
+      .forEach((t) => addTender(t.method, t.amount));
+
+    const paid = tenders.reduce((sum, t) => sum + t.amount, 0);
+    if (totalAmount - paid > 0) {
+      addTender("CREDIT", totalAmount - paid);
+    }
   });
 
-  const totalAmount = sales.reduce((sum, s) => sum + Number(s.totalAmount), 0);
+  const totalAmount = sales.reduce((sum, s) => sum + baseTotal(s), 0);
 
   const analysis: PaymentMethodAnalysis[] = Object.entries(methodStats).map(
     ([method, stats]) => ({
@@ -169,7 +217,7 @@ export async function getRegionalSales(
         };
       }
       regionStats[regionId].sales++;
-      regionStats[regionId].revenue += Number(sale.totalAmount);
+      regionStats[regionId].revenue += baseTotal(sale);
     }
   });
 
@@ -218,12 +266,16 @@ export async function getBestSellingProducts(
           id: true,
           name: true,
           sku: true,
+          unit: true,
         },
       },
+      sale: {
+        select: { exchangeRate: true },
+      },
     },
   });
 
-  const productStats: Record<string, { name: string; sku: string; quantity: number; revenue: number }> = {};
+  const productStats: Record<string, { name: string; sku: string; unit: string | null; quantity: number; revenue: number }> = {};
 
   saleItems.forEach((item) => {
     const productId = item.productId || item.productName;
@@ -231,12 +283,20 @@ export async function getBestSellingProducts(
       productStats[productId] = {
         name: item.productName,
         sku: item.product?.sku || "N/A",
+        unit: item.product?.unit || null,
         quantity: 0,
         revenue: 0,
       };
     }
-    productStats[productId].quantity += item.quantity;
-    productStats[productId].revenue += Number(item.totalPrice);
+    // Counted in the base unit, whichever unit each line was sold in
+    productStats[productId].quantity = roundQuantity(
+      productStats[productId].quantity +
+        baseQuantity(Number(item.quantity), Number(item.unitFactor))
+    );
+    productStats[productId].revenue += toBaseAmount(
+      item.totalPrice,
+      item.sale.exchangeRate
+    );
   });
 
   const bestSellers = Object.entries(productStats)
@@ -244,6 +304,7 @@ export async function getBestSellingProducts(
       productId,
       productName: stats.name,
       sku: stats.sku,
+      unit: stats.unit,
       totalQuantity: stats.quantity,
       totalRevenue: stats.revenue,
       averagePrice: stats.quantity > 0 ? stats.revenue / stats.quantity : 0,
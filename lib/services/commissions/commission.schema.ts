@@ -0,0 +1,31 @@
+import { CommissionBasis } from "@prisma/client";
+import { z } from "zod";
+
+const commissionRuleFields = {
+  // Product category the rule covers; blank covers every other category
+  category: z
+    .string()
+    .trim()
+    .max(100)
+    .optional()
+    .nullable()
+    .transform((category) => category || null),
+  basis: z.nativeEnum(CommissionBasis),
+  rate: z.number().min(0).max(100), // Percentage of the basis
+};
+
+export const commissionRuleSchema = z.object({
+  staffId: z.string().min(1, "Staff member is required"),
+  ...commissionRuleFields,
+  basis: commissionRuleFields.basis.default(CommissionBasis.REVENUE),
+});
+
+// The staff member stays; fields left out of an update stay as they are
+export const commissionRuleUpdateSchema = z
+  .object(commissionRuleFields)
+  .partial();
+
+export type CommissionRuleInput = z.infer<typeof commissionRuleSchema>;
+export type CommissionRuleUpdateInput = z.infer<
+  typeof commissionRuleUpdateSchema
+>;
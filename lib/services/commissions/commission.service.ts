@@ -0,0 +1,308 @@
+import { prisma } from "@/lib/db";
+import { CommissionBasis, Prisma, SaleStatus } from "@prisma/client";
+import {
+  roundMoney,
+  saleLineValues,
+} from "@/lib/services/sales/pricing.service";
+import { toBaseAmount } from "@/lib/services/sales/exchange-rate.service";
+import { listSellers } from "@/lib/services/sales/seller.service";
+import type {
+  CommissionRuleInput,
+  CommissionRuleUpdateInput,
+} from "./commission.schema";
+
+/**
+ * Thrown when a commission rule can't be saved
+ */
+export class CommissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommissionError";
+  }
+}
+
+export interface CommissionCategoryLine {
+  category: string | null; // Null for products without a category and manual items
+  basis: CommissionBasis | null; // Null when no rule covers the category
+  rate: number;
+  revenue: number;
+  margin: number;
+  commission: number;
+}
+
+export interface StaffCommission {
+  staff: { id: string; name: string };
+  salesCount: number;
+  revenue: number; // After discounts and refunds, before tax
+  margin: number; // Revenue less cost, on lines whose cost is known
+  uncostedRevenue: number; // Lines without a cost, e.g. manual items, earn no margin commission
+  commission: number;
+  categories: CommissionCategoryLine[];
+}
+
+export interface CommissionStatement {
+  staff: StaffCommission[]; // Highest revenue first
+  totals: {
+    salesCount: number;
+    revenue: number;
+    margin: number;
+    commission: number;
+  };
+}
+
+const ruleInclude = {
+  staff: { select: { id: true, name: true } },
+} satisfies Prisma.CommissionRuleInclude;
+
+/**
+ * List a business's commission rules, grouped by staff member with the
+ * catch-all rule first
+ */
+export async function listCommissionRules(ownerId: string) {
+  return prisma.commissionRule.findMany({
+    where: { ownerId },
+    include: ruleInclude,
+    orderBy: [
+      { staff: { name: "asc" } },
+      { category: { sort: "asc", nulls: "first" } },
+    ],
+  });
+}
+
+/**
+ * A staff member has at most one rule per category, and one catch-all.
+ * Categories are matched ignoring case, as products are.
+ */
+async function assertRuleIsNew(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  staffId: string,
+  category: string | null,
+  exceptId?: string
+): Promise<void> {
+  const existing = await tx.commissionRule.findFirst({
+    where: {
+      ownerId,
+      staffId,
+      category: category ? { equals: category, mode: "insensitive" } : null,
+      ...(exceptId && { id: { not: exceptId } }),
+    },
+  });
+  if (existing) {
+    throw new CommissionError(
+      category
+        ? `This staff member already has a rule for "${category}"`
+        : "This staff member already has a rule for all categories"
+    );
+  }
+}
+
+export async function createCommissionRule(
+  ownerId: string,
+  data: CommissionRuleInput
+) {
+  return prisma.$transaction(async (tx) => {
+    const sellers = await listSellers(ownerId, tx);
+    if (!sellers.some((seller) => seller.id === data.staffId)) {
+      throw new CommissionError("Staff member not found");
+    }
+
+    await assertRuleIsNew(tx, ownerId, data.staffId, data.category);
+
+    return tx.commissionRule.create({
+      data: { ...data, ownerId },
+      include: ruleInclude,
+    });
+  });
+}
+
+/**
+ * Update a commission rule. Returns null when it doesn't belong to the
+ * business. Statements are worked out when they are read, so a new rate
+ * applies to past sales too.
+ */
+export async function updateCommissionRule(
+  id: string,
+  ownerId: string,
+  data: CommissionRuleUpdateInput
+) {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.commissionRule.findFirst({
+      where: { id, ownerId },
+    });
+    if (!existing) return null;
+
+    if (data.category !== undefined) {
+      await assertRuleIsNew(tx, ownerId, existing.staffId, data.category, id);
+    }
+
+    return tx.commissionRule.update({
+      where: { id },
+      data,
+      include: ruleInclude,
+    });
+  });
+}
+
+export async function deleteCommissionRule(id: string, ownerId: string) {
+  const result = await prisma.commissionRule.deleteMany({
+    where: { id, ownerId },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Work out what each staff member earned on the completed sales credited
+ * to them in a period. Each line earns at the seller's rule for its
+ * product category, or else their catch-all rule. Revenue is the line's
+ * share of the sale after discounts, less tax and anything refunded;
+ * margin is that less the product's cost when the sale was made. Amounts
+ * are in the base currency.
+ */
+export async function getCommissionStatement(
+  ownerId: string,
+  from: Date,
+  to: Date,
+  staffId?: string | null
+): Promise<CommissionStatement> {
+  const [sales, rules] = await Promise.all([
+    prisma.sale.findMany({
+      where: {
+        ownerId,
+        status: SaleStatus.COMPLETED,
+        saleDate: { gte: from, lte: to },
+        ...(staffId && { soldById: staffId }),
+      },
+      select: {
+        discount: true,
+        exchangeRate: true,
+        soldBy: { select: { id: true, name: true } },
+        items: {
+          select: {
+            quantity: true,
+            unitFactor: true,
+            totalPrice: true,
+            taxAmount: true,
+            unitCost: true,
+            category: true,
+            product: { select: { costPrice: true, category: true } },
+            refundItems: { select: { quantity: true } },
+          },
+        },
+      },
+    }),
+    prisma.commissionRule.findMany({
+      where: { ownerId, ...(staffId && { staffId }) },
+    }),
+  ]);
+
+  const ruleFor = (sellerId: string, category: string | null) =>
+    (category &&
+      rules.find(
+        (rule) =>
+          rule.staffId === sellerId &&
+          rule.category?.toLowerCase() === category.toLowerCase()
+      )) ||
+    rules.find((rule) => rule.staffId === sellerId && rule.category === null) ||
+    null;
+
+  const byStaff = new Map<
+    string,
+    StaffCommission & { lines: Map<string, CommissionCategoryLine> }
+  >();
+
+  for (const sale of sales) {
+    let entry = byStaff.get(sale.soldBy.id);
+    if (!entry) {
+      entry = {
+        staff: sale.soldBy,
+        salesCount: 0,
+        revenue: 0,
+        margin: 0,
+        uncostedRevenue: 0,
+        commission: 0,
+        categories: [],
+        lines: new Map(),
+      };
+      byStaff.set(sale.soldBy.id, entry);
+    }
+    entry.salesCount++;
+
+    const values = saleLineValues(sale.items, sale.discount);
+    sale.items.forEach((item, index) => {
+      const quantity = Number(item.quantity);
+      const refunded = item.refundItems.reduce(
+        (sum, r) => sum + Number(r.quantity),
+        0
+      );
+      const kept = quantity > 0 ? Math.max(0, quantity - refunded) / quantity : 0;
+
+      const revenue = toBaseAmount(
+        (values[index] - Number(item.taxAmount)) * kept,
+        sale.exchangeRate
+      );
+      const unitCost =
+        item.unitCost !== null
+          ? Number(item.unitCost)
+          : item.product
+            ? Number(item.product.costPrice) * Number(item.unitFactor)
+            : null;
+      const margin =
+        unitCost !== null ? roundMoney(revenue - unitCost * quantity * kept) : null;
+
+      const category = item.category ?? item.product?.category ?? null;
+      const rule = ruleFor(sale.soldBy.id, category);
+      const rate = rule ? Number(rule.rate) : 0;
+      const base =
+        rule?.basis === CommissionBasis.MARGIN ? margin ?? 0 : revenue;
+      const commission = (base * rate) / 100;
+
+      const key = category?.toLowerCase() ?? "";
+      const line = entry.lines.get(key) ?? {
+        category,
+        basis: rule?.basis ?? null,
+        rate,
+        revenue: 0,
+        margin: 0,
+        commission: 0,
+      };
+      line.revenue += revenue;
+      line.margin += margin ?? 0;
+      line.commission += commission;
+      entry.lines.set(key, line);
+
+      entry.revenue += revenue;
+      entry.margin += margin ?? 0;
+      if (margin === null) entry.uncostedRevenue += revenue;
+      entry.commission += commission;
+    });
+  }
+
+  const staff: StaffCommission[] = Array.from(byStaff.values())
+    .map(({ lines, ...entry }) => ({
+      ...entry,
+      revenue: roundMoney(entry.revenue),
+      margin: roundMoney(entry.margin),
+      uncostedRevenue: roundMoney(entry.uncostedRevenue),
+      commission: roundMoney(entry.commission),
+      categories: Array.from(lines.values())
+        .map((line) => ({
+          ...line,
+          revenue: roundMoney(line.revenue),
+          margin: roundMoney(line.margin),
+          commission: roundMoney(line.commission),
+        }))
+        .sort((a, b) => b.revenue - a.revenue),
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
+
+  return {
+    staff,
+    totals: {
+      salesCount: staff.reduce((sum, s) => sum + s.salesCount, 0),
+      revenue: roundMoney(staff.reduce((sum, s) => sum + s.revenue, 0)),
+      margin: roundMoney(staff.reduce((sum, s) => sum + s.margin, 0)),
+      commission: roundMoney(staff.reduce((sum, s) => sum + s.commission, 0)),
+    },
+  };
+}
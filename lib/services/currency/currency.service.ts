@@ -0,0 +1,65 @@
+import { prisma } from "@/lib/db";
+import { Prisma } from "@prisma/client";
+import { DEFAULT_CURRENCY, formatMoney, type LegacyCurrency } from "@/lib/utils";
+
+export interface CurrencyDisplay {
+  currency: string; // The business's currency
+  // Old currency shown alongside during a redenomination, if still on
+  legacy: (LegacyCurrency & { until: Date }) | null;
+}
+
+/**
+ * The business's currency and, while a redenomination transition is
+ * running, the old currency its amounts are also shown in
+ */
+export async function getCurrencyDisplay(
+  ownerId: string,
+  client: Prisma.TransactionClient = prisma,
+  now: Date = new Date()
+): Promise<CurrencyDisplay> {
+  const settings = await client.userSettings.findUnique({
+    where: { userId: ownerId },
+    select: {
+      currency: true,
+      legacyCurrency: true,
+      legacyCurrencyFactor: true,
+      legacyDisplayUntil: true,
+    },
+  });
+
+  const inTransition =
+    settings?.legacyCurrency &&
+    settings.legacyCurrencyFactor &&
+    settings.legacyDisplayUntil &&
+    settings.legacyDisplayUntil > now;
+
+  return {
+    currency: settings?.currency || DEFAULT_CURRENCY,
+    legacy: inTransition
+      ? {
+          currency: settings.legacyCurrency!,
+          factor: Number(settings.legacyCurrencyFactor),
+          until: settings.legacyDisplayUntil!,
+        }
+      : null,
+  };
+}
+
+/**
+ * Money formatter for server-written text such as notifications and
+ * insights. Amounts are in the business's currency unless another is
+ * given, e.g. a foreign-currency invoice, which has no old-currency
+ * equivalent to show.
+ */
+export async function businessMoneyFormatter(
+  ownerId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  const display = await getCurrencyDisplay(ownerId, client);
+  return (amount: number | string, currency: string = display.currency) =>
+    formatMoney(
+      amount,
+      currency,
+      currency === display.currency ? display.legacy : null
+    );
+}
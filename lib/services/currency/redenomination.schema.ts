@@ -0,0 +1,13 @@
+import { z } from "zod";
+import { currencyCodeSchema } from "@/lib/services/sales/exchange-rate.schema";
+
+// Move a business to a new currency by dividing every amount it has
+// recorded, e.g. SLL to SLE at 1000 old Leones per new Leone
+export const redenominationSchema = z.object({
+  toCurrency: currencyCodeSchema,
+  factor: z.number().positive("Factor must be greater than zero"), // Old units per new unit
+  // Show old-currency amounts alongside until this date
+  legacyDisplayUntil: z.string().optional().nullable(),
+});
+
+export type RedenominationInput = z.infer<typeof redenominationSchema>;
@@ -0,0 +1,355 @@
+import { prisma } from "@/lib/db";
+import { DiscountType, Prisma } from "@prisma/client";
+import { addMonths, endOfDay } from "date-fns";
+import { DEFAULT_CURRENCY } from "@/lib/utils";
+import type { SaleItemInput } from "@/lib/services/sales/sale.schema";
+import type { RedenominationInput } from "./redenomination.schema";
+
+/**
+ * Thrown when a business can't be moved to a new currency
+ */
+export class RedenominationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedenominationError";
+  }
+}
+
+export interface RedenominationSummary {
+  rows: Record<string, number>; // Rows converted, by table
+  // Key figures in the base currency, before in the old currency and
+  // after in the new one
+  totals: Record<string, { before: number; after: number }>;
+}
+
+// Old-currency amounts are shown alongside for this long by default
+const DEFAULT_LEGACY_DISPLAY_MONTHS = 6;
+
+/**
+ * Figures checked before and after a redenomination: after times the
+ * factor should match before, give or take rounding
+ */
+async function keyTotals(
+  tx: Prisma.TransactionClient,
+  ownerId: string
+): Promise<Record<string, number>> {
+  const [row] = await tx.$queryRaw<
+    Array<{
+      sales: Prisma.Decimal;
+      payments: Prisma.Decimal;
+      customerSpend: Prisma.Decimal;
+      catalogue: Prisma.Decimal;
+    }>
+  >`
+    SELECT
+      (SELECT COALESCE(SUM("totalAmount" * "exchangeRate"), 0) FROM sales WHERE "ownerId" = ${ownerId}) AS "sales",
+      (SELECT COALESCE(SUM("amount" * "exchangeRate"), 0) FROM payments WHERE "ownerId" = ${ownerId}) AS "payments",
+      (SELECT COALESCE(SUM("totalSpent"), 0) FROM customers WHERE "ownerId" = ${ownerId}) AS "customerSpend",
+      (SELECT COALESCE(SUM("sellingPrice"), 0) FROM products WHERE "ownerId" = ${ownerId}) AS "catalogue"
+  `;
+
+  return {
+    sales: Number(row.sales),
+    payments: Number(row.payments),
+    customerSpend: Number(row.customerSpend),
+    catalogue: Number(row.catalogue),
+  };
+}
+
+/**
+ * Divide the amounts in every table that holds money. Sales, their lines,
+ * refunds and payments are only converted when they were in the old
+ * currency; those in another currency keep their amounts and have their
+ * rate rescaled instead. A rate of 1 means the amounts are in the base
+ * currency whatever the row is labelled, so rows recorded before sales
+ * carried a currency are converted too.
+ */
+async function convertAmounts(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  fromCurrency: string,
+  toCurrency: string,
+  factor: number
+): Promise<Record<string, number>> {
+  const f = Prisma.sql`${factor}::numeric`;
+  const inOld = Prisma.sql`(currency = ${fromCurrency} OR "exchangeRate" = 1)`;
+  const oldSales = Prisma.sql`SELECT id FROM sales WHERE "ownerId" = ${ownerId} AND ${inOld}`;
+  const rows: Record<string, number> = {};
+
+  // Lines and refunds first, while their sales still carry the old currency
+  rows.sale_items = await tx.$executeRaw`
+    UPDATE sale_items SET
+      "unitPrice" = ROUND("unitPrice" / ${f}, 2),
+      "totalPrice" = ROUND("totalPrice" / ${f}, 2),
+      "catalogPrice" = ROUND("catalogPrice" / ${f}, 2),
+      "discountValue" = CASE WHEN "discountType" = 'FIXED' THEN ROUND("discountValue" / ${f}, 2) ELSE "discountValue" END,
+      "discountAmount" = ROUND("discountAmount" / ${f}, 2),
+      "taxAmount" = ROUND("taxAmount" / ${f}, 2)
+    WHERE "saleId" IN (${oldSales})
+  `;
+  // Cost snapshots are in the base currency, like product costs, so every
+  // line moves whatever currency its sale was in
+  rows.sale_item_costs = await tx.$executeRaw`
+    UPDATE sale_items SET "unitCost" = ROUND("unitCost" / ${f}, 2)
+    WHERE "unitCost" IS NOT NULL
+      AND "saleId" IN (SELECT id FROM sales WHERE "ownerId" = ${ownerId})
+  `;
+  rows.refund_items = await tx.$executeRaw`
+    UPDATE refund_items SET "amount" = ROUND("amount" / ${f}, 2)
+    WHERE "refundId" IN (SELECT id FROM refunds WHERE "saleId" IN (${oldSales}))
+  `;
+  rows.refunds = await tx.$executeRaw`
+    UPDATE refunds SET
+      "amount" = ROUND("amount" / ${f}, 2),
+      "credited" = ROUND("credited" / ${f}, 2)
+    WHERE "saleId" IN (${oldSales})
+  `;
+
+  rows.payments = await tx.$executeRaw`
+    UPDATE payments SET
+      "amount" = CASE WHEN ${inOld} THEN ROUND("amount" / ${f}, 2) ELSE "amount" END,
+      "exchangeRate" = CASE WHEN ${inOld} THEN 1 ELSE ROUND("exchangeRate" / ${f}, 6) END,
+      currency = CASE WHEN ${inOld} THEN ${toCurrency} ELSE currency END
+    WHERE "ownerId" = ${ownerId}
+  `;
+  rows.sales = await tx.$executeRaw`
+    UPDATE sales SET
+      "subtotal" = CASE WHEN ${inOld} THEN ROUND("subtotal" / ${f}, 2) ELSE "subtotal" END,
+      "discount" = CASE WHEN ${inOld} THEN ROUND("discount" / ${f}, 2) ELSE "discount" END,
+      "tax" = CASE WHEN ${inOld} THEN ROUND("tax" / ${f}, 2) ELSE "tax" END,
+      "totalAmount" = CASE WHEN ${inOld} THEN ROUND("totalAmount" / ${f}, 2) ELSE "totalAmount" END,
+      "amountPaid" = CASE WHEN ${inOld} THEN ROUND("amountPaid" / ${f}, 2) ELSE "amountPaid" END,
+      "balanceDue" = CASE WHEN ${inOld} THEN ROUND("balanceDue" / ${f}, 2) ELSE "balanceDue" END,
+      "changeGiven" = CASE WHEN ${inOld} THEN ROUND("changeGiven" / ${f}, 2) ELSE "changeGiven" END,
+      "amountRefunded" = CASE WHEN ${inOld} THEN ROUND("amountRefunded" / ${f}, 2) ELSE "amountRefunded" END,
+      "exchangeRate" = CASE WHEN ${inOld} THEN 1 ELSE ROUND("exchangeRate" / ${f}, 6) END,
+      currency = CASE WHEN ${inOld} THEN ${toCurrency} ELSE currency END
+    WHERE "ownerId" = ${ownerId}
+  `;
+
+  // Quotes, held carts, the catalogue and the books are all kept in the
+  // business's currency
+  rows.quote_items = await tx.$executeRaw`
+    UPDATE quote_items SET
+      "unitPrice" = ROUND("unitPrice" / ${f}, 2),
+      "totalPrice" = ROUND("totalPrice" / ${f}, 2),
+      "catalogPrice" = ROUND("catalogPrice" / ${f}, 2),
+      "discountValue" = CASE WHEN "discountType" = 'FIXED' THEN ROUND("discountValue" / ${f}, 2) ELSE "discountValue" END,
+      "discountAmount" = ROUND("discountAmount" / ${f}, 2),
+      "taxAmount" = ROUND("taxAmount" / ${f}, 2)
+    WHERE "quoteId" IN (SELECT id FROM quotes WHERE "ownerId" = ${ownerId})
+  `;
+  rows.quotes = await tx.$executeRaw`
+    UPDATE quotes SET
+      "subtotal" = ROUND("subtotal" / ${f}, 2),
+      "discount" = ROUND("discount" / ${f}, 2),
+      "tax" = ROUND("tax" / ${f}, 2),
+      "totalAmount" = ROUND("totalAmount" / ${f}, 2)
+    WHERE "ownerId" = ${ownerId}
+  `;
+  rows.held_carts = await convertHeldCarts(tx, ownerId, factor);
+
+  rows.products = await tx.$executeRaw`
+    UPDATE products SET
+      "costPrice" = ROUND("costPrice" / ${f}, 2),
+      "sellingPrice" = ROUND("sellingPrice" / ${f}, 2)
+    WHERE "ownerId" = ${ownerId}
+  `;
+  rows.product_units = await tx.$executeRaw`
+    UPDATE product_units SET "sellingPrice" = ROUND("sellingPrice" / ${f}, 2)
+    WHERE "productId" IN (SELECT id FROM products WHERE "ownerId" = ${ownerId})
+      AND "sellingPrice" IS NOT NULL
+  `;
+  rows.price_list_items = await tx.$executeRaw`
+    UPDATE price_list_items SET "unitPrice" = ROUND("unitPrice" / ${f}, 2)
+    WHERE "priceListId" IN (SELECT id FROM price_lists WHERE "ownerId" = ${ownerId})
+  `;
+  rows.customers = await tx.$executeRaw`
+    UPDATE customers SET "totalSpent" = ROUND("totalSpent" / ${f}, 2)
+    WHERE "ownerId" = ${ownerId}
+  `;
+
+  rows.shifts = await tx.$executeRaw`
+    UPDATE shifts SET
+      "openingFloat" = ROUND("openingFloat" / ${f}, 2),
+      "expectedCash" = ROUND("expectedCash" / ${f}, 2),
+      "countedCash" = ROUND("countedCash" / ${f}, 2),
+      "cashVariance" = ROUND("cashVariance" / ${f}, 2)
+    WHERE "ownerId" = ${ownerId}
+  `;
+  rows.shift_totals = await tx.$executeRaw`
+    UPDATE shift_totals SET
+      "expected" = ROUND("expected" / ${f}, 2),
+      "counted" = ROUND("counted" / ${f}, 2),
+      "variance" = ROUND("variance" / ${f}, 2)
+    WHERE "shiftId" IN (SELECT id FROM shifts WHERE "ownerId" = ${ownerId})
+  `;
+  rows.cash_movements = await tx.$executeRaw`
+    UPDATE cash_movements SET "amount" = ROUND("amount" / ${f}, 2)
+    WHERE "shiftId" IN (SELECT id FROM shifts WHERE "ownerId" = ${ownerId})
+  `;
+  rows.expenses = await tx.$executeRaw`
+    UPDATE expenses SET "amount" = ROUND("amount" / ${f}, 2)
+    WHERE "ownerId" = ${ownerId}
+  `;
+
+  // The new currency is now the base, so it no longer needs a rate
+  await tx.exchangeRate.deleteMany({
+    where: { ownerId, currency: toCurrency },
+  });
+  rows.exchange_rates = await tx.$executeRaw`
+    UPDATE exchange_rates SET "rate" = ROUND("rate" / ${f}, 6)
+    WHERE "ownerId" = ${ownerId}
+  `;
+
+  return rows;
+}
+
+/**
+ * Held carts keep their lines as submitted, so the prices inside them are
+ * converted one cart at a time
+ */
+async function convertHeldCarts(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  factor: number
+): Promise<number> {
+  const convert = (amount: number) =>
+    Math.round((amount / factor + Number.EPSILON) * 100) / 100;
+
+  const carts = await tx.heldCart.findMany({
+    where: { ownerId },
+    select: { id: true, items: true, subtotal: true, discount: true },
+  });
+
+  for (const cart of carts) {
+    const items = (cart.items as unknown as SaleItemInput[]).map((item) => ({
+      ...item,
+      unitPrice: convert(item.unitPrice),
+      ...(item.discountType === DiscountType.FIXED && {
+        discountValue: convert(item.discountValue),
+      }),
+    }));
+
+    await tx.heldCart.update({
+      where: { id: cart.id },
+      data: {
+        items: items as unknown as Prisma.InputJsonValue,
+        subtotal: convert(Number(cart.subtotal)),
+        discount: convert(Number(cart.discount)),
+      },
+    });
+  }
+
+  return carts.length;
+}
+
+/**
+ * Move a business to a new currency, e.g. SLL to SLE at 1000 to 1. Every
+ * recorded amount is divided by the factor in one transaction, and the
+ * run is kept as a CurrencyMigration with the rows converted and key
+ * totals before and after. Old-currency amounts are shown alongside the
+ * new ones until legacyDisplayUntil.
+ */
+export async function redenominateCurrency(
+  ownerId: string,
+  performedById: string,
+  data: RedenominationInput
+) {
+  const legacyDisplayUntil = data.legacyDisplayUntil
+    ? endOfDay(new Date(data.legacyDisplayUntil))
+    : endOfDay(addMonths(new Date(), DEFAULT_LEGACY_DISPLAY_MONTHS));
+
+  return prisma.$transaction(
+    async (tx) => {
+      // A business without settings has never had its currency saved, so
+      // go by what its latest sale was recorded in
+      const latestSale = await tx.sale.findFirst({
+        where: { ownerId },
+        orderBy: { createdAt: "desc" },
+        select: { currency: true },
+      });
+      const settings = await tx.userSettings.upsert({
+        where: { userId: ownerId },
+        create: {
+          userId: ownerId,
+          currency: latestSale?.currency ?? DEFAULT_CURRENCY,
+        },
+        update: {},
+        select: { currency: true, cashVarianceThreshold: true },
+      });
+      const fromCurrency = settings.currency;
+
+      if (fromCurrency === data.toCurrency) {
+        throw new RedenominationError(
+          `The business already uses ${data.toCurrency}`
+        );
+      }
+
+      // Claim the switch first so two runs can't both divide the amounts
+      const claimed = await tx.userSettings.updateMany({
+        where: { userId: ownerId, currency: fromCurrency },
+        data: {
+          currency: data.toCurrency,
+          legacyCurrency: fromCurrency,
+          legacyCurrencyFactor: data.factor,
+          legacyDisplayUntil,
+          salesStatsBuiltAt: null, // Sales stats are recounted in the new currency
+          cashVarianceThreshold:
+            Math.round(
+              (Number(settings.cashVarianceThreshold) / data.factor +
+                Number.EPSILON) *
+                100
+            ) / 100,
+        },
+      });
+      if (claimed.count === 0) {
+        throw new RedenominationError(
+          "The business currency was changed by someone else. Reload and try again."
+        );
+      }
+
+      const before = await keyTotals(tx, ownerId);
+      const rows = await convertAmounts(
+        tx,
+        ownerId,
+        fromCurrency,
+        data.toCurrency,
+        data.factor
+      );
+      const after = await keyTotals(tx, ownerId);
+
+      const summary: RedenominationSummary = {
+        rows,
+        totals: Object.fromEntries(
+          Object.keys(before).map((key) => [
+            key,
+            { before: before[key], after: after[key] },
+          ])
+        ),
+      };
+
+      return tx.currencyMigration.create({
+        data: {
+          fromCurrency,
+          toCurrency: data.toCurrency,
+          factor: data.factor,
+          summary: summary as unknown as Prisma.InputJsonValue,
+          ownerId,
+          performedById,
+        },
+        include: { performedBy: { select: { id: true, name: true } } },
+      });
+    },
+    // Converts every row the business has, so allow more than the default
+    { timeout: 120000 }
+  );
+}
+
+export async function listCurrencyMigrations(ownerId: string) {
+  return prisma.currencyMigration.findMany({
+    where: { ownerId },
+    include: { performedBy: { select: { id: true, name: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+}
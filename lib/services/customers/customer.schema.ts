@@ -0,0 +1,46 @@
+import { CustomerType } from "@prisma/client";
+import { z } from "zod";
+
+// Blank text clears the field; left out, it stays as it is
+const blankToNull = (value: string | null | undefined) =>
+  value === undefined ? undefined : value || null;
+
+const optionalText = z
+  .string()
+  .trim()
+  .optional()
+  .nullable()
+  .transform(blankToNull);
+
+// No defaults here, so fields left out of an update stay as they are
+export const customerUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    phone: z.string().trim().min(1, "Phone number is required"),
+    alternatePhone: optionalText,
+    email: z
+      .string()
+      .email("Invalid email address")
+      .optional()
+      .nullable()
+      .or(z.literal(""))
+      .transform(blankToNull),
+    address: optionalText,
+    city: z.string().trim().min(1, "City is required"),
+    // Each level must sit inside the one above it; parents left blank are
+    // filled in from the most specific level chosen
+    countryId: optionalText,
+    regionId: optionalText,
+    districtId: optionalText,
+    chiefdomId: optionalText,
+    locationId: optionalText,
+    type: z.nativeEnum(CustomerType),
+    tags: z
+      .array(z.string().trim())
+      .transform((tags) => Array.from(new Set(tags.filter(Boolean)))),
+    notes: optionalText,
+    archived: z.boolean(), // False restores an archived customer
+  })
+  .partial();
+
+export type CustomerUpdateInput = z.infer<typeof customerUpdateSchema>;
@@ -0,0 +1,287 @@
+import { prisma } from "@/lib/db";
+import { LocationStatus, Prisma } from "@prisma/client";
+import type { CustomerUpdateInput } from "./customer.schema";
+
+/**
+ * Thrown when a customer's details can't be saved
+ */
+export class CustomerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CustomerError";
+  }
+}
+
+export interface CustomerLocation {
+  countryId: string | null;
+  regionId: string | null;
+  districtId: string | null;
+  chiefdomId: string | null;
+  locationId: string | null;
+}
+
+const LOCATION_FIELDS = [
+  "countryId",
+  "regionId",
+  "districtId",
+  "chiefdomId",
+  "locationId",
+] as const;
+
+const place = { select: { id: true, name: true } };
+
+const customerInclude = {
+  country: place,
+  region: place,
+  district: place,
+  chiefdom: place,
+  location: place,
+  _count: {
+    select: {
+      sales: true,
+      customerInteractions: true,
+    },
+  },
+} satisfies Prisma.CustomerInclude;
+
+/**
+ * Get a customer with their full location. Archived customers are
+ * returned too, so their history can still be opened.
+ */
+export async function getCustomer(id: string, ownerId: string) {
+  return prisma.customer.findFirst({
+    where: { id, ownerId },
+    include: customerInclude,
+  });
+}
+
+// The parent a place sits in, checked against the one chosen
+function parentOf(
+  chosen: string | null,
+  actual: string,
+  message: string
+): string {
+  if (chosen && chosen !== actual) throw new CustomerError(message);
+  return actual;
+}
+
+/**
+ * Check that each level of a customer's location sits inside the one
+ * above it, filling in parents left blank from the most specific level
+ * chosen. A location alone is enough to place a customer in its
+ * chiefdom, district, region and country.
+ */
+export async function resolveCustomerLocation(
+  client: Prisma.TransactionClient,
+  ids: CustomerLocation
+): Promise<CustomerLocation> {
+  const resolved = { ...ids };
+
+  if (resolved.locationId) {
+    const location = await client.location.findUnique({
+      where: { id: resolved.locationId },
+      select: { chiefdomId: true },
+    });
+    if (!location) throw new CustomerError("Location not found");
+    resolved.chiefdomId = parentOf(
+      resolved.chiefdomId,
+      location.chiefdomId,
+      "The location isn't in the chosen chiefdom"
+    );
+  }
+
+  if (resolved.chiefdomId) {
+    const chiefdom = await client.chiefdom.findUnique({
+      where: { id: resolved.chiefdomId },
+      select: { districtId: true },
+    });
+    if (!chiefdom) throw new CustomerError("Chiefdom not found");
+    resolved.districtId = parentOf(
+      resolved.districtId,
+      chiefdom.districtId,
+      "The chiefdom isn't in the chosen district"
+    );
+  }
+
+  if (resolved.districtId) {
+    const district = await client.district.findUnique({
+      where: { id: resolved.districtId },
+      select: { regionId: true },
+    });
+    if (!district) throw new CustomerError("District not found");
+    resolved.regionId = parentOf(
+      resolved.regionId,
+      district.regionId,
+      "The district isn't in the chosen region"
+    );
+  }
+
+  if (resolved.regionId) {
+    const region = await client.region.findUnique({
+      where: { id: resolved.regionId },
+      select: { countryId: true },
+    });
+    if (!region) throw new CustomerError("Region not found");
+    resolved.countryId = parentOf(
+      resolved.countryId,
+      region.countryId,
+      "The region isn't in the chosen country"
+    );
+  }
+
+  if (resolved.countryId) {
+    const country = await client.country.findUnique({
+      where: { id: resolved.countryId },
+      select: { id: true },
+    });
+    if (!country) throw new CustomerError("Country not found");
+  }
+
+  return resolved;
+}
+
+/**
+ * Phone numbers identify customers at the till, so no two active
+ * customers of a business share one
+ */
+async function assertPhoneIsFree(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  phone: string,
+  exceptId: string
+): Promise<void> {
+  const existing = await tx.customer.findFirst({
+    where: { ownerId, phone, archivedAt: null, id: { not: exceptId } },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new CustomerError("A customer with this phone number already exists");
+  }
+}
+
+/**
+ * Update a customer's details, tags and location, or archive or restore
+ * them. Returns null when the customer doesn't belong to the business. Any location level sent is
+ * checked against the levels kept from before, so moving a customer to
+ * another region means sending the district and below as well.
+ */
+export async function updateCustomer(
+  id: string,
+  ownerId: string,
+  data: CustomerUpdateInput
+) {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.customer.findFirst({
+      where: { id, ownerId },
+    });
+    if (!existing) return null;
+
+    const { archived, ...fields } = data;
+    const restoring = archived === false && existing.archivedAt !== null;
+    const phone = fields.phone ?? existing.phone;
+    if (phone !== existing.phone || restoring) {
+      await assertPhoneIsFree(tx, ownerId, phone, id);
+    }
+
+    const locationChanged = LOCATION_FIELDS.some(
+      (field) => fields[field] !== undefined
+    );
+    // Levels left out of the update keep their current place
+    const kept = (field: (typeof LOCATION_FIELDS)[number]) => {
+      const value = fields[field];
+      return value === undefined ? existing[field] : value;
+    };
+    const location = locationChanged
+      ? await resolveCustomerLocation(tx, {
+          countryId: kept("countryId"),
+          regionId: kept("regionId"),
+          districtId: kept("districtId"),
+          chiefdomId: kept("chiefdomId"),
+          locationId: kept("locationId"),
+        })
+      : {};
+
+    return tx.customer.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...location,
+        ...(archived !== undefined && {
+          archivedAt: archived ? existing.archivedAt ?? new Date() : null,
+        }),
+      },
+      include: customerInclude,
+    });
+  });
+}
+
+/**
+ * Archive a customer. They are kept, with their sales still pointing at
+ * them, but no longer offered for new sales. Returns false when the
+ * customer doesn't belong to the business.
+ */
+export async function archiveCustomer(
+  id: string,
+  ownerId: string
+): Promise<boolean> {
+  const customer = await prisma.customer.findFirst({
+    where: { id, ownerId },
+    select: { archivedAt: true },
+  });
+  if (!customer) return false;
+
+  if (!customer.archivedAt) {
+    await prisma.customer.update({
+      where: { id },
+      data: { archivedAt: new Date() },
+    });
+  }
+  return true;
+}
+
+/**
+ * The active places a customer can be located in, each with the level
+ * below it, for the location pickers
+ */
+export async function listLocations() {
+  const active = { status: LocationStatus.ACTIVE };
+  const byName = { name: "asc" } as const;
+
+  return prisma.country.findMany({
+    where: active,
+    orderBy: byName,
+    select: {
+      id: true,
+      name: true,
+      regions: {
+        where: active,
+        orderBy: byName,
+        select: {
+          id: true,
+          name: true,
+          districts: {
+            where: active,
+            orderBy: byName,
+            select: {
+              id: true,
+              name: true,
+              chiefdoms: {
+                where: active,
+                orderBy: byName,
+                select: {
+                  id: true,
+                  name: true,
+                  locations: {
+                    where: active,
+                    orderBy: byName,
+                    select: { id: true, name: true },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+}
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+// Another unit a product sells in, as a multiple of its base unit: with kg
+// as the base, a 50 kg bag has factor 50 and a quarter-kg cup factor 0.25
+export const productUnitSchema = z.object({
+  name: z.string().trim().min(1, "Unit name is required").max(30),
+  factor: z.number().positive("Units must hold more than zero base units"),
+  sellingPrice: z.number().min(0, "Selling price must be positive").optional().nullable(),
+  barcode: z.string().optional().nullable(),
+});
+
+export const productUnitsSchema = z.object({
+  units: z.array(productUnitSchema).max(20),
+});
+
+export type ProductUnitInput = z.infer<typeof productUnitSchema>;
@@ -0,0 +1,97 @@
+import { prisma } from "@/lib/db";
+import { Prisma } from "@prisma/client";
+import type { ProductUnitInput } from "./product-unit.schema";
+
+/**
+ * Thrown when a product's units can't be saved as given
+ */
+export class ProductUnitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductUnitError";
+  }
+}
+
+/**
+ * Check a set of units before saving: names must be unique and differ
+ * from the base unit, which always exists with factor 1
+ */
+export function checkProductUnits(baseUnit: string, units: ProductUnitInput[]) {
+  const names = new Set([baseUnit.trim().toLowerCase()]);
+  for (const unit of units) {
+    const name = unit.name.toLowerCase();
+    if (names.has(name)) {
+      throw new ProductUnitError(
+        name === baseUnit.trim().toLowerCase()
+          ? `"${unit.name}" is already the base unit`
+          : `Unit "${unit.name}" is listed twice`
+      );
+    }
+    names.add(name);
+  }
+}
+
+export async function listProductUnits(productId: string, ownerId: string) {
+  return prisma.product.findFirst({
+    where: { id: productId, ownerId },
+    select: {
+      id: true,
+      unit: true,
+      sellingPrice: true,
+      units: { orderBy: { factor: "asc" } },
+    },
+  });
+}
+
+/**
+ * Replace a product's units. Units are matched by name so ones that are
+ * kept hold their ID, which held carts and open quotes refer to. Past sale
+ * lines keep the unit name and factor they were sold with. Returns null
+ * when the product isn't the business's.
+ */
+export async function replaceProductUnits(
+  productId: string,
+  ownerId: string,
+  units: ProductUnitInput[]
+) {
+  return prisma.$transaction(async (tx) => {
+    const product = await tx.product.findFirst({
+      where: { id: productId, ownerId },
+      select: { id: true, unit: true },
+    });
+    if (!product) return null;
+
+    checkProductUnits(product.unit, units);
+
+    await tx.productUnit.deleteMany({
+      where: { productId, name: { notIn: units.map((u) => u.name) } },
+    });
+    for (const unit of units) {
+      const data = toUnitData(unit);
+      await tx.productUnit.upsert({
+        where: { productId_name: { productId, name: unit.name } },
+        create: { ...data, productId },
+        update: data,
+      });
+    }
+
+    return tx.productUnit.findMany({
+      where: { productId },
+      orderBy: { factor: "asc" },
+    });
+  });
+}
+
+/**
+ * Column values for a unit, without the product it belongs to
+ */
+export function toUnitData(
+  unit: ProductUnitInput
+): Prisma.ProductUnitCreateManyProductInput {
+  return {
+    name: unit.name,
+    factor: unit.factor,
+    sellingPrice: unit.sellingPrice ?? null,
+    barcode: unit.barcode || null,
+  };
+}
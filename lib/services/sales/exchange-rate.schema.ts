@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+export const currencyCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter code, e.g. USD");
+
+// Set the rate for a currency, creating it if the business has none yet
+export const exchangeRateSchema = z.object({
+  currency: currencyCodeSchema,
+  rate: z.number().positive("Rate must be greater than zero"), // Base currency per unit
+});
+
+export type ExchangeRateInput = z.infer<typeof exchangeRateSchema>;
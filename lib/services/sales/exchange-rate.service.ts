@@ -0,0 +1,104 @@
+import { prisma } from "@/lib/db";
+import { Prisma } from "@prisma/client";
+import { DEFAULT_CURRENCY } from "@/lib/utils";
+import type { ExchangeRateInput } from "./exchange-rate.schema";
+
+/**
+ * Thrown when a sale or payment uses a currency the business has no rate for
+ */
+export class CurrencyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CurrencyError";
+  }
+}
+
+export interface ResolvedCurrency {
+  currency: string;
+  exchangeRate: number; // Base currency per unit
+}
+
+/**
+ * The currency the business keeps its books in
+ */
+export async function getBaseCurrency(
+  ownerId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<string> {
+  const settings = await client.userSettings.findUnique({
+    where: { userId: ownerId },
+    select: { currency: true },
+  });
+  return settings?.currency || DEFAULT_CURRENCY;
+}
+
+/**
+ * Currency and today's rate for a sale or payment. No currency, or the
+ * base currency, is rate 1; any other needs a rate set by the business.
+ */
+export async function resolveCurrency(
+  ownerId: string,
+  currency: string | null | undefined,
+  client: Prisma.TransactionClient = prisma
+): Promise<ResolvedCurrency> {
+  const base = await getBaseCurrency(ownerId, client);
+  if (!currency || currency === base) {
+    return { currency: base, exchangeRate: 1 };
+  }
+
+  const rate = await client.exchangeRate.findUnique({
+    where: { ownerId_currency: { ownerId, currency } },
+  });
+  if (!rate) {
+    throw new CurrencyError(
+      `No exchange rate set for ${currency}. Add one in Settings.`
+    );
+  }
+
+  return { currency, exchangeRate: Number(rate.rate) };
+}
+
+/**
+ * Convert an amount in a sale or payment's currency to the base currency
+ */
+export function toBaseAmount(
+  amount: Prisma.Decimal | number,
+  exchangeRate: Prisma.Decimal | number
+): number {
+  const value = Number(amount) * Number(exchangeRate);
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export async function listExchangeRates(ownerId: string) {
+  return prisma.exchangeRate.findMany({
+    where: { ownerId },
+    orderBy: { currency: "asc" },
+  });
+}
+
+/**
+ * Set a currency's rate. Recorded sales and payments keep the rate they
+ * were made at.
+ */
+export async function setExchangeRate(
+  ownerId: string,
+  data: ExchangeRateInput
+) {
+  const base = await getBaseCurrency(ownerId);
+  if (data.currency === base) {
+    throw new CurrencyError(`${base} is the base currency`);
+  }
+
+  return prisma.exchangeRate.upsert({
+    where: { ownerId_currency: { ownerId, currency: data.currency } },
+    create: { ...data, ownerId },
+    update: { rate: data.rate },
+  });
+}
+
+export async function deleteExchangeRate(id: string, ownerId: string) {
+  const result = await prisma.exchangeRate.deleteMany({
+    where: { id, ownerId },
+  });
+  return result.count > 0;
+}
@@ -0,0 +1,14 @@
+import { z } from "zod";
+import { saleItemSchema } from "./sale.schema";
+
+// A parked basket keeps the cashier's inputs only; it is priced again when
+// it is completed into a sale
+export const heldCartSchema = z.object({
+  label: z.string().max(100).optional().nullable(),
+  customerId: z.string().optional().nullable(),
+  items: z.array(saleItemSchema).min(1, "At least one item is required"),
+  discount: z.number().min(0).default(0),
+  notes: z.string().optional().nullable(),
+});
+
+export type HeldCartInput = z.infer<typeof heldCartSchema>;
@@ -0,0 +1,144 @@
+import { prisma } from "@/lib/db";
+import { Prisma } from "@prisma/client";
+import { roundQuantity } from "@/lib/utils";
+import type { HeldCartInput } from "./held-cart.schema";
+
+/**
+ * Thrown when a held cart is missing or has already been completed
+ */
+export class HeldCartError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HeldCartError";
+  }
+}
+
+const heldCartInclude = {
+  customer: {
+    select: { id: true, name: true, phone: true },
+  },
+} satisfies Prisma.HeldCartInclude;
+
+/**
+ * Columns stored alongside the raw items so the list can be shown without
+ * pricing every cart
+ */
+async function heldCartData(ownerId: string, data: HeldCartInput) {
+  if (data.customerId) {
+    const customer = await prisma.customer.findFirst({
+      where: { id: data.customerId, ownerId, archivedAt: null },
+      select: { id: true },
+    });
+    if (!customer) throw new HeldCartError("Customer not found");
+  }
+
+  return {
+    label: data.label || null,
+    customerId: data.customerId || null,
+    items: data.items as Prisma.InputJsonValue,
+    itemCount: roundQuantity(
+      data.items.reduce((sum, item) => sum + item.quantity, 0)
+    ),
+    subtotal: data.items.reduce(
+      (sum, item) => sum + item.quantity * item.unitPrice,
+      0
+    ),
+    discount: data.discount,
+    notes: data.notes,
+  };
+}
+
+/**
+ * List the carts a cashier has parked, oldest first
+ */
+export async function listHeldCarts(ownerId: string, cashierId: string) {
+  return prisma.heldCart.findMany({
+    where: { ownerId, cashierId },
+    include: heldCartInclude,
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Fetch one of the cashier's carts so it can be resumed
+ */
+export async function getHeldCart(
+  id: string,
+  ownerId: string,
+  cashierId: string
+) {
+  return prisma.heldCart.findFirst({
+    where: { id, ownerId, cashierId },
+    include: heldCartInclude,
+  });
+}
+
+/**
+ * Park a basket. Stock is not touched.
+ */
+export async function holdCart(
+  ownerId: string,
+  cashierId: string,
+  data: HeldCartInput
+) {
+  return prisma.heldCart.create({
+    data: {
+      ...(await heldCartData(ownerId, data)),
+      ownerId,
+      cashierId,
+    },
+    include: heldCartInclude,
+  });
+}
+
+/**
+ * Replace the contents of a resumed cart that is parked again
+ */
+export async function updateHeldCart(
+  id: string,
+  ownerId: string,
+  cashierId: string,
+  data: HeldCartInput
+) {
+  const result = await prisma.heldCart.updateMany({
+    where: { id, ownerId, cashierId },
+    data: await heldCartData(ownerId, data),
+  });
+  if (result.count === 0) return null;
+
+  return getHeldCart(id, ownerId, cashierId);
+}
+
+/**
+ * Discard a parked cart. Returns false when it no longer exists.
+ */
+export async function discardHeldCart(
+  id: string,
+  ownerId: string,
+  cashierId: string
+): Promise<boolean> {
+  const result = await prisma.heldCart.deleteMany({
+    where: { id, ownerId, cashierId },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Remove a cart as part of completing it into a sale. Failing when it is
+ * already gone stops the same basket being rung up twice from two tabs.
+ */
+export async function completeHeldCart(
+  tx: Prisma.TransactionClient,
+  id: string,
+  ownerId: string,
+  cashierId: string
+): Promise<void> {
+  const result = await tx.heldCart.deleteMany({
+    where: { id, ownerId, cashierId },
+  });
+  if (result.count === 0) {
+    throw new HeldCartError(
+      "This held cart has already been completed or discarded"
+    );
+  }
+}
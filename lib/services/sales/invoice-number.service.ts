@@ -0,0 +1,177 @@
+import { NumberSeries, NumberingReset, Prisma } from "@prisma/client";
+import { format } from "date-fns";
+
+export interface InvoiceNumberFormat {
+  prefix: string;
+  reset: NumberingReset;
+  padding: number;
+}
+
+export const DEFAULT_INVOICE_NUMBER_FORMAT: InvoiceNumberFormat = {
+  prefix: "INV",
+  reset: NumberingReset.MONTHLY,
+  padding: 4,
+};
+
+/**
+ * Sequence period a date falls in for the given reset cadence
+ */
+export function getPeriodKey(reset: NumberingReset, date: Date): string {
+  switch (reset) {
+    case NumberingReset.MONTHLY:
+      return format(date, "yyyy-MM");
+    case NumberingReset.YEARLY:
+      return format(date, "yyyy");
+    default:
+      return "ALL";
+  }
+}
+
+/**
+ * Part of the invoice number before the running number, e.g. INV-2025-06
+ */
+function formatInvoiceStem(
+  numberFormat: InvoiceNumberFormat,
+  periodKey: string
+): string {
+  const parts = [numberFormat.prefix];
+  if (periodKey !== "ALL") parts.push(periodKey);
+  return parts.filter(Boolean).join("-");
+}
+
+/**
+ * Render an invoice number, e.g. INV-2025-06-0001
+ */
+export function formatInvoiceNumber(
+  numberFormat: InvoiceNumberFormat,
+  periodKey: string,
+  sequence: number
+): string {
+  const stem = formatInvoiceStem(numberFormat, periodKey);
+  const running = String(sequence).padStart(numberFormat.padding, "0");
+  return stem ? `${stem}-${running}` : running;
+}
+
+/**
+ * Highest running number already used with this stem, so a new sequence
+ * picks up after documents issued before sequences existed
+ */
+async function findLastIssuedNumber(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  series: NumberSeries,
+  stem: string
+): Promise<number> {
+  let lastIssued: string | undefined;
+
+  if (series === NumberSeries.QUOTE) {
+    const lastQuote = await tx.quote.findFirst({
+      where: {
+        ownerId,
+        ...(stem && { quoteNumber: { startsWith: `${stem}-` } }),
+      },
+      orderBy: { quoteNumber: "desc" },
+      select: { quoteNumber: true },
+    });
+    lastIssued = lastQuote?.quoteNumber;
+  } else {
+    const lastSale = await tx.sale.findFirst({
+      where: {
+        ownerId,
+        ...(stem && { invoiceNumber: { startsWith: `${stem}-` } }),
+      },
+      orderBy: { invoiceNumber: "desc" },
+      select: { invoiceNumber: true },
+    });
+    lastIssued = lastSale?.invoiceNumber;
+  }
+
+  if (!lastIssued) return 0;
+  const lastNumber = parseInt(lastIssued.split("-").pop() || "0");
+  return Number.isNaN(lastNumber) ? 0 : lastNumber;
+}
+
+/**
+ * Allocate the next number in a series for a business. The sequence row
+ * is incremented in place, so concurrent requests in the same business
+ * each get their own number; the row stays locked until the transaction
+ * commits. Quotes share the invoice reset and padding but not the prefix.
+ */
+async function allocateNumber(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  series: NumberSeries,
+  date: Date
+): Promise<string> {
+  const settings = await tx.userSettings.findUnique({
+    where: { userId: ownerId },
+    select: {
+      invoicePrefix: true,
+      quotePrefix: true,
+      invoiceNumberReset: true,
+      invoiceNumberPadding: true,
+    },
+  });
+
+  const numberFormat: InvoiceNumberFormat = settings
+    ? {
+        prefix:
+          series === NumberSeries.QUOTE
+            ? settings.quotePrefix
+            : settings.invoicePrefix,
+        reset: settings.invoiceNumberReset,
+        padding: settings.invoiceNumberPadding,
+      }
+    : {
+        ...DEFAULT_INVOICE_NUMBER_FORMAT,
+        ...(series === NumberSeries.QUOTE && { prefix: "QUO" }),
+      };
+
+  const periodKey = getPeriodKey(numberFormat.reset, date);
+  const key = { ownerId_series_periodKey: { ownerId, series, periodKey } };
+
+  const existing = await tx.invoiceSequence.findUnique({
+    where: key,
+    select: { id: true },
+  });
+
+  // First number of the period - continue from any numbers already issued
+  const startFrom = existing
+    ? 0
+    : await findLastIssuedNumber(
+        tx,
+        ownerId,
+        series,
+        formatInvoiceStem(numberFormat, periodKey)
+      );
+
+  const sequence = await tx.invoiceSequence.upsert({
+    where: key,
+    create: { ownerId, series, periodKey, lastNumber: startFrom + 1 },
+    update: { lastNumber: { increment: 1 } },
+  });
+
+  return formatInvoiceNumber(numberFormat, periodKey, sequence.lastNumber);
+}
+
+/**
+ * Allocate the next invoice number for a business
+ */
+export async function allocateInvoiceNumber(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  date: Date = new Date()
+): Promise<string> {
+  return allocateNumber(tx, ownerId, NumberSeries.INVOICE, date);
+}
+
+/**
+ * Allocate the next quote number for a business
+ */
+export async function allocateQuoteNumber(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  date: Date = new Date()
+): Promise<string> {
+  return allocateNumber(tx, ownerId, NumberSeries.QUOTE, date);
+}
@@ -0,0 +1,206 @@
+import { prisma } from "@/lib/db";
+import { Prisma } from "@prisma/client";
+import type { OfflineSaleInput } from "./sale.schema";
+import {
+  createSale,
+  InsufficientStockError,
+  type StockShortage,
+} from "./sale-creation.service";
+import {
+  priceSaleForOwner,
+  PricingError,
+  roundMoney,
+} from "./pricing.service";
+
+export interface PriceConflict {
+  index: number;
+  productId: string;
+  productName: string;
+  offlinePrice: number;
+  currentPrice: number;
+}
+
+export type OfflineSyncResult =
+  | {
+      clientId: string;
+      status: "synced";
+      sale: { id: string; invoiceNumber: string; totalAmount: number };
+      duplicate: boolean; // Already recorded by an earlier sync attempt
+    }
+  | {
+      clientId: string;
+      status: "conflict";
+      message: string;
+      priceConflicts: PriceConflict[];
+      stockShortages: StockShortage[];
+    }
+  | {
+      clientId: string;
+      status: "failed";
+      message: string;
+    };
+
+async function findSyncedSale(ownerId: string, clientId: string) {
+  return prisma.sale.findFirst({
+    where: { ownerId, clientId },
+    select: { id: true, invoiceNumber: true, totalAmount: true },
+  });
+}
+
+/**
+ * Compare the catalogue price the till had for each line with the price
+ * the sale would be charged today, for the same unit, quantity, customer
+ * price list and currency
+ */
+async function findPriceConflicts(
+  ownerId: string,
+  entry: OfflineSaleInput
+): Promise<PriceConflict[]> {
+  const checked = entry.items.some(
+    (item, index) => item.productId && entry.linePrices[index] != null
+  );
+  if (!checked) return [];
+
+  // Submitted prices are kept here so a business that refuses overrides
+  // still gets the conflict to decide on, not a pricing error
+  const pricing = await priceSaleForOwner(ownerId, entry.items, {
+    discount: entry.discount,
+    amountPaid: 0,
+    customerId: entry.customerId,
+    currency: entry.currency,
+    keepSubmittedPrices: true,
+  });
+
+  const conflicts: PriceConflict[] = [];
+  entry.items.forEach((item, index) => {
+    const tillPrice = entry.linePrices[index];
+    const currentPrice = pricing.lines[index].catalogPrice;
+    if (!item.productId || tillPrice == null || currentPrice === null) return;
+
+    const offlinePrice = roundMoney(tillPrice);
+    if (offlinePrice !== currentPrice) {
+      conflicts.push({
+        index,
+        productId: item.productId,
+        productName: item.productName,
+        offlinePrice,
+        currentPrice,
+      });
+    }
+  });
+  return conflicts;
+}
+
+/**
+ * Record one sale queued by an offline till. Sales already recorded under
+ * the same client ID are returned as they are. Price changes and stock
+ * shortages are reported back for the cashier to decide on, unless they
+ * have already accepted them.
+ */
+async function syncOfflineSale(
+  ownerId: string,
+  soldById: string,
+  entry: OfflineSaleInput
+): Promise<OfflineSyncResult> {
+  const { clientId } = entry;
+
+  const existing = await findSyncedSale(ownerId, clientId);
+  if (existing) {
+    return {
+      clientId,
+      status: "synced",
+      sale: { ...existing, totalAmount: Number(existing.totalAmount) },
+      duplicate: true,
+    };
+  }
+
+  try {
+    if (!entry.acceptConflicts) {
+      const priceConflicts = await findPriceConflicts(ownerId, entry);
+      if (priceConflicts.length > 0) {
+        return {
+          clientId,
+          status: "conflict",
+          message: "Prices changed while this till was offline",
+          priceConflicts,
+          stockShortages: [],
+        };
+      }
+    }
+
+    // The goods have left the shop at the price the till charged, so an
+    // accepted shortage is recorded as negative stock and an accepted old
+    // price is kept even where price changes aren't normally allowed
+    const sale = await createSale(
+      ownerId,
+      soldById,
+      entry,
+      entry.acceptConflicts
+        ? { allowNegativeStock: true, keepSubmittedPrices: true }
+        : {}
+    );
+    return {
+      clientId,
+      status: "synced",
+      sale: {
+        id: sale.id,
+        invoiceNumber: sale.invoiceNumber,
+        totalAmount: Number(sale.totalAmount),
+      },
+      duplicate: false,
+    };
+  } catch (error: any) {
+    if (error instanceof InsufficientStockError) {
+      return {
+        clientId,
+        status: "conflict",
+        message: error.message,
+        priceConflicts: [],
+        stockShortages: error.shortages,
+      };
+    }
+
+    // Another sync of the same sale won the race
+    if (error.code === "P2002") {
+      const synced = await findSyncedSale(ownerId, clientId);
+      if (synced) {
+        return {
+          clientId,
+          status: "synced",
+          sale: { ...synced, totalAmount: Number(synced.totalAmount) },
+          duplicate: true,
+        };
+      }
+    }
+
+    // Database trouble is retried on the next sync; anything else (a
+    // deleted product or customer, a price the rules refuse) needs the
+    // cashier
+    if (
+      error instanceof PricingError ||
+      (error instanceof Error &&
+        !(error instanceof Prisma.PrismaClientKnownRequestError) &&
+        !(error instanceof Prisma.PrismaClientUnknownRequestError) &&
+        !(error instanceof Prisma.PrismaClientInitializationError))
+    ) {
+      return { clientId, status: "failed", message: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Record a batch of offline sales in the order they were rung up. Each
+ * sale stands alone, so one conflict does not hold back the rest.
+ */
+export async function syncOfflineSales(
+  ownerId: string,
+  soldById: string,
+  entries: OfflineSaleInput[]
+): Promise<OfflineSyncResult[]> {
+  const results: OfflineSyncResult[] = [];
+  for (const entry of entries) {
+    results.push(await syncOfflineSale(ownerId, soldById, entry));
+  }
+  return results;
+}
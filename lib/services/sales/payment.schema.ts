@@ -0,0 +1,30 @@
+import { PaymentMethod } from "@prisma/client";
+import { z } from "zod";
+import { currencyCodeSchema } from "./exchange-rate.schema";
+
+export const paymentAllocationSchema = z.object({
+  saleId: z.string().min(1, "Sale is required"),
+  amount: z.number().positive("Amount must be greater than zero"),
+});
+
+// A payment is either split explicitly across invoices (allocations) or
+// given as a lump sum for a customer, applied to their oldest open
+// invoices first. Amounts are in each invoice's currency; a lump sum only
+// goes to invoices in its currency.
+export const paymentSchema = z
+  .object({
+    customerId: z.string().optional().nullable(),
+    amount: z.number().positive("Amount must be greater than zero").optional(),
+    currency: currencyCodeSchema.optional().nullable(), // Lump sum; base currency if unset
+    allocations: z.array(paymentAllocationSchema).min(1).optional(),
+    method: z.nativeEnum(PaymentMethod).default(PaymentMethod.CASH),
+    reference: z.string().optional().nullable(),
+    notes: z.string().optional().nullable(),
+    paidAt: z.string().optional(),
+  })
+  .refine((data) => data.allocations || (data.customerId && data.amount), {
+    message: "Provide allocations, or a customer and an amount",
+  });
+
+export type PaymentAllocationInput = z.infer<typeof paymentAllocationSchema>;
+export type PaymentInput = z.infer<typeof paymentSchema>;
@@ -0,0 +1,327 @@
+import { prisma } from "@/lib/db";
+import { PaymentMethod, PaymentStatus, Prisma } from "@prisma/client";
+import type { PaymentAllocationInput, PaymentInput } from "./payment.schema";
+import type { SaleInput, TenderInput } from "./sale.schema";
+import {
+  derivePaymentStatus,
+  PricingError,
+  roundMoney,
+} from "./pricing.service";
+import { REVERSED_SALE_STATUSES } from "./sale-lifecycle.service";
+import { resolveCurrency } from "./exchange-rate.service";
+import { refreshSalesDays } from "./sales-stats.service";
+
+/**
+ * Thrown when a payment cannot be applied to the invoices it targets
+ */
+export class PaymentAllocationError extends Error {
+  saleId?: string; // Offending invoice, if any
+
+  constructor(message: string, saleId?: string) {
+    super(message);
+    this.name = "PaymentAllocationError";
+    this.saleId = saleId;
+  }
+}
+
+/**
+ * Payment status after a payment. A sale already flagged OVERDUE stays
+ * overdue until it is fully paid.
+ */
+export function settlePaymentStatus(
+  current: PaymentStatus,
+  totalAmount: number,
+  amountPaid: number
+): PaymentStatus {
+  const status = derivePaymentStatus(totalAmount, amountPaid);
+  if (status !== PaymentStatus.PAID && current === PaymentStatus.OVERDUE) {
+    return PaymentStatus.OVERDUE;
+  }
+  return status;
+}
+
+/**
+ * Split a lump sum across a customer's open invoices in its currency,
+ * oldest first
+ */
+async function allocateToOpenInvoices(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  customerId: string,
+  amount: number,
+  currency: string
+): Promise<PaymentAllocationInput[]> {
+  const openSales = await tx.sale.findMany({
+    where: {
+      ownerId,
+      customerId,
+      currency,
+      balanceDue: { gt: 0 },
+      status: { notIn: REVERSED_SALE_STATUSES },
+    },
+    orderBy: { saleDate: "asc" },
+    select: { id: true, balanceDue: true },
+  });
+
+  const outstanding = roundMoney(
+    openSales.reduce((sum, s) => sum + Number(s.balanceDue), 0)
+  );
+  if (roundMoney(amount) > outstanding) {
+    throw new PaymentAllocationError(
+      `Payment exceeds the customer's outstanding balance of ${outstanding} ${currency}`
+    );
+  }
+
+  const allocations: PaymentAllocationInput[] = [];
+  let remaining = roundMoney(amount);
+
+  for (const sale of openSales) {
+    if (remaining <= 0) break;
+    const applied = roundMoney(Math.min(remaining, Number(sale.balanceDue)));
+    allocations.push({ saleId: sale.id, amount: applied });
+    remaining = roundMoney(remaining - applied);
+  }
+
+  return allocations;
+}
+
+/**
+ * Reduce a sale's balance by a payment and recompute its payment status.
+ * The balance only moves while it still covers the amount, so two
+ * payments racing for the same invoice cannot overpay it.
+ */
+async function applyPaymentToSale(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  saleId: string,
+  amount: number
+) {
+  const sale = await tx.sale.findFirst({
+    where: { id: saleId, ownerId },
+    select: {
+      id: true,
+      customerId: true,
+      status: true,
+      invoiceNumber: true,
+      currency: true,
+      saleDate: true,
+    },
+  });
+
+  if (!sale) {
+    throw new PaymentAllocationError("Sale not found", saleId);
+  }
+
+  if (REVERSED_SALE_STATUSES.includes(sale.status)) {
+    throw new PaymentAllocationError(
+      `Invoice ${sale.invoiceNumber} is ${sale.status.toLowerCase()}`,
+      saleId
+    );
+  }
+
+  const result = await tx.sale.updateMany({
+    where: { id: saleId, ownerId, balanceDue: { gte: amount } },
+    data: {
+      amountPaid: { increment: amount },
+      balanceDue: { decrement: amount },
+    },
+  });
+
+  if (result.count === 0) {
+    throw new PaymentAllocationError(
+      `Payment exceeds the balance due on invoice ${sale.invoiceNumber}`,
+      saleId
+    );
+  }
+
+  const updated = await tx.sale.findUniqueOrThrow({
+    where: { id: saleId },
+    select: { totalAmount: true, amountPaid: true, paymentStatus: true },
+  });
+
+  await tx.sale.update({
+    where: { id: saleId },
+    data: {
+      paymentStatus: settlePaymentStatus(
+        updated.paymentStatus,
+        Number(updated.totalAmount),
+        Number(updated.amountPaid)
+      ),
+    },
+  });
+
+  await refreshSalesDays(tx, ownerId, [sale.saleDate]);
+
+  return sale;
+}
+
+/**
+ * Tenders offered for a new sale. A sale submitted without a breakdown
+ * is one tender of amountPaid in its payment method.
+ */
+export function resolveTenders(
+  data: Pick<SaleInput, "tenders" | "amountPaid" | "paymentMethod">
+): TenderInput[] {
+  if (data.tenders && data.tenders.length > 0) return data.tenders;
+  if (data.amountPaid > 0) {
+    return [{ method: data.paymentMethod, amount: data.amountPaid }];
+  }
+  return [];
+}
+
+/**
+ * Method stored on the sale itself: the tender that covered the most
+ */
+export function primaryTenderMethod(
+  tenders: TenderInput[],
+  fallback: PaymentMethod
+): PaymentMethod {
+  if (tenders.length === 0) return fallback;
+  return tenders.reduce((largest, t) =>
+    t.amount > largest.amount ? t : largest
+  ).method;
+}
+
+/**
+ * Record the tenders taken at the till when the sale is created, one
+ * ledger entry each. Change handed back comes out of the cash tenders,
+ * so the ledger never holds more than the sale total.
+ */
+export async function recordSaleTenders(
+  tx: Prisma.TransactionClient,
+  sale: {
+    id: string;
+    ownerId: string;
+    customerId: string | null;
+    soldById: string;
+    imported: boolean;
+    saleDate: Date;
+    currency: string;
+    exchangeRate: Prisma.Decimal | number;
+  },
+  tenders: TenderInput[],
+  totalAmount: number
+): Promise<void> {
+  const amounts = tenders.map((t) => roundMoney(t.amount));
+  let change = roundMoney(amounts.reduce((sum, a) => sum + a, 0) - totalAmount);
+
+  for (let i = tenders.length - 1; i >= 0 && change > 0; i--) {
+    if (tenders[i].method !== PaymentMethod.CASH) continue;
+    const returned = Math.min(change, amounts[i]);
+    amounts[i] = roundMoney(amounts[i] - returned);
+    change = roundMoney(change - returned);
+  }
+
+  if (change > 0) {
+    throw new PricingError("Only cash tenders can exceed the sale total");
+  }
+
+  for (const [index, tender] of tenders.entries()) {
+    if (amounts[index] <= 0) continue;
+
+    await tx.payment.create({
+      data: {
+        amount: amounts[index],
+        method: tender.method,
+        reference: tender.reference,
+        currency: sale.currency,
+        exchangeRate: sale.exchangeRate,
+        paidAt: sale.saleDate,
+        saleId: sale.id,
+        customerId: sale.customerId,
+        // Money on an imported sale was taken long ago, not into anyone's
+        // drawer today
+        receivedById: sale.imported ? null : sale.soldById,
+        ownerId: sale.ownerId,
+      },
+    });
+  }
+}
+
+/**
+ * Record a payment against one or more open invoices. Each invoice gets
+ * its own ledger entry sharing the method, reference and date, in the
+ * invoice's currency at today's rate.
+ */
+export async function recordPayment(
+  ownerId: string,
+  receivedById: string,
+  data: PaymentInput
+) {
+  return prisma.$transaction(async (tx) => {
+    if (data.customerId) {
+      const customer = await tx.customer.findFirst({
+        where: { id: data.customerId, ownerId },
+        select: { id: true },
+      });
+      if (!customer) {
+        throw new PaymentAllocationError("Customer not found");
+      }
+    }
+
+    const allocations = data.allocations
+      ? data.allocations
+      : await allocateToOpenInvoices(
+          tx,
+          ownerId,
+          data.customerId!,
+          data.amount!,
+          (await resolveCurrency(ownerId, data.currency, tx)).currency
+        );
+
+    const paidAt = data.paidAt ? new Date(data.paidAt) : new Date();
+    const payments = [];
+    const rates = new Map<string, number>();
+
+    for (const allocation of allocations) {
+      const amount = roundMoney(allocation.amount);
+      const sale = await applyPaymentToSale(
+        tx,
+        ownerId,
+        allocation.saleId,
+        amount
+      );
+
+      if (data.customerId && sale.customerId !== data.customerId) {
+        throw new PaymentAllocationError(
+          `Invoice ${sale.invoiceNumber} belongs to another customer`,
+          sale.id
+        );
+      }
+
+      if (!rates.has(sale.currency)) {
+        const resolved = await resolveCurrency(ownerId, sale.currency, tx);
+        rates.set(sale.currency, resolved.exchangeRate);
+      }
+
+      const payment = await tx.payment.create({
+        data: {
+          amount,
+          currency: sale.currency,
+          exchangeRate: rates.get(sale.currency)!,
+          method: data.method,
+          reference: data.reference,
+          notes: data.notes,
+          paidAt,
+          saleId: sale.id,
+          customerId: sale.customerId,
+          receivedById,
+          ownerId,
+        },
+        include: {
+          sale: {
+            select: {
+              id: true,
+              invoiceNumber: true,
+              balanceDue: true,
+              paymentStatus: true,
+            },
+          },
+        },
+      });
+      payments.push(payment);
+    }
+
+    return payments;
+  });
+}
@@ -0,0 +1,33 @@
+import { CustomerType } from "@prisma/client";
+import { z } from "zod";
+
+export const priceListItemSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  // Both in the product's base unit, whatever unit the line is sold in
+  minQuantity: z.number().positive("Minimum quantity must be greater than zero"),
+  unitPrice: z.number().min(0, "Unit price must be positive"),
+});
+
+const priceListFields = {
+  name: z.string().min(1, "Name is required").max(100),
+  customerType: z.nativeEnum(CustomerType).optional().nullable(),
+  // Replace the list's prices and its directly assigned customers
+  items: z.array(priceListItemSchema),
+  customerIds: z.array(z.string()),
+};
+
+export const priceListSchema = z.object({
+  ...priceListFields,
+  isActive: z.boolean().default(true),
+  items: priceListFields.items.default([]),
+  customerIds: priceListFields.customerIds.default([]),
+});
+
+// No defaults here, so fields left out of an update stay as they are
+export const priceListUpdateSchema = z
+  .object({ ...priceListFields, isActive: z.boolean() })
+  .partial();
+
+export type PriceListItemInput = z.infer<typeof priceListItemSchema>;
+export type PriceListInput = z.infer<typeof priceListSchema>;
+export type PriceListUpdateInput = z.infer<typeof priceListUpdateSchema>;
@@ -0,0 +1,253 @@
+import { prisma } from "@/lib/db";
+import { Prisma } from "@prisma/client";
+import type { PriceTier } from "@/lib/utils";
+import type {
+  PriceListInput,
+  PriceListItemInput,
+  PriceListUpdateInput,
+} from "./price-list.schema";
+
+/**
+ * Thrown when a price list refers to products or customers it can't use
+ */
+export class PriceListError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PriceListError";
+  }
+}
+
+export interface CustomerPriceList {
+  id: string;
+  name: string;
+  tiers: Record<string, PriceTier[]>; // By product ID
+}
+
+const priceListInclude = {
+  items: {
+    include: {
+      product: {
+        select: { id: true, name: true, sku: true, sellingPrice: true, unit: true },
+      },
+    },
+    orderBy: [{ productId: "asc" }, { minQuantity: "asc" }],
+  },
+  customers: {
+    select: { id: true, name: true, phone: true, type: true },
+    orderBy: { name: "asc" },
+  },
+} satisfies Prisma.PriceListInclude;
+
+/**
+ * List a business's price lists with how many prices and customers each has
+ */
+export async function listPriceLists(ownerId: string) {
+  return prisma.priceList.findMany({
+    where: { ownerId },
+    include: {
+      _count: { select: { items: true, customers: true } },
+    },
+    orderBy: { name: "asc" },
+  });
+}
+
+export async function getPriceList(id: string, ownerId: string) {
+  return prisma.priceList.findFirst({
+    where: { id, ownerId },
+    include: priceListInclude,
+  });
+}
+
+/**
+ * Check the products and customers a list refers to belong to the business
+ */
+async function checkReferences(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  items: PriceListItemInput[] | undefined,
+  customerIds: string[] | undefined
+) {
+  if (items && items.length > 0) {
+    const seen = new Set<string>();
+    for (const item of items) {
+      const key = `${item.productId}|${item.minQuantity}`;
+      if (seen.has(key)) {
+        throw new PriceListError(
+          "A product can only have one price per minimum quantity"
+        );
+      }
+      seen.add(key);
+    }
+
+    const productIds = Array.from(new Set(items.map((i) => i.productId)));
+    const found = await tx.product.count({
+      where: { id: { in: productIds }, ownerId },
+    });
+    if (found !== productIds.length) {
+      throw new PriceListError("Product not found");
+    }
+  }
+
+  if (customerIds && customerIds.length > 0) {
+    const found = await tx.customer.count({
+      where: { id: { in: customerIds }, ownerId },
+    });
+    if (found !== new Set(customerIds).size) {
+      throw new PriceListError("Customer not found");
+    }
+  }
+}
+
+/**
+ * Point customers at a list, releasing any it had before that aren't named
+ */
+async function assignCustomers(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  priceListId: string,
+  customerIds: string[]
+) {
+  await tx.customer.updateMany({
+    where: { ownerId, priceListId, id: { notIn: customerIds } },
+    data: { priceListId: null },
+  });
+  if (customerIds.length > 0) {
+    await tx.customer.updateMany({
+      where: { ownerId, id: { in: customerIds } },
+      data: { priceListId },
+    });
+  }
+}
+
+/**
+ * Create a price list. Each customer type has at most one list, so giving
+ * this one a type takes it off the list that had it.
+ */
+export async function createPriceList(ownerId: string, data: PriceListInput) {
+  return prisma.$transaction(async (tx) => {
+    await checkReferences(tx, ownerId, data.items, data.customerIds);
+
+    if (data.customerType) {
+      await tx.priceList.updateMany({
+        where: { ownerId, customerType: data.customerType },
+        data: { customerType: null },
+      });
+    }
+
+    const priceList = await tx.priceList.create({
+      data: {
+        name: data.name,
+        customerType: data.customerType || null,
+        isActive: data.isActive,
+        ownerId,
+        items: { create: data.items },
+      },
+    });
+
+    await assignCustomers(tx, ownerId, priceList.id, data.customerIds);
+
+    return tx.priceList.findUniqueOrThrow({
+      where: { id: priceList.id },
+      include: priceListInclude,
+    });
+  });
+}
+
+/**
+ * Update a price list. Prices and customers, when given, replace the
+ * current ones. Returns null when it doesn't belong to the business.
+ */
+export async function updatePriceList(
+  id: string,
+  ownerId: string,
+  data: PriceListUpdateInput
+) {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.priceList.findFirst({ where: { id, ownerId } });
+    if (!existing) return null;
+
+    await checkReferences(tx, ownerId, data.items, data.customerIds);
+
+    if (data.customerType) {
+      await tx.priceList.updateMany({
+        where: { ownerId, customerType: data.customerType, id: { not: id } },
+        data: { customerType: null },
+      });
+    }
+
+    if (data.items) {
+      await tx.priceListItem.deleteMany({ where: { priceListId: id } });
+      await tx.priceListItem.createMany({
+        data: data.items.map((item) => ({ ...item, priceListId: id })),
+      });
+    }
+
+    if (data.customerIds) {
+      await assignCustomers(tx, ownerId, id, data.customerIds);
+    }
+
+    return tx.priceList.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.customerType !== undefined && {
+          customerType: data.customerType || null,
+        }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+      },
+      include: priceListInclude,
+    });
+  });
+}
+
+/**
+ * Delete a price list. Its customers go back to their type's list, or to
+ * catalogue prices.
+ */
+export async function deletePriceList(id: string, ownerId: string) {
+  const result = await prisma.priceList.deleteMany({ where: { id, ownerId } });
+  return result.count > 0;
+}
+
+/**
+ * The active price list that applies to a customer: their own list, or
+ * else the list for their customer type. Null when neither exists and
+ * catalogue prices apply.
+ */
+export async function resolveCustomerPriceList(
+  ownerId: string,
+  customerId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<CustomerPriceList | null> {
+  const customer = await client.customer.findFirst({
+    where: { id: customerId, ownerId },
+    select: {
+      type: true,
+      priceList: { select: { id: true, name: true, isActive: true } },
+    },
+  });
+  if (!customer) return null;
+
+  const priceList = customer.priceList?.isActive
+    ? customer.priceList
+    : await client.priceList.findFirst({
+        where: { ownerId, customerType: customer.type, isActive: true },
+        select: { id: true, name: true },
+      });
+  if (!priceList) return null;
+
+  const items = await client.priceListItem.findMany({
+    where: { priceListId: priceList.id },
+    select: { productId: true, minQuantity: true, unitPrice: true },
+  });
+
+  const tiers: Record<string, PriceTier[]> = {};
+  for (const item of items) {
+    (tiers[item.productId] ||= []).push({
+      minQuantity: Number(item.minQuantity),
+      unitPrice: Number(item.unitPrice),
+    });
+  }
+
+  return { id: priceList.id, name: priceList.name, tiers };
+}
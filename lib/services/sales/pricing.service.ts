@@ -0,0 +1,503 @@
+import { prisma } from "@/lib/db";
+import {
+  DiscountType,
+  PaymentStatus,
+  Prisma,
+  TaxRateType,
+} from "@prisma/client";
+import {
+  catalogUnitPrice,
+  DEFAULT_CURRENCY,
+  roundQuantity,
+} from "@/lib/utils";
+import type { SaleItemInput } from "./sale.schema";
+import {
+  resolveCustomerPriceList,
+  type CustomerPriceList,
+} from "./price-list.service";
+import { resolveCurrency, type ResolvedCurrency } from "./exchange-rate.service";
+
+export interface TaxRateRule {
+  id: string;
+  name: string;
+  rate: number; // Percentage, e.g. 15 for 15%
+  type: TaxRateType;
+}
+
+export interface PricingRules {
+  allowPriceOverride: boolean;
+  maxDiscountPercent: number;
+  taxRates: TaxRateRule[]; // Active rates
+  defaultTaxRateId: string | null; // Rate for products without one
+}
+
+export interface CatalogUnit {
+  id: string;
+  name: string;
+  factor: Prisma.Decimal | number; // Base units in one of this unit
+  sellingPrice: Prisma.Decimal | number | null;
+}
+
+export interface CatalogProduct {
+  id: string;
+  sellingPrice: Prisma.Decimal | number; // Per base unit
+  taxRateId: string | null;
+  unit: string; // Base unit
+  units: CatalogUnit[];
+}
+
+export interface PricedLine {
+  productId: string | null;
+  productName: string;
+  quantity: number; // In the unit sold
+  unitId: string | null; // null for the base unit
+  unitName: string | null;
+  unitFactor: number; // Base units per unit sold
+  unitPrice: number;
+  totalPrice: number; // After the line discount
+  catalogPrice: number | null; // Price list price if one applies
+  priceOverridden: boolean;
+  discountType: DiscountType | null;
+  discountValue: number;
+  discountAmount: number;
+  taxRateId: string | null;
+  taxRateName: string | null;
+  taxRateType: TaxRateType | null;
+  taxPercent: number;
+  taxAmount: number;
+}
+
+export interface TaxBreakdownEntry {
+  taxRateId: string | null;
+  name: string;
+  type: TaxRateType | null;
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface SalePricing {
+  currency: string; // Amounts below are in this currency
+  exchangeRate: number; // Base currency per unit
+  lines: PricedLine[];
+  priceList: { id: string; name: string } | null; // Customer's list, if any
+  subtotal: number;
+  discount: number; // Sale-level discount, on top of line discounts
+  tax: number;
+  taxBreakdown: TaxBreakdownEntry[];
+  totalAmount: number;
+  amountPaid: number; // What was tendered, up to the total
+  balanceDue: number;
+  change: number; // What was tendered over the total, handed back
+  paymentStatus: PaymentStatus;
+}
+
+/**
+ * Thrown when submitted prices or discounts break the business's pricing rules
+ */
+export class PricingError extends Error {
+  index?: number; // Offending sale line, if any
+
+  constructor(message: string, index?: number) {
+    super(message);
+    this.name = "PricingError";
+    this.index = index;
+  }
+}
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  allowPriceOverride: true,
+  maxDiscountPercent: 100,
+  taxRates: [],
+  defaultTaxRateId: null,
+};
+
+/**
+ * Round a money amount to 2 decimal places
+ */
+export function roundMoney(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Load the pricing rules and tax rates configured for a business
+ */
+export async function getPricingRules(
+  ownerId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<PricingRules> {
+  const settings = await client.userSettings.findUnique({
+    where: { userId: ownerId },
+    select: {
+      allowPriceOverride: true,
+      maxDiscountPercent: true,
+    },
+  });
+  const taxRates = await client.taxRate.findMany({
+    where: { ownerId, isActive: true },
+    orderBy: { name: "asc" },
+  });
+
+  return {
+    allowPriceOverride:
+      settings?.allowPriceOverride ?? DEFAULT_PRICING_RULES.allowPriceOverride,
+    maxDiscountPercent: settings
+      ? Number(settings.maxDiscountPercent)
+      : DEFAULT_PRICING_RULES.maxDiscountPercent,
+    taxRates: taxRates.map((t) => ({
+      id: t.id,
+      name: t.name,
+      // Zero-rated and exempt goods never carry tax
+      rate: t.type === TaxRateType.STANDARD ? Number(t.rate) : 0,
+      type: t.type,
+    })),
+    defaultTaxRateId: taxRates.find((t) => t.isDefault)?.id || null,
+  };
+}
+
+/**
+ * Derive the payment status from how much of the total has been paid
+ */
+export function derivePaymentStatus(
+  totalAmount: number,
+  amountPaid: number
+): PaymentStatus {
+  if (amountPaid >= totalAmount) return PaymentStatus.PAID;
+  if (amountPaid > 0) return PaymentStatus.PARTIAL;
+  return PaymentStatus.PENDING;
+}
+
+/**
+ * Discount taken off one line, from its type and entered value
+ */
+function lineDiscountAmount(
+  item: SaleItemInput,
+  grossTotal: number,
+  index: number,
+  rules: PricingRules
+): number {
+  if (!item.discountType || !item.discountValue) return 0;
+
+  const amount =
+    item.discountType === DiscountType.PERCENTAGE
+      ? roundMoney((grossTotal * item.discountValue) / 100)
+      : roundMoney(item.discountValue);
+
+  const maxDiscount = roundMoney((grossTotal * rules.maxDiscountPercent) / 100);
+  if (amount > maxDiscount) {
+    throw new PricingError(
+      `Discount on "${item.productName}" cannot exceed ${rules.maxDiscountPercent}% of the line total`,
+      index
+    );
+  }
+
+  return amount;
+}
+
+/**
+ * Spread the sale-level discount over the lines in proportion to their
+ * totals, so each line's tax is charged on what the customer actually
+ * pays. Rounding leftovers go to the last line.
+ */
+function allocateSaleDiscount(lineTotals: number[], discount: number): number[] {
+  const subtotal = lineTotals.reduce((sum, t) => sum + t, 0);
+  if (discount <= 0 || subtotal <= 0) return lineTotals.map(() => 0);
+
+  let allocated = 0;
+  return lineTotals.map((total, i) => {
+    if (i === lineTotals.length - 1) return roundMoney(discount - allocated);
+    const share = roundMoney((discount * total) / subtotal);
+    allocated = roundMoney(allocated + share);
+    return share;
+  });
+}
+
+/**
+ * Total taxable amount and tax per rate. Lines are grouped by the rate's
+ * name and percentage as recorded, so sales keep their breakdown after a
+ * rate is edited or deleted.
+ */
+function groupTaxByRate(
+  lines: Array<
+    Pick<
+      PricedLine,
+      "totalPrice" | "taxRateId" | "taxRateName" | "taxRateType" | "taxPercent" | "taxAmount"
+    >
+  >,
+  discountShares: number[]
+): TaxBreakdownEntry[] {
+  const breakdown = new Map<string, TaxBreakdownEntry>();
+
+  lines.forEach((line, i) => {
+    if (!line.taxRateName) return;
+
+    const key = `${line.taxRateName}|${line.taxPercent}`;
+    const entry = breakdown.get(key) || {
+      taxRateId: line.taxRateId,
+      name: line.taxRateName,
+      type: line.taxRateType,
+      rate: line.taxPercent,
+      taxableAmount: 0,
+      taxAmount: 0,
+    };
+    entry.taxableAmount = roundMoney(
+      entry.taxableAmount + line.totalPrice - discountShares[i]
+    );
+    entry.taxAmount = roundMoney(entry.taxAmount + line.taxAmount);
+    breakdown.set(key, entry);
+  });
+
+  return Array.from(breakdown.values()).sort((a, b) => b.rate - a.rate);
+}
+
+/**
+ * Tax per rate for a recorded sale, rebuilt from its line snapshots
+ */
+export function saleTaxBreakdown(
+  items: Array<{
+    totalPrice: Prisma.Decimal | number;
+    taxRateId: string | null;
+    taxRateName: string | null;
+    taxRateType: TaxRateType | null;
+    taxPercent: Prisma.Decimal | number;
+    taxAmount: Prisma.Decimal | number;
+  }>,
+  discount: Prisma.Decimal | number
+): TaxBreakdownEntry[] {
+  const lines = items.map((item) => ({
+    totalPrice: Number(item.totalPrice),
+    taxRateId: item.taxRateId,
+    taxRateName: item.taxRateName,
+    taxRateType: item.taxRateType,
+    taxPercent: Number(item.taxPercent),
+    taxAmount: Number(item.taxAmount),
+  }));
+
+  return groupTaxByRate(
+    lines,
+    allocateSaleDiscount(
+      lines.map((l) => l.totalPrice),
+      Number(discount)
+    )
+  );
+}
+
+/**
+ * What the customer paid for each line of a recorded sale: its total less
+ * its share of the sale discount, plus its tax
+ */
+export function saleLineValues(
+  items: Array<{
+    totalPrice: Prisma.Decimal | number;
+    taxAmount: Prisma.Decimal | number;
+  }>,
+  discount: Prisma.Decimal | number
+): number[] {
+  const totals = items.map((item) => Number(item.totalPrice));
+  const shares = allocateSaleDiscount(totals, Number(discount));
+
+  return items.map((item, i) =>
+    roundMoney(totals[i] - shares[i] + Number(item.taxAmount))
+  );
+}
+
+/**
+ * Compute line totals, discounts, tax by rate and balance for a sale.
+ * Catalogue items are priced from the customer's price list for the line
+ * quantity, or else the unit's own price, or else Product.sellingPrice
+ * times the unit's size; a different submitted price is kept only as a
+ * flagged override. Each line is taxed at its product's rate, or the
+ * business's default rate. Catalogue prices are in the base currency and
+ * are converted at the sale's rate.
+ */
+export function priceSale(
+  items: SaleItemInput[],
+  products: CatalogProduct[],
+  input: { discount: number; amountPaid: number },
+  rules: PricingRules,
+  priceList: CustomerPriceList | null = null,
+  currency: ResolvedCurrency = {
+    currency: DEFAULT_CURRENCY,
+    exchangeRate: 1,
+  }
+): SalePricing {
+  const catalog = new Map(products.map((p) => [p.id, p]));
+  const taxRates = new Map(rules.taxRates.map((t) => [t.id, t]));
+  const defaultTaxRate = rules.defaultTaxRateId
+    ? taxRates.get(rules.defaultTaxRateId) || null
+    : null;
+
+  const lines: PricedLine[] = items.map((item, index) => {
+    const quantity = roundQuantity(item.quantity);
+    let unitPrice: number;
+    let unitName: string | null = null;
+    let unitFactor = 1;
+    let catalogPrice: number | null = null;
+    let priceOverridden = false;
+    let taxRate = defaultTaxRate;
+
+    if (!item.productId) {
+      // Manual item - the entered price is all we have
+      unitPrice = roundMoney(item.unitPrice);
+    } else {
+      const product = catalog.get(item.productId);
+      if (!product) {
+        throw new PricingError(
+          `Product not found for item "${item.productName}"`,
+          index
+        );
+      }
+
+      unitName = product.unit;
+      let unit: { factor: number; sellingPrice: number | null } | null = null;
+      if (item.unitId) {
+        const found = product.units.find((u) => u.id === item.unitId);
+        if (!found) {
+          throw new PricingError(
+            `Unit not found for item "${item.productName}"`,
+            index
+          );
+        }
+        unit = {
+          factor: Number(found.factor),
+          sellingPrice:
+            found.sellingPrice !== null ? Number(found.sellingPrice) : null,
+        };
+        unitName = found.name;
+        unitFactor = unit.factor;
+      }
+
+      catalogPrice = roundMoney(
+        catalogUnitPrice(
+          Number(product.sellingPrice),
+          quantity,
+          unit,
+          priceList?.tiers[product.id]
+        ) / currency.exchangeRate
+      );
+      const submittedPrice = roundMoney(item.unitPrice);
+      priceOverridden = submittedPrice !== catalogPrice;
+
+      if (priceOverridden && !rules.allowPriceOverride) {
+        throw new PricingError(
+          `Price changes are not allowed for "${item.productName}"`,
+          index
+        );
+      }
+
+      unitPrice = priceOverridden ? submittedPrice : catalogPrice;
+      if (product.taxRateId && taxRates.has(product.taxRateId)) {
+        taxRate = taxRates.get(product.taxRateId)!;
+      }
+    }
+
+    const grossTotal = roundMoney(unitPrice * quantity);
+    const discountAmount = lineDiscountAmount(item, grossTotal, index, rules);
+
+    return {
+      productId: item.productId || null,
+      productName: item.productName,
+      quantity,
+      unitId: (item.productId && item.unitId) || null,
+      unitName,
+      unitFactor,
+      unitPrice,
+      totalPrice: roundMoney(grossTotal - discountAmount),
+      catalogPrice,
+      priceOverridden,
+      discountType: discountAmount > 0 ? item.discountType || null : null,
+      discountValue: discountAmount > 0 ? roundMoney(item.discountValue) : 0,
+      discountAmount,
+      taxRateId: taxRate?.id || null,
+      taxRateName: taxRate?.name || null,
+      taxRateType: taxRate?.type || null,
+      taxPercent: taxRate?.rate || 0,
+      taxAmount: 0,
+    };
+  });
+
+  const subtotal = roundMoney(lines.reduce((sum, l) => sum + l.totalPrice, 0));
+
+  const discount = roundMoney(input.discount);
+  const maxDiscount = roundMoney((subtotal * rules.maxDiscountPercent) / 100);
+  if (discount > maxDiscount) {
+    throw new PricingError(
+      `Discount cannot exceed ${rules.maxDiscountPercent}% of the subtotal`
+    );
+  }
+
+  // Tax each line on its total less its share of the sale discount
+  const discountShares = allocateSaleDiscount(
+    lines.map((l) => l.totalPrice),
+    discount
+  );
+  lines.forEach((line, i) => {
+    const taxableAmount = roundMoney(line.totalPrice - discountShares[i]);
+    line.taxAmount = roundMoney((taxableAmount * line.taxPercent) / 100);
+  });
+
+  const tax = roundMoney(lines.reduce((sum, l) => sum + l.taxAmount, 0));
+  const totalAmount = roundMoney(subtotal - discount + tax);
+  const tendered = roundMoney(input.amountPaid);
+  const amountPaid = Math.min(tendered, totalAmount);
+  const balanceDue = roundMoney(totalAmount - amountPaid);
+
+  return {
+    ...currency,
+    lines,
+    priceList: priceList ? { id: priceList.id, name: priceList.name } : null,
+    subtotal,
+    discount,
+    tax,
+    taxBreakdown: groupTaxByRate(lines, discountShares),
+    totalAmount,
+    amountPaid,
+    balanceDue,
+    change: roundMoney(tendered - amountPaid),
+    paymentStatus: derivePaymentStatus(totalAmount, amountPaid),
+  };
+}
+
+/**
+ * Load catalogue prices, the customer's price list, the rules and the
+ * currency's rate, then price a sale for this owner
+ */
+export async function priceSaleForOwner(
+  ownerId: string,
+  items: SaleItemInput[],
+  input: {
+    discount: number;
+    amountPaid: number;
+    customerId?: string | null;
+    currency?: string | null;
+    // Imported sales, and offline sales accepted at the till's price,
+    // keep the price they were recorded at
+    keepSubmittedPrices?: boolean;
+  },
+  client: Prisma.TransactionClient = prisma
+): Promise<SalePricing> {
+  const productIds = items
+    .map((item) => item.productId)
+    .filter((id): id is string => !!id);
+
+  const products = await client.product.findMany({
+    where: { id: { in: productIds }, ownerId },
+    select: {
+      id: true,
+      sellingPrice: true,
+      taxRateId: true,
+      unit: true,
+      units: {
+        select: { id: true, name: true, factor: true, sellingPrice: true },
+      },
+    },
+  });
+  const rules = await getPricingRules(ownerId, client);
+  if (input.keepSubmittedPrices) rules.allowPriceOverride = true;
+  const priceList = input.customerId
+    ? await resolveCustomerPriceList(ownerId, input.customerId, client)
+    : null;
+  const currency = await resolveCurrency(ownerId, input.currency, client);
+
+  return priceSale(items, products, input, rules, priceList, currency);
+}
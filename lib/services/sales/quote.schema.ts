@@ -0,0 +1,33 @@
+import { QuoteStatus } from "@prisma/client";
+import { z } from "zod";
+import { saleItemSchema, saleSchema } from "./sale.schema";
+
+// Quotes use the same line inputs as sales and are priced the same way
+export const quoteSchema = z.object({
+  customerId: z.string().optional().nullable(),
+  items: z.array(saleItemSchema).min(1, "At least one item is required"),
+  discount: z.number().min(0).default(0),
+  quoteDate: z.string().optional(),
+  validUntil: z.string().optional(), // Defaults to the business's validity period
+  notes: z.string().optional().nullable(),
+});
+
+export const quoteUpdateSchema = quoteSchema.partial().extend({
+  status: z.nativeEnum(QuoteStatus).optional(),
+});
+
+// Payment and dates for the sale a quote turns into; the lines, customer
+// and discount come from the quote itself
+// Quotes are priced in the base currency, so their sale is too
+export const quoteConversionSchema = saleSchema.omit({
+  customerId: true,
+  currency: true,
+  items: true,
+  discount: true,
+  heldCartId: true,
+  clientId: true,
+});
+
+export type QuoteInput = z.infer<typeof quoteSchema>;
+export type QuoteUpdateInput = z.infer<typeof quoteUpdateSchema>;
+export type QuoteConversionInput = z.infer<typeof quoteConversionSchema>;
@@ -0,0 +1,357 @@
+import { prisma } from "@/lib/db";
+import { Prisma, QuoteStatus } from "@prisma/client";
+import { addDays, endOfDay, startOfDay } from "date-fns";
+import type {
+  QuoteConversionInput,
+  QuoteInput,
+  QuoteUpdateInput,
+} from "./quote.schema";
+import type { SaleInput } from "./sale.schema";
+import { priceSaleForOwner } from "./pricing.service";
+import { allocateQuoteNumber } from "./invoice-number.service";
+import { createSaleInTransaction } from "./sale-creation.service";
+
+/**
+ * Thrown when a quote can't be edited, moved to a status or converted
+ */
+export class QuoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuoteError";
+  }
+}
+
+// Statuses a quote may be moved to by hand. ACCEPTED is only reached by
+// converting the quote into a sale, and is final.
+const QUOTE_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  [QuoteStatus.DRAFT]: [QuoteStatus.SENT, QuoteStatus.EXPIRED],
+  [QuoteStatus.SENT]: [QuoteStatus.DRAFT, QuoteStatus.EXPIRED],
+  [QuoteStatus.EXPIRED]: [QuoteStatus.DRAFT],
+  [QuoteStatus.ACCEPTED]: [],
+};
+
+/**
+ * Check whether a quote may move from one status to another
+ */
+export function canTransitionQuoteStatus(
+  from: QuoteStatus,
+  to: QuoteStatus
+): boolean {
+  if (from === to) return true;
+  return QUOTE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Mark open quotes whose validity date has passed as expired
+ */
+export async function expireQuotes(
+  ownerId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const result = await prisma.quote.updateMany({
+    where: {
+      ownerId,
+      status: { in: [QuoteStatus.DRAFT, QuoteStatus.SENT] },
+      validUntil: { lt: startOfDay(now) },
+    },
+    data: { status: QuoteStatus.EXPIRED },
+  });
+  return result.count;
+}
+
+/**
+ * Price a quote's lines and check its customer belongs to the business
+ */
+async function priceQuote(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  data: Pick<QuoteInput, "customerId" | "items" | "discount">
+) {
+  if (data.customerId) {
+    const customer = await tx.customer.findFirst({
+      where: { id: data.customerId, ownerId, archivedAt: null },
+      select: { id: true },
+    });
+    if (!customer) throw new QuoteError("Customer not found");
+  }
+
+  return priceSaleForOwner(
+    ownerId,
+    data.items,
+    {
+      discount: data.discount,
+      amountPaid: 0,
+      customerId: data.customerId,
+    },
+    tx
+  );
+}
+
+/**
+ * Unit to re-price a stored quote line in. A line sold in a unit that has
+ * since been removed from the product can't be priced again.
+ */
+function quoteItemUnitId(item: {
+  productId: string | null;
+  productName: string;
+  unitId: string | null;
+  unitName: string | null;
+  unitFactor: Prisma.Decimal | number;
+}): string | null {
+  if (item.productId && !item.unitId && Number(item.unitFactor) !== 1) {
+    throw new QuoteError(
+      `"${item.productName}" was quoted by the ${item.unitName}, which is no longer one of its units`
+    );
+  }
+  return item.unitId;
+}
+
+const quoteInclude = {
+  items: true,
+  customer: {
+    select: { id: true, name: true, phone: true, email: true, type: true },
+  },
+} satisfies Prisma.QuoteInclude;
+
+/**
+ * Create a draft quote, priced like a sale but with no stock or customer
+ * effect until it is converted
+ */
+export async function createQuote(
+  ownerId: string,
+  createdById: string,
+  data: QuoteInput
+) {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId: ownerId },
+    select: { quoteValidityDays: true },
+  });
+
+  return prisma.$transaction(async (tx) => {
+    const pricing = await priceQuote(tx, ownerId, data);
+    const quoteDate = data.quoteDate ? new Date(data.quoteDate) : new Date();
+    const validUntil = data.validUntil
+      ? endOfDay(new Date(data.validUntil))
+      : endOfDay(addDays(quoteDate, settings?.quoteValidityDays ?? 30));
+
+    if (validUntil < quoteDate) {
+      throw new QuoteError("Validity date must be after the quote date");
+    }
+
+    const quoteNumber = await allocateQuoteNumber(tx, ownerId, quoteDate);
+
+    return tx.quote.create({
+      data: {
+        quoteNumber,
+        customerId: data.customerId || null,
+        subtotal: pricing.subtotal,
+        discount: pricing.discount,
+        tax: pricing.tax,
+        totalAmount: pricing.totalAmount,
+        quoteDate,
+        validUntil,
+        notes: data.notes,
+        ownerId,
+        createdById,
+        items: {
+          create: pricing.lines,
+        },
+      },
+      include: quoteInclude,
+    });
+  });
+}
+
+/**
+ * Edit a quote or move it along its lifecycle. Lines, customer and
+ * discount can only change while the quote is a draft. Returns null when
+ * the quote doesn't belong to the business.
+ */
+export async function updateQuote(
+  id: string,
+  ownerId: string,
+  data: QuoteUpdateInput
+) {
+  return prisma.$transaction(async (tx) => {
+    const quote = await tx.quote.findFirst({
+      where: { id, ownerId },
+      include: { items: true },
+    });
+    if (!quote) return null;
+
+    const status = data.status || quote.status;
+    if (!canTransitionQuoteStatus(quote.status, status)) {
+      throw new QuoteError(
+        status === QuoteStatus.ACCEPTED
+          ? "Convert the quote to a sale to accept it"
+          : `Cannot move a ${quote.status.toLowerCase()} quote to ${status.toLowerCase()}`
+      );
+    }
+
+    const changesContent =
+      data.items !== undefined ||
+      data.customerId !== undefined ||
+      data.discount !== undefined;
+    if (changesContent && status !== QuoteStatus.DRAFT) {
+      throw new QuoteError("Only draft quotes can be edited");
+    }
+
+    const validUntil = data.validUntil
+      ? endOfDay(new Date(data.validUntil))
+      : quote.validUntil;
+    if (
+      status !== QuoteStatus.EXPIRED &&
+      validUntil < startOfDay(new Date())
+    ) {
+      throw new QuoteError("Set a validity date in the future");
+    }
+
+    let totals = {};
+    if (changesContent) {
+      const pricing = await priceQuote(tx, ownerId, {
+        customerId:
+          data.customerId !== undefined ? data.customerId : quote.customerId,
+        items:
+          data.items ||
+          quote.items.map((item) => ({
+            productId: item.productId || undefined,
+            productName: item.productName,
+            quantity: Number(item.quantity),
+            unitId: quoteItemUnitId(item),
+            unitPrice: Number(item.unitPrice),
+            discountType: item.discountType,
+            discountValue: Number(item.discountValue),
+          })),
+        discount: data.discount ?? Number(quote.discount),
+      });
+
+      await tx.quoteItem.deleteMany({ where: { quoteId: id } });
+      totals = {
+        subtotal: pricing.subtotal,
+        discount: pricing.discount,
+        tax: pricing.tax,
+        totalAmount: pricing.totalAmount,
+        items: { create: pricing.lines },
+      };
+    }
+
+    return tx.quote.update({
+      where: { id },
+      data: {
+        ...totals,
+        ...(data.customerId !== undefined && {
+          customerId: data.customerId || null,
+        }),
+        ...(data.quoteDate && { quoteDate: new Date(data.quoteDate) }),
+        ...(data.notes !== undefined && { notes: data.notes }),
+        validUntil,
+        status,
+        ...(status === QuoteStatus.SENT &&
+          quote.status !== QuoteStatus.SENT && { sentAt: new Date() }),
+      },
+      include: quoteInclude,
+    });
+  });
+}
+
+/**
+ * Delete a quote that hasn't been accepted. Returns false when the quote
+ * doesn't belong to the business.
+ */
+export async function deleteQuote(id: string, ownerId: string) {
+  const quote = await prisma.quote.findFirst({
+    where: { id, ownerId },
+    select: { status: true },
+  });
+  if (!quote) return false;
+
+  if (quote.status === QuoteStatus.ACCEPTED) {
+    throw new QuoteError("Accepted quotes are kept with their sale");
+  }
+
+  await prisma.quote.delete({ where: { id } });
+  return true;
+}
+
+/**
+ * Turn a quote into a sale in one step: the sale is created exactly as
+ * POST /api/sales would (stock decrements, customer stats, payments) and
+ * the quote is marked accepted. Quoted prices are kept, so a catalogue
+ * price change since the quote shows as a price override on the sale.
+ * Returns null when the quote doesn't belong to the business.
+ */
+export async function convertQuoteToSale(
+  id: string,
+  ownerId: string,
+  soldById: string,
+  data: QuoteConversionInput
+) {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId: ownerId },
+    select: { allowNegativeStock: true },
+  });
+  const allowNegativeStock = settings?.allowNegativeStock ?? false;
+
+  return prisma.$transaction(async (tx) => {
+    const quote = await tx.quote.findFirst({
+      where: { id, ownerId },
+      include: { items: true },
+    });
+    if (!quote) return null;
+
+    if (quote.status === QuoteStatus.ACCEPTED) {
+      throw new QuoteError("This quote has already been converted to a sale");
+    }
+    if (
+      quote.status === QuoteStatus.EXPIRED ||
+      quote.validUntil < startOfDay(new Date())
+    ) {
+      throw new QuoteError("This quote has expired");
+    }
+
+    // Claim the quote first so two conversions can't both create a sale
+    const claimed = await tx.quote.updateMany({
+      where: {
+        id,
+        status: { in: [QuoteStatus.DRAFT, QuoteStatus.SENT] },
+        saleId: null,
+      },
+      data: { status: QuoteStatus.ACCEPTED, acceptedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new QuoteError("This quote has already been converted to a sale");
+    }
+
+    const saleInput: SaleInput = {
+      ...data,
+      customerId: quote.customerId,
+      items: quote.items.map((item) => ({
+        productId: item.productId || undefined,
+        productName: item.productName,
+        quantity: Number(item.quantity),
+        unitId: quoteItemUnitId(item),
+        unitPrice: Number(item.unitPrice),
+        discountType: item.discountType,
+        discountValue: Number(item.discountValue),
+      })),
+      discount: Number(quote.discount),
+      notes: data.notes ?? quote.notes,
+    };
+
+    const sale = await createSaleInTransaction(
+      tx,
+      ownerId,
+      soldById,
+      saleInput,
+      allowNegativeStock
+    );
+
+    const accepted = await tx.quote.update({
+      where: { id },
+      data: { saleId: sale.id },
+      include: quoteInclude,
+    });
+
+    return { quote: accepted, sale };
+  });
+}
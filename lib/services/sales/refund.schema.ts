@@ -0,0 +1,30 @@
+import { PaymentMethod } from "@prisma/client";
+import { z } from "zod";
+
+export const refundItemSchema = z.object({
+  saleItemId: z.string().min(1, "Sale item is required"),
+  quantity: z.number().positive("Quantity must be greater than zero"), // In the unit sold
+  restock: z.boolean().default(false), // Put the units back on the shelf
+});
+
+// A refund returns some lines, gives back an amount, or both. Without an
+// amount the customer gets back what they paid for the returned units.
+export const refundSchema = z
+  .object({
+    items: z.array(refundItemSchema).default([]),
+    amount: z.number().positive("Amount must be greater than zero").optional(),
+    method: z
+      .nativeEnum(PaymentMethod)
+      .refine((method) => method !== PaymentMethod.CREDIT, {
+        message: "Refunds can't be given on credit",
+      })
+      .default(PaymentMethod.CASH),
+    reference: z.string().optional().nullable(),
+    reason: z.string().min(1, "A reason is required").max(500),
+  })
+  .refine((data) => data.items.length > 0 || data.amount, {
+    message: "Select items to return or enter an amount",
+  });
+
+export type RefundItemInput = z.infer<typeof refundItemSchema>;
+export type RefundInput = z.infer<typeof refundSchema>;
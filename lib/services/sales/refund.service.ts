@@ -0,0 +1,207 @@
+import { prisma } from "@/lib/db";
+import { PaymentStatus, Prisma } from "@prisma/client";
+import { baseQuantity, roundQuantity } from "@/lib/utils";
+import type { RefundInput } from "./refund.schema";
+import { roundMoney, saleLineValues } from "./pricing.service";
+import {
+  isReversedStatus,
+  REVERSED_SALE_STATUSES,
+} from "./sale-lifecycle.service";
+import { toBaseAmount } from "./exchange-rate.service";
+
+/**
+ * Thrown when a refund doesn't fit what is left to refund on a sale
+ */
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+const refundInclude = {
+  items: {
+    include: {
+      saleItem: { select: { id: true, productName: true } },
+    },
+  },
+  processedBy: { select: { id: true, name: true } },
+} satisfies Prisma.RefundInclude;
+
+/**
+ * Refunds given on a sale, newest first. Returns null when the sale
+ * doesn't belong to the business.
+ */
+export async function listRefunds(saleId: string, ownerId: string) {
+  const sale = await prisma.sale.findFirst({
+    where: { id: saleId, ownerId },
+    select: { id: true },
+  });
+  if (!sale) return null;
+
+  return prisma.refund.findMany({
+    where: { saleId, ownerId },
+    include: refundInclude,
+    orderBy: { refundedAt: "desc" },
+  });
+}
+
+/**
+ * Give money back against a sale, optionally returning units of its lines
+ * to stock. Whatever the customer still owes is cancelled first and only
+ * the rest is paid out, so a return on a credit sale settles its balance.
+ * The sale keeps its original totals so past reports don't change; the
+ * refund is counted as negative revenue on the day it is given. Once the
+ * whole total has been refunded, the sale's payment status becomes
+ * REFUNDED. Returns null when the sale doesn't belong to the business.
+ */
+export async function createRefund(
+  saleId: string,
+  ownerId: string,
+  processedById: string,
+  data: RefundInput
+) {
+  return prisma.$transaction(async (tx) => {
+    const sale = await tx.sale.findFirst({
+      where: { id: saleId, ownerId },
+      include: {
+        items: { include: { refundItems: { select: { quantity: true } } } },
+      },
+    });
+    if (!sale) return null;
+
+    if (isReversedStatus(sale.status)) {
+      throw new RefundError(
+        `Invoice ${sale.invoiceNumber} is ${sale.status.toLowerCase()}`
+      );
+    }
+
+    // Value of each line as the customer paid for it
+    const lineValues = saleLineValues(sale.items, sale.discount);
+
+    const seen = new Set<string>();
+    const lines = data.items.map((line) => {
+      const index = sale.items.findIndex((i) => i.id === line.saleItemId);
+      if (index === -1) {
+        throw new RefundError("Item not found on this sale");
+      }
+      if (seen.has(line.saleItemId)) {
+        throw new RefundError("Each item can only be listed once per refund");
+      }
+      seen.add(line.saleItemId);
+
+      const item = sale.items[index];
+      const soldQuantity = Number(item.quantity);
+      const alreadyReturned = item.refundItems.reduce(
+        (sum, r) => sum + Number(r.quantity),
+        0
+      );
+      const returnable = roundQuantity(soldQuantity - alreadyReturned);
+      const quantity = roundQuantity(line.quantity);
+      if (quantity > returnable) {
+        const unit = item.unitName ? ` ${item.unitName}` : "";
+        throw new RefundError(
+          `Only ${returnable}${unit} of "${item.productName}" can still be returned`
+        );
+      }
+
+      return {
+        item,
+        quantity,
+        restock: line.restock && !!item.productId,
+        amount: roundMoney((lineValues[index] * quantity) / soldQuantity),
+      };
+    });
+
+    const amount = roundMoney(
+      data.amount ?? lines.reduce((sum, l) => sum + l.amount, 0)
+    );
+    if (amount <= 0) {
+      throw new RefundError("Refund amount must be greater than zero");
+    }
+
+    const refundable = roundMoney(
+      Number(sale.totalAmount) - Number(sale.amountRefunded)
+    );
+    if (amount > refundable) {
+      throw new RefundError(
+        `Refund exceeds the ${refundable} of invoice ${sale.invoiceNumber} that hasn't been refunded`
+      );
+    }
+
+    const credited = Math.min(amount, Number(sale.balanceDue));
+    const balanceDue = roundMoney(Number(sale.balanceDue) - credited);
+    const amountRefunded = roundMoney(Number(sale.amountRefunded) + amount);
+    const paymentStatus =
+      amountRefunded >= Number(sale.totalAmount)
+        ? PaymentStatus.REFUNDED
+        : credited > 0 && balanceDue <= 0
+          ? PaymentStatus.PAID
+          : sale.paymentStatus;
+
+    // Only move the refunded total if nobody else refunded, voided or
+    // returned the sale in the meantime
+    const result = await tx.sale.updateMany({
+      where: {
+        id: sale.id,
+        ownerId,
+        amountRefunded: sale.amountRefunded,
+        balanceDue: sale.balanceDue,
+        status: { notIn: REVERSED_SALE_STATUSES },
+      },
+      data: { amountRefunded, balanceDue, paymentStatus },
+    });
+    if (result.count === 0) {
+      throw new RefundError(
+        "This sale was changed by someone else. Reload it and try again."
+      );
+    }
+
+    for (const line of lines) {
+      if (line.restock) {
+        await tx.product.update({
+          where: { id: line.item.productId! },
+          data: {
+            currentStock: {
+              increment: baseQuantity(
+                line.quantity,
+                Number(line.item.unitFactor)
+              ),
+            },
+          },
+        });
+      }
+    }
+
+    if (sale.customerId) {
+      await tx.customer.update({
+        where: { id: sale.customerId },
+        data: {
+          totalSpent: { decrement: toBaseAmount(amount, sale.exchangeRate) },
+        },
+      });
+    }
+
+    return tx.refund.create({
+      data: {
+        amount,
+        credited,
+        method: data.method,
+        reference: data.reference || null,
+        reason: data.reason,
+        saleId: sale.id,
+        processedById,
+        ownerId,
+        items: {
+          create: lines.map((line) => ({
+            saleItemId: line.item.id,
+            quantity: line.quantity,
+            amount: line.amount,
+            restocked: line.restock,
+          })),
+        },
+      },
+      include: refundInclude,
+    });
+  });
+}
@@ -0,0 +1,297 @@
+import { prisma } from "@/lib/db";
+import { Prisma } from "@prisma/client";
+import { baseQuantity } from "@/lib/utils";
+import type { SaleInput } from "./sale.schema";
+import {
+  priceSaleForOwner,
+  roundMoney,
+  type PricedLine,
+} from "./pricing.service";
+import { allocateInvoiceNumber } from "./invoice-number.service";
+import {
+  primaryTenderMethod,
+  recordSaleTenders,
+  resolveTenders,
+} from "./payment.service";
+import { completeHeldCart } from "./held-cart.service";
+import { toBaseAmount } from "./exchange-rate.service";
+import { refreshSalesDays } from "./sales-stats.service";
+
+export interface StockShortage {
+  index: number; // Position of the line in the submitted items
+  productId: string;
+  productName: string;
+  requested: number; // In the base unit
+  available: number;
+  unit: string; // Base unit
+}
+
+/**
+ * Thrown when one or more sale lines would take a product below zero stock
+ */
+export class InsufficientStockError extends Error {
+  shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super(
+      shortages
+        .map(
+          (s) =>
+            `Only ${s.available} ${s.unit} of ${s.productName} in stock (requested ${s.requested} ${s.unit})`
+        )
+        .join("; ")
+    );
+    this.name = "InsufficientStockError";
+    this.shortages = shortages;
+  }
+}
+
+/**
+ * Decrement stock for each sale line, in the product's base unit. The
+ * decrement only applies while enough stock remains, so two tills selling
+ * the last unit cannot both win.
+ */
+async function decrementStock(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  lines: PricedLine[],
+  allowNegativeStock: boolean
+): Promise<void> {
+  const shortages: StockShortage[] = [];
+
+  for (const [index, item] of lines.entries()) {
+    if (!item.productId) continue;
+    const quantity = baseQuantity(item.quantity, item.unitFactor);
+
+    const result = await tx.product.updateMany({
+      where: {
+        id: item.productId,
+        ownerId,
+        ...(!allowNegativeStock && {
+          currentStock: { gte: quantity },
+        }),
+      },
+      data: {
+        currentStock: {
+          decrement: quantity,
+        },
+      },
+    });
+
+    if (result.count === 0) {
+      const product = await tx.product.findFirst({
+        where: { id: item.productId, ownerId },
+        select: { currentStock: true, unit: true },
+      });
+
+      if (!product) {
+        throw new Error(`Product not found for item "${item.productName}"`);
+      }
+
+      shortages.push({
+        index,
+        productId: item.productId,
+        productName: item.productName,
+        requested: quantity,
+        available: Number(product.currentStock),
+        unit: product.unit,
+      });
+    }
+  }
+
+  if (shortages.length > 0) {
+    throw new InsufficientStockError(shortages);
+  }
+}
+
+/**
+ * Sale lines with their product's cost and category as they stand at the
+ * time of sale, for commission on margin and by category
+ */
+async function withProductSnapshot(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  lines: PricedLine[]
+) {
+  const productIds = lines
+    .map((line) => line.productId)
+    .filter((id): id is string => !!id);
+  const products = await tx.product.findMany({
+    where: { id: { in: productIds }, ownerId },
+    select: { id: true, costPrice: true, category: true },
+  });
+  const byId = new Map(products.map((p) => [p.id, p]));
+
+  return lines.map((line) => {
+    const product = line.productId ? byId.get(line.productId) : undefined;
+    return {
+      ...line,
+      unitCost: product
+        ? roundMoney(Number(product.costPrice) * line.unitFactor)
+        : null,
+      category: product?.category || null,
+    };
+  });
+}
+
+// A past sale brought in by an import. Historical sales are already
+// counted in stock and customer stats, so those are left alone.
+export interface ImportedSaleOptions {
+  historical: boolean;
+}
+
+/**
+ * Price a sale on the server, create it, decrement stock and update
+ * customer stats inside the caller's transaction. Quote conversion uses
+ * this directly so the quote is accepted in the same unit.
+ */
+export async function createSaleInTransaction(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  soldById: string,
+  data: SaleInput,
+  allowNegativeStock: boolean,
+  imported: ImportedSaleOptions | null = null,
+  keepSubmittedPrices = false
+) {
+  const historical = imported?.historical ?? false;
+  const customer = data.customerId
+    ? await tx.customer.findFirst({
+        where: { id: data.customerId, ownerId, archivedAt: null },
+      })
+    : null;
+
+  if (data.customerId && !customer) {
+    throw new Error("Customer not found");
+  }
+
+  const tenders = resolveTenders(data);
+  const amountPaid = tenders.reduce((sum, t) => sum + t.amount, 0);
+
+  const pricing = await priceSaleForOwner(
+    ownerId,
+    data.items,
+    {
+      discount: data.discount,
+      amountPaid,
+      customerId: customer?.id,
+      currency: data.currency,
+      keepSubmittedPrices: !!imported || keepSubmittedPrices,
+    },
+    tx
+  );
+
+  if (!historical) {
+    await decrementStock(tx, ownerId, pricing.lines, allowNegativeStock);
+  }
+
+  // Numbered in the series of the day it was sold, which for an imported
+  // sale may be long past
+  const saleDate = data.saleDate ? new Date(data.saleDate) : new Date();
+  const invoiceNumber = await allocateInvoiceNumber(tx, ownerId, saleDate);
+
+  const sale = await tx.sale.create({
+    data: {
+      invoiceNumber,
+      customerId: customer?.id || null,
+      currency: pricing.currency,
+      exchangeRate: pricing.exchangeRate,
+      subtotal: pricing.subtotal,
+      discount: pricing.discount,
+      tax: pricing.tax,
+      totalAmount: pricing.totalAmount,
+      amountPaid: pricing.amountPaid,
+      balanceDue: pricing.balanceDue,
+      changeGiven: pricing.change,
+      paymentMethod: primaryTenderMethod(tenders, data.paymentMethod),
+      paymentStatus: pricing.paymentStatus,
+      status: data.status,
+      saleDate,
+      dueDate: data.dueDate ? new Date(data.dueDate) : null,
+      notes: data.notes,
+      clientId: data.clientId || null,
+      imported: !!imported,
+      historical,
+      saleRegionId: data.saleRegionId,
+      saleDistrictId: data.saleDistrictId,
+      ownerId,
+      soldById,
+      items: {
+        create: await withProductSnapshot(tx, ownerId, pricing.lines),
+      },
+    },
+    include: {
+      items: true,
+      customer: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  });
+
+  await recordSaleTenders(tx, sale, tenders, pricing.totalAmount);
+
+  if (data.heldCartId) {
+    await completeHeldCart(tx, data.heldCartId, ownerId, soldById);
+  }
+
+  // Update customer stats if customer exists, in the base currency
+  if (customer && !historical) {
+    const now = new Date();
+    await tx.customer.update({
+      where: { id: customer.id },
+      data: {
+        totalSpent: {
+          increment: toBaseAmount(pricing.totalAmount, pricing.exchangeRate),
+        },
+        totalVisits: {
+          increment: 1,
+        },
+        lastVisit: now,
+        firstVisit: customer.firstVisit || now,
+      },
+    });
+  }
+
+  await refreshSalesDays(tx, ownerId, [sale.saleDate]);
+
+  return sale;
+}
+
+/**
+ * Create a sale as one unit. Any failure rolls the whole sale back.
+ * `allowNegativeStock` overrides the business setting, for sales whose
+ * goods have already left the shop.
+ */
+export async function createSale(
+  ownerId: string,
+  soldById: string,
+  data: SaleInput,
+  options: {
+    allowNegativeStock?: boolean;
+    imported?: ImportedSaleOptions;
+    // Offline sales the cashier accepted at the price the till charged
+    keepSubmittedPrices?: boolean;
+  } = {}
+) {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId: ownerId },
+    select: { allowNegativeStock: true },
+  });
+  const allowNegativeStock =
+    options.allowNegativeStock ?? settings?.allowNegativeStock ?? false;
+
+  return prisma.$transaction((tx) =>
+    createSaleInTransaction(
+      tx,
+      ownerId,
+      soldById,
+      data,
+      allowNegativeStock,
+      options.imported ?? null,
+      options.keepSubmittedPrices ?? false
+    )
+  );
+}
@@ -0,0 +1,220 @@
+import { prisma } from "@/lib/db";
+import { createSignedUrl, SUPABASE_BUCKET } from "@/lib/supabase";
+import { FileType, PaymentMethod, PaymentStatus, SaleStatus } from "@prisma/client";
+import { formatMoney, type LegacyCurrency } from "@/lib/utils";
+import { getCurrencyDisplay } from "@/lib/services/currency/currency.service";
+import { saleTaxBreakdown, type TaxBreakdownEntry } from "./pricing.service";
+
+export interface SaleDocumentData {
+  business: {
+    name: string;
+    phone: string | null;
+    email: string;
+    logo: { bytes: Uint8Array; mimeType: string } | null;
+  };
+  sale: {
+    invoiceNumber: string;
+    saleDate: Date;
+    dueDate: Date | null;
+    status: SaleStatus;
+    paymentStatus: PaymentStatus;
+    notes: string | null;
+    soldBy: string | null;
+  };
+  customer: {
+    name: string;
+    phone: string | null;
+    email: string | null;
+  } | null;
+  items: Array<{
+    name: string;
+    sku: string | null;
+    quantity: number;
+    unit: string | null; // Unit sold in, e.g. "kg"
+    unitPrice: number;
+    discountAmount: number;
+    taxLabel: string | null; // e.g. "VAT 15%"
+    totalPrice: number;
+  }>;
+  taxBreakdown: TaxBreakdownEntry[];
+  totals: {
+    subtotal: number;
+    discount: number;
+    tax: number;
+    totalAmount: number;
+    amountPaid: number;
+    balanceDue: number;
+    changeGiven: number;
+  };
+  payments: Array<{
+    method: PaymentMethod;
+    amount: number;
+    reference: string | null;
+    paidAt: Date;
+  }>;
+  paymentTerms: string | null;
+  currency: string; // The sale's currency
+  // Old currency the total is also printed in during a redenomination
+  legacy: LegacyCurrency | null;
+}
+
+/**
+ * Money formatter for printed documents in the sale's currency
+ */
+export function documentCurrencyFormatter(currency: string) {
+  return (amount: number) => formatMoney(amount, currency);
+}
+
+/**
+ * "Total in SLL" line printed under the total while a redenomination's
+ * old currency is still shown, or null
+ */
+export function legacyTotalLine(
+  data: SaleDocumentData
+): { label: string; amount: string } | null {
+  if (!data.legacy) return null;
+  return {
+    label: `Total in ${data.legacy.currency}`,
+    amount: formatMoney(
+      data.totals.totalAmount * data.legacy.factor,
+      data.legacy.currency
+    ),
+  };
+}
+
+/**
+ * Quantity as printed on a line, with the unit it was sold in: "1.5 kg"
+ */
+export function quantityLabel(item: { quantity: number; unit: string | null }) {
+  return item.unit ? `${item.quantity} ${item.unit}` : String(item.quantity);
+}
+
+/**
+ * Download the business's most recent logo, if one has been uploaded.
+ * A missing or unreadable logo never stops a document being printed.
+ */
+async function loadBusinessLogo(
+  ownerId: string
+): Promise<SaleDocumentData["business"]["logo"]> {
+  const logo = await prisma.file.findFirst({
+    where: { ownerId, type: FileType.BUSINESS_LOGO },
+    orderBy: { uploadedAt: "desc" },
+  });
+  if (!logo) return null;
+
+  try {
+    const marker = `/${SUPABASE_BUCKET}/`;
+    const path = logo.url.includes(marker)
+      ? logo.url.slice(logo.url.indexOf(marker) + marker.length).split("?")[0]
+      : logo.url;
+    const signedUrl = await createSignedUrl(SUPABASE_BUCKET, path, 60);
+    const res = await fetch(signedUrl);
+    if (!res.ok) return null;
+
+    return {
+      bytes: new Uint8Array(await res.arrayBuffer()),
+      mimeType: logo.mimeType || res.headers.get("content-type") || "",
+    };
+  } catch (error) {
+    console.error("Error loading business logo:", error);
+    return null;
+  }
+}
+
+/**
+ * Everything printed on a sale's invoice or receipt. Thermal receipts
+ * skip the logo download since they print text only.
+ */
+export async function loadSaleDocumentData(
+  saleId: string,
+  ownerId: string,
+  options: { includeLogo?: boolean } = {}
+): Promise<SaleDocumentData | null> {
+  const sale = await prisma.sale.findFirst({
+    where: { id: saleId, ownerId },
+    include: {
+      customer: {
+        select: { name: true, phone: true, email: true },
+      },
+      items: {
+        include: {
+          product: {
+            select: { sku: true },
+          },
+        },
+      },
+      payments: {
+        orderBy: { paidAt: "asc" },
+      },
+      soldBy: {
+        select: { name: true },
+      },
+      owner: {
+        select: { businessName: true, phone: true, email: true },
+      },
+    },
+  });
+
+  if (!sale) return null;
+
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId: ownerId },
+    select: { paymentTerms: true },
+  });
+  const display = await getCurrencyDisplay(ownerId);
+
+  return {
+    business: {
+      name: sale.owner.businessName,
+      phone: sale.owner.phone,
+      email: sale.owner.email,
+      logo:
+        options.includeLogo === false ? null : await loadBusinessLogo(ownerId),
+    },
+    sale: {
+      invoiceNumber: sale.invoiceNumber,
+      saleDate: sale.saleDate,
+      dueDate: sale.dueDate,
+      status: sale.status,
+      paymentStatus: sale.paymentStatus,
+      notes: sale.notes,
+      soldBy: sale.soldBy?.name || null,
+    },
+    customer: sale.customer,
+    items: sale.items.map((item) => ({
+      name: item.productName,
+      sku: item.product?.sku || null,
+      quantity: Number(item.quantity),
+      unit: item.unitName,
+      unitPrice: Number(item.unitPrice),
+      discountAmount: Number(item.discountAmount),
+      taxLabel: item.taxRateName
+        ? `${item.taxRateName} ${Number(item.taxPercent)}%`
+        : null,
+      totalPrice: Number(item.totalPrice),
+    })),
+    taxBreakdown: saleTaxBreakdown(sale.items, sale.discount),
+    totals: {
+      subtotal: Number(sale.subtotal),
+      discount: Number(sale.discount),
+      tax: Number(sale.tax),
+      totalAmount: Number(sale.totalAmount),
+      amountPaid: Number(sale.amountPaid),
+      balanceDue: Number(sale.balanceDue),
+      changeGiven: Number(sale.changeGiven),
+    },
+    payments: sale.payments.map((payment) => ({
+      method: payment.method,
+      amount: Number(payment.amount),
+      reference: payment.reference,
+      paidAt: payment.paidAt,
+    })),
+    paymentTerms: settings?.paymentTerms || null,
+    currency: sale.currency,
+    // Foreign-currency sales were never in the old currency
+    legacy:
+      display.legacy && sale.currency === display.currency
+        ? { currency: display.legacy.currency, factor: display.legacy.factor }
+        : null,
+  };
+}
@@ -0,0 +1,267 @@
+import { format } from "date-fns";
+import {
+  documentCurrencyFormatter,
+  legacyTotalLine,
+  loadSaleDocumentData,
+  quantityLabel,
+  type SaleDocumentData,
+} from "./sale-document.service";
+
+export type ReceiptPaperWidth = 58 | 80;
+
+export interface EscPosReceiptOptions {
+  paperWidth: ReceiptPaperWidth;
+  qrData?: string | null; // Printed as a QR code under the totals
+  cut?: boolean; // Send a cut command at the end (default true)
+}
+
+// Characters per line in the printer's default font (Font A, 12x24)
+const LINE_WIDTH: Record<ReceiptPaperWidth, number> = { 58: 32, 80: 48 };
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+/**
+ * Receipt printers run in their default code page, which only agrees
+ * with ASCII, so anything else prints as "?"
+ */
+function asciiText(text: string): string {
+  return text.replace(/\u00a0/g, " ").replace(/[^\x20-\x7e]/g, "?");
+}
+
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of asciiText(text).split(/\s+/).filter(Boolean)) {
+    let rest = word;
+    // Words longer than a line are broken mid-word
+    while (rest.length > width) {
+      if (line) {
+        lines.push(line);
+        line = "";
+      }
+      lines.push(rest.slice(0, width));
+      rest = rest.slice(width);
+    }
+    if (!rest) continue;
+
+    const candidate = line ? `${line} ${rest}` : rest;
+    if (candidate.length <= width) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = rest;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Builds an ESC/POS command stream. Each call appends bytes in order, so
+ * the same calls always produce the same output.
+ */
+export class EscPosBuilder {
+  private bytes: number[] = [];
+
+  constructor(private readonly width: number) {}
+
+  private raw(...values: number[]): this {
+    this.bytes.push(...values);
+    return this;
+  }
+
+  /** One line of text exactly as given, then a line feed */
+  private write(text: string): this {
+    const safe = asciiText(text);
+    for (let i = 0; i < safe.length; i++) this.bytes.push(safe.charCodeAt(i));
+    return this.raw(LF);
+  }
+
+  /** ESC @ - reset the printer to its defaults */
+  init(): this {
+    return this.raw(ESC, 0x40);
+  }
+
+  /** ESC a n - 0 left, 1 centre, 2 right */
+  align(alignment: "left" | "center" | "right"): this {
+    const n = alignment === "center" ? 1 : alignment === "right" ? 2 : 0;
+    return this.raw(ESC, 0x61, n);
+  }
+
+  /** ESC E n - emphasised (bold) on or off */
+  bold(on: boolean): this {
+    return this.raw(ESC, 0x45, on ? 1 : 0);
+  }
+
+  /** GS ! n - character width and height multipliers, 1 to 8 */
+  size(width: number, height: number): this {
+    return this.raw(GS, 0x21, ((width - 1) << 4) | (height - 1));
+  }
+
+  /** Print a line of text, wrapped to the paper at the current width */
+  line(text = "", widthMultiplier = 1): this {
+    const width = Math.floor(this.width / widthMultiplier);
+    const lines = text ? wrapText(text, width) : [""];
+    for (const l of lines) this.write(l);
+    return this;
+  }
+
+  /** Left text and right text on one line, right text on its own if they don't fit */
+  pair(left: string, right: string): this {
+    const l = asciiText(left);
+    const r = asciiText(right);
+    if (l.length + r.length + 1 <= this.width) {
+      return this.write(l + " ".repeat(this.width - l.length - r.length) + r);
+    }
+    this.line(l);
+    return this.write(" ".repeat(Math.max(0, this.width - r.length)) + r);
+  }
+
+  /** A full-width dashed rule */
+  rule(): this {
+    return this.write("-".repeat(this.width));
+  }
+
+  /** ESC d n - feed n lines */
+  feed(lines: number): this {
+    return this.raw(ESC, 0x64, lines);
+  }
+
+  /**
+   * GS ( k - store and print a QR code (model 2, error correction M).
+   * moduleSize is the dot size of one QR module, 1 to 16.
+   */
+  qr(data: string, moduleSize = 6): this {
+    const payload = Array.from(asciiText(data), (c) => c.charCodeAt(0));
+    const storeLength = payload.length + 3;
+
+    return this.raw(GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00) // Model 2
+      .raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize) // Module size
+      .raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31) // Error correction M
+      .raw(GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30, ...payload)
+      .raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30) // Print
+      .raw(LF);
+  }
+
+  /** GS V 66 n - feed n lines then partial cut */
+  cut(): this {
+    return this.raw(GS, 0x56, 0x42, 0x03);
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Lay out a sale as an ESC/POS receipt. Output depends only on the data
+ * and options passed in, so a given sale always renders the same bytes.
+ */
+export function renderEscPosReceipt(
+  data: SaleDocumentData,
+  options: EscPosReceiptOptions
+): Uint8Array {
+  const width = LINE_WIDTH[options.paperWidth];
+  const money = documentCurrencyFormatter(data.currency);
+  const p = new EscPosBuilder(width);
+
+  p.init();
+
+  // Header
+  p.align("center").bold(true).size(2, 2).line(data.business.name, 2);
+  p.size(1, 1).bold(false);
+  if (data.business.phone) p.line(data.business.phone);
+  p.align("left").rule();
+
+  p.line(`Receipt: ${data.sale.invoiceNumber}`);
+  p.line(format(data.sale.saleDate, "dd MMM yyyy HH:mm"));
+  if (data.customer) p.line(`Customer: ${data.customer.name}`);
+  if (data.sale.soldBy) p.line(`Served by: ${data.sale.soldBy}`);
+  p.rule();
+
+  // Items
+  for (const item of data.items) {
+    p.line(item.name);
+    p.pair(`  ${quantityLabel(item)} x ${money(item.unitPrice)}`, money(item.totalPrice));
+    if (item.discountAmount > 0) {
+      p.pair("  Discount", money(-item.discountAmount));
+    }
+  }
+  p.rule();
+
+  // Totals
+  p.pair("Subtotal", money(data.totals.subtotal));
+  if (data.totals.discount > 0) {
+    p.pair("Discount", money(-data.totals.discount));
+  }
+  if (data.taxBreakdown.length > 0) {
+    for (const entry of data.taxBreakdown) {
+      p.pair(`${entry.name} ${entry.rate}%`, money(entry.taxAmount));
+    }
+  } else {
+    p.pair("Tax", money(data.totals.tax));
+  }
+  p.bold(true).size(1, 2);
+  p.pair("TOTAL", money(data.totals.totalAmount));
+  p.size(1, 1).bold(false);
+  const legacyTotal = legacyTotalLine(data);
+  if (legacyTotal) p.pair(legacyTotal.label, legacyTotal.amount);
+
+  for (const payment of data.payments) {
+    p.pair(payment.method.replace("_", " "), money(payment.amount));
+    if (payment.reference) p.line(`  Ref: ${payment.reference}`);
+  }
+
+  if (data.totals.changeGiven > 0) {
+    p.pair("Change", money(data.totals.changeGiven));
+  }
+
+  if (data.totals.balanceDue > 0) {
+    p.bold(true).pair("Balance Due", money(data.totals.balanceDue)).bold(false);
+    if (data.sale.dueDate) {
+      p.line(`Due ${format(data.sale.dueDate, "dd MMM yyyy")}`);
+    }
+  }
+
+  if (data.paymentTerms) {
+    p.rule().line(data.paymentTerms);
+  }
+  p.rule();
+
+  if (options.qrData) {
+    p.align("center").qr(options.qrData).align("left");
+  }
+
+  p.align("center").line("Thank you for your business").align("left");
+  p.feed(3);
+  if (options.cut !== false) p.cut();
+
+  return p.toBytes();
+}
+
+/**
+ * Load a sale and render its thermal receipt. With includeQr the QR code
+ * carries the invoice number, so the receipt can be scanned back up.
+ */
+export async function generateEscPosReceipt(
+  saleId: string,
+  ownerId: string,
+  options: Omit<EscPosReceiptOptions, "qrData"> & { includeQr?: boolean }
+): Promise<{ bytes: Uint8Array; fileName: string } | null> {
+  const data = await loadSaleDocumentData(saleId, ownerId, {
+    includeLogo: false,
+  });
+  if (!data) return null;
+
+  return {
+    bytes: renderEscPosReceipt(data, {
+      paperWidth: options.paperWidth,
+      cut: options.cut,
+      qrData: options.includeQr ? data.sale.invoiceNumber : null,
+    }),
+    fileName: `receipt-${data.sale.invoiceNumber}.bin`,
+  };
+}
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { saleSchema } from "./sale.schema";
+
+// Most rows one import can preview; larger files are split
+export const MAX_IMPORT_ROWS = 5000;
+
+// Sales committed per request, each in its own transaction
+export const MAX_IMPORT_BATCH = 50;
+
+const column = z.number().int().min(0).optional();
+
+// Spreadsheet column (zero-based) each sale field is read from. Rows
+// sharing a reference, e.g. a receipt number, are one sale; without one
+// every row is a sale of its own.
+export const saleImportMappingSchema = z.object({
+  reference: column,
+  saleDate: column,
+  customerPhone: column,
+  sku: column,
+  productName: column,
+  unit: column,
+  quantity: column,
+  unitPrice: column,
+  discount: column,
+  amountPaid: column,
+  paymentMethod: column,
+  dueDate: column,
+  notes: column,
+}).refine((mapping) => mapping.saleDate !== undefined, {
+  message: "Map a column to the sale date",
+  path: ["saleDate"],
+}).refine((mapping) => mapping.quantity !== undefined, {
+  message: "Map a column to the quantity",
+  path: ["quantity"],
+}).refine(
+  (mapping) => mapping.sku !== undefined || mapping.productName !== undefined,
+  { message: "Map a column to the SKU or product name", path: ["productName"] }
+);
+
+export const saleImportPreviewSchema = z.object({
+  mapping: saleImportMappingSchema,
+  // Data rows, without the header row
+  rows: z
+    .array(z.array(z.string()))
+    .min(1, "The file has no rows")
+    .max(MAX_IMPORT_ROWS, `Import at most ${MAX_IMPORT_ROWS} rows at a time`),
+});
+
+export const saleImportCommitSchema = z.object({
+  // Already counted in stock and customer stats, e.g. sales made before
+  // the opening stock count
+  historical: z.boolean().default(true),
+  sales: z
+    .array(saleSchema.extend({ clientId: z.string().min(1).max(64) }))
+    .min(1)
+    .max(MAX_IMPORT_BATCH),
+});
+
+export type SaleImportMapping = z.infer<typeof saleImportMappingSchema>;
+export type SaleImportPreviewInput = z.infer<typeof saleImportPreviewSchema>;
+export type SaleImportCommitInput = z.infer<typeof saleImportCommitSchema>;
@@ -0,0 +1,566 @@
+import { createHash } from "crypto";
+import { prisma } from "@/lib/db";
+import { PaymentMethod, Prisma } from "@prisma/client";
+import { isValid, parse } from "date-fns";
+import { catalogUnitPrice } from "@/lib/utils";
+import { saleSchema, type SaleInput, type SaleItemInput } from "./sale.schema";
+import type {
+  SaleImportCommitInput,
+  SaleImportMapping,
+  SaleImportPreviewInput,
+} from "./sale-import.schema";
+import {
+  getPricingRules,
+  priceSale,
+  PricingError,
+  roundMoney,
+  type PricingRules,
+} from "./pricing.service";
+import {
+  resolveCustomerPriceList,
+  type CustomerPriceList,
+} from "./price-list.service";
+import { resolveCurrency, type ResolvedCurrency } from "./exchange-rate.service";
+import { createSale } from "./sale-creation.service";
+
+export interface ImportRowMessage {
+  row: number; // Spreadsheet row, counting the header as row 1
+  message: string;
+}
+
+export interface ImportedSalePreview {
+  reference: string | null;
+  rows: number[];
+  // Ready to commit, or null when any of its rows has an error
+  sale: (SaleInput & { clientId: string }) | null;
+  errors: ImportRowMessage[];
+  warnings: ImportRowMessage[];
+  customerName: string | null;
+  totalAmount: number | null;
+  importedAs: string | null; // Invoice the same rows were already imported as
+}
+
+export type SaleImportResult =
+  | {
+      clientId: string;
+      status: "imported";
+      sale: { id: string; invoiceNumber: string; totalAmount: number };
+      duplicate: boolean; // Already imported by an earlier run
+    }
+  | {
+      clientId: string;
+      status: "failed";
+      message: string;
+    };
+
+const DATE_FORMATS = [
+  "yyyy-MM-dd",
+  "yyyy-MM-dd HH:mm",
+  "dd/MM/yyyy",
+  "dd/MM/yyyy HH:mm",
+  "dd-MM-yyyy",
+  "dd.MM.yyyy",
+  "d MMM yyyy",
+  "d MMMM yyyy",
+  "dd/MM/yy",
+];
+
+/**
+ * Read a date cell. Dates are written day first here; Excel date serial
+ * numbers are accepted too.
+ */
+function parseImportDate(value: string): Date | null {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    // Days since 30 Dec 1899, Excel's day zero
+    const serial = Number(value);
+    if (serial < 20000 || serial > 80000) return null;
+    return new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000));
+  }
+
+  for (const format of DATE_FORMATS) {
+    const date = parse(value, format, new Date());
+    if (isValid(date) && date.getFullYear() >= 1970) return date;
+  }
+  return null;
+}
+
+/**
+ * Read an amount or quantity cell, ignoring thousands separators and a
+ * leading currency such as "Le". Blank is null; anything else that isn't
+ * a number is NaN.
+ */
+function parseImportNumber(value: string): number | null {
+  if (!value) return null;
+  const cleaned = value.replace(/[,\s]/g, "").replace(/^[^\d.-]+/, "");
+  return cleaned ? Number(cleaned) : NaN;
+}
+
+const PAYMENT_METHOD_PATTERNS: Array<[RegExp, PaymentMethod]> = [
+  [/^cash/, PaymentMethod.CASH],
+  [/mobile|momo|orange|afri|qmoney/, PaymentMethod.MOBILE_MONEY],
+  [/bank|transfer/, PaymentMethod.BANK_TRANSFER],
+  [/^(pos|card)/, PaymentMethod.POS],
+  [/credit|owing/, PaymentMethod.CREDIT],
+  [/cheque|check/, PaymentMethod.CHEQUE],
+];
+
+function parsePaymentMethod(value: string): PaymentMethod | null {
+  const normalized = value.toLowerCase().replace(/[_-]+/g, " ");
+  const match = PAYMENT_METHOD_PATTERNS.find(([pattern]) =>
+    pattern.test(normalized)
+  );
+  return match ? match[1] : null;
+}
+
+/**
+ * A phone number's digits without the country code or leading 0, so
+ * "+232 76 123456" and "076123456" match
+ */
+function phoneKey(phone: string): string {
+  let digits = phone.replace(/\D/g, "");
+  if (digits.startsWith("232") && digits.length > 9) digits = digits.slice(3);
+  return digits.replace(/^0+/, "");
+}
+
+type ImportProduct = Awaited<ReturnType<typeof loadCatalog>>[number];
+
+async function loadCatalog(ownerId: string) {
+  return prisma.product.findMany({
+    where: { ownerId },
+    select: {
+      id: true,
+      name: true,
+      sku: true,
+      sellingPrice: true,
+      taxRateId: true,
+      unit: true,
+      units: {
+        select: { id: true, name: true, factor: true, sellingPrice: true },
+      },
+    },
+  });
+}
+
+interface ImportContext {
+  mapping: SaleImportMapping;
+  rows: string[][];
+  products: ImportProduct[];
+  bySku: Map<string, ImportProduct>;
+  byName: Map<string, ImportProduct[]>;
+  byPhone: Map<string, { id: string; name: string }>;
+  priceLists: Map<string, CustomerPriceList | null>;
+  rules: PricingRules;
+  currency: ResolvedCurrency;
+  ownerId: string;
+  now: Date;
+}
+
+function cell(
+  context: ImportContext,
+  index: number,
+  field: keyof SaleImportMapping
+): string {
+  const column = context.mapping[field];
+  if (column === undefined) return "";
+  return (context.rows[index][column] ?? "").trim();
+}
+
+/**
+ * Turn the rows of one sale into a sale input, collecting every problem
+ * found rather than stopping at the first
+ */
+async function previewSale(
+  context: ImportContext,
+  reference: string | null,
+  indexes: number[]
+): Promise<Omit<ImportedSalePreview, "sale" | "importedAs"> & {
+  sale: SaleInput | null;
+}> {
+  const rowNumber = (index: number) => index + 2;
+  const errors: ImportRowMessage[] = [];
+  const warnings: ImportRowMessage[] = [];
+  const fail = (index: number, message: string) =>
+    errors.push({ row: rowNumber(index), message });
+  const first = indexes[0];
+
+  // Sale-level fields are read from the sale's first row
+  const saleDateText = cell(context, first, "saleDate");
+  const saleDate = saleDateText ? parseImportDate(saleDateText) : null;
+  if (!saleDateText) {
+    fail(first, "Sale date is missing");
+  } else if (!saleDate) {
+    fail(first, `"${saleDateText}" is not a date`);
+  } else if (saleDate > context.now) {
+    fail(first, "Sale date is in the future");
+  }
+
+  const phone = cell(context, first, "customerPhone");
+  const customer = phone ? context.byPhone.get(phoneKey(phone)) || null : null;
+  if (phone && !customer) {
+    fail(first, `No customer with phone ${phone}`);
+  }
+
+  let priceList: CustomerPriceList | null = null;
+  if (customer) {
+    if (!context.priceLists.has(customer.id)) {
+      context.priceLists.set(
+        customer.id,
+        await resolveCustomerPriceList(context.ownerId, customer.id)
+      );
+    }
+    priceList = context.priceLists.get(customer.id)!;
+  }
+
+  const items: SaleItemInput[] = [];
+  for (const index of indexes) {
+    const sku = cell(context, index, "sku");
+    const name = cell(context, index, "productName");
+    const unitText = cell(context, index, "unit");
+    const quantityText = cell(context, index, "quantity");
+    const priceText = cell(context, index, "unitPrice");
+
+    let product: ImportProduct | null = null;
+    if (sku) {
+      product = context.bySku.get(sku.toLowerCase()) || null;
+      if (!product) fail(index, `No product with SKU "${sku}"`);
+    } else if (name) {
+      const matches = context.byName.get(name.toLowerCase()) || [];
+      if (matches.length > 1) {
+        fail(
+          index,
+          `Several products are named "${name}". Map the SKU column to tell them apart.`
+        );
+      }
+      product = matches[0] || null;
+    } else {
+      fail(index, "Product is missing");
+    }
+
+    const quantity = parseImportNumber(quantityText);
+    if (quantity === null || Number.isNaN(quantity) || quantity <= 0) {
+      fail(index, `Quantity "${quantityText}" must be a number above zero`);
+    }
+
+    let unit: ImportProduct["units"][number] | null = null;
+    if (
+      product &&
+      unitText &&
+      unitText.toLowerCase() !== product.unit.toLowerCase()
+    ) {
+      unit =
+        product.units.find(
+          (u) => u.name.toLowerCase() === unitText.toLowerCase()
+        ) || null;
+      if (!unit) fail(index, `${product.name} is not sold by the ${unitText}`);
+    }
+
+    let unitPrice = parseImportNumber(priceText);
+    if (unitPrice !== null && (Number.isNaN(unitPrice) || unitPrice < 0)) {
+      fail(index, `Price "${priceText}" must be a number`);
+    } else if (unitPrice === null && product) {
+      // Blank prices are filled from the catalogue, as the till would
+      unitPrice = roundMoney(
+        catalogUnitPrice(
+          Number(product.sellingPrice),
+          quantity || 0,
+          unit
+            ? {
+                factor: Number(unit.factor),
+                sellingPrice:
+                  unit.sellingPrice !== null ? Number(unit.sellingPrice) : null,
+              }
+            : null,
+          priceList?.tiers[product.id]
+        ) / context.currency.exchangeRate
+      );
+    } else if (unitPrice === null && name && !sku) {
+      fail(index, `Price is missing for "${name}", which is not in the catalogue`);
+    }
+
+    if (!product && name && !sku) {
+      warnings.push({
+        row: rowNumber(index),
+        message: `"${name}" is not in the catalogue and is recorded as a manual item`,
+      });
+    }
+
+    items.push({
+      productId: product?.id,
+      productName: product?.name || name,
+      quantity: quantity || 0,
+      unitId: unit?.id || null,
+      unitPrice: unitPrice || 0,
+      discountType: null,
+      discountValue: 0,
+    });
+  }
+
+  const discountText = cell(context, first, "discount");
+  const discount = parseImportNumber(discountText) ?? 0;
+  if (Number.isNaN(discount) || discount < 0) {
+    fail(first, `Discount "${discountText}" must be a number`);
+  }
+
+  const methodText = cell(context, first, "paymentMethod");
+  const paymentMethod = methodText
+    ? parsePaymentMethod(methodText)
+    : PaymentMethod.CASH;
+  if (!paymentMethod) {
+    fail(first, `Unknown payment method "${methodText}"`);
+  }
+
+  const paidText = cell(context, first, "amountPaid");
+  const paid = parseImportNumber(paidText);
+  if (paid !== null && (Number.isNaN(paid) || paid < 0)) {
+    fail(first, `Amount paid "${paidText}" must be a number`);
+  }
+
+  const dueDateText = cell(context, first, "dueDate");
+  const dueDate = dueDateText ? parseImportDate(dueDateText) : null;
+  if (dueDateText && !dueDate) {
+    fail(first, `"${dueDateText}" is not a date`);
+  }
+
+  const base = {
+    reference,
+    rows: indexes.map(rowNumber),
+    errors,
+    warnings,
+    customerName: customer?.name || null,
+  };
+  if (errors.length > 0) {
+    return { ...base, sale: null, totalAmount: null };
+  }
+
+  let totalAmount: number;
+  try {
+    totalAmount = priceSale(
+      items,
+      context.products,
+      { discount, amountPaid: 0 },
+      context.rules,
+      priceList,
+      context.currency
+    ).totalAmount;
+  } catch (error) {
+    if (!(error instanceof PricingError)) throw error;
+    fail(
+      error.index !== undefined ? indexes[error.index] : first,
+      error.message
+    );
+    return { ...base, sale: null, totalAmount: null };
+  }
+
+  // A blank amount paid means paid in full, unless sold on credit
+  const amountPaid =
+    paid ?? (paymentMethod === PaymentMethod.CREDIT ? 0 : totalAmount);
+  if (amountPaid > totalAmount && paymentMethod !== PaymentMethod.CASH) {
+    fail(first, "Only cash payments can be more than the sale total");
+  }
+
+  const notes = [
+    reference ? `Imported from ${reference}` : null,
+    cell(context, first, "notes") || null,
+  ]
+    .filter(Boolean)
+    .join(". ");
+
+  const parsed = saleSchema.safeParse({
+    customerId: customer?.id || null,
+    items,
+    discount,
+    amountPaid,
+    paymentMethod: paymentMethod!,
+    saleDate: saleDate!.toISOString(),
+    dueDate: dueDate ? dueDate.toISOString() : null,
+    notes: notes || null,
+  });
+  if (!parsed.success) {
+    parsed.error.issues.forEach((issue) => fail(first, issue.message));
+  }
+  if (errors.length > 0 || !parsed.success) {
+    return { ...base, sale: null, totalAmount: null };
+  }
+
+  return { ...base, sale: parsed.data, totalAmount };
+}
+
+/**
+ * Map the rows of an uploaded spreadsheet to sales, matching customers by
+ * phone and products by SKU or name, and report every row's problems
+ * before anything is saved. Imports are in the business's currency.
+ */
+export async function previewSaleImport(
+  ownerId: string,
+  data: SaleImportPreviewInput
+): Promise<ImportedSalePreview[]> {
+  const [products, customers, rules, currency] = await Promise.all([
+    loadCatalog(ownerId),
+    prisma.customer.findMany({
+      where: { ownerId, archivedAt: null },
+      select: { id: true, name: true, phone: true },
+    }),
+    getPricingRules(ownerId),
+    resolveCurrency(ownerId, null),
+  ]);
+  // Imported sales keep the price they were recorded at
+  rules.allowPriceOverride = true;
+
+  const byName = new Map<string, ImportProduct[]>();
+  for (const product of products) {
+    const key = product.name.toLowerCase();
+    byName.set(key, [...(byName.get(key) || []), product]);
+  }
+
+  const context: ImportContext = {
+    mapping: data.mapping,
+    rows: data.rows,
+    products,
+    bySku: new Map(products.map((p) => [p.sku.toLowerCase(), p])),
+    byName,
+    byPhone: new Map(
+      customers
+        .filter((c) => phoneKey(c.phone))
+        .map((c) => [phoneKey(c.phone), { id: c.id, name: c.name }])
+    ),
+    priceLists: new Map(),
+    rules,
+    currency,
+    ownerId,
+    now: new Date(),
+  };
+
+  // Rows sharing a reference make one sale, in the order first seen
+  const groups = new Map<string, { reference: string | null; indexes: number[] }>();
+  data.rows.forEach((row, index) => {
+    if (row.every((value) => !value.trim())) return;
+    const reference = cell(context, index, "reference") || null;
+    const key = reference ? `ref:${reference}` : `row:${index}`;
+    const group = groups.get(key);
+    if (group) group.indexes.push(index);
+    else groups.set(key, { reference, indexes: [index] });
+  });
+
+  const previews: ImportedSalePreview[] = [];
+  const seen = new Map<string, number>();
+  for (const { reference, indexes } of groups.values()) {
+    const preview = await previewSale(context, reference, indexes);
+
+    // The same rows always get the same ID, so importing a file twice
+    // can't record its sales twice. Identical sales are told apart by
+    // how many came before.
+    let sale: ImportedSalePreview["sale"] = null;
+    if (preview.sale) {
+      const hash = createHash("sha256")
+        .update(JSON.stringify({ ...preview.sale, reference }))
+        .digest("hex");
+      const occurrence = seen.get(hash) || 0;
+      seen.set(hash, occurrence + 1);
+      sale = {
+        ...preview.sale,
+        clientId: `import-${hash.slice(0, 40)}-${occurrence}`,
+      };
+    }
+
+    previews.push({ ...preview, sale, importedAs: null });
+  }
+
+  const clientIds = previews
+    .map((p) => p.sale?.clientId)
+    .filter((id): id is string => !!id);
+  const imported = await prisma.sale.findMany({
+    where: { ownerId, clientId: { in: clientIds } },
+    select: { clientId: true, invoiceNumber: true },
+  });
+  const importedAs = new Map(imported.map((s) => [s.clientId, s.invoiceNumber]));
+  for (const preview of previews) {
+    if (preview.sale) {
+      preview.importedAs = importedAs.get(preview.sale.clientId) || null;
+    }
+  }
+
+  return previews;
+}
+
+async function findImportedSale(ownerId: string, clientId: string) {
+  return prisma.sale.findFirst({
+    where: { ownerId, clientId },
+    select: { id: true, invoiceNumber: true, totalAmount: true },
+  });
+}
+
+/**
+ * Record one batch of previewed sales. Each sale stands alone, so a row
+ * that fails does not hold back the rest. Historical sales leave stock
+ * and customer stats as they are; the rest take stock down even below
+ * zero, since the goods are long gone.
+ */
+export async function commitSaleImport(
+  ownerId: string,
+  soldById: string,
+  data: SaleImportCommitInput
+): Promise<SaleImportResult[]> {
+  const results: SaleImportResult[] = [];
+
+  for (const entry of data.sales) {
+    const { clientId } = entry;
+
+    const existing = await findImportedSale(ownerId, clientId);
+    if (existing) {
+      results.push({
+        clientId,
+        status: "imported",
+        sale: { ...existing, totalAmount: Number(existing.totalAmount) },
+        duplicate: true,
+      });
+      continue;
+    }
+
+    try {
+      const sale = await createSale(ownerId, soldById, entry, {
+        allowNegativeStock: true,
+        imported: { historical: data.historical },
+      });
+      results.push({
+        clientId,
+        status: "imported",
+        sale: {
+          id: sale.id,
+          invoiceNumber: sale.invoiceNumber,
+          totalAmount: Number(sale.totalAmount),
+        },
+        duplicate: false,
+      });
+    } catch (error: any) {
+      // A concurrent run of the same import won the race
+      if (error.code === "P2002") {
+        const imported = await findImportedSale(ownerId, clientId);
+        if (imported) {
+          results.push({
+            clientId,
+            status: "imported",
+            sale: { ...imported, totalAmount: Number(imported.totalAmount) },
+            duplicate: true,
+          });
+          continue;
+        }
+      }
+
+      // Database trouble fails the batch so it can be retried; anything
+      // else, e.g. a product deleted since the preview, fails the sale
+      if (
+        error instanceof PricingError ||
+        (error instanceof Error &&
+          !(error instanceof Prisma.PrismaClientKnownRequestError) &&
+          !(error instanceof Prisma.PrismaClientUnknownRequestError) &&
+          !(error instanceof Prisma.PrismaClientInitializationError))
+      ) {
+        results.push({ clientId, status: "failed", message: error.message });
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return results;
+}
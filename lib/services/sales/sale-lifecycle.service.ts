@@ -0,0 +1,227 @@
+import { prisma } from "@/lib/db";
+import { Prisma, SaleStatus } from "@prisma/client";
+import { baseQuantity } from "@/lib/utils";
+import { roundMoney } from "./pricing.service";
+import { toBaseAmount } from "./exchange-rate.service";
+import { refreshSalesDays } from "./sales-stats.service";
+
+/**
+ * Statuses that undo a sale: stock goes back on the shelf and the
+ * customer's totals no longer include it.
+ */
+export const REVERSED_SALE_STATUSES: SaleStatus[] = [
+  SaleStatus.CANCELLED,
+  SaleStatus.RETURNED,
+];
+
+export function isReversedStatus(status: SaleStatus): boolean {
+  return REVERSED_SALE_STATUSES.includes(status);
+}
+
+/**
+ * Check whether a sale may move from one status to another.
+ * Cancelled and returned sales are final.
+ */
+export function canTransitionSaleStatus(
+  from: SaleStatus,
+  to: SaleStatus
+): boolean {
+  if (from === to) return true;
+  return !isReversedStatus(from);
+}
+
+/**
+ * Refunds have already given back part of the sale, so voiding or
+ * returning it as a whole would restore stock and customer totals twice
+ */
+export function hasRefunds(sale: {
+  amountRefunded: Prisma.Decimal | number;
+}): boolean {
+  return Number(sale.amountRefunded) > 0;
+}
+
+export const REFUNDED_SALE_REVERSAL_ERROR =
+  "This sale has refunds. Refund the remaining items instead.";
+
+/**
+ * Thrown when a sale's status can't be changed, e.g. because someone else
+ * voided it first
+ */
+export class SaleStatusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SaleStatusError";
+  }
+}
+
+/**
+ * Claim a sale's move to a reversed status before undoing its effects, so
+ * two voids or returns racing each other can't both restock it. Only a
+ * sale that is still live and unrefunded can be claimed. Must run inside
+ * the transaction that reverses it.
+ */
+export async function claimSaleReversal(
+  tx: Prisma.TransactionClient,
+  saleId: string,
+  ownerId: string,
+  status: SaleStatus
+): Promise<void> {
+  const claimed = await tx.sale.updateMany({
+    where: {
+      id: saleId,
+      ownerId,
+      status: { notIn: REVERSED_SALE_STATUSES },
+      amountRefunded: 0,
+    },
+    data: { status },
+  });
+  if (claimed.count === 0) {
+    throw new SaleStatusError(
+      "This sale was changed by someone else. Reload it and try again."
+    );
+  }
+}
+
+type SaleWithItems = Prisma.SaleGetPayload<{ include: { items: true } }>;
+
+/**
+ * Undo the stock decrements and customer stat increments applied when
+ * the sale was created. Historical imports never applied any. Must run
+ * inside a transaction.
+ */
+export async function reverseSaleEffects(
+  tx: Prisma.TransactionClient,
+  sale: SaleWithItems
+): Promise<void> {
+  if (sale.historical) return;
+
+  for (const item of sale.items) {
+    if (item.productId) {
+      await tx.product.update({
+        where: { id: item.productId },
+        data: {
+          currentStock: {
+            increment: baseQuantity(
+              Number(item.quantity),
+              Number(item.unitFactor)
+            ),
+          },
+        },
+      });
+    }
+  }
+
+  if (sale.customerId) {
+    await tx.customer.update({
+      where: { id: sale.customerId },
+      data: {
+        totalSpent: {
+          decrement: toBaseAmount(sale.totalAmount, sale.exchangeRate),
+        },
+        totalVisits: {
+          decrement: 1,
+        },
+      },
+    });
+  }
+}
+
+/**
+ * Move a sale's customer stats from one customer to another, e.g. when a
+ * sale was recorded against the wrong customer.
+ */
+export async function reassignSaleCustomer(
+  tx: Prisma.TransactionClient,
+  sale: SaleWithItems,
+  newCustomerId: string | null
+): Promise<void> {
+  // Refunds have already come off the old customer's total
+  const spent = toBaseAmount(
+    roundMoney(Number(sale.totalAmount) - Number(sale.amountRefunded)),
+    sale.exchangeRate
+  );
+
+  // Historical imports were never counted in either customer's stats
+  if (sale.customerId && !sale.historical) {
+    await tx.customer.update({
+      where: { id: sale.customerId },
+      data: {
+        totalSpent: {
+          decrement: spent,
+        },
+        totalVisits: {
+          decrement: 1,
+        },
+      },
+    });
+  }
+
+  if (newCustomerId && !sale.historical) {
+    const customer = await tx.customer.findUnique({
+      where: { id: newCustomerId },
+    });
+
+    await tx.customer.update({
+      where: { id: newCustomerId },
+      data: {
+        totalSpent: {
+          increment: spent,
+        },
+        totalVisits: {
+          increment: 1,
+        },
+        lastVisit: sale.saleDate,
+        firstVisit: customer?.firstVisit || sale.saleDate,
+      },
+    });
+  }
+
+  // Payments already taken on the sale move with it
+  await tx.payment.updateMany({
+    where: { saleId: sale.id },
+    data: { customerId: newCustomerId },
+  });
+}
+
+/**
+ * Change a sale's status, reversing its stock and customer effects when it
+ * is cancelled or returned
+ */
+export async function changeSaleStatus(
+  saleId: string,
+  ownerId: string,
+  status: SaleStatus
+) {
+  return prisma.$transaction(async (tx) => {
+    const sale = await tx.sale.findFirst({
+      where: { id: saleId, ownerId },
+      include: { items: true },
+    });
+
+    if (!sale) {
+      throw new Error("Sale not found");
+    }
+
+    if (!canTransitionSaleStatus(sale.status, status)) {
+      throw new Error(`Cannot change a ${sale.status.toLowerCase()} sale`);
+    }
+
+    if (isReversedStatus(status) && hasRefunds(sale)) {
+      throw new Error(REFUNDED_SALE_REVERSAL_ERROR);
+    }
+
+    if (isReversedStatus(status) && !isReversedStatus(sale.status)) {
+      await claimSaleReversal(tx, sale.id, ownerId, status);
+      await reverseSaleEffects(tx, sale);
+    }
+
+    const updated = await tx.sale.update({
+      where: { id: sale.id },
+      data: { status },
+    });
+
+    await refreshSalesDays(tx, ownerId, [sale.saleDate]);
+
+    return updated;
+  });
+}
@@ -0,0 +1,635 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  StandardFonts,
+  rgb,
+} from "pdf-lib";
+import { format } from "date-fns";
+import { uploadAndCreateFileRecord } from "@/lib/file-upload";
+import {
+  documentCurrencyFormatter,
+  legacyTotalLine,
+  loadSaleDocumentData,
+  quantityLabel,
+  type SaleDocumentData,
+} from "./sale-document.service";
+
+export type SaleDocumentLayout = "invoice" | "receipt";
+
+const A4 = { width: 595.28, height: 841.89 };
+const RECEIPT_WIDTH = 226.77; // 80mm roll
+
+const INK = rgb(0.1, 0.1, 0.1);
+const MUTED = rgb(0.4, 0.4, 0.4);
+const RULE = rgb(0.8, 0.8, 0.8);
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+/**
+ * The standard PDF fonts only cover Latin-1; anything else prints as "?"
+ */
+function printable(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+/**
+ * Break text into lines no wider than maxWidth
+ */
+function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of printable(text).split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth || !line) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [""];
+}
+
+function drawRight(
+  page: PDFPage,
+  text: string,
+  right: number,
+  y: number,
+  font: PDFFont,
+  size: number,
+  color = INK
+) {
+  const safe = printable(text);
+  page.drawText(safe, {
+    x: right - font.widthOfTextAtSize(safe, size),
+    y,
+    size,
+    font,
+    color,
+  });
+}
+
+function drawCentered(
+  page: PDFPage,
+  text: string,
+  centre: number,
+  y: number,
+  font: PDFFont,
+  size: number,
+  color = INK
+) {
+  const safe = printable(text);
+  page.drawText(safe, {
+    x: centre - font.widthOfTextAtSize(safe, size) / 2,
+    y,
+    size,
+    font,
+    color,
+  });
+}
+
+async function embedLogo(
+  pdf: PDFDocument,
+  logo: SaleDocumentData["business"]["logo"]
+): Promise<PDFImage | null> {
+  if (!logo) return null;
+  try {
+    if (logo.mimeType.includes("png")) return await pdf.embedPng(logo.bytes);
+    if (logo.mimeType.includes("jp")) return await pdf.embedJpg(logo.bytes);
+  } catch (error) {
+    console.error("Error embedding business logo:", error);
+  }
+  return null;
+}
+
+async function loadFonts(pdf: PDFDocument): Promise<Fonts> {
+  return {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+}
+
+/**
+ * A4 invoice: letterhead, bill-to, line items, totals, payments and terms
+ */
+export async function renderInvoicePdf(
+  data: SaleDocumentData
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Invoice ${data.sale.invoiceNumber}`);
+  pdf.setAuthor(data.business.name);
+
+  const fonts = await loadFonts(pdf);
+  const logo = await embedLogo(pdf, data.business.logo);
+  const money = documentCurrencyFormatter(data.currency);
+
+  const margin = 50;
+  const right = A4.width - margin;
+  const columns = { qty: 360, unitPrice: 450, total: right };
+
+  let page = pdf.addPage([A4.width, A4.height]);
+  let y = A4.height - margin;
+
+  // Letterhead
+  let textX = margin;
+  if (logo) {
+    const size = logo.scaleToFit(80, 60);
+    page.drawImage(logo, {
+      x: margin,
+      y: y - size.height,
+      width: size.width,
+      height: size.height,
+    });
+    textX = margin + size.width + 12;
+  }
+  page.drawText(printable(data.business.name), {
+    x: textX,
+    y: y - 16,
+    size: 18,
+    font: fonts.bold,
+    color: INK,
+  });
+  const contact = [data.business.phone, data.business.email]
+    .filter(Boolean)
+    .join("  |  ");
+  page.drawText(printable(contact), {
+    x: textX,
+    y: y - 32,
+    size: 9,
+    font: fonts.regular,
+    color: MUTED,
+  });
+
+  drawRight(page, "INVOICE", right, y - 16, fonts.bold, 20);
+  drawRight(page, data.sale.invoiceNumber, right, y - 32, fonts.regular, 10);
+  drawRight(
+    page,
+    `Date: ${format(data.sale.saleDate, "dd MMM yyyy")}`,
+    right,
+    y - 46,
+    fonts.regular,
+    9,
+    MUTED
+  );
+  if (data.sale.dueDate) {
+    drawRight(
+      page,
+      `Due: ${format(data.sale.dueDate, "dd MMM yyyy")}`,
+      right,
+      y - 58,
+      fonts.regular,
+      9,
+      MUTED
+    );
+  }
+
+  y -= 90;
+
+  // Bill to
+  page.drawText("BILL TO", {
+    x: margin,
+    y,
+    size: 9,
+    font: fonts.bold,
+    color: MUTED,
+  });
+  y -= 14;
+  const billTo = data.customer
+    ? [data.customer.name, data.customer.phone, data.customer.email]
+    : ["Walk-in Customer"];
+  for (const line of billTo.filter(Boolean) as string[]) {
+    page.drawText(printable(line), {
+      x: margin,
+      y,
+      size: 10,
+      font: fonts.regular,
+      color: INK,
+    });
+    y -= 13;
+  }
+
+  y -= 15;
+
+  // Line items
+  const drawTableHeader = () => {
+    page.drawRectangle({
+      x: margin,
+      y: y - 6,
+      width: right - margin,
+      height: 20,
+      color: rgb(0.95, 0.95, 0.95),
+    });
+    page.drawText("Item", {
+      x: margin + 6,
+      y,
+      size: 9,
+      font: fonts.bold,
+      color: INK,
+    });
+    drawRight(page, "Qty", columns.qty, y, fonts.bold, 9);
+    drawRight(page, "Unit Price", columns.unitPrice, y, fonts.bold, 9);
+    drawRight(page, "Total", columns.total - 6, y, fonts.bold, 9);
+    y -= 24;
+  };
+
+  drawTableHeader();
+
+  for (const item of data.items) {
+    const nameLines = wrapText(item.name, fonts.regular, 10, 260);
+    const detail = [
+      item.sku,
+      item.discountAmount > 0 ? `Discount ${money(-item.discountAmount)}` : null,
+      item.taxLabel,
+    ]
+      .filter(Boolean)
+      .join("  |  ");
+    const rowHeight = nameLines.length * 13 + (detail ? 11 : 0) + 6;
+
+    if (y - rowHeight < margin + 40) {
+      page = pdf.addPage([A4.width, A4.height]);
+      y = A4.height - margin;
+      drawTableHeader();
+    }
+
+    nameLines.forEach((line, i) => {
+      page.drawText(line, {
+        x: margin + 6,
+        y: y - i * 13,
+        size: 10,
+        font: fonts.regular,
+        color: INK,
+      });
+    });
+    if (detail) {
+      page.drawText(printable(detail), {
+        x: margin + 6,
+        y: y - nameLines.length * 13,
+        size: 8,
+        font: fonts.regular,
+        color: MUTED,
+      });
+    }
+    drawRight(page, quantityLabel(item), columns.qty, y, fonts.regular, 10);
+    drawRight(page, money(item.unitPrice), columns.unitPrice, y, fonts.regular, 10);
+    drawRight(page, money(item.totalPrice), columns.total - 6, y, fonts.regular, 10);
+
+    y -= rowHeight;
+    page.drawLine({
+      start: { x: margin, y: y + 4 },
+      end: { x: right, y: y + 4 },
+      thickness: 0.5,
+      color: RULE,
+    });
+    y -= 6;
+  }
+
+  // Totals, payments and terms need roughly this much room together
+  const footerHeight =
+    140 + data.taxBreakdown.length * 16 + data.payments.length * 13 +
+    (data.paymentTerms ? 40 : 0) + (data.sale.notes ? 40 : 0);
+  if (y - footerHeight < margin) {
+    page = pdf.addPage([A4.width, A4.height]);
+    y = A4.height - margin;
+  }
+
+  y -= 6;
+  const labelX = 360;
+  const totalsRows: Array<[string, number, boolean]> = [
+    ["Subtotal", data.totals.subtotal, false],
+    ...(data.totals.discount > 0
+      ? [["Discount", -data.totals.discount, false] as [string, number, boolean]]
+      : []),
+    // Tax by rate, or a single line for sales recorded before tax rates
+    ...(data.taxBreakdown.length > 0
+      ? data.taxBreakdown.map(
+          (entry) =>
+            [`${entry.name} (${entry.rate}%)`, entry.taxAmount, false] as [
+              string,
+              number,
+              boolean,
+            ]
+        )
+      : [["Tax", data.totals.tax, false] as [string, number, boolean]]),
+    ["Total", data.totals.totalAmount, true],
+    ["Amount Paid", data.totals.amountPaid, false],
+    ["Balance Due", data.totals.balanceDue, true],
+  ];
+  for (const [label, amount, strong] of totalsRows) {
+    const font = strong ? fonts.bold : fonts.regular;
+    page.drawText(label, { x: labelX, y, size: 10, font, color: INK });
+    drawRight(page, money(amount), right - 6, y, font, 10);
+    y -= 16;
+  }
+  const legacyTotal = legacyTotalLine(data);
+  if (legacyTotal) {
+    page.drawText(legacyTotal.label, {
+      x: labelX,
+      y,
+      size: 9,
+      font: fonts.regular,
+      color: MUTED,
+    });
+    drawRight(page, legacyTotal.amount, right - 6, y, fonts.regular, 9);
+    y -= 16;
+  }
+
+  // Payments received
+  if (data.payments.length > 0) {
+    y -= 8;
+    page.drawText("PAYMENTS", {
+      x: margin,
+      y,
+      size: 9,
+      font: fonts.bold,
+      color: MUTED,
+    });
+    y -= 14;
+    for (const payment of data.payments) {
+      const line = [
+        format(payment.paidAt, "dd MMM yyyy"),
+        payment.method.replace("_", " "),
+        payment.reference,
+      ]
+        .filter(Boolean)
+        .join("  |  ");
+      page.drawText(printable(line), {
+        x: margin,
+        y,
+        size: 9,
+        font: fonts.regular,
+        color: INK,
+      });
+      drawRight(page, money(payment.amount), 300, y, fonts.regular, 9);
+      y -= 13;
+    }
+  }
+
+  // Payment terms and notes
+  const blocks: Array<[string, string | null]> = [
+    ["PAYMENT TERMS", data.paymentTerms],
+    ["NOTES", data.sale.notes],
+  ];
+  for (const [title, text] of blocks) {
+    if (!text) continue;
+    y -= 10;
+    page.drawText(title, {
+      x: margin,
+      y,
+      size: 9,
+      font: fonts.bold,
+      color: MUTED,
+    });
+    y -= 13;
+    for (const line of wrapText(text, fonts.regular, 9, right - margin)) {
+      page.drawText(line, {
+        x: margin,
+        y,
+        size: 9,
+        font: fonts.regular,
+        color: INK,
+      });
+      y -= 12;
+    }
+  }
+
+  drawCentered(
+    page,
+    "Thank you for your business",
+    A4.width / 2,
+    margin - 20,
+    fonts.regular,
+    9,
+    MUTED
+  );
+
+  return pdf.save();
+}
+
+type ReceiptLine =
+  | { kind: "text"; text: string; align: "left" | "center"; bold?: boolean; size?: number }
+  | { kind: "pair"; left: string; right: string; bold?: boolean }
+  | { kind: "rule" };
+
+/**
+ * Narrow receipt for an 80mm roll. The page is as tall as its content.
+ */
+export async function renderReceiptPdf(
+  data: SaleDocumentData
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Receipt ${data.sale.invoiceNumber}`);
+  pdf.setAuthor(data.business.name);
+
+  const fonts = await loadFonts(pdf);
+  const logo = await embedLogo(pdf, data.business.logo);
+  const money = documentCurrencyFormatter(data.currency);
+
+  const margin = 10;
+  const width = RECEIPT_WIDTH - margin * 2;
+  const size = 8;
+  const lineHeight = 11;
+
+  // Lay the receipt out as lines first so the page height is known
+  const lines: ReceiptLine[] = [];
+  const text = (
+    value: string,
+    align: "left" | "center" = "left",
+    bold = false,
+    textSize = size
+  ) => {
+    const font = bold ? fonts.bold : fonts.regular;
+    for (const line of wrapText(value, font, textSize, width)) {
+      lines.push({ kind: "text", text: line, align, bold, size: textSize });
+    }
+  };
+
+  text(data.business.name, "center", true, 11);
+  if (data.business.phone) text(data.business.phone, "center");
+  lines.push({ kind: "rule" });
+  text(`Receipt: ${data.sale.invoiceNumber}`);
+  text(format(data.sale.saleDate, "dd MMM yyyy HH:mm"));
+  if (data.customer) text(`Customer: ${data.customer.name}`);
+  if (data.sale.soldBy) text(`Served by: ${data.sale.soldBy}`);
+  lines.push({ kind: "rule" });
+
+  for (const item of data.items) {
+    text(item.name);
+    lines.push({
+      kind: "pair",
+      left: `  ${quantityLabel(item)} x ${money(item.unitPrice)}`,
+      right: money(item.totalPrice),
+    });
+    if (item.discountAmount > 0) {
+      lines.push({
+        kind: "pair",
+        left: "  Discount",
+        right: money(-item.discountAmount),
+      });
+    }
+  }
+  lines.push({ kind: "rule" });
+
+  lines.push({ kind: "pair", left: "Subtotal", right: money(data.totals.subtotal) });
+  if (data.totals.discount > 0) {
+    lines.push({ kind: "pair", left: "Discount", right: money(-data.totals.discount) });
+  }
+  if (data.taxBreakdown.length > 0) {
+    for (const entry of data.taxBreakdown) {
+      lines.push({
+        kind: "pair",
+        left: `${entry.name} ${entry.rate}%`,
+        right: money(entry.taxAmount),
+      });
+    }
+  } else {
+    lines.push({ kind: "pair", left: "Tax", right: money(data.totals.tax) });
+  }
+  lines.push({
+    kind: "pair",
+    left: "TOTAL",
+    right: money(data.totals.totalAmount),
+    bold: true,
+  });
+  const legacyTotal = legacyTotalLine(data);
+  if (legacyTotal) {
+    lines.push({
+      kind: "pair",
+      left: legacyTotal.label,
+      right: legacyTotal.amount,
+    });
+  }
+
+  for (const payment of data.payments) {
+    lines.push({
+      kind: "pair",
+      left: payment.method.replace("_", " "),
+      right: money(payment.amount),
+    });
+    if (payment.reference) text(`  Ref: ${payment.reference}`);
+  }
+
+  if (data.totals.changeGiven > 0) {
+    lines.push({
+      kind: "pair",
+      left: "Change",
+      right: money(data.totals.changeGiven),
+    });
+  }
+  if (data.totals.balanceDue > 0) {
+    lines.push({
+      kind: "pair",
+      left: "Balance Due",
+      right: money(data.totals.balanceDue),
+      bold: true,
+    });
+    if (data.sale.dueDate) {
+      text(`Due ${format(data.sale.dueDate, "dd MMM yyyy")}`);
+    }
+  }
+
+  if (data.paymentTerms) {
+    lines.push({ kind: "rule" });
+    text(data.paymentTerms);
+  }
+  lines.push({ kind: "rule" });
+  text("Thank you for your business", "center");
+
+  const logoSize = logo ? logo.scaleToFit(width, 50) : null;
+  const height =
+    margin * 2 + lines.length * lineHeight + (logoSize ? logoSize.height + 8 : 0);
+
+  const page = pdf.addPage([RECEIPT_WIDTH, height]);
+  let y = height - margin;
+
+  if (logo && logoSize) {
+    page.drawImage(logo, {
+      x: (RECEIPT_WIDTH - logoSize.width) / 2,
+      y: y - logoSize.height,
+      width: logoSize.width,
+      height: logoSize.height,
+    });
+    y -= logoSize.height + 8;
+  }
+
+  for (const line of lines) {
+    y -= lineHeight;
+    if (line.kind === "rule") {
+      page.drawLine({
+        start: { x: margin, y: y + 4 },
+        end: { x: RECEIPT_WIDTH - margin, y: y + 4 },
+        thickness: 0.5,
+        dashArray: [2, 2],
+        color: MUTED,
+      });
+    } else if (line.kind === "pair") {
+      const font = line.bold ? fonts.bold : fonts.regular;
+      page.drawText(printable(line.left), { x: margin, y, size, font, color: INK });
+      drawRight(page, line.right, RECEIPT_WIDTH - margin, y, font, size);
+    } else {
+      const font = line.bold ? fonts.bold : fonts.regular;
+      const textSize = line.size || size;
+      if (line.align === "center") {
+        drawCentered(page, line.text, RECEIPT_WIDTH / 2, y, font, textSize);
+      } else {
+        page.drawText(line.text, { x: margin, y, size: textSize, font, color: INK });
+      }
+    }
+  }
+
+  return pdf.save();
+}
+
+/**
+ * Render a sale's invoice (A4) or receipt (80mm roll) as a PDF
+ */
+export async function generateSaleDocument(
+  saleId: string,
+  ownerId: string,
+  layout: SaleDocumentLayout
+): Promise<{ bytes: Uint8Array; fileName: string } | null> {
+  const data = await loadSaleDocumentData(saleId, ownerId);
+  if (!data) return null;
+
+  const bytes =
+    layout === "receipt"
+      ? await renderReceiptPdf(data)
+      : await renderInvoicePdf(data);
+
+  const prefix = layout === "receipt" ? "receipt" : "invoice";
+  return { bytes, fileName: `${prefix}-${data.sale.invoiceNumber}.pdf` };
+}
+
+/**
+ * Generate a sale document and keep it in file storage against the sale
+ */
+export async function saveSaleDocument(
+  saleId: string,
+  ownerId: string,
+  layout: SaleDocumentLayout
+) {
+  const document = await generateSaleDocument(saleId, ownerId, layout);
+  if (!document) return null;
+
+  const file = new File([document.bytes as BlobPart], document.fileName, {
+    type: "application/pdf",
+  });
+
+  return uploadAndCreateFileRecord({
+    file,
+    ownerId,
+    type: "INVOICE",
+    relatedId: saleId,
+  });
+}
@@ -0,0 +1,70 @@
+import { DiscountType, PaymentMethod, SaleStatus } from "@prisma/client";
+import { z } from "zod";
+import { currencyCodeSchema } from "./exchange-rate.schema";
+
+export const saleItemSchema = z.object({
+  productId: z.string().optional(),
+  productName: z.string().min(1, "Product name is required"),
+  // In the unit sold; fractions allowed, e.g. 1.5 kg
+  quantity: z.number().positive("Quantity must be greater than zero"),
+  unitId: z.string().optional().nullable(), // Product unit; null sells in the base unit
+  unitPrice: z.number().min(0, "Unit price must be positive"), // Per unit sold
+  // Line discount, as a percentage of the line or a fixed amount
+  discountType: z.nativeEnum(DiscountType).optional().nullable(),
+  discountValue: z.number().min(0, "Discount must be positive").default(0),
+}).refine(
+  (item) =>
+    item.discountType !== DiscountType.PERCENTAGE || item.discountValue <= 100,
+  { message: "Percentage discount cannot exceed 100", path: ["discountValue"] }
+);
+
+export const tenderSchema = z.object({
+  method: z.nativeEnum(PaymentMethod),
+  amount: z.number().positive("Tender amount must be greater than zero"),
+  reference: z.string().optional().nullable(), // e.g. mobile money transaction ID
+}); // Amount is in the sale's currency
+
+// Totals, tax and payment status are computed on the server from the
+// catalogue and the business's pricing rules; only the inputs are accepted.
+export const saleSchema = z.object({
+  customerId: z.string().optional().nullable(),
+  // Currency the sale is rung up and paid in; the base currency if unset
+  currency: currencyCodeSchema.optional().nullable(),
+  items: z.array(saleItemSchema).min(1, "At least one item is required"),
+  discount: z.number().min(0).default(0),
+  amountPaid: z.number().min(0).default(0),
+  paymentMethod: z.nativeEnum(PaymentMethod).default(PaymentMethod.CASH),
+  // Split payment, e.g. part cash and part mobile money. When given, the
+  // tenders replace amountPaid and paymentMethod.
+  tenders: z.array(tenderSchema).optional(),
+  status: z.nativeEnum(SaleStatus).default(SaleStatus.COMPLETED),
+  saleDate: z.string().optional(),
+  dueDate: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+  saleRegionId: z.string().optional().nullable(),
+  saleDistrictId: z.string().optional().nullable(),
+  heldCartId: z.string().optional().nullable(), // Parked cart being completed
+  clientId: z.string().max(64).optional().nullable(), // Set by the offline till
+});
+
+// A sale rung up while offline, as queued on the device. The catalogue
+// price the till had for each line, in the unit, quantity and currency
+// sold and from the customer's price list, is sent along so changes made
+// in the meantime can be flagged instead of silently charged.
+export const offlineSaleSchema = saleSchema.extend({
+  clientId: z.string().min(1).max(64),
+  expectedTotal: z.number().min(0),
+  linePrices: z.array(z.number().nullable()).default([]), // Null for manual items
+  // Record the sale even if stock ran out or prices changed meanwhile
+  acceptConflicts: z.boolean().default(false),
+});
+
+export const offlineSyncSchema = z.object({
+  sales: z.array(offlineSaleSchema).min(1).max(50),
+});
+
+export type SaleItemInput = z.infer<typeof saleItemSchema>;
+export type TenderInput = z.infer<typeof tenderSchema>;
+export type SaleInput = z.infer<typeof saleSchema>;
+export type OfflineSaleInput = z.infer<typeof offlineSaleSchema>;
+export type OfflineSaleRequest = z.input<typeof offlineSaleSchema>;
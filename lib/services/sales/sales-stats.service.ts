@@ -0,0 +1,172 @@
+import { prisma } from "@/lib/db";
+import { Prisma } from "@prisma/client";
+import { addDays, subDays, subMonths } from "date-fns";
+
+// A day's figures, computed from its sales
+const DAY_FIGURES = Prisma.sql`
+  COUNT(*) FILTER (WHERE status = 'COMPLETED')::int AS "salesCount",
+  COALESCE(SUM("totalAmount" * "exchangeRate") FILTER (WHERE status = 'COMPLETED'), 0) AS revenue,
+  COALESCE(SUM("balanceDue" * "exchangeRate") FILTER (WHERE "paymentStatus" IN ('PENDING', 'PARTIAL')), 0) AS "pendingBalance",
+  COALESCE(SUM("balanceDue" * "exchangeRate") FILTER (WHERE "paymentStatus" = 'OVERDUE'), 0) AS "overdueBalance"
+`;
+
+export interface SalesStats {
+  totalRevenue: number;
+  todayRevenue: number;
+  weekRevenue: number;
+  monthRevenue: number;
+  totalSales: number;
+  todaySales: number;
+  pendingPayments: number;
+  overduePayments: number;
+}
+
+/**
+ * The aggregate day a sale falls on: midnight UTC of its sale date.
+ * Freetown keeps UTC all year, so this is also the business's day.
+ */
+export function saleDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
+
+/**
+ * Recount the daily aggregates for the days given, from the sales
+ * themselves. Call it in the transaction that creates or changes the
+ * sales, with the sale date both before and after the change. Each day's
+ * row is locked while it is recounted, so concurrent sales on the same
+ * day are counted one after the other.
+ */
+export async function refreshSalesDays(
+  tx: Prisma.TransactionClient,
+  ownerId: string,
+  dates: Date[]
+): Promise<void> {
+  // Lock days in a fixed order so two transactions can't deadlock
+  const days = Array.from(new Set(dates.map((date) => saleDay(date).getTime())))
+    .sort((a, b) => a - b)
+    .map((time) => new Date(time));
+
+  for (const day of days) {
+    await tx.$executeRaw`
+      INSERT INTO sales_daily_aggregates (id, "ownerId", date, "updatedAt")
+      VALUES (gen_random_uuid()::text, ${ownerId}, ${day}, NOW())
+      ON CONFLICT ("ownerId", date) DO NOTHING
+    `;
+    await tx.$queryRaw`
+      SELECT id FROM sales_daily_aggregates
+      WHERE "ownerId" = ${ownerId} AND date = ${day}
+      FOR UPDATE
+    `;
+    await tx.$executeRaw`
+      UPDATE sales_daily_aggregates a SET
+        "salesCount" = s."salesCount",
+        revenue = s.revenue,
+        "pendingBalance" = s."pendingBalance",
+        "overdueBalance" = s."overdueBalance",
+        "updatedAt" = NOW()
+      FROM (
+        SELECT ${DAY_FIGURES}
+        FROM sales
+        WHERE "ownerId" = ${ownerId} AND "saleDate" >= ${day} AND "saleDate" < ${addDays(day, 1)}
+      ) s
+      WHERE a."ownerId" = ${ownerId} AND a.date = ${day}
+    `;
+  }
+}
+
+/**
+ * Count every day from scratch. Runs the first time a business's stats
+ * are read, and again after anything that changes amounts in bulk, such
+ * as a redenomination, clears salesStatsBuiltAt.
+ */
+async function rebuildSalesStats(ownerId: string): Promise<void> {
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.userSettings.upsert({
+        where: { userId: ownerId },
+        create: { userId: ownerId },
+        update: {},
+      });
+
+      // Claim the rebuild so two first reads don't both run it
+      const claimed = await tx.userSettings.updateMany({
+        where: { userId: ownerId, salesStatsBuiltAt: null },
+        data: { salesStatsBuiltAt: new Date() },
+      });
+      if (claimed.count === 0) return;
+
+      await tx.salesDailyAggregate.deleteMany({ where: { ownerId } });
+      await tx.$executeRaw`
+        INSERT INTO sales_daily_aggregates
+          (id, "ownerId", date, "salesCount", revenue, "pendingBalance", "overdueBalance", "updatedAt")
+        SELECT
+          gen_random_uuid()::text,
+          "ownerId",
+          date_trunc('day', "saleDate"),
+          ${DAY_FIGURES},
+          NOW()
+        FROM sales
+        WHERE "ownerId" = ${ownerId}
+        GROUP BY "ownerId", date_trunc('day', "saleDate")
+      `;
+    },
+    { timeout: 60000 }
+  );
+}
+
+/**
+ * Headline figures for the sales page, summed from the daily aggregates
+ * rather than the sales. Amounts are in the base currency.
+ */
+export async function getSalesStats(ownerId: string): Promise<SalesStats> {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId: ownerId },
+    select: { salesStatsBuiltAt: true },
+  });
+  if (!settings?.salesStatsBuiltAt) {
+    await rebuildSalesStats(ownerId);
+  }
+
+  const now = new Date();
+  const today = saleDay(now);
+  const weekStart = saleDay(subDays(now, 7));
+  const monthStart = saleDay(subMonths(now, 1));
+
+  const [row] = await prisma.$queryRaw<
+    Array<{
+      totalRevenue: Prisma.Decimal;
+      todayRevenue: Prisma.Decimal;
+      weekRevenue: Prisma.Decimal;
+      monthRevenue: Prisma.Decimal;
+      totalSales: bigint;
+      todaySales: bigint;
+      pendingPayments: Prisma.Decimal;
+      overduePayments: Prisma.Decimal;
+    }>
+  >`
+    SELECT
+      COALESCE(SUM(revenue), 0) AS "totalRevenue",
+      COALESCE(SUM(revenue) FILTER (WHERE date >= ${today}), 0) AS "todayRevenue",
+      COALESCE(SUM(revenue) FILTER (WHERE date >= ${weekStart}), 0) AS "weekRevenue",
+      COALESCE(SUM(revenue) FILTER (WHERE date >= ${monthStart}), 0) AS "monthRevenue",
+      COALESCE(SUM("salesCount"), 0) AS "totalSales",
+      COALESCE(SUM("salesCount") FILTER (WHERE date >= ${today}), 0) AS "todaySales",
+      COALESCE(SUM("pendingBalance"), 0) AS "pendingPayments",
+      COALESCE(SUM("overdueBalance"), 0) AS "overduePayments"
+    FROM sales_daily_aggregates
+    WHERE "ownerId" = ${ownerId}
+  `;
+
+  return {
+    totalRevenue: Number(row.totalRevenue),
+    todayRevenue: Number(row.todayRevenue),
+    weekRevenue: Number(row.weekRevenue),
+    monthRevenue: Number(row.monthRevenue),
+    totalSales: Number(row.totalSales),
+    todaySales: Number(row.todaySales),
+    pendingPayments: Number(row.pendingPayments),
+    overduePayments: Number(row.overduePayments),
+  };
+}
@@ -0,0 +1,31 @@
+import { prisma } from "@/lib/db";
+import { Prisma } from "@prisma/client";
+
+export interface Seller {
+  id: string;
+  name: string;
+  role: string;
+}
+
+/**
+ * Staff sales are credited to, whoever rings them up: the owner and
+ * anyone who has sold or run a till for the business. Deactivated
+ * accounts are left out.
+ */
+export async function listSellers(
+  ownerId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<Seller[]> {
+  return client.user.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { id: ownerId },
+        { soldSales: { some: { ownerId } } },
+        { cashierShifts: { some: { ownerId } } },
+      ],
+    },
+    select: { id: true, name: true, role: true },
+    orderBy: { name: "asc" },
+  });
+}
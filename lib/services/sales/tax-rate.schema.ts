@@ -0,0 +1,15 @@
+import { TaxRateType } from "@prisma/client";
+import { z } from "zod";
+
+export const taxRateSchema = z.object({
+  name: z.string().min(1, "Name is required").max(50),
+  rate: z.number().min(0).max(100).default(0), // Percentage
+  type: z.nativeEnum(TaxRateType).default(TaxRateType.STANDARD),
+  isDefault: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+});
+
+export const taxRateUpdateSchema = taxRateSchema.partial();
+
+export type TaxRateInput = z.infer<typeof taxRateSchema>;
+export type TaxRateUpdateInput = z.infer<typeof taxRateUpdateSchema>;
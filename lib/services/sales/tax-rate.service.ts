@@ -0,0 +1,81 @@
+import { prisma } from "@/lib/db";
+import { TaxRateType } from "@prisma/client";
+import type { TaxRateInput, TaxRateUpdateInput } from "./tax-rate.schema";
+
+/**
+ * Zero-rated and exempt rates always charge 0%, whatever was entered
+ */
+function normaliseRate<T extends TaxRateUpdateInput>(data: T): T {
+  if (data.type && data.type !== TaxRateType.STANDARD) {
+    return { ...data, rate: 0 };
+  }
+  return data;
+}
+
+/**
+ * List a business's tax rates with how many products use each
+ */
+export async function listTaxRates(ownerId: string) {
+  return prisma.taxRate.findMany({
+    where: { ownerId },
+    include: {
+      _count: { select: { products: true } },
+    },
+    orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+  });
+}
+
+/**
+ * Create a tax rate. Making it the default clears the previous default,
+ * since only one rate can apply to products without their own.
+ */
+export async function createTaxRate(ownerId: string, data: TaxRateInput) {
+  return prisma.$transaction(async (tx) => {
+    if (data.isDefault) {
+      await tx.taxRate.updateMany({
+        where: { ownerId, isDefault: true },
+        data: { isDefault: false },
+      });
+    }
+
+    return tx.taxRate.create({
+      data: { ...normaliseRate(data), ownerId },
+    });
+  });
+}
+
+/**
+ * Update a tax rate. Returns null when it doesn't belong to the business.
+ * Rate changes only affect new sales; sale lines keep their snapshot.
+ */
+export async function updateTaxRate(
+  id: string,
+  ownerId: string,
+  data: TaxRateUpdateInput
+) {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.taxRate.findFirst({ where: { id, ownerId } });
+    if (!existing) return null;
+
+    if (data.isDefault) {
+      await tx.taxRate.updateMany({
+        where: { ownerId, isDefault: true, id: { not: id } },
+        data: { isDefault: false },
+      });
+    }
+
+    return tx.taxRate.update({
+      where: { id },
+      data: normaliseRate({ ...data, type: data.type || existing.type }),
+    });
+  });
+}
+
+/**
+ * Delete a tax rate. Products using it fall back to the default rate and
+ * past sale lines keep their recorded name and percentage.
+ */
+export async function deleteTaxRate(id: string, ownerId: string) {
+  const result = await prisma.taxRate.deleteMany({ where: { id, ownerId } });
+  return result.count > 0;
+}
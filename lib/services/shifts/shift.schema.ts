@@ -0,0 +1,33 @@
+import { CashMovementType, PaymentMethod } from "@prisma/client";
+import { z } from "zod";
+
+export const openShiftSchema = z.object({
+  openingFloat: z.number().min(0, "Opening float must be positive"),
+  notes: z.string().max(500).optional().nullable(),
+});
+
+export const cashMovementSchema = z.object({
+  type: z.nativeEnum(CashMovementType),
+  amount: z.number().positive("Amount must be greater than zero"),
+  reason: z.string().min(1, "Reason is required").max(200),
+});
+
+// What the cashier counted for each method. Cash must always be counted;
+// methods left out are taken as counted at zero.
+export const closeShiftSchema = z.object({
+  counts: z
+    .array(
+      z.object({
+        method: z.nativeEnum(PaymentMethod),
+        counted: z.number().min(0, "Counted amount must be positive"),
+      })
+    )
+    .refine((counts) => counts.some((c) => c.method === PaymentMethod.CASH), {
+      message: "Count the cash in the drawer",
+    }),
+  notes: z.string().max(500).optional().nullable(),
+});
+
+export type OpenShiftInput = z.infer<typeof openShiftSchema>;
+export type CashMovementInput = z.infer<typeof cashMovementSchema>;
+export type CloseShiftInput = z.infer<typeof closeShiftSchema>;
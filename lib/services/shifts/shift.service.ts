@@ -0,0 +1,522 @@
+import { prisma } from "@/lib/db";
+import {
+  CashMovementType,
+  NotificationType,
+  PaymentMethod,
+  Prisma,
+  SaleStatus,
+  ShiftStatus,
+} from "@prisma/client";
+import { format } from "date-fns";
+import { roundMoney } from "@/lib/services/sales/pricing.service";
+import { toBaseAmount } from "@/lib/services/sales/exchange-rate.service";
+import { businessMoneyFormatter } from "@/lib/services/currency/currency.service";
+import type {
+  CashMovementInput,
+  CloseShiftInput,
+  OpenShiftInput,
+} from "./shift.schema";
+
+/**
+ * Thrown when a shift can't be opened, changed or closed
+ */
+export class ShiftError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShiftError";
+  }
+}
+
+export interface ShiftMethodTotal {
+  method: PaymentMethod;
+  expected: number;
+  counted: number | null; // Null until the shift is closed
+  variance: number | null;
+}
+
+export interface ShiftReport {
+  totals: ShiftMethodTotal[];
+  openingFloat: number;
+  cashIn: number;
+  cashOut: number;
+  cashTaken: number; // Cash payments the cashier received
+  cashRefunded: number; // Cash the cashier gave back through refunds
+  sales: {
+    count: number;
+    totalAmount: number;
+    balanceDue: number; // Sold on credit during the shift
+  };
+}
+
+// Sales that were voided or returned no longer count towards the drawer
+const COUNTED_SALE_STATUSES = [SaleStatus.COMPLETED, SaleStatus.PENDING];
+
+const shiftInclude = {
+  cashier: { select: { id: true, name: true } },
+  movements: { orderBy: { createdAt: "asc" } },
+  totals: true,
+} satisfies Prisma.ShiftInclude;
+
+/**
+ * Work out what the drawer should hold for a shift: the opening float plus
+ * payments the cashier received during the shift, less the refunds they
+ * gave, plus cash in and less cash out. Payments and sales in another
+ * currency count at the rate they were taken at, and refunds at their
+ * sale's rate.
+ */
+async function buildShiftReport(
+  db: Prisma.TransactionClient,
+  shift: {
+    id: string;
+    ownerId: string;
+    cashierId: string;
+    openingFloat: Prisma.Decimal | number;
+    openedAt: Date;
+  },
+  until: Date
+) {
+  const window = { gte: shift.openedAt, lte: until };
+
+  const [payments, refunds, movements, sales] = await Promise.all([
+    // Money goes in the drawer of whoever took it, which for a balance
+    // paid later may not be whoever rang the sale up
+    db.payment.groupBy({
+      by: ["method", "exchangeRate"],
+      where: {
+        ownerId: shift.ownerId,
+        receivedById: shift.cashierId,
+        createdAt: window,
+        sale: { status: { in: COUNTED_SALE_STATUSES } },
+      },
+      _sum: { amount: true },
+    }),
+    // Refunds are in their sale's currency, so they're read with its rate
+    db.refund.findMany({
+      where: {
+        ownerId: shift.ownerId,
+        processedById: shift.cashierId,
+        createdAt: window,
+      },
+      select: {
+        method: true,
+        amount: true,
+        credited: true,
+        sale: { select: { exchangeRate: true } },
+      },
+    }),
+    db.cashMovement.groupBy({
+      by: ["type"],
+      where: { shiftId: shift.id },
+      _sum: { amount: true },
+    }),
+    db.sale.groupBy({
+      by: ["exchangeRate"],
+      where: {
+        ownerId: shift.ownerId,
+        soldById: shift.cashierId,
+        imported: false,
+        createdAt: window,
+        status: { in: COUNTED_SALE_STATUSES },
+      },
+      _count: true,
+      _sum: { totalAmount: true, balanceDue: true },
+    }),
+  ]);
+
+  const openingFloat = Number(shift.openingFloat);
+  const movement = (type: CashMovementType) =>
+    Number(movements.find((m) => m.type === type)?._sum.amount || 0);
+  const cashIn = movement(CashMovementType.CASH_IN);
+  const cashOut = movement(CashMovementType.CASH_OUT);
+
+  const expected = new Map<PaymentMethod, number>();
+  for (const row of payments) {
+    expected.set(
+      row.method,
+      roundMoney(
+        (expected.get(row.method) || 0) +
+          toBaseAmount(row._sum.amount || 0, row.exchangeRate)
+      )
+    );
+  }
+  const cashTaken = expected.get(PaymentMethod.CASH) || 0;
+  let cashRefunded = 0;
+  for (const refund of refunds) {
+    // Only what was paid out left the drawer
+    const amount = toBaseAmount(
+      Number(refund.amount) - Number(refund.credited),
+      refund.sale.exchangeRate
+    );
+    if (refund.method === PaymentMethod.CASH) {
+      cashRefunded = roundMoney(cashRefunded + amount);
+    } else {
+      expected.set(
+        refund.method,
+        roundMoney((expected.get(refund.method) || 0) - amount)
+      );
+    }
+  }
+  expected.set(
+    PaymentMethod.CASH,
+    roundMoney(openingFloat + cashTaken - cashRefunded + cashIn - cashOut)
+  );
+
+  return {
+    expected,
+    summary: {
+      openingFloat,
+      cashIn,
+      cashOut,
+      cashTaken,
+      cashRefunded,
+      sales: {
+        count: sales.reduce((sum, row) => sum + row._count, 0),
+        totalAmount: roundMoney(
+          sales.reduce(
+            (sum, row) =>
+              sum + toBaseAmount(row._sum.totalAmount || 0, row.exchangeRate),
+            0
+          )
+        ),
+        balanceDue: roundMoney(
+          sales.reduce(
+            (sum, row) =>
+              sum + toBaseAmount(row._sum.balanceDue || 0, row.exchangeRate),
+            0
+          )
+        ),
+      },
+    },
+  };
+}
+
+/**
+ * Cash first, then the other methods in the order they are declared
+ */
+function orderedMethods(methods: Iterable<PaymentMethod>): PaymentMethod[] {
+  const present = new Set(methods);
+  return Object.values(PaymentMethod).filter((m) => present.has(m));
+}
+
+/**
+ * The cashier's open shift, if any
+ */
+export async function getOpenShift(ownerId: string, cashierId: string) {
+  return prisma.shift.findFirst({
+    where: { ownerId, cashierId, status: ShiftStatus.OPEN },
+    include: shiftInclude,
+  });
+}
+
+/**
+ * Start a shift with the cash put in the drawer
+ */
+export async function openShift(
+  ownerId: string,
+  cashierId: string,
+  data: OpenShiftInput
+) {
+  try {
+    return await prisma.shift.create({
+      data: {
+        openingFloat: data.openingFloat,
+        openingNotes: data.notes,
+        openCashierId: cashierId,
+        ownerId,
+        cashierId,
+      },
+      include: shiftInclude,
+    });
+  } catch (error: any) {
+    if (error.code === "P2002") {
+      throw new ShiftError("Close your open shift before starting a new one");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Record cash put into or taken out of the drawer during an open shift
+ */
+export async function recordCashMovement(
+  shiftId: string,
+  ownerId: string,
+  cashierId: string,
+  data: CashMovementInput
+) {
+  const shift = await prisma.shift.findFirst({
+    where: { id: shiftId, ownerId, cashierId },
+    select: { status: true },
+  });
+  if (!shift) return null;
+  if (shift.status !== ShiftStatus.OPEN) {
+    throw new ShiftError("This shift is already closed");
+  }
+
+  return prisma.cashMovement.create({
+    data: { ...data, shiftId },
+  });
+}
+
+/**
+ * Load a shift with its report. Open shifts are reported live (an X
+ * report); closed shifts show the figures stored at close (a Z report).
+ */
+export async function getShiftReport(id: string, ownerId: string) {
+  const shift = await prisma.shift.findFirst({
+    where: { id, ownerId },
+    include: shiftInclude,
+  });
+  if (!shift) return null;
+
+  const { expected, summary } = await buildShiftReport(
+    prisma,
+    shift,
+    shift.closedAt || new Date()
+  );
+
+  const totals: ShiftMethodTotal[] =
+    shift.status === ShiftStatus.CLOSED
+      ? orderedMethods(shift.totals.map((t) => t.method)).map((method) => {
+          const total = shift.totals.find((t) => t.method === method)!;
+          return {
+            method,
+            expected: Number(total.expected),
+            counted: Number(total.counted),
+            variance: Number(total.variance),
+          };
+        })
+      : orderedMethods(expected.keys()).map((method) => ({
+          method,
+          expected: expected.get(method)!,
+          counted: null,
+          variance: null,
+        }));
+
+  const report: ShiftReport = { ...summary, totals };
+  return { shift, report };
+}
+
+/**
+ * Close a shift with the cashier's count, store expected against counted
+ * per method, and alert the business when the cash is off by more than
+ * its threshold
+ */
+export async function closeShift(
+  id: string,
+  ownerId: string,
+  cashierId: string,
+  data: CloseShiftInput
+) {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId: ownerId },
+    select: { cashVarianceThreshold: true },
+  });
+  const threshold = Number(settings?.cashVarianceThreshold ?? 10000);
+  const closedAt = new Date();
+
+  const shift = await prisma.$transaction(async (tx) => {
+    // Claim the shift so two closes cannot both record totals
+    const claimed = await tx.shift.updateMany({
+      where: { id, ownerId, cashierId, status: ShiftStatus.OPEN },
+      data: { status: ShiftStatus.CLOSED, closedAt, openCashierId: null },
+    });
+    if (claimed.count === 0) {
+      const existing = await tx.shift.findFirst({
+        where: { id, ownerId, cashierId },
+        select: { id: true },
+      });
+      if (!existing) return null;
+      throw new ShiftError("This shift is already closed");
+    }
+
+    const open = await tx.shift.findUniqueOrThrow({ where: { id } });
+    const { expected } = await buildShiftReport(tx, open, closedAt);
+
+    const counted = new Map(
+      data.counts.map((c) => [c.method, roundMoney(c.counted)])
+    );
+    const methods = orderedMethods([...expected.keys(), ...counted.keys()]);
+    const totals = methods.map((method) => {
+      const expectedAmount = expected.get(method) || 0;
+      const countedAmount = counted.get(method) || 0;
+      return {
+        method,
+        expected: expectedAmount,
+        counted: countedAmount,
+        variance: roundMoney(countedAmount - expectedAmount),
+      };
+    });
+    const cash = totals.find((t) => t.method === PaymentMethod.CASH)!;
+
+    await tx.shiftTotal.createMany({
+      data: totals.map((t) => ({ ...t, shiftId: id })),
+    });
+
+    return tx.shift.update({
+      where: { id },
+      data: {
+        closingNotes: data.notes,
+        expectedCash: cash.expected,
+        countedCash: cash.counted,
+        cashVariance: cash.variance,
+      },
+      include: shiftInclude,
+    });
+  });
+
+  if (!shift) return null;
+
+  const overThreshold = shift.totals.filter(
+    (t) => Math.abs(Number(t.variance)) > threshold
+  );
+  if (overThreshold.length > 0) {
+    await notifyShiftVariance(shift, overThreshold);
+  }
+
+  return shift;
+}
+
+/**
+ * Alert the business owner (its ADMIN account) to a drawer that doesn't
+ * balance
+ */
+async function notifyShiftVariance(
+  shift: {
+    id: string;
+    ownerId: string;
+    closedAt: Date | null;
+    cashier: { name: string };
+  },
+  totals: Array<{ method: PaymentMethod; variance: Prisma.Decimal }>
+) {
+  const formatMoney = await businessMoneyFormatter(shift.ownerId);
+  const formatAmount = (amount: number) =>
+    `${amount < 0 ? "-" : "+"}${formatMoney(Math.abs(amount))}`;
+
+  await prisma.notification.create({
+    data: {
+      type: NotificationType.CASH_VARIANCE,
+      title: `Drawer variance on ${shift.cashier.name}'s shift`,
+      message: totals
+        .map(
+          (t) =>
+            `${t.method.replace("_", " ")}: ${formatAmount(Number(t.variance))}`
+        )
+        .join(", "),
+      actionUrl: `/dashboard/admin/shifts/${shift.id}`,
+      metadata: {
+        shiftId: shift.id,
+        closedAt: shift.closedAt?.toISOString(),
+        variances: totals.map((t) => ({
+          method: t.method,
+          variance: Number(t.variance),
+        })),
+      },
+      ownerId: shift.ownerId,
+    },
+  });
+}
+
+export interface ShiftFilters {
+  cashierId?: string | null;
+  status?: ShiftStatus | null;
+  startDate?: Date | null;
+  endDate?: Date | null;
+}
+
+function shiftWhere(ownerId: string, filters: ShiftFilters) {
+  const where: Prisma.ShiftWhereInput = { ownerId };
+  if (filters.cashierId) where.cashierId = filters.cashierId;
+  if (filters.status) where.status = filters.status;
+  if (filters.startDate || filters.endDate) {
+    where.openedAt = {
+      ...(filters.startDate && { gte: filters.startDate }),
+      ...(filters.endDate && { lte: filters.endDate }),
+    };
+  }
+  return where;
+}
+
+/**
+ * Shift history, newest first
+ */
+export async function listShifts(
+  ownerId: string,
+  filters: ShiftFilters,
+  page: number,
+  limit: number
+) {
+  const where = shiftWhere(ownerId, filters);
+  const [shifts, total] = await Promise.all([
+    prisma.shift.findMany({
+      where,
+      include: {
+        cashier: { select: { id: true, name: true } },
+        totals: true,
+      },
+      orderBy: { openedAt: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.shift.count({ where }),
+  ]);
+  return { shifts, total };
+}
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Closed shifts as CSV, one row per shift and payment method
+ */
+export async function exportShiftsCsv(
+  ownerId: string,
+  filters: ShiftFilters
+): Promise<string> {
+  const shifts = await prisma.shift.findMany({
+    where: { ...shiftWhere(ownerId, filters), status: ShiftStatus.CLOSED },
+    include: {
+      cashier: { select: { name: true } },
+      totals: true,
+    },
+    orderBy: { openedAt: "asc" },
+  });
+
+  const rows: Array<Array<string | number | null>> = [
+    [
+      "Shift ID",
+      "Cashier",
+      "Opened",
+      "Closed",
+      "Opening Float",
+      "Method",
+      "Expected",
+      "Counted",
+      "Variance",
+      "Closing Notes",
+    ],
+  ];
+
+  for (const shift of shifts) {
+    for (const method of orderedMethods(shift.totals.map((t) => t.method))) {
+      const total = shift.totals.find((t) => t.method === method)!;
+      rows.push([
+        shift.id,
+        shift.cashier.name,
+        format(shift.openedAt, "yyyy-MM-dd HH:mm"),
+        shift.closedAt ? format(shift.closedAt, "yyyy-MM-dd HH:mm") : null,
+        Number(shift.openingFloat),
+        method,
+        Number(total.expected),
+        Number(total.counted),
+        Number(total.variance),
+        shift.closingNotes,
+      ]);
+    }
+  }
+
+  return rows.map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
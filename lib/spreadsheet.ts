@@ -0,0 +1,283 @@
+import { inflateRawSync } from "zlib";
+
+/**
+ * Thrown when an uploaded file can't be read as a spreadsheet
+ */
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetError";
+  }
+}
+
+/**
+ * Read the first sheet of a CSV or Excel (.xlsx) file as rows of cell
+ * text. Excel dates come back as their serial number. A sheet with cells
+ * past maxRows is refused rather than read.
+ */
+export function readSpreadsheet(
+  bytes: Uint8Array,
+  fileName: string,
+  maxRows = Infinity
+): string[][] {
+  const name = fileName.toLowerCase();
+  if (name.endsWith(".xlsx")) return readXlsx(bytes, maxRows);
+  if (name.endsWith(".xls")) {
+    throw new SpreadsheetError(
+      "Old .xls workbooks can't be read. Save the file as .xlsx or .csv."
+    );
+  }
+  return readCsv(new TextDecoder("utf-8").decode(bytes));
+}
+
+/**
+ * Parse CSV text, with quoted fields. The delimiter is guessed from the
+ * first line, since spreadsheets saved in some locales use semicolons.
+ */
+export function readCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return trimEmptyRows(rows);
+}
+
+function trimEmptyRows(rows: string[][]): string[][] {
+  let end = rows.length;
+  while (end > 0 && rows[end - 1].every((cell) => cell.trim() === "")) end--;
+  return rows.slice(0, end);
+}
+
+// Most a workbook may unpack to. Real sheets compress about tenfold, so
+// this leaves room for any 5 MB upload while stopping zip bombs.
+const MAX_UNZIPPED_SIZE = 100 * 1024 * 1024;
+
+/**
+ * Unpack the entries of a zip archive, which is what an .xlsx file is.
+ * Every offset comes from the file itself, so each is checked before it
+ * is read, and entries may not inflate past the size the archive claims.
+ */
+function readZip(bytes: Uint8Array): Map<string, Buffer> {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const invalid = () =>
+    new SpreadsheetError("The file is not a valid Excel workbook");
+  const check = (offset: number, length: number) => {
+    if (offset < 0 || offset + length > buffer.length) throw invalid();
+  };
+  const uint16 = (offset: number) => {
+    check(offset, 2);
+    return buffer.readUInt16LE(offset);
+  };
+  const uint32 = (offset: number) => {
+    check(offset, 4);
+    return buffer.readUInt32LE(offset);
+  };
+
+  // The end of central directory record sits in the last 64 KB
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw invalid();
+
+  const entries = new Map<string, Buffer>();
+  const count = uint16(end + 10);
+  let offset = uint32(end + 16);
+  let unzipped = 0;
+
+  for (let n = 0; n < count; n++) {
+    if (uint32(offset) !== 0x02014b50) throw invalid();
+    const method = uint16(offset + 10);
+    const compressedSize = uint32(offset + 20);
+    const size = uint32(offset + 24);
+    const nameLength = uint16(offset + 28);
+    const extraLength = uint16(offset + 30);
+    const commentLength = uint16(offset + 32);
+    const localOffset = uint32(offset + 42);
+    check(offset + 46, nameLength);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    unzipped += size;
+    if (unzipped > MAX_UNZIPPED_SIZE) {
+      throw new SpreadsheetError("The workbook is too large to import");
+    }
+
+    const dataStart =
+      localOffset + 30 + uint16(localOffset + 26) + uint16(localOffset + 28);
+    check(dataStart, compressedSize);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      try {
+        // Inflating more than the entry declared means the header lied
+        entries.set(
+          name,
+          inflateRawSync(data, { maxOutputLength: Math.max(size, 1) })
+        );
+      } catch {
+        throw invalid();
+      }
+    } else {
+      throw invalid();
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Text of all <t> runs inside an element, e.g. a rich-text shared string
+function elementText(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+    .map((match) => decodeXml(match[1]))
+    .join("");
+}
+
+// Excel's last column is XFD
+const MAX_COLUMNS = 16384;
+
+// Zero-based column of a cell reference such as "AB12". Blank cells are
+// padded up to it, so a reference past Excel's last column is refused.
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/\d+$/, "");
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + letter.charCodeAt(0) - 64;
+    if (index > MAX_COLUMNS) {
+      throw new SpreadsheetError(`Cell ${ref} is past the last column`);
+    }
+  }
+  return index - 1;
+}
+
+function readXlsx(bytes: Uint8Array, maxRows: number): string[][] {
+  const entries = readZip(bytes);
+  const read = (path: string) => entries.get(path)?.toString("utf8") ?? null;
+
+  // The first sheet in the workbook, wherever its part is stored
+  const workbook = read("xl/workbook.xml");
+  const rels = read("xl/_rels/workbook.xml.rels");
+  const sheetRel = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const target = sheetRel
+    ? rels
+        ?.match(new RegExp(`<Relationship\\b[^>]*\\bId="${sheetRel}"[^>]*>`))?.[0]
+        .match(/Target="([^"]+)"/)?.[1]
+    : null;
+  const sheetPath = target
+    ? target.startsWith("/")
+      ? target.slice(1)
+      : `xl/${target}`
+    : "xl/worksheets/sheet1.xml";
+
+  const sheet = read(sheetPath);
+  if (!sheet) {
+    throw new SpreadsheetError("The workbook has no sheets");
+  }
+
+  const sharedXml = read("xl/sharedStrings.xml");
+  const shared = sharedXml
+    ? Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map((m) =>
+        elementText(m[1])
+      )
+    : [];
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(
+    /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g
+  )) {
+    const rowNumber = Number(rowMatch[1].match(/\br="(\d+)"/)?.[1]) || rows.length + 1;
+    // Missing rows are padded up to this one
+    if (rowNumber > maxRows) {
+      throw new SpreadsheetError(`The sheet has more than ${maxRows} rows`);
+    }
+    const row: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+    )) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] ?? "";
+      const ref = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = "";
+      if (type === "s" && value !== undefined) {
+        text = shared[Number(value)] ?? "";
+      } else if (type === "inlineStr") {
+        text = elementText(content);
+      } else if (type === "b") {
+        text = value === "1" ? "TRUE" : "FALSE";
+      } else if (value !== undefined) {
+        text = decodeXml(value);
+      }
+
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push("");
+      row[index] = text;
+    }
+
+    // Rows missing from the sheet are blank
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows.push(row);
+  }
+
+  return trimEmptyRows(rows);
+}
@@ -5,3 +5,112 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+
+/**
+ * Random ID generated in the browser, used for Idempotency-Key headers and
+ * for sales rung up offline
+ */
+export function newClientId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+// Sierra Leone's new Leone. Businesses set up before the 2022
+// redenomination keep "SLL" until they run the currency migration.
+export const DEFAULT_CURRENCY = "SLE";
+
+export interface LegacyCurrency {
+  currency: string; // e.g. "SLL"
+  factor: number; // Old units per new unit, e.g. 1000
+}
+
+const moneyFormats = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Format an amount of money. Given the old currency of a redenomination,
+ * the amount is shown in it too: "SLE 1,250.00 (SLL 1,250,000)".
+ */
+export function formatMoney(
+  amount: number | string,
+  currency: string = DEFAULT_CURRENCY,
+  legacy: LegacyCurrency | null = null
+): string {
+  const format = (value: number, code: string) => {
+    let formatter = moneyFormats.get(code);
+    if (!formatter) {
+      formatter = new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: code,
+        minimumFractionDigits: 0,
+      });
+      moneyFormats.set(code, formatter);
+    }
+    return formatter.format(value);
+  };
+
+  const value = Number(amount) || 0;
+  const formatted = format(value, currency);
+  if (!legacy || legacy.currency === currency) return formatted;
+  return `${formatted} (${format(value * legacy.factor, legacy.currency)})`;
+}
+
+export interface PriceTier {
+  minQuantity: number;
+  unitPrice: number;
+}
+
+/**
+ * Unit price from a price list for a quantity: the tier with the highest
+ * minimum the quantity reaches. Null when no tier applies.
+ */
+export function tierUnitPrice(
+  tiers: PriceTier[] | undefined,
+  quantity: number
+): number | null {
+  let best: PriceTier | null = null;
+  for (const tier of tiers || []) {
+    if (
+      quantity >= tier.minQuantity &&
+      (!best || tier.minQuantity > best.minQuantity)
+    ) {
+      best = tier;
+    }
+  }
+  return best ? Number(best.unitPrice) : null;
+}
+
+/**
+ * Round a quantity to the 3 decimal places stock and sale lines are kept in
+ */
+export function roundQuantity(quantity: number): number {
+  return Math.round((quantity + Number.EPSILON) * 1000) / 1000;
+}
+
+/**
+ * Base units moved by selling a quantity in a unit holding `factor` of them,
+ * e.g. 2 bags of 50 kg is 100 kg
+ */
+export function baseQuantity(quantity: number, factor: number = 1): number {
+  return roundQuantity(quantity * factor);
+}
+
+/**
+ * Catalogue price for one of a product's selling units. A price list tier
+ * reached by the quantity in base units wins, scaled to the unit's size;
+ * else the unit's own price, else the base price scaled to its size. A
+ * null unit is the base unit.
+ */
+export function catalogUnitPrice(
+  basePrice: number,
+  quantity: number,
+  unit: { factor: number; sellingPrice: number | null } | null,
+  tiers?: PriceTier[]
+): number {
+  const factor = unit ? unit.factor : 1;
+  const tierPrice = tierUnitPrice(tiers, baseQuantity(quantity, factor));
+  if (tierPrice !== null) return tierPrice * factor;
+  if (unit && unit.sellingPrice !== null) return unit.sellingPrice;
+  return basePrice * factor;
+}
@@ -29,7 +29,7 @@ async function main() {
             name: 'Sierra Leone',
             isoCode: 'SL',
             phoneCode: '+232',
-            currency: 'SLL',
+            currency: 'SLE',
             timezone: 'Africa/Freetown',
         }
     });
@@ -441,7 +441,7 @@ async function main() {
         await prisma.userSettings.create({
             data: {
                 userId: user.id,
-                currency: 'SLL',
+                currency: 'SLE',
                 timezone: 'Africa/Freetown',
                 dateFormat: 'DD/MM/YYYY',
                 emailNotifications: true,
@@ -464,8 +464,8 @@ async function main() {
                 name: 'Smartphone Android 4G',
                 category: 'Mobile Phones',
                 description: 'Latest Android smartphone with 4G capability',
-                costPrice: 450000,
-                sellingPrice: 650000,
+                costPrice: 450,
+                sellingPrice: 650,
                 currentStock: 25,
                 lowStockAlert: 5,
                 unit: 'piece',
@@ -477,8 +477,8 @@ async function main() {
                 name: '32-inch LED TV',
                 category: 'Televisions',
                 description: 'HD Ready LED Television',
-                costPrice: 800000,
-                sellingPrice: 1200000,
+                costPrice: 800,
+                sellingPrice: 1200,
                 currentStock: 12,
                 lowStockAlert: 3,
                 unit: 'piece',
@@ -490,8 +490,8 @@ async function main() {
                 name: 'Bluetooth Speaker',
                 category: 'Audio',
                 description: 'Portable Bluetooth speaker with bass',
-                costPrice: 150000,
-                sellingPrice: 250000,
+                costPrice: 150,
+                sellingPrice: 250,
                 currentStock: 40,
                 lowStockAlert: 10,
                 unit: 'piece',
@@ -508,8 +508,8 @@ async function main() {
                 name: 'Basmati Rice 5kg',
                 category: 'Grains',
                 description: 'Premium basmati rice',
-                costPrice: 75000,
-                sellingPrice: 95000,
+                costPrice: 75,
+                sellingPrice: 95,
                 currentStock: 100,
                 lowStockAlert: 20,
                 unit: 'bag',
@@ -521,8 +521,8 @@ async function main() {
                 name: 'Cooking Oil 1L',
                 category: 'Cooking Essentials',
                 description: 'Pure vegetable cooking oil',
-                costPrice: 18000,
-                sellingPrice: 25000,
+                costPrice: 18,
+                sellingPrice: 25,
                 currentStock: 80,
                 lowStockAlert: 15,
                 unit: 'bottle',
@@ -539,8 +539,8 @@ async function main() {
                 name: 'Cement 50kg',
                 category: 'Building Materials',
                 description: 'Premium construction cement',
-                costPrice: 65000,
-                sellingPrice: 80000,
+                costPrice: 65,
+                sellingPrice: 80,
                 currentStock: 200,
                 lowStockAlert: 50,
                 unit: 'bag',
@@ -571,7 +571,7 @@ async function main() {
                 locationId: lumleyLocation.id,
                 type: CustomerType.REGULAR,
                 tags: ['VIP', 'Prompt Payer'],
-                totalSpent: 2450000,
+                totalSpent: 2450,
                 totalVisits: 8,
                 loyaltyScore: 85,
                 lastVisit: new Date('2024-01-15'),
@@ -597,7 +597,7 @@ async function main() {
                 locationId: centralBusinessDistrict.id,
                 type: CustomerType.REGULAR,
                 tags: ['Family', 'Weekly Shopper'],
-                totalSpent: 1250000,
+                totalSpent: 1250,
                 totalVisits: 45,
                 loyaltyScore: 88,
                 lastVisit: new Date('2024-01-19'),
@@ -623,7 +623,7 @@ async function main() {
                 locationId: makeniLocation.id,
                 type: CustomerType.CORPORATE,
                 tags: ['Construction', 'Bulk Order'],
-                totalSpent: 12500000,
+                totalSpent: 12500,
                 totalVisits: 15,
                 loyaltyScore: 90,
                 lastVisit: new Date('2024-01-17'),
@@ -637,12 +637,13 @@ async function main() {
     const salesData = [
         {
             invoiceNumber: 'INV-ELEC-2024-001',
+            currency: 'SLE',
             customerId: electronicsCustomers[0].id,
-            subtotal: 650000,
+            subtotal: 650,
             discount: 0,
             tax: 0,
-            totalAmount: 650000,
-            amountPaid: 650000,
+            totalAmount: 650,
+            amountPaid: 650,
             balanceDue: 0,
             paymentMethod: PaymentMethod.MOBILE_MONEY,
             paymentStatus: PaymentStatus.PAID,
@@ -653,17 +654,18 @@ async function main() {
             ownerId: sunriseElectronics.id,
             soldById: sunriseElectronics.id,
             items: [
-                { productId: electronicsProducts[0].id, productName: 'Smartphone Android 4G', quantity: 1, unitPrice: 650000, totalPrice: 650000 }
+                { productId: electronicsProducts[0].id, productName: 'Smartphone Android 4G', quantity: 1, unitPrice: 650, totalPrice: 650 }
             ]
         },
         {
             invoiceNumber: 'INV-GROC-2024-001',
+            currency: 'SLE',
             customerId: groceryCustomers[0].id,
-            subtotal: 190000,
-            discount: 5000,
+            subtotal: 190,
+            discount: 5,
             tax: 0,
-            totalAmount: 185000,
-            amountPaid: 185000,
+            totalAmount: 185,
+            amountPaid: 185,
             balanceDue: 0,
             paymentMethod: PaymentMethod.CASH,
             paymentStatus: PaymentStatus.PAID,
@@ -674,7 +676,7 @@ async function main() {
             ownerId: freshMart.id,
             soldById: freshMart.id,
             items: [
-                { productId: groceryProducts[0].id, productName: 'Basmati Rice 5kg', quantity: 2, unitPrice: 95000, totalPrice: 190000 }
+                { productId: groceryProducts[0].id, productName: 'Basmati Rice 5kg', quantity: 2, unitPrice: 95, totalPrice: 190 }
             ]
         },
     ];
@@ -709,7 +711,7 @@ async function main() {
             {
                 type: 'BIG_SALE',
                 title: 'Large Sale Completed',
-                message: 'Restaurant Delight made a purchase of Le 475,000',
+                message: 'Restaurant Delight made a purchase of SLE 475',
                 isRead: true,
                 actionUrl: '/sales',
                 ownerId: freshMart.id,